@@ -0,0 +1,29 @@
+/**
+ * Generates the endgame tablebase loaded by the game
+ * Usage: npm run tablebase [-- maxPieces]  (default 4; run after building)
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { generateTablebase } from '../dist/ai/tablebase-generator.js';
+import { DEFAULT_TABLEBASE_PATH } from '../dist/ai/tablebase.js';
+
+const maxPieces = Number(process.argv[2] ?? 4);
+if (!Number.isInteger(maxPieces) || maxPieces < 2 || maxPieces > 4) {
+  console.error('The tablebase covers 2 to 4 pieces');
+  process.exit(1);
+}
+
+const startTime = Date.now();
+const tablebase = generateTablebase(maxPieces, progress => {
+  const material = progress.signatures
+    .map(s => `${s.blackMen}m${s.blackKings}k-${s.whiteMen}m${s.whiteKings}k`)
+    .join(' / ');
+  const seconds = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`[${progress.completed}/${progress.total}] ${material}: ${progress.positions} positions (${seconds}s)`);
+});
+
+const data = new Uint8Array(tablebase.serialize());
+mkdirSync(dirname(DEFAULT_TABLEBASE_PATH), { recursive: true });
+writeFileSync(DEFAULT_TABLEBASE_PATH, data);
+console.log(`Wrote ${tablebase.size} positions (${data.length} bytes) to ${DEFAULT_TABLEBASE_PATH}`);
@@ -0,0 +1,24 @@
+/**
+ * Prints a perft divide, for tracking down move generator bugs
+ * Usage: npm run perft -- <depth> [FEN] [variant]  (defaults to the starting position, American rules)
+ */
+
+import { parseFen, boardToFen } from '../dist/game/fen.js';
+import { createInitialBoard } from '../dist/game/board.js';
+import { divide, formatDivide } from '../dist/game/perft.js';
+import { DEFAULT_VARIANT, isRuleVariant, getRuleSet } from '../dist/game/variants.js';
+
+const depth = Number(process.argv[2] ?? 6);
+const variant = process.argv[4] ?? DEFAULT_VARIANT;
+if (!Number.isInteger(depth) || depth < 1 || !isRuleVariant(variant)) {
+  console.error('Usage: npm run perft -- <depth> [FEN] [american|international|russian|brazilian|italian|pool]');
+  process.exit(1);
+}
+
+// FEN squares are numbered for the variant's board (1-50 on the International 10x10 board)
+const rules = getRuleSet(variant);
+const fen = process.argv[3] ?? boardToFen(createInitialBoard(rules.geometry), 'black');
+const { board, sideToMove } = parseFen(fen, rules.geometry.size);
+const startTime = Date.now();
+console.log(formatDivide(divide(board, sideToMove, depth, rules)));
+console.log(`(${Date.now() - startTime}ms)`);
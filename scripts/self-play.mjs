@@ -0,0 +1,40 @@
+/**
+ * Plays Agatha against herself and reports the results, for comparing search depths
+ * Usage: npm run self-play -- <games> [black depth] [white depth] [variant]  (defaults: depth 4, American rules)
+ */
+
+import { runSelfPlay, formatSelfPlayReport } from '../dist/ai/self-play.js';
+import { DEFAULT_VARIANT, isRuleVariant, getRuleSet } from '../dist/game/variants.js';
+import { DEFAULT_WEIGHTS } from '../dist/types.js';
+
+const games = Number(process.argv[2] ?? 10);
+const blackDepth = Number(process.argv[3] ?? 4);
+const whiteDepth = Number(process.argv[4] ?? blackDepth);
+const variant = process.argv[5] ?? DEFAULT_VARIANT;
+if (
+  ![games, blackDepth, whiteDepth].every(n => Number.isInteger(n) && n >= 1) ||
+  !isRuleVariant(variant)
+) {
+  console.error(
+    'Usage: npm run self-play -- <games> [black depth] [white depth] [american|international|russian|brazilian|italian|pool]'
+  );
+  process.exit(1);
+}
+
+const startTime = Date.now();
+const report = runSelfPlay(
+  games,
+  {
+    rules: getRuleSet(variant),
+    sides: {
+      black: { depth: blackDepth, weights: DEFAULT_WEIGHTS },
+      white: { depth: whiteDepth, weights: DEFAULT_WEIGHTS },
+    },
+    // Other variants have no opening book to vary the games
+    randomPlies: variant === 'american' ? 0 : 2,
+  },
+  (game, i) => console.log(`Game ${i + 1}: ${game.result.status} (${game.result.reason}, ${game.moveHistory.length} plies)`)
+);
+
+console.log(formatSelfPlayReport(report));
+console.log(`(${Date.now() - startTime}ms)`);
@@ -0,0 +1,558 @@
+/**
+ * Bitboard Position
+ * Compact engine representation: one bit per playable square in three 32-bit masks
+ */
+
+import { Piece, Player, Position, Move, BOARD_SIZE, isPlayableSquare } from '../types.js';
+import { RuleSet, AMERICAN_RULES } from '../game/variants.js';
+
+/**
+ * A position as bit masks over the 32 playable squares
+ * Bit i is row floor(i / 4), scanning each row left to right, so ascending
+ * bits visit squares in the same order as a row-by-row scan of the array board.
+ * Black moves up the board and White moves down.
+ */
+export interface Bitboard {
+  black: number;
+  white: number;
+  kings: number;
+}
+
+/**
+ * A move on the bitboard
+ */
+export interface BitMove {
+  readonly from: number;
+  readonly to: number;
+  /** Jumped squares, in order */
+  readonly jumped: number[];
+  /** Every landing square, in order (the last one is `to`) */
+  readonly path: number[];
+  /** Mask of the jumped squares */
+  readonly captured: number;
+  readonly isPromotion: boolean;
+}
+
+/**
+ * Masks before a move, restored by unmakeMove
+ */
+export type BitboardUndo = Readonly<Bitboard>;
+
+/** Number of playable squares */
+export const BITBOARD_SQUARES = (BOARD_SIZE * BOARD_SIZE) / 2;
+
+/** Playable squares per row */
+const SQUARES_PER_ROW = BOARD_SIZE / 2;
+
+/** Directions in the same order as the array rules: up-left, up-right, down-left, down-right */
+const DIRECTION_DELTAS: readonly [number, number][] = [
+  [-1, -1],
+  [-1, 1],
+  [1, -1],
+  [1, 1],
+];
+
+/** Directions a man may move in: Black moves up, White moves down */
+const BLACK_MAN_DIRECTIONS = [0, 1];
+const WHITE_MAN_DIRECTIONS = [2, 3];
+const KING_DIRECTIONS = [0, 1, 2, 3];
+
+/** Mask of the row Black promotes on (row 0) */
+const BLACK_PROMOTION_ROW = (1 << SQUARES_PER_ROW) - 1;
+
+/** Mask of the row White promotes on (the last row) */
+const WHITE_PROMOTION_ROW = (BLACK_PROMOTION_ROW << (BITBOARD_SQUARES - SQUARES_PER_ROW)) >>> 0;
+
+/** Board position of every square */
+const SQUARE_POSITIONS: Position[] = [];
+
+/** Neighboring square per square and direction, or -1 off the board */
+const STEPS: number[] = [];
+
+/** Landing square of a jump per square and direction, or -1 off the board */
+const JUMPS: number[] = [];
+
+for (let index = 0; index < BITBOARD_SQUARES; index++) {
+  const row = Math.floor(index / SQUARES_PER_ROW);
+  const col = 2 * (index % SQUARES_PER_ROW) + (row % 2 === 0 ? 1 : 0);
+  SQUARE_POSITIONS.push({ row, col });
+}
+
+for (let index = 0; index < BITBOARD_SQUARES; index++) {
+  const { row, col } = SQUARE_POSITIONS[index];
+  for (const [rowDelta, colDelta] of DIRECTION_DELTAS) {
+    STEPS.push(positionToIndex({ row: row + rowDelta, col: col + colDelta }));
+    JUMPS.push(positionToIndex({ row: row + 2 * rowDelta, col: col + 2 * colDelta }));
+  }
+}
+
+/**
+ * Converts a board position to its bit index, or -1 for unplayable squares
+ */
+export function positionToIndex(pos: Position): number {
+  if (
+    pos.row < 0 ||
+    pos.row >= BOARD_SIZE ||
+    pos.col < 0 ||
+    pos.col >= BOARD_SIZE ||
+    !isPlayableSquare(pos.row, pos.col)
+  ) {
+    return -1;
+  }
+  return pos.row * SQUARES_PER_ROW + (pos.col >> 1);
+}
+
+/**
+ * Converts a bit index to its board position
+ */
+export function indexToPosition(index: number): Position {
+  return SQUARE_POSITIONS[index];
+}
+
+/**
+ * Counts the set bits in a mask
+ */
+export function countBits(mask: number): number {
+  let count = 0;
+  for (let m = mask; m !== 0; m &= m - 1) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Gets the index of the lowest set bit of a non-empty mask
+ */
+function lowestBit(mask: number): number {
+  return 31 - Math.clz32(mask & -mask);
+}
+
+/**
+ * Converts an array board to a bitboard
+ */
+export function fromBoard(board: (Piece | null)[][]): Bitboard {
+  let black = 0;
+  let white = 0;
+  let kings = 0;
+
+  for (let index = 0; index < BITBOARD_SQUARES; index++) {
+    const { row, col } = SQUARE_POSITIONS[index];
+    const piece = board[row][col];
+    if (!piece) {
+      continue;
+    }
+
+    const bit = 1 << index;
+    if (piece.player === 'black') {
+      black |= bit;
+    } else {
+      white |= bit;
+    }
+    if (piece.type === 'king') {
+      kings |= bit;
+    }
+  }
+
+  return { black: black >>> 0, white: white >>> 0, kings: kings >>> 0 };
+}
+
+/**
+ * Converts a bitboard to an array board
+ */
+export function toBoard(bitboard: Bitboard): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+
+  for (let index = 0; index < BITBOARD_SQUARES; index++) {
+    const bit = 1 << index;
+    const player = getSquarePlayer(bitboard, index);
+    if (player) {
+      const position = indexToPosition(index);
+      board[position.row][position.col] = {
+        player,
+        type: bitboard.kings & bit ? 'king' : 'man',
+        position,
+      };
+    }
+  }
+
+  return board;
+}
+
+/**
+ * Creates an independent copy of a bitboard
+ */
+export function cloneBitboard(bitboard: Bitboard): Bitboard {
+  return { black: bitboard.black, white: bitboard.white, kings: bitboard.kings };
+}
+
+/**
+ * Gets the mask of a player's pieces
+ */
+export function getPlayerMask(bitboard: Bitboard, player: Player): number {
+  return player === 'black' ? bitboard.black : bitboard.white;
+}
+
+/**
+ * Gets the player owning a square, or null if it is empty
+ */
+function getSquarePlayer(bitboard: Bitboard, index: number): Player | null {
+  const bit = 1 << index;
+  if (bitboard.black & bit) {
+    return 'black';
+  }
+  if (bitboard.white & bit) {
+    return 'white';
+  }
+  return null;
+}
+
+/**
+ * Gets the mask of the row where a player's men are crowned
+ */
+function getPromotionRow(player: Player): number {
+  return player === 'black' ? BLACK_PROMOTION_ROW : WHITE_PROMOTION_ROW;
+}
+
+/**
+ * Gets the directions a piece on a square may move in
+ */
+function getDirections(bitboard: Bitboard, index: number, player: Player): number[] {
+  if (bitboard.kings & (1 << index)) {
+    return KING_DIRECTIONS;
+  }
+  return player === 'black' ? BLACK_MAN_DIRECTIONS : WHITE_MAN_DIRECTIONS;
+}
+
+/**
+ * Gets the directions a piece may capture in
+ */
+function getCaptureDirections(isKing: boolean, player: Player, rules: RuleSet): number[] {
+  if (isKing || rules.menCaptureBackward) {
+    return KING_DIRECTIONS;
+  }
+  return player === 'black' ? BLACK_MAN_DIRECTIONS : WHITE_MAN_DIRECTIONS;
+}
+
+/**
+ * Gets the simple (non-capture) moves for a player
+ * Flying kings slide until something blocks them
+ */
+function generateSimpleMoves(bitboard: Bitboard, player: Player, rules: RuleSet): BitMove[] {
+  const moves: BitMove[] = [];
+  const empty = ~(bitboard.black | bitboard.white);
+  const promotionRow = getPromotionRow(player);
+
+  for (let pieces = getPlayerMask(bitboard, player); pieces !== 0; pieces &= pieces - 1) {
+    const from = lowestBit(pieces);
+    const isMan = (bitboard.kings & (1 << from)) === 0;
+    const flying = !isMan && rules.flyingKings;
+
+    for (const direction of getDirections(bitboard, from, player)) {
+      for (let to = STEPS[from * 4 + direction]; to >= 0 && empty & (1 << to); to = STEPS[to * 4 + direction]) {
+        moves.push({
+          from,
+          to,
+          jumped: [],
+          path: [to],
+          captured: 0,
+          isPromotion: isMan && (promotionRow & (1 << to)) !== 0,
+        });
+
+        if (!flying) {
+          break;
+        }
+      }
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Fixed facts about the capture being extended
+ */
+interface CaptureSearch {
+  readonly moves: BitMove[];
+  readonly rules: RuleSet;
+  readonly player: Player;
+  readonly from: number;
+  readonly opponents: number;
+  readonly opponentKings: number;
+  readonly promotionRow: number;
+}
+
+/**
+ * Extends a capture sequence as far as it goes, collecting every complete route
+ * Jumped pieces stay on the board until the capture ends, so they can be
+ * neither jumped twice nor passed over. A man reaching the far row is crowned
+ * at once where the rules say so, otherwise it goes on capturing as a man.
+ * A flying king must land where it can go on capturing when any square
+ * behind the jumped piece allows it.
+ * @returns Whether the capture went on from the current square
+ */
+function collectCaptures(
+  search: CaptureSearch,
+  current: number,
+  occupied: number,
+  isKing: boolean,
+  jumped: number[],
+  path: number[],
+  captured: number,
+  isPromotion: boolean
+): boolean {
+  const { rules } = search;
+  const flying = isKing && rules.flyingKings;
+  let extended = false;
+
+  for (const direction of getCaptureDirections(isKing, search.player, rules)) {
+    let over = STEPS[current * 4 + direction];
+    while (flying && over >= 0 && !(occupied & (1 << over))) {
+      over = STEPS[over * 4 + direction];
+    }
+
+    const overBit = 1 << over;
+    if (
+      over < 0 ||
+      !(search.opponents & overBit) ||
+      captured & overBit ||
+      (!isKing && !rules.menCaptureKings && search.opponentKings & overBit)
+    ) {
+      continue;
+    }
+
+    // Routes stopping behind the jumped piece, kept only if none goes on
+    const stops: BitMove[] = [];
+    let continued = false;
+
+    for (
+      let landing = STEPS[over * 4 + direction];
+      landing >= 0 && !(occupied & (1 << landing));
+      landing = STEPS[landing * 4 + direction]
+    ) {
+      extended = true;
+      const crowned = !isKing && rules.promoteMidCapture && (search.promotionRow & (1 << landing)) !== 0;
+
+      const goesOn = collectCaptures(
+        search,
+        landing,
+        ((occupied & ~(1 << current)) | (1 << landing)) >>> 0,
+        isKing || crowned,
+        [...jumped, over],
+        [...path, landing],
+        (captured | overBit) >>> 0,
+        isPromotion || crowned
+      );
+
+      if (goesOn) {
+        continued = true;
+      } else {
+        stops.push(search.moves.pop()!);
+      }
+
+      if (!flying) {
+        break;
+      }
+    }
+
+    if (!continued) {
+      search.moves.push(...stops);
+    }
+  }
+
+  if (!extended && jumped.length > 0) {
+    search.moves.push({
+      from: search.from,
+      to: current,
+      jumped,
+      path,
+      captured,
+      isPromotion: isPromotion || (!isKing && (search.promotionRow & (1 << current)) !== 0),
+    });
+  }
+
+  return extended;
+}
+
+/**
+ * Gets every capture for a player, including multi-jumps
+ * Under maximum capture rules only the captures taking the most pieces count
+ */
+export function generateCaptures(
+  bitboard: Bitboard,
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
+): BitMove[] {
+  const moves: BitMove[] = [];
+  const opponents = player === 'black' ? bitboard.white : bitboard.black;
+  const occupied = bitboard.black | bitboard.white;
+
+  for (let pieces = getPlayerMask(bitboard, player); pieces !== 0; pieces &= pieces - 1) {
+    const from = lowestBit(pieces);
+    collectCaptures(
+      {
+        moves,
+        rules,
+        player,
+        from,
+        opponents,
+        opponentKings: opponents & bitboard.kings,
+        promotionRow: getPromotionRow(player),
+      },
+      from,
+      occupied,
+      (bitboard.kings & (1 << from)) !== 0,
+      [],
+      [],
+      0,
+      false
+    );
+  }
+
+  if (!rules.maximumCapture) {
+    return moves;
+  }
+
+  const most = moves.reduce((max, move) => Math.max(max, move.jumped.length), 0);
+  return moves.filter(move => move.jumped.length === most);
+}
+
+/**
+ * Gets every legal move for a player
+ * Captures are mandatory, so simple moves are only returned when none exist
+ */
+export function generateMoves(
+  bitboard: Bitboard,
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
+): BitMove[] {
+  const captures = generateCaptures(bitboard, player, rules);
+  return captures.length > 0 ? captures : generateSimpleMoves(bitboard, player, rules);
+}
+
+/**
+ * Checks whether a player has a capture available
+ */
+export function hasCapture(
+  bitboard: Bitboard,
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
+): boolean {
+  const opponents = player === 'black' ? bitboard.white : bitboard.black;
+  const occupied = bitboard.black | bitboard.white;
+
+  for (let pieces = getPlayerMask(bitboard, player); pieces !== 0; pieces &= pieces - 1) {
+    const from = lowestBit(pieces);
+    const isKing = (bitboard.kings & (1 << from)) !== 0;
+    const flying = isKing && rules.flyingKings;
+
+    for (const direction of getCaptureDirections(isKing, player, rules)) {
+      let over = STEPS[from * 4 + direction];
+      while (flying && over >= 0 && !(occupied & (1 << over))) {
+        over = STEPS[over * 4 + direction];
+      }
+      if (over < 0 || !(opponents & (1 << over))) {
+        continue;
+      }
+      if (!isKing && !rules.menCaptureKings && bitboard.kings & (1 << over)) {
+        continue;
+      }
+
+      const landing = STEPS[over * 4 + direction];
+      if (landing >= 0 && !(occupied & (1 << landing))) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Plays a move on the bitboard (modifies it in place)
+ * Returns the masks needed to take the move back
+ */
+export function makeMove(bitboard: Bitboard, move: BitMove): BitboardUndo {
+  const undo = cloneBitboard(bitboard);
+  const fromBit = 1 << move.from;
+  const toBit = 1 << move.to;
+  const isBlack = (bitboard.black & fromBit) !== 0;
+  const isKing = (bitboard.kings & fromBit) !== 0;
+  const promotionRow = getPromotionRow(isBlack ? 'black' : 'white');
+
+  if (isBlack) {
+    bitboard.black = ((bitboard.black & ~fromBit) | toBit) >>> 0;
+    bitboard.white = (bitboard.white & ~move.captured) >>> 0;
+  } else {
+    bitboard.white = ((bitboard.white & ~fromBit) | toBit) >>> 0;
+    bitboard.black = (bitboard.black & ~move.captured) >>> 0;
+  }
+
+  let kings = bitboard.kings & ~fromBit & ~move.captured;
+  if (isKing || move.isPromotion) {
+    kings |= toBit;
+  }
+  bitboard.kings = kings >>> 0;
+
+  return undo;
+}
+
+/**
+ * Takes back a move played by makeMove
+ */
+export function unmakeMove(bitboard: Bitboard, undo: BitboardUndo): void {
+  bitboard.black = undo.black;
+  bitboard.white = undo.white;
+  bitboard.kings = undo.kings;
+}
+
+/**
+ * Converts a bitboard move to a move on the array board
+ * @param bitboard Position before the move
+ */
+export function toMove(bitboard: Bitboard, move: BitMove): Move {
+  return {
+    from: indexToPosition(move.from),
+    to: indexToPosition(move.to),
+    captures: move.jumped.map(indexToPosition),
+    landings: move.path.map(indexToPosition),
+    capturedTypes: move.jumped.map(index => (bitboard.kings & (1 << index) ? 'king' : 'man')),
+    isPromotion: move.isPromotion,
+  };
+}
+
+/**
+ * Converts a move on the array board to a bitboard move
+ */
+export function fromMove(move: Move): BitMove {
+  const jumped = move.captures.map(positionToIndex);
+  return {
+    from: positionToIndex(move.from),
+    to: positionToIndex(move.to),
+    jumped,
+    path: move.landings.map(positionToIndex),
+    captured: jumped.reduce((mask, index) => (mask | (1 << index)) >>> 0, 0),
+    isPromotion: move.isPromotion,
+  };
+}
+
+/**
+ * Checks whether two bitboard moves follow the same route
+ */
+export function isSameBitMove(a: BitMove, b: BitMove): boolean {
+  return (
+    a.from === b.from &&
+    a.path.length === b.path.length &&
+    a.path.every((index, i) => index === b.path[i])
+  );
+}
+
+/**
+ * Gets the neighboring square in a direction (0-3: up-left, up-right,
+ * down-left, down-right), or -1 off the board
+ */
+export function getNeighbor(index: number, direction: number): number {
+  return STEPS[index * 4 + direction];
+}
@@ -0,0 +1,138 @@
+/**
+ * Difficulty Levels
+ * How deep Agatha looks, what she values and how often she strays from her best move
+ */
+
+import {
+  Piece,
+  Move,
+  EvaluationWeights,
+  DEFAULT_WEIGHTS,
+  AI_SEARCH_DEPTH,
+  MAX_SEARCH_DEPTH,
+} from '../types.js';
+import { getTopMoves } from './minimax.js';
+
+/** Available difficulty levels, weakest first */
+export type DifficultyLevel = 'novice' | 'adept' | 'precog' | 'oracle';
+
+/**
+ * Search and evaluation settings for a level
+ */
+export interface Difficulty {
+  readonly level: DifficultyLevel;
+  readonly name: string;
+  readonly description: string;
+  /** Deepest iteration searched (the think time may stop it sooner) */
+  readonly maxDepth: number;
+  readonly weights: EvaluationWeights;
+  /** Chance of picking a random move among the top moves instead of the best */
+  readonly randomness: number;
+  /** How many top moves a random pick chooses from */
+  readonly topMoveCount: number;
+}
+
+/** Level used until the player picks one */
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 'precog';
+
+/** Settings for every level */
+export const DIFFICULTIES: Record<DifficultyLevel, Difficulty> = {
+  novice: {
+    level: 'novice',
+    name: 'Novice',
+    description: 'Sees two moves ahead, undervalues kings and often misreads the future',
+    maxDepth: 2,
+    weights: {
+      pieceValue: 100,
+      kingValue: 110,
+      centerControl: 0,
+      advancement: 0,
+      backRowDefense: 0,
+      mobilityBonus: 0,
+    },
+    randomness: 0.4,
+    topMoveCount: 3,
+  },
+  adept: {
+    level: 'adept',
+    name: 'Adept',
+    description: 'Sees four moves ahead with a rough sense of position',
+    maxDepth: 4,
+    weights: {
+      pieceValue: 100,
+      kingValue: 130,
+      centerControl: 5,
+      advancement: 3,
+      backRowDefense: 0,
+      mobilityBonus: 1,
+    },
+    randomness: 0.2,
+    topMoveCount: 3,
+  },
+  precog: {
+    level: 'precog',
+    name: 'Precog',
+    description: 'Agatha as she was trained: eight moves ahead, always her best move',
+    maxDepth: AI_SEARCH_DEPTH,
+    weights: DEFAULT_WEIGHTS,
+    randomness: 0,
+    topMoveCount: 1,
+  },
+  oracle: {
+    level: 'oracle',
+    name: 'Oracle',
+    description: 'Searches as deep as the think time allows',
+    maxDepth: MAX_SEARCH_DEPTH,
+    weights: DEFAULT_WEIGHTS,
+    randomness: 0,
+    topMoveCount: 1,
+  },
+};
+
+/**
+ * Checks whether a string names a difficulty level (e.g. a stored setting)
+ */
+export function isDifficultyLevel(value: string | null): value is DifficultyLevel {
+  return value !== null && Object.prototype.hasOwnProperty.call(DIFFICULTIES, value);
+}
+
+/**
+ * Gets the settings for a level
+ */
+export function getDifficulty(level: DifficultyLevel): Difficulty {
+  return DIFFICULTIES[level];
+}
+
+/**
+ * Gets how deep a level searches after each of its top moves: one ply less
+ * than its own search, since the move itself is the first ply
+ */
+export function getTopMoveDepth(difficulty: Difficulty): number {
+  return Math.max(1, difficulty.maxDepth - 1);
+}
+
+/**
+ * Applies a level's randomness to the searched best move
+ * The weaker moves are drawn from those of the side playing the best move,
+ * searched no deeper than the level itself searches
+ * Returns the move to play and whether it was a random pick
+ */
+export function chooseMoveForDifficulty(
+  board: (Piece | null)[][],
+  bestMove: Move | null,
+  difficulty: Difficulty,
+  random: () => number = Math.random
+): { move: Move | null; randomPick: boolean } {
+  if (!bestMove || difficulty.randomness <= 0 || random() >= difficulty.randomness) {
+    return { move: bestMove, randomPick: false };
+  }
+
+  const player = board[bestMove.from.row][bestMove.from.col]?.player ?? 'white';
+  const candidates = getTopMoves(board, player, difficulty.topMoveCount, getTopMoveDepth(difficulty));
+  if (candidates.length <= 1) {
+    return { move: bestMove, randomPick: false };
+  }
+
+  const index = Math.min(Math.floor(random() * candidates.length), candidates.length - 1);
+  return { move: candidates[index].move, randomPick: true };
+}
@@ -0,0 +1,373 @@
+/**
+ * Engine Client
+ * Sends searches to the engine worker, falling back to the main thread
+ * when workers are unavailable (e.g. under vitest)
+ */
+
+import { Piece, Player, Move, MoveAnnotation, SearchDepthInfo } from '../types.js';
+import {
+  EngineRequest,
+  EngineResponse,
+  EngineSearchMetrics,
+  handleEngineRequest,
+} from './engine-protocol.js';
+import { PredictedLine, DEEP_VISION_PLIES } from './precog.js';
+import { GameAnalysis, DEFAULT_ANALYSIS_OPTIONS } from './game-analysis.js';
+import { DifficultyLevel, DEFAULT_DIFFICULTY } from './difficulty.js';
+import { RuleVariant, DEFAULT_VARIANT } from '../game/variants.js';
+
+/**
+ * Error used to reject requests abandoned by cancel()
+ */
+export class EngineCancelledError extends Error {
+  constructor() {
+    super('Engine request cancelled');
+    this.name = 'EngineCancelledError';
+  }
+}
+
+/**
+ * Best move and statistics of a finished search
+ */
+export interface EngineSearchResult {
+  readonly move: Move | null;
+  readonly metrics: EngineSearchMetrics;
+}
+
+/**
+ * The parts of a Worker the client uses
+ */
+export interface EngineWorkerLike {
+  onmessage: ((event: MessageEvent<EngineResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  postMessage(request: EngineRequest): void;
+  terminate(): void;
+}
+
+/**
+ * A request waiting for its result
+ */
+interface PendingRequest {
+  readonly request: EngineRequest;
+  readonly resolve: (response: EngineResponse) => void;
+  readonly reject: (error: Error) => void;
+  readonly onProgress?: (info: SearchDepthInfo) => void;
+}
+
+/**
+ * Starts the engine worker, or returns null where workers do not exist
+ */
+function createBrowserWorker(): EngineWorkerLike | null {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+  return new Worker(new URL('./engine-worker.js', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Agatha Engine class
+ * Requests are answered in the order they are sent
+ */
+export class AgathaEngine {
+  private _createWorker: () => EngineWorkerLike | null;
+  private _worker: EngineWorkerLike | null = null;
+  private _workerUnavailable = false;
+  private _nextId = 1;
+  private _pending: Map<number, PendingRequest> = new Map();
+  private _tablebaseData: ArrayBuffer | null = null;
+  private _variant: RuleVariant = DEFAULT_VARIANT;
+  /** Id of the prediction the worker is working on */
+  private _runningPrediction: number | null = null;
+  /** Latest prediction asked for while another ran, sent once that one is done */
+  private _waitingPrediction: EngineRequest | null = null;
+
+  constructor(createWorker: () => EngineWorkerLike | null = createBrowserWorker) {
+    this._createWorker = createWorker;
+  }
+
+  /**
+   * Checks if searches run off the main thread
+   */
+  get usesWorker(): boolean {
+    return this._getWorker() !== null;
+  }
+
+  /**
+   * Gets the rule variant searches play by
+   */
+  get variant(): RuleVariant {
+    return this._variant;
+  }
+
+  /**
+   * Sets the rule variant later searches and predictions play by
+   */
+  set variant(variant: RuleVariant) {
+    this._variant = variant;
+  }
+
+  /**
+   * Finds the player's move within a time budget, reporting each completed depth
+   * The difficulty sets the depth limit, evaluation and chance of a weaker move
+   */
+  async search(
+    board: (Piece | null)[][],
+    timeMs: number,
+    difficulty: DifficultyLevel = DEFAULT_DIFFICULTY,
+    onProgress?: (info: SearchDepthInfo) => void,
+    player: Player = 'white'
+  ): Promise<EngineSearchResult> {
+    const response = await this._send(
+      { type: 'search', id: this._nextId++, board, player, timeMs, difficulty, variant: this._variant },
+      onProgress
+    );
+
+    if (response.type !== 'searchResult') {
+      throw new Error(`Unexpected engine response "${response.type}"`);
+    }
+    return { move: response.move, metrics: response.metrics };
+  }
+
+  /**
+   * Foresees the line of play after a candidate move, the move included
+   * One prediction runs at a time; asking for another while one runs replaces
+   * any prediction still waiting, which is rejected with EngineCancelledError
+   */
+  async predictLine(
+    board: (Piece | null)[][],
+    move: Move,
+    plies: number = DEEP_VISION_PLIES,
+    difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
+  ): Promise<PredictedLine> {
+    const response = await this._sendPrediction({
+      type: 'predictLine',
+      id: this._nextId++,
+      board,
+      move,
+      plies,
+      difficulty,
+      variant: this._variant,
+    });
+
+    if (response.type !== 'predictLineResult') {
+      throw new Error(`Unexpected engine response "${response.type}"`);
+    }
+    return response.prediction;
+  }
+
+  /**
+   * Judges a played move against the best move of the position it was played in
+   */
+  async annotateMove(
+    board: (Piece | null)[][],
+    move: Move,
+    difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
+  ): Promise<MoveAnnotation> {
+    const response = await this._send({
+      type: 'annotate',
+      id: this._nextId++,
+      board,
+      move,
+      difficulty,
+      variant: this._variant,
+    });
+
+    if (response.type !== 'annotateResult') {
+      throw new Error(`Unexpected engine response "${response.type}"`);
+    }
+    return response.annotation;
+  }
+
+  /**
+   * Grades every move of a game played from the given position
+   */
+  async analyzeGame(
+    board: (Piece | null)[][],
+    moves: Move[],
+    depth: number = DEFAULT_ANALYSIS_OPTIONS.depth,
+    difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
+  ): Promise<GameAnalysis> {
+    const response = await this._send({
+      type: 'analyze',
+      id: this._nextId++,
+      board,
+      moves,
+      depth,
+      difficulty,
+      variant: this._variant,
+    });
+
+    if (response.type !== 'analysisResult') {
+      throw new Error(`Unexpected engine response "${response.type}"`);
+    }
+    return response.analysis;
+  }
+
+  /**
+   * Loads endgame tables into the engine, returning the number of positions
+   * The tables are sent again to every worker started later
+   */
+  async loadTablebase(data: ArrayBuffer): Promise<number> {
+    const pending = this._send({ type: 'tablebase', id: this._nextId++, data });
+    this._tablebaseData = data;
+    const response = await pending;
+
+    if (response.type !== 'tablebaseLoaded') {
+      throw new Error(`Unexpected engine response "${response.type}"`);
+    }
+    return response.positions;
+  }
+
+  /**
+   * Abandons the prediction waiting for the running one to finish, if any
+   * The running prediction is left to finish
+   */
+  dropWaitingPrediction(): void {
+    const waiting = this._waitingPrediction;
+    if (!waiting) {
+      return;
+    }
+
+    this._waitingPrediction = null;
+    const pending = this._pending.get(waiting.id);
+    this._pending.delete(waiting.id);
+    pending?.reject(new EngineCancelledError());
+  }
+
+  /**
+   * Abandons every pending request
+   * The worker is stopped mid-search and restarted on the next request
+   */
+  cancel(): void {
+    if (this._worker) {
+      this._worker.terminate();
+      this._worker = null;
+    }
+    this._runningPrediction = null;
+    this._waitingPrediction = null;
+
+    const pending = [...this._pending.values()];
+    this._pending.clear();
+    pending.forEach(entry => entry.reject(new EngineCancelledError()));
+  }
+
+  /**
+   * Sends a request to the worker, or answers it synchronously without one
+   */
+  private _send(
+    request: EngineRequest,
+    onProgress?: (info: SearchDepthInfo) => void
+  ): Promise<EngineResponse> {
+    return new Promise((resolve, reject) => {
+      this._pending.set(request.id, { request, resolve, reject, onProgress });
+      this._post(request);
+    });
+  }
+
+  /**
+   * Sends a prediction, or holds it back until the running one is done
+   * so that predictions the pointer has moved past never pile up in the worker
+   */
+  private _sendPrediction(request: EngineRequest): Promise<EngineResponse> {
+    if (this._runningPrediction === null) {
+      this._runningPrediction = request.id;
+      return this._send(request);
+    }
+
+    this.dropWaitingPrediction();
+    return new Promise((resolve, reject) => {
+      this._pending.set(request.id, { request, resolve, reject });
+      this._waitingPrediction = request;
+    });
+  }
+
+  /**
+   * Posts a request to the worker, or answers it synchronously without one
+   */
+  private _post(request: EngineRequest): void {
+    const worker = this._getWorker();
+    if (worker) {
+      worker.postMessage(request);
+    } else {
+      handleEngineRequest(request, response => this._dispatch(response));
+    }
+  }
+
+  /**
+   * Gets the running worker, starting one if needed
+   */
+  private _getWorker(): EngineWorkerLike | null {
+    if (this._worker || this._workerUnavailable) {
+      return this._worker;
+    }
+
+    this._worker = this._createWorker();
+    if (!this._worker) {
+      this._workerUnavailable = true;
+      return null;
+    }
+
+    this._worker.onmessage = event => this._dispatch(event.data);
+    this._worker.onerror = event => this._handleWorkerError(event);
+
+    // A restarted worker starts without the tables loaded into the last one
+    if (this._tablebaseData) {
+      this._worker.postMessage({ type: 'tablebase', id: this._nextId++, data: this._tablebaseData });
+    }
+    return this._worker;
+  }
+
+  /**
+   * Routes a response to the request it answers
+   * Responses to cancelled requests are ignored
+   */
+  private _dispatch(response: EngineResponse): void {
+    const pending = this._pending.get(response.id);
+    if (!pending) {
+      return;
+    }
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.info);
+        break;
+      case 'error':
+        this._pending.delete(response.id);
+        pending.reject(new Error(response.message));
+        break;
+      default:
+        this._pending.delete(response.id);
+        pending.resolve(response);
+    }
+
+    if (response.type !== 'progress' && response.id === this._runningPrediction) {
+      this._runningPrediction = null;
+      const waiting = this._waitingPrediction;
+      if (waiting) {
+        this._waitingPrediction = null;
+        this._runningPrediction = waiting.id;
+        this._post(waiting);
+      }
+    }
+  }
+
+  /**
+   * Falls back to the main thread if the worker fails (e.g. it could not load)
+   */
+  private _handleWorkerError(event: ErrorEvent): void {
+    console.warn('Engine worker failed, searching on the main thread', event.message);
+
+    this._worker?.terminate();
+    this._worker = null;
+    this._workerUnavailable = true;
+    this._runningPrediction = null;
+    this._waitingPrediction = null;
+
+    if (this._tablebaseData) {
+      handleEngineRequest({ type: 'tablebase', id: this._nextId++, data: this._tablebaseData }, () => {});
+    }
+    for (const pending of [...this._pending.values()]) {
+      handleEngineRequest(pending.request, response => this._dispatch(response));
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Engine Message Protocol
+ * Messages exchanged with the search worker, and the handler that answers them
+ */
+
+import { Piece, Player, Move, MoveAnnotation, SearchDepthInfo } from '../types.js';
+import { RuleVariant, getRuleSet } from '../game/variants.js';
+import { Tablebase, setTablebase } from './tablebase.js';
+import {
+  search,
+  setEvaluationWeights,
+  setRules,
+} from './minimax.js';
+import { DifficultyLevel, getDifficulty, chooseMoveForDifficulty } from './difficulty.js';
+import { PredictedLine, getPredictedLine, annotateMove } from './precog.js';
+import { GameAnalysis, analyzeGame } from './game-analysis.js';
+
+/**
+ * Messages sent to the engine
+ * - search: find the best move for the player to move within a time budget
+ * - predictLine: foresee the line of play after one candidate move
+ * - annotate: judge a played move against the best move of its position
+ * - analyze: grade every move of a game played from the given position
+ * - tablebase: load endgame tables (the binary format of Tablebase.parse)
+ */
+export type EngineRequest =
+  | {
+      readonly type: 'search';
+      readonly id: number;
+      readonly board: (Piece | null)[][];
+      readonly player: Player;
+      readonly timeMs: number;
+      readonly difficulty: DifficultyLevel;
+      readonly variant: RuleVariant;
+    }
+  | {
+      readonly type: 'predictLine';
+      readonly id: number;
+      readonly board: (Piece | null)[][];
+      readonly move: Move;
+      readonly plies: number;
+      readonly difficulty: DifficultyLevel;
+      readonly variant: RuleVariant;
+    }
+  | {
+      readonly type: 'annotate';
+      readonly id: number;
+      readonly board: (Piece | null)[][];
+      readonly move: Move;
+      readonly difficulty: DifficultyLevel;
+      readonly variant: RuleVariant;
+    }
+  | {
+      readonly type: 'analyze';
+      readonly id: number;
+      readonly board: (Piece | null)[][];
+      readonly moves: Move[];
+      readonly depth: number;
+      readonly difficulty: DifficultyLevel;
+      readonly variant: RuleVariant;
+    }
+  | {
+      readonly type: 'tablebase';
+      readonly id: number;
+      readonly data: ArrayBuffer;
+    };
+
+/**
+ * Search statistics returned with the best move
+ * The depth, score and PV are those of the deepest completed iteration
+ */
+export interface EngineSearchMetrics {
+  readonly depth: number;
+  readonly score: number;
+  readonly pv: Move[];
+  readonly nodesEvaluated: number;
+  readonly elapsedMs: number;
+  readonly transpositionHitRate: number;
+  readonly iterations: SearchDepthInfo[];
+  readonly aborted: boolean;
+  readonly difficulty: DifficultyLevel;
+  /** True when the difficulty's randomness replaced the best move */
+  readonly randomPick: boolean;
+  /** Opening the move was taken from, or null when it was searched */
+  readonly bookMove: string | null;
+}
+
+/**
+ * Messages sent back by the engine
+ * Every message carries the id of the request it answers
+ */
+export type EngineResponse =
+  | {
+      readonly type: 'progress';
+      readonly id: number;
+      readonly info: SearchDepthInfo;
+    }
+  | {
+      readonly type: 'searchResult';
+      readonly id: number;
+      readonly move: Move | null;
+      readonly metrics: EngineSearchMetrics;
+    }
+  | {
+      readonly type: 'predictLineResult';
+      readonly id: number;
+      readonly prediction: PredictedLine;
+    }
+  | {
+      readonly type: 'annotateResult';
+      readonly id: number;
+      readonly annotation: MoveAnnotation;
+    }
+  | {
+      readonly type: 'analysisResult';
+      readonly id: number;
+      readonly analysis: GameAnalysis;
+    }
+  | {
+      readonly type: 'tablebaseLoaded';
+      readonly id: number;
+      readonly positions: number;
+    }
+  | {
+      readonly type: 'error';
+      readonly id: number;
+      readonly message: string;
+    };
+
+/**
+ * Answers an engine request, posting progress and the result
+ * Shared by the worker and the synchronous fallback
+ */
+export function handleEngineRequest(
+  request: EngineRequest,
+  post: (response: EngineResponse) => void
+): void {
+  try {
+    if (request.type === 'tablebase') {
+      const tablebase = Tablebase.parse(request.data);
+      setTablebase(tablebase);
+      post({ type: 'tablebaseLoaded', id: request.id, positions: tablebase.size });
+      return;
+    }
+
+    const difficulty = getDifficulty(request.difficulty);
+    const rules = getRuleSet(request.variant);
+    setEvaluationWeights(difficulty.weights);
+    setRules(rules);
+
+    switch (request.type) {
+      case 'search': {
+        // Scores go back from White's perspective whichever side searched
+        const toWhite = (score: number) => (request.player === 'white' ? score : 0 - score);
+        const result = search(request.board, request.player, {
+          depth: difficulty.maxDepth,
+          maxTimeMs: request.timeMs,
+          useBook: true,
+          onProgress: info =>
+            post({ type: 'progress', id: request.id, info: { ...info, score: toWhite(info.score) } }),
+        });
+        // Book moves are played as they are, without the level's randomness
+        const choice = result.bookOpening
+          ? { move: result.bestMove, randomPick: false }
+          : chooseMoveForDifficulty(request.board, result.bestMove, difficulty);
+        post({
+          type: 'searchResult',
+          id: request.id,
+          move: choice.move,
+          metrics: {
+            depth: result.stats.depth,
+            score: toWhite(result.score),
+            pv: result.pv,
+            nodesEvaluated: result.stats.nodesEvaluated,
+            elapsedMs: result.stats.elapsedMs,
+            transpositionHitRate: result.stats.transposition.hitRate,
+            iterations: result.iterations.map(info => ({ ...info, score: toWhite(info.score) })),
+            aborted: result.stats.aborted,
+            difficulty: difficulty.level,
+            randomPick: choice.randomPick,
+            bookMove: result.bookOpening,
+          },
+        });
+        break;
+      }
+      case 'predictLine':
+        post({
+          type: 'predictLineResult',
+          id: request.id,
+          prediction: getPredictedLine(request.board, request.move, request.plies),
+        });
+        break;
+      case 'annotate':
+        post({
+          type: 'annotateResult',
+          id: request.id,
+          annotation: annotateMove(request.board, request.move),
+        });
+        break;
+      case 'analyze':
+        post({
+          type: 'analysisResult',
+          id: request.id,
+          analysis: analyzeGame(request.board, request.moves, { depth: request.depth }),
+        });
+        break;
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
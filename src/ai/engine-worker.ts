@@ -0,0 +1,18 @@
+/**
+ * Engine Worker
+ * Runs Agatha's searches off the main thread
+ */
+
+import { EngineRequest, EngineResponse, handleEngineRequest } from './engine-protocol.js';
+
+/**
+ * The worker's global scope (the DOM lib types `self` as a window)
+ */
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EngineRequest>) => void) | null;
+  postMessage(message: EngineResponse): void;
+};
+
+scope.onmessage = event => {
+  handleEngineRequest(event.data, response => scope.postMessage(response));
+};
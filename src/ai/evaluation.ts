@@ -17,19 +17,28 @@ import {
   getOpponent,
 } from '../game/board.js';
 import { getAllValidMoves } from '../game/rules.js';
+import { RuleSet, AMERICAN_RULES } from '../game/variants.js';
+import {
+  Bitboard,
+  getPlayerMask,
+  generateMoves,
+  indexToPosition,
+  getNeighbor,
+} from './bitboard.js';
 
 /**
- * Evaluates the board from Agatha's perspective
- * Positive scores favor Agatha, negative favor human
+ * Evaluates the board from White's perspective
+ * Positive scores favor White, negative favor Black
  */
 export function evaluateBoard(
   board: (Piece | null)[][],
-  weights: EvaluationWeights = DEFAULT_WEIGHTS
+  weights: EvaluationWeights = DEFAULT_WEIGHTS,
+  rules: RuleSet = AMERICAN_RULES
 ): number {
-  const agathaScore = evaluatePlayerPosition(board, 'agatha', weights);
-  const humanScore = evaluatePlayerPosition(board, 'human', weights);
+  const whiteScore = evaluatePlayerPosition(board, 'white', weights, rules);
+  const blackScore = evaluatePlayerPosition(board, 'black', weights, rules);
 
-  return agathaScore - humanScore;
+  return whiteScore - blackScore;
 }
 
 /**
@@ -38,7 +47,8 @@ export function evaluateBoard(
 function evaluatePlayerPosition(
   board: (Piece | null)[][],
   player: Player,
-  weights: EvaluationWeights
+  weights: EvaluationWeights,
+  rules: RuleSet
 ): number {
   const pieces = getPlayerPieces(board, player);
   let score = 0;
@@ -48,16 +58,29 @@ function evaluatePlayerPosition(
     score += piece.type === 'king' ? weights.kingValue : weights.pieceValue;
 
     // Position-based bonuses
-    score += evaluatePiecePosition(piece, player, weights, pieces);
+    score += evaluatePiecePosition(piece, player, weights, pieces, board.length);
   }
 
   // Mobility bonus
-  const moves = getAllValidMoves(board, player);
+  const moves = getAllValidMoves(board, player, rules);
   score += moves.length * weights.mobilityBonus;
 
   return score;
 }
 
+/**
+ * Center control bonus for a column
+ * The middle half of the columns is center (2-5 on 8x8, 3-6 on 10x10),
+ * with an extra bonus for the two middle columns
+ */
+function getCenterBonus(col: number, size: number, weights: EvaluationWeights): number {
+  const distance = Math.abs(col - (size - 1) / 2);
+  if (distance >= size / 4) {
+    return 0;
+  }
+  return distance < 1 ? weights.centerControl * 1.5 : weights.centerControl;
+}
+
 /**
  * Evaluates positional bonuses for a single piece
  */
@@ -65,52 +88,47 @@ function evaluatePiecePosition(
   piece: Piece,
   player: Player,
   weights: EvaluationWeights,
-  allPieces: Piece[]
+  allPieces: Piece[],
+  size: number
 ): number {
   let bonus = 0;
   const { row, col } = piece.position;
 
-  // Center control bonus (columns 2-5 are center)
-  if (col >= 2 && col <= 5) {
-    bonus += weights.centerControl;
-    // Extra bonus for very center
-    if (col >= 3 && col <= 4) {
-      bonus += weights.centerControl / 2;
-    }
-  }
+  // Center control bonus
+  bonus += getCenterBonus(col, size, weights);
 
   // Advancement bonus (for men only)
   if (piece.type === 'man') {
-    if (player === 'agatha') {
-      // Agatha moves down, so higher row = more advanced
+    if (player === 'white') {
+      // White moves down, so higher row = more advanced
       bonus += row * weights.advancement;
     } else {
-      // Human moves up, so lower row = more advanced
-      bonus += (BOARD_SIZE - 1 - row) * weights.advancement;
+      // Black moves up, so lower row = more advanced
+      bonus += (size - 1 - row) * weights.advancement;
     }
   }
 
   // Back row defense bonus (protect the king row)
   if (piece.type === 'man') {
-    if (player === 'agatha' && row === 0) {
+    if (player === 'white' && row === 0) {
       bonus += weights.backRowDefense;
-    } else if (player === 'human' && row === BOARD_SIZE - 1) {
+    } else if (player === 'black' && row === size - 1) {
       bonus += weights.backRowDefense;
     }
   }
 
   // Edge penalty for kings (they're less mobile on edges)
   if (piece.type === 'king') {
-    if (col === 0 || col === BOARD_SIZE - 1) {
+    if (col === 0 || col === size - 1) {
       bonus -= weights.centerControl / 2;
     }
-    if (row === 0 || row === BOARD_SIZE - 1) {
+    if (row === 0 || row === size - 1) {
       bonus -= weights.centerControl / 2;
     }
   }
 
   // Protected piece bonus (has a piece behind it)
-  if (isPieceProtected(piece, allPieces)) {
+  if (isPieceProtected(piece, allPieces, size)) {
     bonus += weights.backRowDefense;
   }
 
@@ -120,9 +138,9 @@ function evaluatePiecePosition(
 /**
  * Checks if a piece is protected by another piece
  */
-function isPieceProtected(piece: Piece, allPieces: Piece[]): boolean {
+function isPieceProtected(piece: Piece, allPieces: Piece[], size: number): boolean {
   const { row, col } = piece.position;
-  const backRow = piece.player === 'agatha' ? row - 1 : row + 1;
+  const backRow = piece.player === 'white' ? row - 1 : row + 1;
 
   // Check diagonal back positions
   const backPositions = [
@@ -133,9 +151,9 @@ function isPieceProtected(piece: Piece, allPieces: Piece[]): boolean {
   for (const pos of backPositions) {
     if (
       pos.row >= 0 &&
-      pos.row < BOARD_SIZE &&
+      pos.row < size &&
       pos.col >= 0 &&
-      pos.col < BOARD_SIZE
+      pos.col < size
     ) {
       const protector = allPieces.find(
         p => p.position.row === pos.row && p.position.col === pos.col
@@ -149,34 +167,142 @@ function isPieceProtected(piece: Piece, allPieces: Piece[]): boolean {
   return false;
 }
 
+/**
+ * Evaluates a bitboard from White's perspective
+ * Scores exactly as evaluateBoard does for the same position
+ */
+export function evaluateBitboard(
+  bitboard: Bitboard,
+  weights: EvaluationWeights = DEFAULT_WEIGHTS,
+  rules: RuleSet = AMERICAN_RULES
+): number {
+  const whiteScore = evaluateBitboardSide(bitboard, 'white', weights, rules);
+  const blackScore = evaluateBitboardSide(bitboard, 'black', weights, rules);
+
+  return whiteScore - blackScore;
+}
+
+/**
+ * Evaluates a player's pieces on a bitboard
+ */
+function evaluateBitboardSide(
+  bitboard: Bitboard,
+  player: Player,
+  weights: EvaluationWeights,
+  rules: RuleSet
+): number {
+  const own = getPlayerMask(bitboard, player);
+  // Directions towards the player's own back row
+  const backDirections = player === 'white' ? [0, 1] : [2, 3];
+  let score = 0;
+
+  for (let pieces = own; pieces !== 0; pieces &= pieces - 1) {
+    const index = 31 - Math.clz32(pieces & -pieces);
+    const { row, col } = indexToPosition(index);
+    const isKing = (bitboard.kings & (1 << index)) !== 0;
+
+    score += isKing ? weights.kingValue : weights.pieceValue;
+
+    score += getCenterBonus(col, BOARD_SIZE, weights);
+
+    if (isKing) {
+      if (col === 0 || col === BOARD_SIZE - 1) {
+        score -= weights.centerControl / 2;
+      }
+      if (row === 0 || row === BOARD_SIZE - 1) {
+        score -= weights.centerControl / 2;
+      }
+    } else if (player === 'white') {
+      score += row * weights.advancement;
+      if (row === 0) {
+        score += weights.backRowDefense;
+      }
+    } else {
+      score += (BOARD_SIZE - 1 - row) * weights.advancement;
+      if (row === BOARD_SIZE - 1) {
+        score += weights.backRowDefense;
+      }
+    }
+
+    if (
+      backDirections.some(direction => {
+        const behind = getNeighbor(index, direction);
+        return behind >= 0 && (own & (1 << behind)) !== 0;
+      })
+    ) {
+      score += weights.backRowDefense;
+    }
+  }
+
+  score += generateMoves(bitboard, player, rules).length * weights.mobilityBonus;
+
+  return score;
+}
+
+/**
+ * Evaluates end-game scenarios on a bitboard
+ * Same scores as evaluateEndGame
+ */
+export function evaluateBitboardEndGame(
+  bitboard: Bitboard,
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
+): number | null {
+  const winner = getBitboardWinner(bitboard, rules);
+  if (winner === null) {
+    return null;
+  }
+  return winner === player ? 100000 : -100000;
+}
+
+/**
+ * Gets the player who has won on a bitboard, or null if the game goes on
+ */
+function getBitboardWinner(bitboard: Bitboard, rules: RuleSet): Player | null {
+  if (bitboard.black === 0) {
+    return 'white';
+  }
+  if (bitboard.white === 0) {
+    return 'black';
+  }
+  if (generateMoves(bitboard, 'black', rules).length === 0) {
+    return 'white';
+  }
+  if (generateMoves(bitboard, 'white', rules).length === 0) {
+    return 'black';
+  }
+  return null;
+}
+
 /**
  * Evaluates end-game scenarios
  * Returns very high/low scores for winning/losing positions
  */
 export function evaluateEndGame(
   board: (Piece | null)[][],
-  player: Player
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
 ): number | null {
-  const humanPieces = countPieces(board, 'human');
-  const agathaPieces = countPieces(board, 'agatha');
+  const blackPieces = countPieces(board, 'black');
+  const whitePieces = countPieces(board, 'white');
 
   // Check for wins
-  if (humanPieces === 0) {
-    return player === 'agatha' ? 100000 : -100000;
+  if (blackPieces === 0) {
+    return player === 'white' ? 100000 : -100000;
   }
-  if (agathaPieces === 0) {
-    return player === 'human' ? 100000 : -100000;
+  if (whitePieces === 0) {
+    return player === 'black' ? 100000 : -100000;
   }
 
   // Check for no valid moves (also a loss)
-  const humanMoves = getAllValidMoves(board, 'human');
-  const agathaMoves = getAllValidMoves(board, 'agatha');
+  const blackMoves = getAllValidMoves(board, 'black', rules);
+  const whiteMoves = getAllValidMoves(board, 'white', rules);
 
-  if (humanMoves.length === 0) {
-    return player === 'agatha' ? 100000 : -100000;
+  if (blackMoves.length === 0) {
+    return player === 'white' ? 100000 : -100000;
   }
-  if (agathaMoves.length === 0) {
-    return player === 'human' ? 100000 : -100000;
+  if (whiteMoves.length === 0) {
+    return player === 'black' ? 100000 : -100000;
   }
 
   return null; // Game is not over
@@ -210,7 +336,7 @@ export function getMaterialAdvantage(
  * (few pieces remaining, requiring different strategy)
  */
 export function isEndGame(board: (Piece | null)[][]): boolean {
-  const totalPieces = countPieces(board, 'human') + countPieces(board, 'agatha');
+  const totalPieces = countPieces(board, 'black') + countPieces(board, 'white');
   return totalPieces <= 8;
 }
 
@@ -255,37 +381,38 @@ export interface DetailedEvaluation {
   materialScore: number;
   positionalScore: number;
   mobilityScore: number;
-  agathaMen: number;
-  agathaKings: number;
-  humanMen: number;
-  humanKings: number;
+  whiteMen: number;
+  whiteKings: number;
+  blackMen: number;
+  blackKings: number;
 }
 
 export function getDetailedEvaluation(
   board: (Piece | null)[][],
-  weights: EvaluationWeights = DEFAULT_WEIGHTS
+  weights: EvaluationWeights = DEFAULT_WEIGHTS,
+  rules: RuleSet = AMERICAN_RULES
 ): DetailedEvaluation {
-  const agathaPieces = getPlayerPieces(board, 'agatha');
-  const humanPieces = getPlayerPieces(board, 'human');
+  const whitePieces = getPlayerPieces(board, 'white');
+  const blackPieces = getPlayerPieces(board, 'black');
   
   // Count pieces by type
-  const agathaMen = agathaPieces.filter(p => p.type === 'man').length;
-  const agathaKings = agathaPieces.filter(p => p.type === 'king').length;
-  const humanMen = humanPieces.filter(p => p.type === 'man').length;
-  const humanKings = humanPieces.filter(p => p.type === 'king').length;
+  const whiteMen = whitePieces.filter(p => p.type === 'man').length;
+  const whiteKings = whitePieces.filter(p => p.type === 'king').length;
+  const blackMen = blackPieces.filter(p => p.type === 'man').length;
+  const blackKings = blackPieces.filter(p => p.type === 'king').length;
   
   // Material score (piece values)
-  const agathaMaterial = agathaMen * weights.pieceValue + agathaKings * weights.kingValue;
-  const humanMaterial = humanMen * weights.pieceValue + humanKings * weights.kingValue;
-  const materialScore = agathaMaterial - humanMaterial;
+  const whiteMaterial = whiteMen * weights.pieceValue + whiteKings * weights.kingValue;
+  const blackMaterial = blackMen * weights.pieceValue + blackKings * weights.kingValue;
+  const materialScore = whiteMaterial - blackMaterial;
   
   // Mobility score
-  const agathaMoves = getAllValidMoves(board, 'agatha');
-  const humanMoves = getAllValidMoves(board, 'human');
-  const mobilityScore = (agathaMoves.length - humanMoves.length) * weights.mobilityBonus;
+  const whiteMoves = getAllValidMoves(board, 'white', rules);
+  const blackMoves = getAllValidMoves(board, 'black', rules);
+  const mobilityScore = (whiteMoves.length - blackMoves.length) * weights.mobilityBonus;
   
   // Positional score (everything else)
-  const totalScore = evaluateBoard(board, weights);
+  const totalScore = evaluateBoard(board, weights, rules);
   const positionalScore = totalScore - materialScore - mobilityScore;
   
   return {
@@ -293,9 +420,20 @@ export function getDetailedEvaluation(
     materialScore,
     positionalScore,
     mobilityScore,
-    agathaMen,
-    agathaKings,
-    humanMen,
-    humanKings,
+    whiteMen,
+    whiteKings,
+    blackMen,
+    blackKings,
   };
 }
+
+/** Score (in centipieces) at which White's winning chances reach about 73% */
+const WIN_PROBABILITY_SCALE = 200;
+
+/**
+ * Converts a score from White's perspective into White's winning chances
+ * The result always lies strictly between 0 and 1, with an even position at 0.5
+ */
+export function getWinProbability(score: number): number {
+  return 1 / (1 + Math.exp(-score / WIN_PROBABILITY_SCALE));
+}
@@ -0,0 +1,156 @@
+/**
+ * Game Analysis
+ * Replays a finished game through the engine to grade both sides: how the
+ * evaluation moved, where the game turned, each side's accuracy and the wins
+ * that were let go
+ */
+
+import { Piece, Player, Move, MoveRecord, MoveAnnotation } from '../types.js';
+import { getPieceAt } from '../game/board.js';
+import { simulateMove } from '../game/rules.js';
+import { TABLEBASE_WIN_SCORE, MAX_TABLEBASE_DISTANCE } from './tablebase.js';
+import { judgeMove } from './precog.js';
+
+/**
+ * Settings for an analysis
+ */
+export interface AnalysisOptions {
+  /** Search depth after each candidate move */
+  readonly depth: number;
+}
+
+/**
+ * The engine's view of one move of the game
+ */
+export interface AnalyzedPly {
+  /** Index of the move in the game */
+  readonly ply: number;
+  readonly player: Player;
+  readonly move: Move;
+  /** Evaluation after the move (positive favors White, like other engine scores) */
+  readonly evaluation: number;
+  readonly annotation: MoveAnnotation;
+  /** True when the move was the only legal one */
+  readonly forced: boolean;
+  /** True when the mover could force a win and played a move that does not */
+  readonly missedWin: boolean;
+}
+
+/**
+ * Report on a whole game
+ */
+export interface GameAnalysis {
+  readonly plies: AnalyzedPly[];
+  /** Percentage of each side's moves that kept the evaluation (100 without choices) */
+  readonly accuracy: Readonly<Record<Player, number>>;
+  /** Plies where the game swung most, in game order */
+  readonly turningPoints: number[];
+  /** Plies where a forced win was let go */
+  readonly missedWins: number[];
+}
+
+/** Settings used when none are given */
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  depth: 4,
+};
+
+/** Lowest score of a forced win (tablebase wins included) */
+const WIN_THRESHOLD = TABLEBASE_WIN_SCORE - MAX_TABLEBASE_DISTANCE;
+
+/** Score loss (in centipieces) at which a move's accuracy has fallen to about 37% */
+const ACCURACY_SCALE = 100;
+
+/** Smallest score loss that can turn a game: a man */
+const TURNING_POINT_LOSS = 100;
+
+/** Most turning points a report names */
+const MAX_TURNING_POINTS = 3;
+
+/**
+ * Rebuilds the move a history record describes
+ */
+export function recordToMove(record: MoveRecord): Move {
+  return {
+    from: record.from,
+    to: record.to,
+    captures: record.captures,
+    landings: record.landings,
+    capturedTypes: record.capturedTypes,
+    isPromotion: record.promoted,
+  };
+}
+
+/**
+ * Gets every position of a game: the start position, then the position after each move
+ */
+export function replayGame(board: (Piece | null)[][], moves: Move[]): (Piece | null)[][][] {
+  const positions = [board];
+  for (const move of moves) {
+    positions.push(simulateMove(positions[positions.length - 1], move));
+  }
+  return positions;
+}
+
+/**
+ * Grades every move of a game played from the given position
+ * Each position is searched once per legal move, so deeper analyses of long
+ * games take a while
+ */
+export function analyzeGame(
+  board: (Piece | null)[][],
+  moves: Move[],
+  options: Partial<AnalysisOptions> = {}
+): GameAnalysis {
+  const { depth } = { ...DEFAULT_ANALYSIS_OPTIONS, ...options };
+  const positions = replayGame(board, moves);
+
+  const plies = moves.map((move, ply): AnalyzedPly => {
+    const player = getPieceAt(positions[ply], move.from)?.player ?? 'black';
+    const judgement = judgeMove(positions[ply], move, depth);
+
+    return {
+      ply,
+      player,
+      move,
+      evaluation: player === 'white' ? judgement.score : 0 - judgement.score,
+      annotation: judgement.annotation,
+      forced: judgement.forced,
+      missedWin: judgement.bestScore >= WIN_THRESHOLD && judgement.score < WIN_THRESHOLD,
+    };
+  });
+
+  return {
+    plies,
+    accuracy: { black: getAccuracy(plies, 'black'), white: getAccuracy(plies, 'white') },
+    turningPoints: getTurningPoints(plies),
+    missedWins: plies.filter(entry => entry.missedWin).map(entry => entry.ply),
+  };
+}
+
+/**
+ * Averages the accuracy of a side's moves, leaving out forced ones
+ */
+function getAccuracy(plies: AnalyzedPly[], player: Player): number {
+  const choices = plies.filter(entry => entry.player === player && !entry.forced);
+  if (choices.length === 0) {
+    return 100;
+  }
+
+  const total = choices.reduce(
+    (sum, entry) => sum + 100 * Math.exp(-entry.annotation.loss / ACCURACY_SCALE),
+    0
+  );
+  return Math.round(total / choices.length);
+}
+
+/**
+ * Picks the moves that gave up the most, at least a man each
+ */
+function getTurningPoints(plies: AnalyzedPly[]): number[] {
+  return plies
+    .filter(entry => entry.annotation.loss >= TURNING_POINT_LOSS)
+    .sort((a, b) => b.annotation.loss - a.annotation.loss)
+    .slice(0, MAX_TURNING_POINTS)
+    .map(entry => entry.ply)
+    .sort((a, b) => a - b);
+}
@@ -1,18 +1,35 @@
 /**
  * Minimax Algorithm with Alpha-Beta Pruning
  * Agatha's brain - the AI decision-making engine
+ * The search runs on a search board (the bitboard on 8x8 boards); the exported
+ * functions take and return array boards and moves
  */
 
 import {
   Piece,
   Player,
   Move,
-  MinimaxResult,
+  SearchDepthInfo,
+  EvaluationWeights,
+  DEFAULT_WEIGHTS,
   AI_SEARCH_DEPTH,
+  BOARD_SIZE,
 } from '../types.js';
 import { cloneBoard, getOpponent } from '../game/board.js';
-import { getAllValidMoves, executeMove } from '../game/rules.js';
-import { evaluateBoard, evaluateEndGame } from './evaluation.js';
+import { executeMove } from '../game/rules.js';
+import { RuleSet, AMERICAN_RULES } from '../game/variants.js';
+import { TranspositionTable, TranspositionStats, BoundType } from './transposition-table.js';
+import { getOpeningBook } from './opening-book.js';
+import { tablebaseScore, TABLEBASE_WIN_SCORE } from './tablebase.js';
+import { SearchBoard, createSearchBoard } from './search-board.js';
+
+/**
+ * Best root move found by a search, with its score
+ */
+interface RootResult<M> {
+  readonly score: number;
+  readonly move: M | null;
+}
 
 /**
  * Node count for performance monitoring
@@ -20,73 +37,314 @@ import { evaluateBoard, evaluateEndGame } from './evaluation.js';
 let nodesEvaluated = 0;
 
 /**
- * Gets the best move for Agatha using minimax with alpha-beta pruning
+ * Search results shared by every search, kept between moves
+ * Best moves are stored as the search board generated them
+ */
+const transpositionTable = new TranspositionTable<unknown>();
+
+/**
+ * Squares per side of the boards whose results are in the table
+ */
+let tableBoardSize = BOARD_SIZE;
+
+/**
+ * Weights used to evaluate leaf positions
+ */
+let evaluationWeights: EvaluationWeights = DEFAULT_WEIGHTS;
+
+/**
+ * Rules every search plays by
+ */
+let ruleSet: RuleSet = AMERICAN_RULES;
+
+/**
+ * Time (Date.now()) at which a timed search gives up, or null for no limit
+ */
+let searchDeadline: number | null = null;
+
+/** Nodes searched between clock checks */
+const CLOCK_CHECK_INTERVAL = 1024;
+
+/**
+ * Thrown inside the search when the deadline passes
+ */
+class SearchAbortedError extends Error {
+  constructor() {
+    super('Search deadline reached');
+    this.name = 'SearchAbortedError';
+  }
+}
+
+/**
+ * Settings for a search
+ */
+export interface SearchOptions {
+  /** Deepest iteration searched (at least 1) */
+  readonly depth: number;
+  /** Time after which a deeper iteration is abandoned (the first always completes) */
+  readonly maxTimeMs: number;
+  /** Whether known openings are answered from the book without searching (American lines only) */
+  readonly useBook: boolean;
+  /** Called after every completed iteration */
+  readonly onProgress?: (info: SearchDepthInfo) => void;
+}
+
+/**
+ * Work done by a search
+ */
+export interface SearchStats {
+  /** Deepest completed iteration (0 when nothing was searched) */
+  readonly depth: number;
+  readonly nodesEvaluated: number;
+  readonly elapsedMs: number;
+  /** Whether an iteration ran out of time */
+  readonly aborted: boolean;
+  readonly transposition: TranspositionStats;
+}
+
+/**
+ * Outcome of a search for the side to move
+ * Scores here, in the PV and in every iteration, are from the side to move's
+ * perspective: positive is good for the side that searched
+ */
+export interface SearchResult {
+  readonly score: number;
+  readonly bestMove: Move | null;
+  readonly pv: Move[];
+  readonly iterations: SearchDepthInfo[];
+  /** Name of the opening when the move came from the book */
+  readonly bookOpening: string | null;
+  readonly stats: SearchStats;
+}
+
+/** Settings used when none are given */
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  depth: AI_SEARCH_DEPTH,
+  maxTimeMs: Infinity,
+  useBook: false,
+};
+
+/**
+ * Searches the best move for either side using iterative deepening minimax
+ * with alpha-beta pruning
+ * Each iteration searches the previous principal variation first. The clock is
+ * checked inside the search, so an iteration that runs out of time is abandoned
+ * and the deepest completed iteration is returned. The first iteration always
+ * completes so there is a move to play.
+ */
+export function search(
+  board: (Piece | null)[][],
+  sideToMove: Player,
+  options: Partial<SearchOptions> = {}
+): SearchResult {
+  const { depth: requestedDepth, maxTimeMs, useBook, onProgress } = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+  // The first iteration always runs so there is a move to play
+  const maxDepth = Math.max(1, requestedDepth);
+  const startTime = Date.now();
+  const iterations: SearchDepthInfo[] = [];
+  let aborted = false;
+
+  nodesEvaluated = 0;
+  transpositionTable.newSearch();
+
+  const searchBoard = toSearchBoard(board);
+  const staticScore = scoreForSide(searchBoard.evaluate(evaluationWeights), sideToMove);
+  const finish = (
+    deepest: Omit<SearchResult, 'iterations' | 'bookOpening' | 'stats'>,
+    depth: number,
+    bookOpening: string | null = null
+  ): SearchResult => ({
+    ...deepest,
+    iterations,
+    bookOpening,
+    stats: {
+      depth,
+      nodesEvaluated,
+      elapsedMs: Date.now() - startTime,
+      aborted,
+      transposition: transpositionTable.getStats(),
+    },
+  });
+
+  // Known openings are played straight from the book
+  const bookMove = useBook && ruleSet.variant === 'american' ? getOpeningBook().pick(board, sideToMove) : null;
+  if (bookMove) {
+    return finish({ score: staticScore, bestMove: bookMove.move, pv: [bookMove.move] }, 0, bookMove.opening);
+  }
+
+  // Nothing to think about with zero or one legal move
+  const moves = searchBoard.generateMoves(sideToMove);
+  if (moves.length <= 1) {
+    const onlyMove = moves.length > 0 ? searchBoard.toMove(moves[0]) : null;
+    return finish({ score: staticScore, bestMove: onlyMove, pv: onlyMove ? [onlyMove] : [] }, 0);
+  }
+
+  let pv: unknown[] = [];
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    if (depth > 1 && Date.now() - startTime >= maxTimeMs) {
+      break;
+    }
+
+    searchDeadline = depth > 1 && Number.isFinite(maxTimeMs) ? startTime + maxTimeMs : null;
+    let result: RootResult<unknown>;
+    try {
+      // Searched on a copy: an aborted search leaves its board mid-line
+      result = searchRoot(searchBoard.clone(), sideToMove, moves, depth, pv);
+    } catch (error) {
+      if (error instanceof SearchAbortedError) {
+        aborted = true;
+        break;
+      }
+      throw error;
+    } finally {
+      searchDeadline = null;
+    }
+
+    pv = extractPrincipalVariation(searchBoard, sideToMove, depth);
+    if (pv.length === 0 && result.move) {
+      pv = [result.move];
+    }
+
+    const info: SearchDepthInfo = {
+      depth,
+      score: scoreForSide(result.score, sideToMove),
+      bestMove: result.move === null ? null : searchBoard.toMove(result.move),
+      pv: toMoveLine(searchBoard, pv),
+      nodesEvaluated,
+      elapsedMs: Date.now() - startTime,
+    };
+    iterations.push(info);
+    onProgress?.(info);
+  }
+
+  const deepest = iterations[iterations.length - 1];
+  return finish(deepest, deepest.depth);
+}
+
+/**
+ * Converts a score between White's perspective and the player's
+ * The conversion is its own inverse; a zero score stays positive
+ */
+function scoreForSide(score: number, player: Player): number {
+  return player === 'white' ? score : 0 - score;
+}
+
+/**
+ * Gets the best move for a player (White unless given) searched to a fixed depth
+ * Positions in the opening book are answered from the book without searching
  */
 export function getBestMove(
   board: (Piece | null)[][],
-  depth: number = AI_SEARCH_DEPTH
+  depth: number = AI_SEARCH_DEPTH,
+  player: Player = 'white'
 ): Move | null {
-  nodesEvaluated = 0;
+  const result = search(board, player, { depth, useBook: true });
 
-  const moves = getAllValidMoves(board, 'agatha');
+  if (result.bookOpening) {
+    console.log(`Agatha plays a book move (${result.bookOpening})`);
+  } else if (result.stats.depth > 0) {
+    const hitRate = Math.round(result.stats.transposition.hitRate * 100);
+    console.log(`Agatha evaluated ${result.stats.nodesEvaluated} positions (${hitRate}% transposition hits)`);
+  }
 
-  if (moves.length === 0) {
-    return null;
+  return result.bestMove;
+}
+
+/**
+ * Creates the search board for a position under the current rules
+ * Boards of different sizes can share piece placements, so the table is
+ * cleared when the board size changes
+ */
+function toSearchBoard(board: (Piece | null)[][]): SearchBoard<unknown> {
+  if (board.length !== tableBoardSize) {
+    tableBoardSize = board.length;
+    transpositionTable.clear();
   }
+  return createSearchBoard(board, ruleSet);
+}
 
-  if (moves.length === 1) {
-    return moves[0];
+/**
+ * Searches the player's root moves and returns the best one with its score
+ * Scores are from White's perspective, so Black picks the lowest
+ * The result is stored so the next, deeper search tries it first
+ * @param pv Principal variation of the previous iteration, searched first
+ */
+function searchRoot<M>(
+  board: SearchBoard<M>,
+  player: Player,
+  moves: M[],
+  depth: number,
+  pv: M[] = []
+): RootResult<M> {
+  // Solved endgames are played straight from the tablebase
+  const solved = solveRoot(board, player, moves);
+  if (solved) {
+    return solved;
   }
 
+  const hash = board.hash(player);
+  const entry = transpositionTable.probe(hash);
+
   // Order moves to improve alpha-beta pruning
-  const orderedMoves = orderMoves(moves);
+  const orderedMoves = orderMoves(board, moves, pv[0] ?? (entry?.bestMove as M | undefined) ?? null);
 
-  let bestMove: Move | null = null;
-  let bestScore = -Infinity;
+  const isMaximizing = player === 'white';
+  let bestMove: M | null = null;
+  let bestScore = isMaximizing ? -Infinity : Infinity;
   let alpha = -Infinity;
-  const beta = Infinity;
+  let beta = Infinity;
 
   for (const move of orderedMoves) {
-    const newBoard = cloneBoard(board);
-    executeMove(newBoard, move);
-
-    const score = minimax(newBoard, depth - 1, alpha, beta, false);
+    board.makeMove(move);
+    const childPv = pv.length > 0 && board.isSameMove(move, pv[0]) ? pv.slice(1) : [];
+    const score = minimax(board, depth - 1, alpha, beta, !isMaximizing, childPv);
+    board.unmakeMove();
 
-    if (score > bestScore) {
+    if (isMaximizing ? score > bestScore : score < bestScore) {
       bestScore = score;
       bestMove = move;
     }
 
-    alpha = Math.max(alpha, score);
+    if (isMaximizing) {
+      alpha = Math.max(alpha, score);
+    } else {
+      beta = Math.min(beta, score);
+    }
   }
 
-  console.log(`Agatha evaluated ${nodesEvaluated} positions`);
+  transpositionTable.store(hash, depth, bestScore, 'exact', bestMove);
 
-  return bestMove;
+  return { score: bestScore, move: bestMove };
 }
 
 /**
  * Minimax algorithm with alpha-beta pruning
- * @param board Current board state
+ * Moves are made and taken back on the one search board, which is restored on return
+ * @param board Current position
  * @param depth Remaining search depth
  * @param alpha Best score for maximizer
  * @param beta Best score for minimizer
- * @param isMaximizing True if it's Agatha's turn (maximizing)
+ * @param isMaximizing True if it's White's turn (maximizing)
+ * @param pv Rest of the previous principal variation if this node lies on it
  */
-function minimax(
-  board: (Piece | null)[][],
+function minimax<M>(
+  board: SearchBoard<M>,
   depth: number,
   alpha: number,
   beta: number,
-  isMaximizing: boolean
+  isMaximizing: boolean,
+  pv: M[] = []
 ): number {
-  nodesEvaluated++;
+  // Reached maximum depth - resolve pending captures, then evaluate
+  if (depth <= 0) {
+    return quiescence(board, alpha, beta, isMaximizing);
+  }
+
+  visitNode();
 
   // Check for terminal state
-  const endGameScore = evaluateEndGame(
-    board,
-    isMaximizing ? 'agatha' : 'human'
-  );
+  const endGameScore = board.evaluateEndGame(isMaximizing ? 'white' : 'black');
   if (endGameScore !== null) {
     // Adjust score based on depth to prefer quicker wins
     return isMaximizing
@@ -94,31 +352,60 @@ function minimax(
       : -endGameScore - depth;
   }
 
-  // Reached maximum depth - evaluate position
-  if (depth === 0) {
-    return evaluateBoard(board);
+  const player: Player = isMaximizing ? 'white' : 'black';
+
+  // Solved endgames are looked up instead of searched
+  const solvedScore = probeTablebase(board, player);
+  if (solvedScore !== null) {
+    return solvedScore;
+  }
+
+  // Reuse a result from an identical position reached by another move order
+  const hash = board.hash(player);
+  const entry = transpositionTable.probe(hash);
+  if (entry && entry.depth >= depth) {
+    if (entry.bound === 'exact') {
+      transpositionTable.recordCutoff();
+      return entry.score;
+    }
+    if (entry.bound === 'lower') {
+      alpha = Math.max(alpha, entry.score);
+    } else {
+      beta = Math.min(beta, entry.score);
+    }
+    if (beta <= alpha) {
+      transpositionTable.recordCutoff();
+      return entry.score;
+    }
   }
 
-  const player: Player = isMaximizing ? 'agatha' : 'human';
-  const moves = getAllValidMoves(board, player);
+  const moves = board.generateMoves(player);
 
   // No moves available - this player loses
   if (moves.length === 0) {
     return isMaximizing ? -100000 + depth : 100000 - depth;
   }
 
-  // Order moves for better pruning
-  const orderedMoves = orderMoves(moves);
+  const alphaOriginal = alpha;
+  const betaOriginal = beta;
+
+  // Order moves for better pruning: principal variation, then stored best move
+  const orderedMoves = orderMoves(board, moves, pv[0] ?? (entry?.bestMove as M | undefined) ?? null);
+  let bestMove: M | null = null;
+  let bestScore: number;
 
   if (isMaximizing) {
-    let maxScore = -Infinity;
+    bestScore = -Infinity;
 
     for (const move of orderedMoves) {
-      const newBoard = cloneBoard(board);
-      executeMove(newBoard, move);
-
-      const score = minimax(newBoard, depth - 1, alpha, beta, false);
-      maxScore = Math.max(maxScore, score);
+      board.makeMove(move);
+      const childPv = pv.length > 0 && board.isSameMove(move, pv[0]) ? pv.slice(1) : [];
+      const score = minimax(board, depth - 1, alpha, beta, false, childPv);
+      board.unmakeMove();
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
       alpha = Math.max(alpha, score);
 
       // Alpha-beta pruning
@@ -126,17 +413,18 @@ function minimax(
         break;
       }
     }
-
-    return maxScore;
   } else {
-    let minScore = Infinity;
+    bestScore = Infinity;
 
     for (const move of orderedMoves) {
-      const newBoard = cloneBoard(board);
-      executeMove(newBoard, move);
-
-      const score = minimax(newBoard, depth - 1, alpha, beta, true);
-      minScore = Math.min(minScore, score);
+      board.makeMove(move);
+      const childPv = pv.length > 0 && board.isSameMove(move, pv[0]) ? pv.slice(1) : [];
+      const score = minimax(board, depth - 1, alpha, beta, true, childPv);
+      board.unmakeMove();
+      if (score < bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
       beta = Math.min(beta, score);
 
       // Alpha-beta pruning
@@ -144,76 +432,208 @@ function minimax(
         break;
       }
     }
+  }
 
-    return minScore;
+  let bound: BoundType = 'exact';
+  if (bestScore <= alphaOriginal) {
+    bound = 'upper';
+  } else if (bestScore >= betaOriginal) {
+    bound = 'lower';
+  }
+  transpositionTable.store(hash, depth, bestScore, bound, bestMove);
+
+  return bestScore;
+}
+
+/**
+ * Quiescence search: keeps playing captures past the depth limit
+ * Captures are forced, so a position is only evaluated once no capture is pending
+ */
+function quiescence<M>(
+  board: SearchBoard<M>,
+  alpha: number,
+  beta: number,
+  isMaximizing: boolean
+): number {
+  visitNode();
+
+  const player: Player = isMaximizing ? 'white' : 'black';
+
+  const endGameScore = board.evaluateEndGame(player);
+  if (endGameScore !== null) {
+    return isMaximizing ? endGameScore : -endGameScore;
+  }
+
+  const solvedScore = probeTablebase(board, player);
+  if (solvedScore !== null) {
+    return solvedScore;
+  }
+
+  // Quiet position - safe to evaluate
+  if (!board.hasCapture(player)) {
+    return board.evaluate(evaluationWeights);
+  }
+
+  // Every legal move is a capture; each one removes material, so this ends
+  const moves = orderMoves(board, board.generateMoves(player));
+  let bestScore = isMaximizing ? -Infinity : Infinity;
+
+  for (const move of moves) {
+    board.makeMove(move);
+    const score = quiescence(board, alpha, beta, !isMaximizing);
+    board.unmakeMove();
+
+    if (isMaximizing) {
+      bestScore = Math.max(bestScore, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      bestScore = Math.min(bestScore, score);
+      beta = Math.min(beta, score);
+    }
+
+    if (beta <= alpha) {
+      break;
+    }
+  }
+
+  return bestScore;
+}
+
+/**
+ * Picks the player's move from the endgame tablebase: the quickest win, a move
+ * that holds the draw, or the longest resistance
+ * Returns null when no tablebase covers the position
+ */
+function solveRoot<M>(board: SearchBoard<M>, player: Player, moves: M[]): RootResult<M> | null {
+  if (probeTablebase(board, player) === null) {
+    return null;
+  }
+
+  // Scores favor White, so Black looks for the lowest
+  const sign = player === 'white' ? 1 : -1;
+  let best: RootResult<M> = { score: -Infinity * sign, move: null };
+  for (const move of moves) {
+    board.makeMove(move);
+    // Every position reached from a covered one is covered, unless the opponent has no pieces left
+    const score = probeTablebase(board, getOpponent(player)) ?? TABLEBASE_WIN_SCORE * sign;
+    board.unmakeMove();
+
+    if (score * sign > best.score * sign) {
+      best = { score, move };
+    }
+  }
+  return best;
+}
+
+/**
+ * Gets the exact score of a position from the endgame tablebase (positive
+ * favors White), or null when no tablebase is loaded or it does not cover the position
+ */
+function probeTablebase<M>(board: SearchBoard<M>, player: Player): number | null {
+  const result = board.probeTablebase(player);
+  if (!result) {
+    return null;
+  }
+  const score = tablebaseScore(result);
+  return player === 'white' ? score : -score;
+}
+
+/**
+ * Counts a searched node, aborting a timed search once its deadline passes
+ */
+function visitNode(): void {
+  nodesEvaluated++;
+
+  if (
+    searchDeadline !== null &&
+    nodesEvaluated % CLOCK_CHECK_INTERVAL === 0 &&
+    Date.now() >= searchDeadline
+  ) {
+    throw new SearchAbortedError();
   }
 }
 
 /**
  * Orders moves to improve alpha-beta pruning efficiency
- * Captures and promotions are evaluated first
+ * The transposition table's best move comes first, then captures and promotions
  */
-function orderMoves(moves: Move[]): Move[] {
+function orderMoves<M>(board: SearchBoard<M>, moves: M[], bestMove: M | null = null): M[] {
+  const center = (board.size - 1) / 2;
+
   return [...moves].sort((a, b) => {
+    if (bestMove) {
+      const aIsBest = board.isSameMove(a, bestMove);
+      if (aIsBest !== board.isSameMove(b, bestMove)) {
+        return aIsBest ? -1 : 1;
+      }
+    }
+
     // Prioritize captures (more captures = higher priority)
     const captureScore =
-      b.captures.length * 100 - a.captures.length * 100;
+      board.captureCount(b) * 100 - board.captureCount(a) * 100;
     if (captureScore !== 0) {
       return captureScore;
     }
 
     // Prioritize promotions
-    if (b.isPromotion && !a.isPromotion) return 1;
-    if (a.isPromotion && !b.isPromotion) return -1;
+    const aIsPromotion = board.isPromotion(a);
+    const bIsPromotion = board.isPromotion(b);
+    if (bIsPromotion && !aIsPromotion) return 1;
+    if (aIsPromotion && !bIsPromotion) return -1;
 
     // Prioritize center moves
-    const aCenterScore = Math.abs(3.5 - a.to.col);
-    const bCenterScore = Math.abs(3.5 - b.to.col);
+    const aCenterScore = Math.abs(center - board.targetColumn(a));
+    const bCenterScore = Math.abs(center - board.targetColumn(b));
     return aCenterScore - bCenterScore;
   });
 }
 
 /**
- * Evaluates a specific move and returns its score
- * Used for precog predictions
+ * Evaluates a specific move for the player making it
+ * Positive scores are good for that player
  */
 export function evaluateMove(
   board: (Piece | null)[][],
   move: Move,
+  player: Player,
   depth: number = AI_SEARCH_DEPTH - 2
 ): number {
   const newBoard = cloneBoard(board);
   executeMove(newBoard, move);
 
-  // Evaluate from human's perspective (negative is bad for human)
-  return -minimax(newBoard, depth, -Infinity, Infinity, true);
+  // The opponent answers; minimax scores from White's perspective
+  const score = minimax(toSearchBoard(newBoard), depth, -Infinity, Infinity, player === 'black');
+  return scoreForSide(score, player);
 }
 
 /**
  * Gets the top N moves for a player, ranked by score
+ * Each move is searched to the given depth after it is played
  */
 export function getTopMoves(
   board: (Piece | null)[][],
   player: Player,
-  count: number = 3
+  count: number = 3,
+  depth: number = 4
 ): { move: Move; score: number }[] {
-  const moves = getAllValidMoves(board, player);
+  const searchBoard = toSearchBoard(board);
+  const moves = searchBoard.generateMoves(player);
 
   if (moves.length === 0) {
     return [];
   }
 
   const scoredMoves = moves.map(move => {
-    const newBoard = cloneBoard(board);
-    executeMove(newBoard, move);
+    searchBoard.makeMove(move);
 
     // Evaluate position after move
     const score =
-      player === 'agatha'
-        ? minimax(newBoard, 4, -Infinity, Infinity, false)
-        : -minimax(newBoard, 4, -Infinity, Infinity, true);
+      player === 'white'
+        ? minimax(searchBoard, depth, -Infinity, Infinity, false)
+        : -minimax(searchBoard, depth, -Infinity, Infinity, true);
 
-    return { move, score };
+    searchBoard.unmakeMove();
+    return { move: searchBoard.toMove(move), score };
   });
 
   // Sort by score (best first)
@@ -223,18 +643,21 @@ export function getTopMoves(
 }
 
 /**
- * Gets Agatha's predicted response to a human move
+ * Gets the predicted response to a candidate move, played by the opponent of
+ * the side making it (White's reply to a Black move, or the other way round)
  */
 export function getPredictedResponse(
   board: (Piece | null)[][],
-  humanMove: Move
+  move: Move
 ): Move | null {
-  // Simulate the human move
+  const mover = board[move.from.row][move.from.col]?.player ?? 'black';
+
+  // Simulate the candidate move
   const newBoard = cloneBoard(board);
-  executeMove(newBoard, humanMove);
+  executeMove(newBoard, move);
 
-  // Get Agatha's best response (with reduced depth for speed)
-  return getBestMoveWithDepth(newBoard, 4);
+  // Get the opponent's best response (with reduced depth for speed)
+  return getBestMoveWithDepth(newBoard, 4, getOpponent(mover));
 }
 
 /**
@@ -242,72 +665,157 @@ export function getPredictedResponse(
  */
 export function getBestMoveWithDepth(
   board: (Piece | null)[][],
-  depth: number
+  depth: number,
+  player: Player = 'white'
 ): Move | null {
-  const moves = getAllValidMoves(board, 'agatha');
+  return search(board, player, { depth }).bestMove;
+}
 
-  if (moves.length === 0) {
-    return null;
+/**
+ * Gets the number of nodes evaluated in the last search
+ */
+export function getNodesEvaluated(): number {
+  return nodesEvaluated;
+}
+
+/**
+ * Gets transposition table probes, hits and cutoffs for the last search
+ */
+export function getTranspositionStats(): TranspositionStats {
+  return transpositionTable.getStats();
+}
+
+/**
+ * Sets the evaluation weights used by every search
+ * Stored results were scored with the old weights, so the table is cleared
+ */
+export function setEvaluationWeights(weights: EvaluationWeights): void {
+  if (weights !== evaluationWeights) {
+    evaluationWeights = weights;
+    transpositionTable.clear();
   }
+}
 
-  if (moves.length === 1) {
-    return moves[0];
+/**
+ * Gets the evaluation weights used by every search
+ */
+export function getEvaluationWeights(): EvaluationWeights {
+  return evaluationWeights;
+}
+
+/**
+ * Sets the rules every search plays by
+ * Stored results were searched under the old rules, so the table is cleared
+ */
+export function setRules(rules: RuleSet): void {
+  if (rules !== ruleSet) {
+    ruleSet = rules;
+    transpositionTable.clear();
   }
+}
 
-  const orderedMoves = orderMoves(moves);
+/**
+ * Gets the rules every search plays by
+ */
+export function getRules(): RuleSet {
+  return ruleSet;
+}
 
-  let bestMove: Move | null = null;
-  let bestScore = -Infinity;
-  let alpha = -Infinity;
-  const beta = Infinity;
+/**
+ * Empties the transposition table
+ * Needed whenever scores for the same position would change
+ */
+export function clearTranspositionTable(): void {
+  transpositionTable.clear();
+}
 
-  for (const move of orderedMoves) {
-    const newBoard = cloneBoard(board);
-    executeMove(newBoard, move);
+/**
+ * Outcome of an iterative deepening search
+ * Describes the deepest iteration that completed
+ */
+export interface IterativeDeepeningResult extends SearchDepthInfo {
+  readonly iterations: SearchDepthInfo[];
+  readonly aborted: boolean;
+}
 
-    const score = minimax(newBoard, depth - 1, alpha, beta, false);
+/**
+ * Follows stored best moves from a position to rebuild the principal variation
+ */
+function extractPrincipalVariation<M>(
+  board: SearchBoard<M>,
+  player: Player,
+  maxLength: number
+): M[] {
+  const pv: M[] = [];
+  const seen = new Set<string>();
+  const current = board.clone();
+  let side = player;
+
+  while (pv.length < maxLength) {
+    const hash = current.hash(side);
+    const key = `${hash.high}:${hash.low}`;
+    const entry = transpositionTable.peek(hash);
+    if (!entry?.bestMove || seen.has(key)) {
+      break;
+    }
+    seen.add(key);
 
-    if (score > bestScore) {
-      bestScore = score;
-      bestMove = move;
+    // Guard against a stale entry from a hash collision
+    const move = current.generateMoves(side).find(m => current.isSameMove(m, entry.bestMove as M));
+    if (!move) {
+      break;
     }
 
-    alpha = Math.max(alpha, score);
+    pv.push(move);
+    current.makeMove(move);
+    side = getOpponent(side);
   }
 
-  return bestMove;
+  return pv;
 }
 
 /**
- * Gets the number of nodes evaluated in the last search
+ * Converts a line of search board moves, played from a position, to array moves
  */
-export function getNodesEvaluated(): number {
-  return nodesEvaluated;
+function toMoveLine<M>(board: SearchBoard<M>, line: M[]): Move[] {
+  const current = board.clone();
+  return line.map(move => {
+    const converted = current.toMove(move);
+    current.makeMove(move);
+    return converted;
+  });
 }
 
 /**
- * Performs iterative deepening search
- * Useful for time-limited searches
+ * Performs iterative deepening search with a time limit for the player to move
+ * Scores are from White's perspective whichever side searched
  */
 export function iterativeDeepeningSearch(
   board: (Piece | null)[][],
   maxDepth: number,
-  maxTimeMs: number
-): Move | null {
-  const startTime = Date.now();
-  let bestMove: Move | null = null;
-
-  for (let depth = 2; depth <= maxDepth; depth += 2) {
-    const elapsedTime = Date.now() - startTime;
-    if (elapsedTime >= maxTimeMs) {
-      break;
-    }
+  maxTimeMs: number,
+  onProgress?: (info: SearchDepthInfo) => void,
+  player: Player = 'white'
+): IterativeDeepeningResult {
+  const toWhite = (info: SearchDepthInfo): SearchDepthInfo => ({
+    ...info,
+    score: scoreForSide(info.score, player),
+  });
 
-    const move = getBestMoveWithDepth(board, depth);
-    if (move) {
-      bestMove = move;
-    }
-  }
+  const result = search(board, player, {
+    depth: maxDepth,
+    maxTimeMs,
+    onProgress: onProgress && (info => onProgress(toWhite(info))),
+  });
 
-  return bestMove;
+  return {
+    depth: result.stats.depth,
+    score: scoreForSide(result.score, player),
+    bestMove: result.bestMove,
+    pv: result.pv,
+    nodesEvaluated: result.stats.nodesEvaluated,
+    elapsedMs: result.stats.elapsedMs,
+    iterations: result.iterations.map(toWhite),
+    aborted: result.stats.aborted,
+  };
 }
@@ -0,0 +1,135 @@
+/**
+ * Opening Book
+ * Known opening lines looked up by position hash, so Agatha plays them without searching
+ */
+
+import { Piece, Player, Move } from '../types.js';
+import { createInitialBoard, getOpponent } from '../game/board.js';
+import { executeMove } from '../game/rules.js';
+import { parsePdn } from '../game/pdn.js';
+import { computeZobristHash } from './zobrist.js';
+import { BUNDLED_OPENINGS_PDN } from './opening-lines.js';
+
+/**
+ * A move the book knows for a position
+ */
+export interface BookMove {
+  readonly move: Move;
+  /** Name of the opening line the move belongs to */
+  readonly opening: string;
+  readonly weight: number;
+}
+
+/**
+ * Splits PDN text holding several games into one text per game
+ */
+function splitPdnGames(pdn: string): string[] {
+  return pdn
+    .split(/\n\s*\n(?=\s*\[)/)
+    .map(game => game.trim())
+    .filter(game => game.length > 0);
+}
+
+/**
+ * Opening Book class
+ * Every position along every line maps to the line's next move
+ */
+export class OpeningBook {
+  private _positions: Map<string, BookMove[]> = new Map();
+
+  /**
+   * Builds a book from PDN games tagged with Opening (and optionally Weight)
+   * Lines are replayed from the standard starting position
+   */
+  static fromPdn(pdn: string): OpeningBook {
+    const book = new OpeningBook();
+
+    for (const text of splitPdnGames(pdn)) {
+      const game = parsePdn(text);
+      const weight = Number(game.tags.Weight ?? 1);
+      book.addLine(game.tags.Opening ?? 'Unnamed opening', game.moves, weight > 0 ? weight : 1);
+    }
+
+    return book;
+  }
+
+  /**
+   * Gets the number of positions the book knows
+   */
+  get size(): number {
+    return this._positions.size;
+  }
+
+  /**
+   * Adds a line of moves played from the standard starting position (Black first)
+   */
+  addLine(opening: string, moves: Move[], weight: number = 1): void {
+    const board = createInitialBoard();
+    let player: Player = 'black';
+
+    for (const move of moves) {
+      const key = this._key(board, player);
+      const known = this._positions.get(key) ?? [];
+      known.push({ move, opening, weight });
+      this._positions.set(key, known);
+
+      executeMove(board, move);
+      player = getOpponent(player);
+    }
+  }
+
+  /**
+   * Gets every book move for a position
+   */
+  lookup(board: (Piece | null)[][], sideToMove: Player): BookMove[] {
+    return this._positions.get(this._key(board, sideToMove)) ?? [];
+  }
+
+  /**
+   * Picks a book move at random, favoring heavier lines
+   * Returns null once the position has left the book
+   */
+  pick(
+    board: (Piece | null)[][],
+    sideToMove: Player,
+    random: () => number = Math.random
+  ): BookMove | null {
+    const candidates = this.lookup(board, sideToMove);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+    let roll = random() * total;
+    for (const candidate of candidates) {
+      roll -= candidate.weight;
+      if (roll < 0) {
+        return candidate;
+      }
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  /**
+   * Gets the map key for a position
+   */
+  private _key(board: (Piece | null)[][], sideToMove: Player): string {
+    const hash = computeZobristHash(board, sideToMove);
+    return `${hash.high}:${hash.low}`;
+  }
+}
+
+/**
+ * The bundled book, built on first use
+ */
+let bundledBook: OpeningBook | null = null;
+
+/**
+ * Gets the book of bundled standard openings
+ */
+export function getOpeningBook(): OpeningBook {
+  if (!bundledBook) {
+    bundledBook = OpeningBook.fromPdn(BUNDLED_OPENINGS_PDN);
+  }
+  return bundledBook;
+}
@@ -0,0 +1,91 @@
+/**
+ * Bundled Opening Lines
+ * Standard three-move-ballot openings as PDN, one game per opening
+ * Each game is tagged with its name and a weight (how often Agatha picks it)
+ */
+
+export const BUNDLED_OPENINGS_PDN = `
+[Opening "Old Fourteenth"]
+[Weight "4"]
+1. 11-15 23-19 2. 8-11 22-17 3. 4-8 17-13 4. 15-18 24-20 5. 11-15 28-24 *
+
+[Opening "Glasgow"]
+[Weight "3"]
+1. 11-15 23-19 2. 8-11 22-17 3. 11-16 24-20 4. 16x23 27x11 5. 7x16 20x11 *
+
+[Opening "Laird and Lady"]
+[Weight "3"]
+1. 11-15 23-19 2. 8-11 22-17 3. 9-13 17-14 4. 10x17 21x14 *
+
+[Opening "Alma"]
+[Weight "2"]
+1. 11-15 23-19 2. 8-11 22-17 3. 3-8 25-22 *
+
+[Opening "Fife"]
+[Weight "2"]
+1. 11-15 23-19 2. 9-14 22-17 3. 5-9 26-23 *
+
+[Opening "Souter"]
+[Weight "2"]
+1. 11-15 23-19 2. 9-14 22-17 3. 6-9 17-13 *
+
+[Opening "Defiance"]
+[Weight "2"]
+1. 11-15 23-19 2. 9-14 27-23 3. 8-11 22-18 *
+
+[Opening "Will o' the Wisp"]
+[Weight "2"]
+1. 11-15 23-19 2. 9-13 22-18 3. 15x22 25x18 *
+
+[Opening "Cross"]
+[Weight "3"]
+1. 11-15 23-18 2. 8-11 27-23 3. 4-8 23-19 *
+
+[Opening "Single Corner"]
+[Weight "3"]
+1. 11-15 22-18 2. 15x22 25x18 3. 8-11 29-25 *
+
+[Opening "Second Double Corner"]
+[Weight "2"]
+1. 11-15 24-19 2. 15x24 28x19 3. 8-11 22-18 *
+
+[Opening "Switcher"]
+[Weight "1"]
+1. 11-15 21-17 2. 9-13 25-21 *
+
+[Opening "Dyke"]
+[Weight "1"]
+1. 11-15 22-17 2. 15-19 24x15 3. 10x19 23x16 4. 12x19 25-22 *
+
+[Opening "Ayrshire Lassie"]
+[Weight "2"]
+1. 11-15 24-20 2. 8-11 28-24 3. 4-8 23-19 *
+
+[Opening "Bristol"]
+[Weight "2"]
+1. 11-16 24-20 2. 16-19 23x16 3. 12x19 22-18 *
+
+[Opening "Bristol Cross"]
+[Weight "1"]
+1. 11-16 23-18 2. 16-20 24-19 *
+
+[Opening "Paisley"]
+[Weight "2"]
+1. 11-16 24-19 2. 8-11 22-18 *
+
+[Opening "Kelso"]
+[Weight "2"]
+1. 10-15 23-18 2. 12-16 21-17 *
+
+[Opening "Denny"]
+[Weight "2"]
+1. 10-14 24-20 2. 6-10 22-17 *
+
+[Opening "Edinburgh"]
+[Weight "1"]
+1. 9-13 22-18 2. 6-9 24-19 *
+
+[Opening "Double Corner"]
+[Weight "2"]
+1. 9-14 22-18 2. 5-9 24-19 *
+`;
@@ -6,145 +6,53 @@
 import {
   Piece,
   Move,
-  Position,
   GhostPiece,
-  PrecogPrediction,
+  MoveQuality,
+  MoveAnnotation,
 } from '../types.js';
-import { cloneBoard, getPieceAt } from '../game/board.js';
-import { getAllValidMoves, executeMove } from '../game/rules.js';
-import { getBestMoveWithDepth, evaluateMove } from './minimax.js';
+import { cloneBoard, getPieceAt, getOpponent } from '../game/board.js';
+import { getAllValidMoves, executeMove, isSameMove } from '../game/rules.js';
+import { getTopMoves, getRules, search } from './minimax.js';
 
-/**
- * Gets predictions for all valid moves of a piece
- * Shows where Agatha would likely respond
- */
-export function getPrecogPredictions(
-  board: (Piece | null)[][],
-  validMoves: Move[]
-): PrecogPrediction[] {
-  const predictions: PrecogPrediction[] = [];
+/** Plies of the predicted line deep vision shows, the candidate move included */
+export const DEEP_VISION_PLIES = 4;
 
-  for (const move of validMoves) {
-    // Simulate the human move
-    const newBoard = cloneBoard(board);
-    executeMove(newBoard, move);
-
-    // Get Agatha's best response (with shallow depth for speed)
-    const agathaResponse = getBestMoveWithDepth(newBoard, 4);
-
-    // Evaluate how good this move is for human
-    const score = evaluateMove(board, move, 4);
-
-    predictions.push({
-      humanMove: move,
-      agathaResponse,
-      score,
-    });
-  }
-
-  // Sort by score (best moves for human first)
-  predictions.sort((a, b) => b.score - a.score);
-
-  return predictions;
-}
+/** Search depth of precog predictions */
+const PRECOG_DEPTH = 4;
 
 /**
- * Converts predictions to ghost pieces for rendering
+ * Largest score loss (in centipieces) of each quality below a blunder;
+ * giving up a man or more is always a blunder
  */
-export function predictionsToGhosts(
-  board: (Piece | null)[][],
-  predictions: PrecogPrediction[]
-): GhostPiece[] {
-  const ghosts: GhostPiece[] = [];
-  const seenPositions = new Set<string>();
-
-  for (let i = 0; i < predictions.length; i++) {
-    const prediction = predictions[i];
-
-    if (prediction.agathaResponse) {
-      const posKey = `${prediction.agathaResponse.to.row},${prediction.agathaResponse.to.col}`;
-
-      // Avoid duplicate ghost positions
-      if (!seenPositions.has(posKey)) {
-        seenPositions.add(posKey);
-
-        // Get the piece that would move
-        const piece = getPieceAt(board, prediction.agathaResponse.from);
-
-        if (piece) {
-          // Opacity decreases for less likely responses
-          const opacity = Math.max(0.2, 0.5 - i * 0.1);
-
-          ghosts.push({
-            position: prediction.agathaResponse.to,
-            player: 'agatha',
-            type: piece.type,
-            opacity,
-          });
-        }
-      }
-    }
-  }
-
-  return ghosts;
-}
+const QUALITY_LIMITS: readonly (readonly [MoveQuality, number])[] = [
+  ['best', 0],
+  ['good', 20],
+  ['inaccuracy', 50],
+  ['mistake', 99],
+];
 
 /**
- * Gets a single prediction for a specific move
+ * A candidate move followed by the play Agatha foresees after it
  */
-export function getPredictionForMove(
-  board: (Piece | null)[][],
-  move: Move
-): PrecogPrediction {
-  // Simulate the human move
-  const newBoard = cloneBoard(board);
-  executeMove(newBoard, move);
-
-  // Get Agatha's response
-  const agathaResponse = getBestMoveWithDepth(newBoard, 4);
-
-  // Evaluate the move
-  const score = evaluateMove(board, move, 4);
-
-  return {
-    humanMove: move,
-    agathaResponse,
-    score,
-  };
+export interface PredictedLine {
+  /** The candidate move first, then the predicted replies, alternating sides */
+  readonly line: Move[];
+  /** Score of the candidate for the side making it (positive is good for it) */
+  readonly score: number;
 }
 
 /**
- * Gets ghost pieces showing where the human's piece would end up
- * and where Agatha would respond
+ * A judged move with the scores behind the judgement, both for the side
+ * making the move (positive is good for it)
  */
-export function getGhostsForSelection(
-  board: (Piece | null)[][],
-  selectedPiece: Piece,
-  validMoves: Move[]
-): GhostPiece[] {
-  const ghosts: GhostPiece[] = [];
-
-  // For the best few moves, show Agatha's predicted response
-  const topMoves = validMoves.slice(0, 3);
-
-  for (const move of topMoves) {
-    const prediction = getPredictionForMove(board, move);
-
-    if (prediction.agathaResponse) {
-      const piece = getPieceAt(board, prediction.agathaResponse.from);
-
-      if (piece) {
-        ghosts.push({
-          position: prediction.agathaResponse.to,
-          player: 'agatha',
-          type: piece.type,
-          opacity: 0.4,
-        });
-      }
-    }
-  }
-
-  return ghosts;
+export interface MoveJudgement {
+  readonly annotation: MoveAnnotation;
+  /** Score of the played move */
+  readonly score: number;
+  /** Score of the best move */
+  readonly bestScore: number;
+  /** True when the move was the only legal one */
+  readonly forced: boolean;
 }
 
 /**
@@ -154,14 +62,10 @@ export function isMoveDangerous(
   board: (Piece | null)[][],
   move: Move
 ): boolean {
-  const prediction = getPredictionForMove(board, move);
+  const [, reply] = getPredictedLine(board, move, 2).line;
 
   // If Agatha's response is a capture, this move might be dangerous
-  if (prediction.agathaResponse && prediction.agathaResponse.captures.length > 0) {
-    return true;
-  }
-
-  return false;
+  return reply !== undefined && reply.captures.length > 0;
 }
 
 /**
@@ -175,10 +79,9 @@ export function getBestMoveForHuman(
     return null;
   }
 
-  const predictions = getPrecogPredictions(board, validMoves);
-
-  // Return the move with the best score for human
-  return predictions[0]?.humanMove || null;
+  // Return the move with the best score for the side making it
+  const scored = validMoves.map(move => ({ move, score: getPredictedLine(board, move, 2).score }));
+  return scored.reduce((best, entry) => (entry.score > best.score ? entry : best)).move;
 }
 
 /**
@@ -186,13 +89,13 @@ export function getBestMoveForHuman(
  */
 export function analyzePosition(
   board: (Piece | null)[][],
-  player: 'human' | 'agatha'
+  player: 'black' | 'white'
 ): {
   bestMove: Move | null;
   threatLevel: 'low' | 'medium' | 'high';
   opportunities: Move[];
 } {
-  const moves = getAllValidMoves(board, player);
+  const moves = getAllValidMoves(board, player, getRules());
 
   if (moves.length === 0) {
     return {
@@ -211,7 +114,8 @@ export function analyzePosition(
   // Evaluate threat level based on opponent's options
   const opponentMoves = getAllValidMoves(
     board,
-    player === 'human' ? 'agatha' : 'human'
+    player === 'black' ? 'white' : 'black',
+    getRules()
   );
   const opponentCaptures = opponentMoves.filter(m => m.captures.length > 0);
 
@@ -223,8 +127,7 @@ export function analyzePosition(
   }
 
   // Get best move
-  const predictions = getPrecogPredictions(board, moves);
-  const bestMove = predictions[0]?.humanMove || null;
+  const { bestMove } = search(board, player, { depth: PRECOG_DEPTH });
 
   return {
     bestMove,
@@ -232,3 +135,168 @@ export function analyzePosition(
     opportunities: [...captures, ...promotions],
   };
 }
+
+/**
+ * Predicts the line of play after a candidate move from the principal
+ * variation of one search for the opponent
+ */
+export function getPredictedLine(
+  board: (Piece | null)[][],
+  move: Move,
+  plies: number = DEEP_VISION_PLIES
+): PredictedLine {
+  const mover = getPieceAt(board, move.from)?.player ?? 'black';
+
+  const newBoard = cloneBoard(board);
+  executeMove(newBoard, move);
+
+  const result = search(newBoard, getOpponent(mover), { depth: Math.max(PRECOG_DEPTH, plies - 1) });
+
+  return {
+    line: [move, ...result.pv.slice(0, plies - 1)],
+    score: -result.score,
+  };
+}
+
+/**
+ * Converts a predicted line to ghost pieces: each moved piece at its
+ * destination and each captured piece marked as vanishing, fading as the line
+ * goes deeper
+ * @param numbered Whether the ghosts carry the ply they belong to
+ */
+export function lineToGhosts(
+  board: (Piece | null)[][],
+  line: Move[],
+  numbered: boolean = true
+): GhostPiece[] {
+  const ghosts: GhostPiece[] = [];
+  const current = cloneBoard(board);
+
+  for (const [i, move] of line.entries()) {
+    const piece = getPieceAt(current, move.from);
+    if (!piece) {
+      break;
+    }
+
+    const step = numbered ? i + 1 : undefined;
+    const opacity = Math.max(0.15, 0.6 - i * 0.12);
+
+    for (const captured of move.captures) {
+      const victim = getPieceAt(current, captured);
+      if (victim) {
+        ghosts.push({ position: captured, player: victim.player, type: victim.type, opacity, step, vanishing: true });
+      }
+    }
+
+    ghosts.push({
+      position: move.to,
+      player: piece.player,
+      type: move.isPromotion ? 'king' : piece.type,
+      opacity,
+      step,
+    });
+
+    executeMove(current, move);
+  }
+
+  return ghosts;
+}
+
+/**
+ * Predicted lines for the moves of one position, so hovering a move again
+ * does not search it again
+ * Lines of an earlier position are dropped once a line for a new one is stored
+ */
+export class PredictionCache {
+  private _positionKey: string | null = null;
+  private _lines: Map<string, PredictedLine> = new Map();
+
+  /**
+   * Gets the stored line for a move, if it was predicted this deep in the position
+   */
+  get(positionKey: string, move: Move, plies: number): PredictedLine | undefined {
+    if (positionKey !== this._positionKey) {
+      return undefined;
+    }
+    return this._lines.get(moveKey(move, plies));
+  }
+
+  /**
+   * Stores the line predicted for a move
+   */
+  set(positionKey: string, move: Move, plies: number, prediction: PredictedLine): void {
+    if (positionKey !== this._positionKey) {
+      this._positionKey = positionKey;
+      this._lines.clear();
+    }
+    this._lines.set(moveKey(move, plies), prediction);
+  }
+
+  /**
+   * Gets the number of stored lines
+   */
+  get size(): number {
+    return this._lines.size;
+  }
+
+  /**
+   * Forgets every line
+   */
+  clear(): void {
+    this._positionKey = null;
+    this._lines.clear();
+  }
+}
+
+/**
+ * Identifies a move by its route, so capture routes to the same square differ
+ */
+function moveKey(move: Move, plies: number): string {
+  const route = [move.from, ...move.landings].map(pos => `${pos.row},${pos.col}`).join('-');
+  return `${plies}:${route}`;
+}
+
+/**
+ * Classifies a move by the score it gave up against the best move
+ */
+export function classifyMoveQuality(loss: number): MoveQuality {
+  const limit = QUALITY_LIMITS.find(([, maxLoss]) => loss <= maxLoss);
+  return limit ? limit[0] : 'blunder';
+}
+
+/**
+ * Judges a played move against the best move of the position
+ */
+export function annotateMove(board: (Piece | null)[][], move: Move): MoveAnnotation {
+  return judgeMove(board, move).annotation;
+}
+
+/**
+ * Judges a played move, keeping the scores the judgement rests on
+ * Every legal move is searched to the same depth after it is played; a forced
+ * move is simply good
+ */
+export function judgeMove(
+  board: (Piece | null)[][],
+  move: Move,
+  depth: number = PRECOG_DEPTH
+): MoveJudgement {
+  const mover = getPieceAt(board, move.from)?.player ?? 'black';
+  const scored = getTopMoves(board, mover, Infinity, depth);
+
+  const played = scored.find(candidate => isSameMove(candidate.move, move));
+  if (!played) {
+    throw new Error('Cannot judge a move that is not legal in the position');
+  }
+
+  const [best] = scored;
+  const forced = scored.length === 1;
+  const loss = best.score - played.score;
+  const quality = forced ? 'good' : classifyMoveQuality(loss);
+  return {
+    annotation: { quality, loss, bestMove: quality === 'best' || forced ? null : best.move },
+    score: played.score,
+    bestScore: best.score,
+    forced,
+  };
+}
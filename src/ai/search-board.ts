@@ -0,0 +1,239 @@
+/**
+ * Search Boards
+ * The position a search plays moves on: a bitboard for the standard 8x8 board,
+ * and the array board for any other size (the bitboard only has 32 squares)
+ */
+
+import { Piece, Player, Move, EvaluationWeights, BOARD_SIZE } from '../types.js';
+import { cloneBoard } from '../game/board.js';
+import { getAllValidMoves, hasCaptures, executeMove } from '../game/rules.js';
+import { RuleSet } from '../game/variants.js';
+import {
+  evaluateBoard,
+  evaluateEndGame,
+  evaluateBitboard,
+  evaluateBitboardEndGame,
+} from './evaluation.js';
+import { ZobristHash, computeZobristHash, computeBitboardHash } from './zobrist.js';
+import { getTablebase, TablebaseResult } from './tablebase.js';
+import {
+  Bitboard,
+  BitMove,
+  BitboardUndo,
+  fromBoard,
+  cloneBitboard,
+  generateMoves,
+  hasCapture,
+  makeMove,
+  unmakeMove,
+  toMove,
+  indexToPosition,
+  isSameBitMove,
+} from './bitboard.js';
+
+/**
+ * A position the search makes and takes back moves on
+ * Moves are whatever the board generates; they are only passed back to the
+ * board that generated them (or a clone of it)
+ */
+export interface SearchBoard<M> {
+  /** Squares per side */
+  readonly size: number;
+  generateMoves(player: Player): M[];
+  hasCapture(player: Player): boolean;
+  /** Plays a move; unmakeMove takes back the last move still played */
+  makeMove(move: M): void;
+  unmakeMove(): void;
+  /** Static evaluation from White's perspective */
+  evaluate(weights: EvaluationWeights): number;
+  /** Win or loss score for the player, or null while the game goes on */
+  evaluateEndGame(player: Player): number | null;
+  hash(player: Player): ZobristHash;
+  /** Endgame tablebase result for the player to move, or null when not covered */
+  probeTablebase(player: Player): TablebaseResult | null;
+  toMove(move: M): Move;
+  isSameMove(a: M, b: M): boolean;
+  captureCount(move: M): number;
+  isPromotion(move: M): boolean;
+  /** Column the move ends on */
+  targetColumn(move: M): number;
+  /** Copy of the current position, without the moves played to reach it */
+  clone(): SearchBoard<M>;
+}
+
+/**
+ * Search board on the 32-square bitboard (8x8 boards)
+ */
+export class BitboardSearchBoard implements SearchBoard<BitMove> {
+  private _bitboard: Bitboard;
+  private _rules: RuleSet;
+  private _undoStack: BitboardUndo[] = [];
+
+  constructor(bitboard: Bitboard, rules: RuleSet) {
+    this._bitboard = bitboard;
+    this._rules = rules;
+  }
+
+  get size(): number {
+    return BOARD_SIZE;
+  }
+
+  generateMoves(player: Player): BitMove[] {
+    return generateMoves(this._bitboard, player, this._rules);
+  }
+
+  hasCapture(player: Player): boolean {
+    return hasCapture(this._bitboard, player, this._rules);
+  }
+
+  makeMove(move: BitMove): void {
+    this._undoStack.push(makeMove(this._bitboard, move));
+  }
+
+  unmakeMove(): void {
+    unmakeMove(this._bitboard, this._undoStack.pop()!);
+  }
+
+  evaluate(weights: EvaluationWeights): number {
+    return evaluateBitboard(this._bitboard, weights, this._rules);
+  }
+
+  evaluateEndGame(player: Player): number | null {
+    return evaluateBitboardEndGame(this._bitboard, player, this._rules);
+  }
+
+  hash(player: Player): ZobristHash {
+    return computeBitboardHash(this._bitboard, player);
+  }
+
+  /**
+   * The tablebase is solved under American rules, so other variants never use it
+   */
+  probeTablebase(player: Player): TablebaseResult | null {
+    if (this._rules.variant !== 'american') {
+      return null;
+    }
+    return getTablebase()?.probe(this._bitboard, player) ?? null;
+  }
+
+  toMove(move: BitMove): Move {
+    return toMove(this._bitboard, move);
+  }
+
+  isSameMove(a: BitMove, b: BitMove): boolean {
+    return isSameBitMove(a, b);
+  }
+
+  captureCount(move: BitMove): number {
+    return move.jumped.length;
+  }
+
+  isPromotion(move: BitMove): boolean {
+    return move.isPromotion;
+  }
+
+  targetColumn(move: BitMove): number {
+    return indexToPosition(move.to).col;
+  }
+
+  clone(): BitboardSearchBoard {
+    return new BitboardSearchBoard(cloneBitboard(this._bitboard), this._rules);
+  }
+}
+
+/**
+ * Search board on the array board, for boards the bitboard cannot hold
+ * Slower than the bitboard: every move saves a copy of the board to restore
+ */
+export class ArraySearchBoard implements SearchBoard<Move> {
+  private _board: (Piece | null)[][];
+  private _rules: RuleSet;
+  private _history: (Piece | null)[][][] = [];
+
+  constructor(board: (Piece | null)[][], rules: RuleSet) {
+    this._board = board;
+    this._rules = rules;
+  }
+
+  get size(): number {
+    return this._board.length;
+  }
+
+  generateMoves(player: Player): Move[] {
+    return getAllValidMoves(this._board, player, this._rules);
+  }
+
+  hasCapture(player: Player): boolean {
+    return hasCaptures(this._board, player, this._rules);
+  }
+
+  makeMove(move: Move): void {
+    this._history.push(cloneBoard(this._board));
+    executeMove(this._board, move);
+  }
+
+  unmakeMove(): void {
+    this._board = this._history.pop()!;
+  }
+
+  evaluate(weights: EvaluationWeights): number {
+    return evaluateBoard(this._board, weights, this._rules);
+  }
+
+  evaluateEndGame(player: Player): number | null {
+    return evaluateEndGame(this._board, player, this._rules);
+  }
+
+  hash(player: Player): ZobristHash {
+    return computeZobristHash(this._board, player);
+  }
+
+  probeTablebase(): TablebaseResult | null {
+    return null;
+  }
+
+  toMove(move: Move): Move {
+    return move;
+  }
+
+  isSameMove(a: Move, b: Move): boolean {
+    return (
+      a.landings.length === b.landings.length &&
+      a.from.row === b.from.row &&
+      a.from.col === b.from.col &&
+      a.landings.every(
+        (pos, i) => pos.row === b.landings[i].row && pos.col === b.landings[i].col
+      )
+    );
+  }
+
+  captureCount(move: Move): number {
+    return move.captures.length;
+  }
+
+  isPromotion(move: Move): boolean {
+    return move.isPromotion;
+  }
+
+  targetColumn(move: Move): number {
+    return move.to.col;
+  }
+
+  clone(): ArraySearchBoard {
+    return new ArraySearchBoard(cloneBoard(this._board), this._rules);
+  }
+}
+
+/**
+ * Creates the search board for a position, copying the board
+ * 8x8 boards are searched on the bitboard, other sizes on the array board
+ */
+export function createSearchBoard(
+  board: (Piece | null)[][],
+  rules: RuleSet
+): SearchBoard<unknown> {
+  if (board.length === BOARD_SIZE) {
+    return new BitboardSearchBoard(fromBoard(board), rules) as SearchBoard<unknown>;
+  }
+  return new ArraySearchBoard(cloneBoard(board), rules) as SearchBoard<unknown>;
+}
@@ -0,0 +1,170 @@
+/**
+ * Self-Play
+ * Agatha playing both sides without a board on screen, for comparing search
+ * depths and evaluation weights over many games
+ */
+
+import {
+  Player,
+  Move,
+  MoveRecord,
+  GameResult,
+  EvaluationWeights,
+  DEFAULT_WEIGHTS,
+  AI_SEARCH_DEPTH,
+} from '../types.js';
+import { GameController } from '../game/game-controller.js';
+import { getAllValidMoves } from '../game/rules.js';
+import { RuleSet, AMERICAN_RULES } from '../game/variants.js';
+import {
+  search,
+  getEvaluationWeights,
+  setEvaluationWeights,
+  getRules,
+  setRules,
+} from './minimax.js';
+
+/**
+ * How the engine plays one side
+ */
+export interface SelfPlaySide {
+  /** Search depth of every move */
+  readonly depth: number;
+  readonly weights: EvaluationWeights;
+}
+
+/**
+ * Settings for a self-play run
+ */
+export interface SelfPlayOptions {
+  readonly rules: RuleSet;
+  /** Settings for each side */
+  readonly sides: Readonly<Record<Player, SelfPlaySide>>;
+  /**
+   * Random moves played before the engine takes over, so the games of a run
+   * differ (American games also vary through the opening book)
+   */
+  readonly randomPlies: number;
+  /** Source of randomness for those moves */
+  readonly random: () => number;
+}
+
+/**
+ * Outcome of one self-play game
+ */
+export interface SelfPlayGame {
+  readonly result: GameResult;
+  readonly moveHistory: MoveRecord[];
+}
+
+/**
+ * Tally of a self-play run, by color
+ */
+export interface SelfPlayReport {
+  readonly games: number;
+  readonly blackWins: number;
+  readonly whiteWins: number;
+  readonly draws: number;
+}
+
+/** Side settings used when none are given */
+export const DEFAULT_SELF_PLAY_SIDE: SelfPlaySide = {
+  depth: AI_SEARCH_DEPTH,
+  weights: DEFAULT_WEIGHTS,
+};
+
+/** Settings used when none are given */
+export const DEFAULT_SELF_PLAY_OPTIONS: SelfPlayOptions = {
+  rules: AMERICAN_RULES,
+  sides: { black: DEFAULT_SELF_PLAY_SIDE, white: DEFAULT_SELF_PLAY_SIDE },
+  randomPlies: 0,
+  random: Math.random,
+};
+
+/**
+ * Plays one game of the engine against itself
+ * The search weights and rules are restored afterwards
+ */
+export function playSelfPlayGame(options: Partial<SelfPlayOptions> = {}): SelfPlayGame {
+  const { rules, sides, randomPlies, random } = { ...DEFAULT_SELF_PLAY_OPTIONS, ...options };
+  const game = new GameController(null, rules);
+  const savedWeights = getEvaluationWeights();
+  const savedRules = getRules();
+
+  try {
+    setRules(rules);
+
+    while (!game.isGameOver) {
+      const player = game.currentPlayer;
+      const move =
+        game.moveHistory.length < randomPlies
+          ? pickRandomMove(game, random)
+          : searchMove(game, sides[player]);
+
+      // A side without moves has already lost, so the game would be over
+      if (!move || !game.makeMove(move)) {
+        throw new Error(`No move found for ${player} in an unfinished game`);
+      }
+    }
+  } finally {
+    setEvaluationWeights(savedWeights);
+    setRules(savedRules);
+  }
+
+  return { result: game.result!, moveHistory: game.moveHistory };
+}
+
+/**
+ * Plays a number of self-play games and counts the results
+ * @param onGame Called after every game, e.g. to report progress
+ */
+export function runSelfPlay(
+  games: number,
+  options: Partial<SelfPlayOptions> = {},
+  onGame?: (game: SelfPlayGame, index: number) => void
+): SelfPlayReport {
+  let blackWins = 0;
+  let whiteWins = 0;
+  let draws = 0;
+
+  for (let i = 0; i < games; i++) {
+    const game = playSelfPlayGame(options);
+    if (game.result.status === 'black_wins') {
+      blackWins++;
+    } else if (game.result.status === 'white_wins') {
+      whiteWins++;
+    } else {
+      draws++;
+    }
+    onGame?.(game, i);
+  }
+
+  return { games, blackWins, whiteWins, draws };
+}
+
+/**
+ * Formats a report as wins, losses and draws from Black's side
+ */
+export function formatSelfPlayReport(report: SelfPlayReport): string {
+  return `${report.games} games: Black ${report.blackWins} W / ${report.whiteWins} L / ${report.draws} D`;
+}
+
+/**
+ * Searches the side to move's best move with its own settings, without the
+ * per-move logging of getBestMove
+ */
+function searchMove(game: GameController, side: SelfPlaySide): Move | null {
+  setEvaluationWeights(side.weights);
+  return search(game.board, game.currentPlayer, { depth: side.depth, useBook: true }).bestMove;
+}
+
+/**
+ * Picks a legal move for the side to move at random
+ */
+function pickRandomMove(game: GameController, random: () => number): Move | null {
+  const moves = getAllValidMoves(game.board, game.currentPlayer, game.rules);
+  if (moves.length === 0) {
+    return null;
+  }
+  return moves[Math.min(Math.floor(random() * moves.length), moves.length - 1)];
+}
@@ -0,0 +1,295 @@
+/**
+ * Endgame Tablebase Generator
+ * Solves every position with few pieces by retrograde analysis. Slow for four
+ * pieces, so it runs offline (npm run tablebase) and the app loads the result.
+ */
+
+import {
+  Bitboard,
+  generateMoves,
+  hasCapture,
+  makeMove,
+  unmakeMove,
+  getNeighbor,
+} from './bitboard.js';
+import {
+  Tablebase,
+  TablebaseSignature,
+  TablebaseResult,
+  getSignatures,
+  getSignature,
+  mirrorSignature,
+  mirrorBitboard,
+  signatureKey,
+  signatureSize,
+  positionIndex,
+  positionAt,
+  isValidPosition,
+  encodeResult,
+  MAX_TABLEBASE_DISTANCE,
+} from './tablebase.js';
+
+/**
+ * Progress of a generation, reported after each group of tables
+ */
+export interface TablebaseProgress {
+  readonly signatures: TablebaseSignature[];
+  readonly positions: number;
+  readonly completed: number;
+  readonly total: number;
+}
+
+/** Solving state of a position */
+const UNSOLVED = 0;
+const SOLVED = 1;
+const INVALID = 2;
+
+/** No win found yet */
+const NO_WIN = 255;
+
+/** Positions are referenced across the tables of a group as slot * SLOT_STRIDE + index */
+const SLOT_STRIDE = 2 ** 24;
+
+/** Directions a piece came from when undoing a White move: men came down, kings from anywhere */
+const WHITE_MAN_ORIGINS = [0, 1];
+const KING_ORIGINS = [0, 1, 2, 3];
+
+/**
+ * Working state of one table while its group is solved
+ */
+interface SlotState {
+  readonly signature: TablebaseSignature;
+  readonly results: Uint8Array;
+  readonly state: Uint8Array;
+  /** Moves into the group whose result is still unknown */
+  readonly unresolved: Uint8Array;
+  /** Longest win the opponent has after any move so far */
+  readonly longestLoss: Uint8Array;
+  /** Shortest win found so far, or NO_WIN */
+  readonly shortestWin: Uint8Array;
+  readonly hasDraw: Uint8Array;
+}
+
+/**
+ * Groups each signature with its mirror
+ * A simple move turns one into the other (the mover becomes the side that just
+ * moved), so the two are solved together. Groups are ordered so captures and
+ * promotions always lead into groups already solved.
+ */
+function getGenerationGroups(maxPieces: number): TablebaseSignature[][] {
+  const groups: TablebaseSignature[][] = [];
+  const seen = new Set<number>();
+
+  for (const signature of getSignatures(maxPieces)) {
+    if (seen.has(signatureKey(signature))) {
+      continue;
+    }
+    const mirror = mirrorSignature(signature);
+    const group = signatureKey(mirror) === signatureKey(signature) ? [signature] : [signature, mirror];
+    group.forEach(member => seen.add(signatureKey(member)));
+    groups.push(group);
+  }
+
+  const pieces = (s: TablebaseSignature) => s.blackMen + s.blackKings + s.whiteMen + s.whiteKings;
+  const men = (s: TablebaseSignature) => s.blackMen + s.whiteMen;
+  return groups.sort((a, b) => pieces(a[0]) - pieces(b[0]) || men(a[0]) - men(b[0]));
+}
+
+/**
+ * Solves every position with at most maxPieces pieces
+ */
+export function generateTablebase(
+  maxPieces: number,
+  onProgress?: (progress: TablebaseProgress) => void
+): Tablebase {
+  const tablebase = new Tablebase(maxPieces);
+  const groups = getGenerationGroups(maxPieces);
+
+  groups.forEach((signatures, i) => {
+    const positions = solveGroup(tablebase, signatures);
+    onProgress?.({ signatures, positions, completed: i + 1, total: groups.length });
+  });
+
+  return tablebase;
+}
+
+/**
+ * Solves the tables of one group and stores them in the tablebase
+ * Every position is first scored from the moves that leave the group, then
+ * results spread backwards one ply at a time: a loss makes every predecessor a
+ * win, and a position all of whose moves reach wins for the opponent is lost.
+ * Positions never reached this way are draws. Returns the number of positions.
+ */
+function solveGroup(tablebase: Tablebase, signatures: TablebaseSignature[]): number {
+  const slots: SlotState[] = signatures.map(signature => {
+    const size = signatureSize(signature);
+    return {
+      signature,
+      results: new Uint8Array(size),
+      state: new Uint8Array(size),
+      unresolved: new Uint8Array(size),
+      longestLoss: new Uint8Array(size),
+      shortestWin: new Uint8Array(size).fill(NO_WIN),
+      hasDraw: new Uint8Array(size),
+    };
+  });
+  const slotOf = new Map(signatures.map((signature, slot) => [signatureKey(signature), slot]));
+
+  // Positions waiting to be solved, by distance
+  const wins: number[][] = [];
+  const losses: number[][] = [];
+  const queue = (buckets: number[][], distance: number, ref: number) => {
+    if (distance > MAX_TABLEBASE_DISTANCE + 1) {
+      throw new Error(`Tablebase distance ${distance} is too long to store`);
+    }
+    (buckets[distance] ??= []).push(ref);
+  };
+
+  slots.forEach((slot, slotIndex) => {
+    for (let index = 0; index < slot.results.length; index++) {
+      const position = positionAt(index, slot.signature);
+      if (!isValidPosition(position)) {
+        slot.state[index] = INVALID;
+        continue;
+      }
+
+      const ref = slotIndex * SLOT_STRIDE + index;
+      const moves = generateMoves(position, 'black');
+      if (moves.length === 0) {
+        queue(losses, 0, ref);
+        continue;
+      }
+
+      for (const move of moves) {
+        const undo = makeMove(position, move);
+        const child = mirrorBitboard(position);
+        unmakeMove(position, undo);
+
+        if (slotOf.has(signatureKey(getSignature(child)))) {
+          slot.unresolved[index]++;
+          continue;
+        }
+
+        const result = probeSolved(tablebase, child);
+        if (result.outcome === 'loss') {
+          slot.shortestWin[index] = Math.min(slot.shortestWin[index], result.distance + 1);
+        } else if (result.outcome === 'win') {
+          slot.longestLoss[index] = Math.max(slot.longestLoss[index], result.distance);
+        } else {
+          slot.hasDraw[index] = 1;
+        }
+      }
+
+      if (slot.shortestWin[index] !== NO_WIN) {
+        queue(wins, slot.shortestWin[index], ref);
+      } else if (slot.unresolved[index] === 0 && !slot.hasDraw[index]) {
+        queue(losses, slot.longestLoss[index] + 1, ref);
+      }
+    }
+  });
+
+  for (let distance = 0; distance < Math.max(wins.length, losses.length); distance++) {
+    for (const [buckets, outcome] of [
+      [losses, 'loss'],
+      [wins, 'win'],
+    ] as const) {
+      for (const ref of buckets[distance] ?? []) {
+        const slot = slots[Math.floor(ref / SLOT_STRIDE)];
+        const index = ref % SLOT_STRIDE;
+        if (slot.state[index] !== UNSOLVED) {
+          continue;
+        }
+
+        slot.state[index] = SOLVED;
+        slot.results[index] = encodeResult({ outcome, distance });
+
+        for (const predecessor of getPredecessors(positionAt(index, slot.signature))) {
+          const predecessorSlot = slots[slotOf.get(signatureKey(getSignature(predecessor)))!];
+          const predecessorIndex = positionIndex(predecessor, predecessorSlot.signature);
+          if (predecessorSlot.state[predecessorIndex] !== UNSOLVED) {
+            continue;
+          }
+
+          const predecessorRef = slots.indexOf(predecessorSlot) * SLOT_STRIDE + predecessorIndex;
+          if (outcome === 'loss') {
+            if (distance + 1 < predecessorSlot.shortestWin[predecessorIndex]) {
+              predecessorSlot.shortestWin[predecessorIndex] = distance + 1;
+              queue(wins, distance + 1, predecessorRef);
+            }
+            continue;
+          }
+
+          predecessorSlot.unresolved[predecessorIndex]--;
+          predecessorSlot.longestLoss[predecessorIndex] = Math.max(
+            predecessorSlot.longestLoss[predecessorIndex],
+            distance
+          );
+          if (
+            predecessorSlot.unresolved[predecessorIndex] === 0 &&
+            predecessorSlot.shortestWin[predecessorIndex] === NO_WIN &&
+            !predecessorSlot.hasDraw[predecessorIndex]
+          ) {
+            queue(losses, predecessorSlot.longestLoss[predecessorIndex] + 1, predecessorRef);
+          }
+        }
+      }
+    }
+  }
+
+  for (const slot of slots) {
+    tablebase.setTable(slot.signature, slot.results);
+  }
+  return slots.reduce((sum, slot) => sum + slot.results.length, 0);
+}
+
+/**
+ * Gets the result of a Black-to-move position from a group already solved
+ * A side with no pieces left has lost
+ */
+function probeSolved(tablebase: Tablebase, position: Bitboard): TablebaseResult {
+  if (position.black === 0) {
+    return { outcome: 'loss', distance: 0 };
+  }
+
+  const result = tablebase.probe(position, 'black');
+  if (!result) {
+    throw new Error('Tablebase group solved out of order');
+  }
+  return result;
+}
+
+/**
+ * Gets the Black-to-move positions from which a simple Black move leads to this
+ * Black-to-move position, seen (mirrored) from the side that moved
+ * White just moved here: each White piece is stepped back to an empty square it
+ * could have come from, as long as White had no capture (captures are forced).
+ * Promotions change the material and are handled by the group they start in.
+ */
+function getPredecessors(position: Bitboard): Bitboard[] {
+  const predecessors: Bitboard[] = [];
+  const empty = ~(position.black | position.white);
+
+  for (let pieces = position.white; pieces !== 0; pieces &= pieces - 1) {
+    const square = 31 - Math.clz32(pieces & -pieces);
+    const bit = 1 << square;
+    const isKing = (position.kings & bit) !== 0;
+
+    for (const direction of isKing ? KING_ORIGINS : WHITE_MAN_ORIGINS) {
+      const origin = getNeighbor(square, direction);
+      if (origin < 0 || !(empty & (1 << origin))) {
+        continue;
+      }
+
+      const before: Bitboard = {
+        black: position.black,
+        white: ((position.white & ~bit) | (1 << origin)) >>> 0,
+        kings: isKing ? ((position.kings & ~bit) | (1 << origin)) >>> 0 : position.kings,
+      };
+      if (!hasCapture(before, 'white')) {
+        predecessors.push(mirrorBitboard(before));
+      }
+    }
+  }
+
+  return predecessors;
+}
@@ -0,0 +1,486 @@
+/**
+ * Endgame Tablebase
+ * Exact win/loss/draw results and distances for positions with few pieces,
+ * stored in a compact binary format and probed by the search
+ */
+
+import { Player } from '../types.js';
+import { Bitboard, BITBOARD_SQUARES, countBits } from './bitboard.js';
+
+/**
+ * Material of a table: men and kings of the side to move (Black), then of White
+ */
+export interface TablebaseSignature {
+  readonly blackMen: number;
+  readonly blackKings: number;
+  readonly whiteMen: number;
+  readonly whiteKings: number;
+}
+
+/**
+ * Result of a position for the side to move
+ * The distance is the number of plies until the game ends with best play
+ */
+export interface TablebaseResult {
+  readonly outcome: 'win' | 'loss' | 'draw';
+  readonly distance: number;
+}
+
+/** Where the generator writes the tables and the app loads them from */
+export const DEFAULT_TABLEBASE_PATH = 'tablebase/endgame.bin';
+
+/** Score of a tablebase win, less one per ply: above any evaluation, below a search-found win */
+export const TABLEBASE_WIN_SCORE = 50000;
+
+/** Longest distance the one-byte encoding can hold */
+export const MAX_TABLEBASE_DISTANCE = 253;
+
+/** File header: "ACTB", version, piece limit, table count */
+const MAGIC = [0x41, 0x43, 0x54, 0x42];
+const FORMAT_VERSION = 1;
+const HEADER_BYTES = 8;
+const TABLE_ENTRY_BYTES = 8;
+
+/** Encoded byte values: 0 is a draw, then wins, then losses */
+const LOSS_OFFSET = 128;
+
+/** Men may not stand on their own promotion row: Black's is row 0, White's the last */
+const BLACK_MAN_FORBIDDEN = 0x0000000f;
+const WHITE_MAN_FORBIDDEN = 0xf0000000;
+
+/** Binomial coefficients C(n, k) for n up to the number of squares */
+const BINOMIALS: number[][] = [];
+
+for (let n = 0; n <= BITBOARD_SQUARES; n++) {
+  BINOMIALS.push([]);
+  for (let k = 0; k <= n; k++) {
+    BINOMIALS[n].push(k === 0 || k === n ? 1 : BINOMIALS[n - 1][k - 1] + BINOMIALS[n - 1][k]);
+  }
+}
+
+/**
+ * Gets C(n, k), or 0 when k > n
+ */
+function binomial(n: number, k: number): number {
+  return k > n ? 0 : BINOMIALS[n][k];
+}
+
+/**
+ * Gets the index of the lowest set bit of a non-empty mask
+ */
+function lowestBit(mask: number): number {
+  return 31 - Math.clz32(mask & -mask);
+}
+
+/**
+ * Reverses the bits of a 32-bit mask
+ */
+function reverseBits(mask: number): number {
+  let m = mask >>> 0;
+  m = ((m >>> 1) & 0x55555555) | ((m & 0x55555555) << 1);
+  m = ((m >>> 2) & 0x33333333) | ((m & 0x33333333) << 2);
+  m = ((m >>> 4) & 0x0f0f0f0f) | ((m & 0x0f0f0f0f) << 4);
+  m = ((m >>> 8) & 0x00ff00ff) | ((m & 0x00ff00ff) << 8);
+  return ((m >>> 16) | (m << 16)) >>> 0;
+}
+
+/**
+ * Turns the board around and swaps the colors
+ * The position is the same for the other side, so White-to-move positions
+ * are looked up as their Black-to-move mirror and only those are stored.
+ */
+export function mirrorBitboard(bitboard: Bitboard): Bitboard {
+  return {
+    black: reverseBits(bitboard.white),
+    white: reverseBits(bitboard.black),
+    kings: reverseBits(bitboard.kings),
+  };
+}
+
+/**
+ * Gets the material of a position
+ */
+export function getSignature(bitboard: Bitboard): TablebaseSignature {
+  return {
+    blackMen: countBits(bitboard.black & ~bitboard.kings),
+    blackKings: countBits(bitboard.black & bitboard.kings),
+    whiteMen: countBits(bitboard.white & ~bitboard.kings),
+    whiteKings: countBits(bitboard.white & bitboard.kings),
+  };
+}
+
+/**
+ * Gets the material with the colors swapped
+ */
+export function mirrorSignature(signature: TablebaseSignature): TablebaseSignature {
+  return {
+    blackMen: signature.whiteMen,
+    blackKings: signature.whiteKings,
+    whiteMen: signature.blackMen,
+    whiteKings: signature.blackKings,
+  };
+}
+
+/**
+ * Gets a number identifying a signature (each count is below 5)
+ */
+export function signatureKey(signature: TablebaseSignature): number {
+  return (
+    ((signature.blackMen * 5 + signature.blackKings) * 5 + signature.whiteMen) * 5 +
+    signature.whiteKings
+  );
+}
+
+/**
+ * Gets every signature with both sides on the board and at most maxPieces pieces
+ */
+export function getSignatures(maxPieces: number): TablebaseSignature[] {
+  const signatures: TablebaseSignature[] = [];
+  for (let black = 1; black < maxPieces; black++) {
+    for (let white = 1; black + white <= maxPieces; white++) {
+      for (let blackKings = 0; blackKings <= black; blackKings++) {
+        for (let whiteKings = 0; whiteKings <= white; whiteKings++) {
+          signatures.push({
+            blackMen: black - blackKings,
+            blackKings,
+            whiteMen: white - whiteKings,
+            whiteKings,
+          });
+        }
+      }
+    }
+  }
+  return signatures;
+}
+
+/**
+ * Gets the group sizes of a signature, in the order pieces are placed
+ */
+function getGroupSizes(signature: TablebaseSignature): number[] {
+  return [signature.blackMen, signature.blackKings, signature.whiteMen, signature.whiteKings];
+}
+
+/**
+ * Gets the number of Black-to-move positions indexed by a signature
+ * Each group of pieces takes squares among those left by the earlier groups
+ */
+export function signatureSize(signature: TablebaseSignature): number {
+  let size = 1;
+  let free = BITBOARD_SQUARES;
+  for (const count of getGroupSizes(signature)) {
+    size *= binomial(free, count);
+    free -= count;
+  }
+  return size;
+}
+
+/**
+ * Ranks a group of squares among the squares not already used
+ */
+function rankGroup(mask: number, used: number): number {
+  let rank = 0;
+  let placed = 0;
+  for (let m = mask; m !== 0; m &= m - 1) {
+    const square = lowestBit(m);
+    const compressed = square - countBits(used & ((1 << square) - 1));
+    placed++;
+    rank += binomial(compressed, placed);
+  }
+  return rank;
+}
+
+/**
+ * Places a group of squares from its rank among the squares not already used
+ */
+function unrankGroup(rank: number, count: number, used: number): number {
+  let mask = 0;
+  let remaining = rank;
+  for (let placed = count; placed > 0; placed--) {
+    let compressed = placed - 1;
+    while (binomial(compressed + 1, placed) <= remaining) {
+      compressed++;
+    }
+    remaining -= binomial(compressed, placed);
+
+    // The compressed index counts free squares only
+    let square = 0;
+    for (let free = -1; ; square++) {
+      if (!(used & (1 << square))) {
+        free++;
+        if (free === compressed) {
+          break;
+        }
+      }
+    }
+    mask |= 1 << square;
+  }
+  return mask >>> 0;
+}
+
+/**
+ * Gets the index of a Black-to-move position within its signature's table
+ */
+export function positionIndex(bitboard: Bitboard, signature: TablebaseSignature): number {
+  const groups = [
+    bitboard.black & ~bitboard.kings,
+    bitboard.black & bitboard.kings,
+    bitboard.white & ~bitboard.kings,
+    bitboard.white & bitboard.kings,
+  ];
+  const counts = getGroupSizes(signature);
+
+  let index = 0;
+  let used = 0;
+  let free = BITBOARD_SQUARES;
+  for (let group = 0; group < groups.length; group++) {
+    index = index * binomial(free, counts[group]) + rankGroup(groups[group], used);
+    used |= groups[group];
+    free -= counts[group];
+  }
+  return index;
+}
+
+/**
+ * Gets the Black-to-move position at an index of a signature's table
+ */
+export function positionAt(index: number, signature: TablebaseSignature): Bitboard {
+  const counts = getGroupSizes(signature);
+  const sizes: number[] = [];
+  let free = BITBOARD_SQUARES;
+  for (const count of counts) {
+    sizes.push(binomial(free, count));
+    free -= count;
+  }
+
+  // Split the index into one rank per group, last group first
+  const ranks: number[] = [];
+  let rest = index;
+  for (let group = counts.length - 1; group >= 0; group--) {
+    ranks[group] = rest % sizes[group];
+    rest = Math.floor(rest / sizes[group]);
+  }
+
+  const groups: number[] = [];
+  let used = 0;
+  for (let group = 0; group < counts.length; group++) {
+    groups.push(unrankGroup(ranks[group], counts[group], used));
+    used |= groups[group];
+  }
+
+  return {
+    black: (groups[0] | groups[1]) >>> 0,
+    white: (groups[2] | groups[3]) >>> 0,
+    kings: (groups[1] | groups[3]) >>> 0,
+  };
+}
+
+/**
+ * Checks that no man stands on its own promotion row
+ */
+export function isValidPosition(bitboard: Bitboard): boolean {
+  return (
+    (bitboard.black & ~bitboard.kings & BLACK_MAN_FORBIDDEN) === 0 &&
+    (bitboard.white & ~bitboard.kings & WHITE_MAN_FORBIDDEN) === 0
+  );
+}
+
+/**
+ * Packs a result into one byte
+ * Wins always take an odd number of plies and losses an even number, so only half is stored
+ */
+export function encodeResult(result: TablebaseResult): number {
+  if (result.distance > MAX_TABLEBASE_DISTANCE + 1) {
+    throw new Error(`Tablebase distance ${result.distance} is too long to store`);
+  }
+  switch (result.outcome) {
+    case 'draw':
+      return 0;
+    case 'win':
+      return (result.distance + 1) / 2;
+    case 'loss':
+      return LOSS_OFFSET + result.distance / 2;
+  }
+}
+
+/**
+ * Unpacks a result stored by encodeResult
+ */
+export function decodeResult(value: number): TablebaseResult {
+  if (value === 0) {
+    return { outcome: 'draw', distance: 0 };
+  }
+  if (value < LOSS_OFFSET) {
+    return { outcome: 'win', distance: value * 2 - 1 };
+  }
+  return { outcome: 'loss', distance: (value - LOSS_OFFSET) * 2 };
+}
+
+/**
+ * Converts a result to a search score for the side to move
+ * Quicker wins and slower losses score higher
+ */
+export function tablebaseScore(result: TablebaseResult): number {
+  switch (result.outcome) {
+    case 'draw':
+      return 0;
+    case 'win':
+      return TABLEBASE_WIN_SCORE - result.distance;
+    case 'loss':
+      return -TABLEBASE_WIN_SCORE + result.distance;
+  }
+}
+
+/**
+ * Tablebase class
+ * One table per signature, one byte per Black-to-move position
+ */
+export class Tablebase {
+  private _maxPieces: number;
+  private _tables: Map<number, Uint8Array> = new Map();
+
+  constructor(maxPieces: number) {
+    this._maxPieces = maxPieces;
+  }
+
+  /**
+   * Reads tables written by serialize()
+   */
+  static parse(buffer: ArrayBuffer): Tablebase {
+    const view = new DataView(buffer);
+    if (
+      buffer.byteLength < HEADER_BYTES ||
+      MAGIC.some((byte, i) => view.getUint8(i) !== byte)
+    ) {
+      throw new Error('Not an endgame tablebase file');
+    }
+    if (view.getUint8(4) !== FORMAT_VERSION) {
+      throw new Error(`Unsupported tablebase version ${view.getUint8(4)}`);
+    }
+
+    const tablebase = new Tablebase(view.getUint8(5));
+    const tableCount = view.getUint16(6, true);
+    let offset = HEADER_BYTES + tableCount * TABLE_ENTRY_BYTES;
+
+    for (let table = 0; table < tableCount; table++) {
+      const entry = HEADER_BYTES + table * TABLE_ENTRY_BYTES;
+      const signature: TablebaseSignature = {
+        blackMen: view.getUint8(entry),
+        blackKings: view.getUint8(entry + 1),
+        whiteMen: view.getUint8(entry + 2),
+        whiteKings: view.getUint8(entry + 3),
+      };
+      const length = view.getUint32(entry + 4, true);
+      if (length !== signatureSize(signature) || offset + length > buffer.byteLength) {
+        throw new Error('Corrupt endgame tablebase file');
+      }
+
+      tablebase.setTable(signature, new Uint8Array(buffer, offset, length));
+      offset += length;
+    }
+
+    return tablebase;
+  }
+
+  /**
+   * Gets the most pieces a probed position may have
+   */
+  get maxPieces(): number {
+    return this._maxPieces;
+  }
+
+  /**
+   * Gets the number of positions stored
+   */
+  get size(): number {
+    let size = 0;
+    for (const table of this._tables.values()) {
+      size += table.length;
+    }
+    return size;
+  }
+
+  /**
+   * Gets the table of a signature, if loaded
+   */
+  getTable(signature: TablebaseSignature): Uint8Array | undefined {
+    return this._tables.get(signatureKey(signature));
+  }
+
+  /**
+   * Stores the table of a signature (encoded results indexed by positionIndex)
+   */
+  setTable(signature: TablebaseSignature, table: Uint8Array): void {
+    this._tables.set(signatureKey(signature), table);
+  }
+
+  /**
+   * Looks up a position, or returns null if it is not covered
+   * Positions where either side has no pieces left are over and not covered
+   */
+  probe(bitboard: Bitboard, sideToMove: Player): TablebaseResult | null {
+    if (
+      bitboard.black === 0 ||
+      bitboard.white === 0 ||
+      countBits(bitboard.black | bitboard.white) > this._maxPieces
+    ) {
+      return null;
+    }
+
+    const position = sideToMove === 'black' ? bitboard : mirrorBitboard(bitboard);
+    const signature = getSignature(position);
+    const table = this.getTable(signature);
+    if (!table) {
+      return null;
+    }
+    return decodeResult(table[positionIndex(position, signature)]);
+  }
+
+  /**
+   * Writes every table to the binary format read by parse()
+   */
+  serialize(): ArrayBuffer {
+    const entries = [...this._tables.entries()].sort(([a], [b]) => a - b);
+    const dataBytes = entries.reduce((sum, [, table]) => sum + table.length, 0);
+    const buffer = new ArrayBuffer(HEADER_BYTES + entries.length * TABLE_ENTRY_BYTES + dataBytes);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    MAGIC.forEach((byte, i) => view.setUint8(i, byte));
+    view.setUint8(4, FORMAT_VERSION);
+    view.setUint8(5, this._maxPieces);
+    view.setUint16(6, entries.length, true);
+
+    let offset = HEADER_BYTES + entries.length * TABLE_ENTRY_BYTES;
+    entries.forEach(([key, table], i) => {
+      const entry = HEADER_BYTES + i * TABLE_ENTRY_BYTES;
+      view.setUint8(entry, Math.floor(key / 125));
+      view.setUint8(entry + 1, Math.floor(key / 25) % 5);
+      view.setUint8(entry + 2, Math.floor(key / 5) % 5);
+      view.setUint8(entry + 3, key % 5);
+      view.setUint32(entry + 4, table.length, true);
+      bytes.set(table, offset);
+      offset += table.length;
+    });
+
+    return buffer;
+  }
+}
+
+/**
+ * The tablebase probed by the search, once loaded
+ */
+let activeTablebase: Tablebase | null = null;
+
+/**
+ * Sets the tablebase probed by the search (null to stop probing)
+ */
+export function setTablebase(tablebase: Tablebase | null): void {
+  activeTablebase = tablebase;
+}
+
+/**
+ * Gets the tablebase probed by the search, if one is loaded
+ */
+export function getTablebase(): Tablebase | null {
+  return activeTablebase;
+}
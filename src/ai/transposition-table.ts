@@ -0,0 +1,160 @@
+/**
+ * Transposition Table
+ * Bounded cache of search results keyed by Zobrist hash
+ */
+
+import { Move } from '../types.js';
+import { ZobristHash, hashesEqual } from './zobrist.js';
+
+/**
+ * How a stored score relates to the true minimax value
+ * - exact: the score is the value
+ * - lower: the value is at least the score (search failed high)
+ * - upper: the value is at most the score (search failed low)
+ */
+export type BoundType = 'exact' | 'lower' | 'upper';
+
+/**
+ * A stored search result
+ * The move type is whatever the search works with (e.g. a bitboard move)
+ */
+export interface TranspositionEntry<M = Move> {
+  readonly hash: ZobristHash;
+  readonly depth: number;
+  readonly score: number;
+  readonly bound: BoundType;
+  readonly bestMove: M | null;
+  readonly generation: number;
+}
+
+/**
+ * Table usage counters since the last reset
+ */
+export interface TranspositionStats {
+  readonly probes: number;
+  readonly hits: number;
+  readonly cutoffs: number;
+  readonly hitRate: number;
+}
+
+/** Default number of slots (must be a power of two) */
+export const DEFAULT_TABLE_SIZE = 1 << 16;
+
+/**
+ * Transposition Table class
+ * Each hash maps to one slot; deeper results from the current search win collisions
+ */
+export class TranspositionTable<M = Move> {
+  private _slots: (TranspositionEntry<M> | undefined)[];
+  private _mask: number;
+  private _generation = 0;
+  private _probes = 0;
+  private _hits = 0;
+  private _cutoffs = 0;
+
+  constructor(size: number = DEFAULT_TABLE_SIZE) {
+    if (size <= 0 || (size & (size - 1)) !== 0) {
+      throw new Error(`Transposition table size must be a power of two, got ${size}`);
+    }
+    this._slots = new Array(size);
+    this._mask = size - 1;
+  }
+
+  /**
+   * Gets the number of slots
+   */
+  get size(): number {
+    return this._slots.length;
+  }
+
+  /**
+   * Looks up a position, counting the probe and any hit
+   */
+  probe(hash: ZobristHash): TranspositionEntry<M> | null {
+    this._probes++;
+    const entry = this._slots[hash.low & this._mask];
+
+    if (entry && hashesEqual(entry.hash, hash)) {
+      this._hits++;
+      return entry;
+    }
+    return null;
+  }
+
+  /**
+   * Looks up a position without touching the usage counters
+   */
+  peek(hash: ZobristHash): TranspositionEntry<M> | null {
+    const entry = this._slots[hash.low & this._mask];
+    return entry && hashesEqual(entry.hash, hash) ? entry : null;
+  }
+
+  /**
+   * Stores a search result, keeping a deeper entry from the current search
+   */
+  store(
+    hash: ZobristHash,
+    depth: number,
+    score: number,
+    bound: BoundType,
+    bestMove: M | null
+  ): void {
+    const index = hash.low & this._mask;
+    const existing = this._slots[index];
+
+    if (
+      existing &&
+      existing.generation === this._generation &&
+      existing.depth > depth &&
+      !hashesEqual(existing.hash, hash)
+    ) {
+      return;
+    }
+
+    this._slots[index] = { hash, depth, score, bound, bestMove, generation: this._generation };
+  }
+
+  /**
+   * Records that a probe produced a cutoff
+   */
+  recordCutoff(): void {
+    this._cutoffs++;
+  }
+
+  /**
+   * Starts a new search: older entries become replaceable and stats reset
+   */
+  newSearch(): void {
+    this._generation++;
+    this.resetStats();
+  }
+
+  /**
+   * Resets the usage counters
+   */
+  resetStats(): void {
+    this._probes = 0;
+    this._hits = 0;
+    this._cutoffs = 0;
+  }
+
+  /**
+   * Gets the usage counters
+   */
+  getStats(): TranspositionStats {
+    return {
+      probes: this._probes,
+      hits: this._hits,
+      cutoffs: this._cutoffs,
+      hitRate: this._probes > 0 ? this._hits / this._probes : 0,
+    };
+  }
+
+  /**
+   * Removes every entry
+   */
+  clear(): void {
+    this._slots = new Array(this._slots.length);
+    this.resetStats();
+  }
+}
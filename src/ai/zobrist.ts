@@ -0,0 +1,126 @@
+/**
+ * Zobrist Hashing
+ * Fast position hashes used to recognize positions reached by different move orders
+ */
+
+import { Piece, Player, PieceType, MAX_BOARD_SIZE } from '../types.js';
+import { Bitboard, BITBOARD_SQUARES, indexToPosition } from './bitboard.js';
+
+/**
+ * 64-bit position hash split into two unsigned 32-bit halves
+ * JavaScript bitwise operators only work on 32 bits
+ */
+export interface ZobristHash {
+  readonly low: number;
+  readonly high: number;
+}
+
+/** Fixed seed so hashes are identical across sessions */
+const ZOBRIST_SEED = 0x5eed_c0de;
+
+/**
+ * Small seeded PRNG (mulberry32) producing unsigned 32-bit integers
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+/**
+ * Index of a piece kind in the key table
+ */
+function pieceIndex(player: Player, type: PieceType): number {
+  return (player === 'black' ? 0 : 2) + (type === 'man' ? 0 : 1);
+}
+
+const random = createRandom(ZOBRIST_SEED);
+
+/**
+ * Keys per square and piece kind (Black man/king, White man/king), low and high halves
+ * Laid out for the largest board so every board size shares one table
+ */
+const SQUARE_KEYS_LOW: number[] = [];
+const SQUARE_KEYS_HIGH: number[] = [];
+for (let i = 0; i < MAX_BOARD_SIZE * MAX_BOARD_SIZE * 4; i++) {
+  SQUARE_KEYS_LOW.push(random());
+  SQUARE_KEYS_HIGH.push(random());
+}
+
+/** Key table index per bitboard square and piece kind */
+const BITBOARD_KEYS: number[] = [];
+for (let index = 0; index < BITBOARD_SQUARES; index++) {
+  const { row, col } = indexToPosition(index);
+  for (let kind = 0; kind < 4; kind++) {
+    BITBOARD_KEYS.push((row * MAX_BOARD_SIZE + col) * 4 + kind);
+  }
+}
+
+/** Key mixed in when White is to move */
+const WHITE_TO_MOVE_LOW = random();
+const WHITE_TO_MOVE_HIGH = random();
+
+/**
+ * Computes the Zobrist hash of a board and side to move
+ */
+export function computeZobristHash(
+  board: (Piece | null)[][],
+  sideToMove: Player
+): ZobristHash {
+  let low = sideToMove === 'white' ? WHITE_TO_MOVE_LOW : 0;
+  let high = sideToMove === 'white' ? WHITE_TO_MOVE_HIGH : 0;
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
+      const piece = board[row][col];
+      if (piece) {
+        const key = (row * MAX_BOARD_SIZE + col) * 4 + pieceIndex(piece.player, piece.type);
+        low ^= SQUARE_KEYS_LOW[key];
+        high ^= SQUARE_KEYS_HIGH[key];
+      }
+    }
+  }
+
+  return { low: low >>> 0, high: high >>> 0 };
+}
+
+/**
+ * Computes the Zobrist hash of a bitboard and side to move
+ * Identical to computeZobristHash of the same position on the array board
+ */
+export function computeBitboardHash(bitboard: Bitboard, sideToMove: Player): ZobristHash {
+  let low = sideToMove === 'white' ? WHITE_TO_MOVE_LOW : 0;
+  let high = sideToMove === 'white' ? WHITE_TO_MOVE_HIGH : 0;
+
+  for (let pieces = bitboard.black | bitboard.white; pieces !== 0; pieces &= pieces - 1) {
+    const index = 31 - Math.clz32(pieces & -pieces);
+    const key = BITBOARD_KEYS[index * 4 + bitboardPieceIndex(bitboard, index)];
+    low ^= SQUARE_KEYS_LOW[key];
+    high ^= SQUARE_KEYS_HIGH[key];
+  }
+
+  return { low: low >>> 0, high: high >>> 0 };
+}
+
+/**
+ * Index of the piece kind on an occupied bitboard square
+ */
+function bitboardPieceIndex(bitboard: Bitboard, index: number): number {
+  const bit = 1 << index;
+  return pieceIndex(
+    bitboard.black & bit ? 'black' : 'white',
+    bitboard.kings & bit ? 'king' : 'man'
+  );
+}
+
+/**
+ * Checks whether two hashes are identical
+ */
+export function hashesEqual(a: ZobristHash, b: ZobristHash): boolean {
+  return a.low === b.low && a.high === b.high;
+}
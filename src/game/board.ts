@@ -8,36 +8,41 @@ import {
   Player,
   PieceType,
   Position,
+  BoardGeometry,
   BOARD_SIZE,
-  INITIAL_PIECE_COUNT,
+  STANDARD_BOARD,
+  INTERNATIONAL_BOARD,
   isPlayableSquare,
   isValidPosition,
   positionsEqual,
 } from '../types.js';
+import { RuleSet, AMERICAN_RULES } from './variants.js';
 
 /**
  * Creates the initial board setup with pieces in starting positions
- * Human (red) pieces on bottom 3 rows, Agatha (white) pieces on top 3 rows
+ * Black pieces on the bottom rows, White pieces on the top rows
+ * (three rows each on the standard board, four on the International board)
  */
-export function createInitialBoard(): (Piece | null)[][] {
+export function createInitialBoard(geometry: BoardGeometry = STANDARD_BOARD): (Piece | null)[][] {
+  const { size, startingRows } = geometry;
   const board: (Piece | null)[][] = [];
 
-  for (let row = 0; row < BOARD_SIZE; row++) {
+  for (let row = 0; row < size; row++) {
     board[row] = [];
-    for (let col = 0; col < BOARD_SIZE; col++) {
+    for (let col = 0; col < size; col++) {
       if (isPlayableSquare(row, col)) {
-        // Agatha's pieces on top 3 rows (rows 0-2)
-        if (row < 3) {
+        // White's pieces on the top rows (rows 0-2 on the standard board)
+        if (row < startingRows) {
           board[row][col] = {
-            player: 'agatha',
+            player: 'white',
             type: 'man',
             position: { row, col },
           };
         }
-        // Human's pieces on bottom 3 rows (rows 5-7)
-        else if (row > 4) {
+        // Black's pieces on the bottom rows (rows 5-7 on the standard board)
+        else if (row >= size - startingRows) {
           board[row][col] = {
-            player: 'human',
+            player: 'black',
             type: 'man',
             position: { row, col },
           };
@@ -80,7 +85,7 @@ export function getPieceAt(
   board: (Piece | null)[][],
   pos: Position
 ): Piece | null {
-  if (!isValidPosition(pos)) {
+  if (!isValidPosition(pos, board.length)) {
     return null;
   }
   return board[pos.row][pos.col];
@@ -94,7 +99,7 @@ export function setPieceAt(
   pos: Position,
   piece: Piece | null
 ): void {
-  if (isValidPosition(pos)) {
+  if (isValidPosition(pos, board.length)) {
     board[pos.row][pos.col] = piece;
     if (piece) {
       piece.position = { row: pos.row, col: pos.col };
@@ -137,7 +142,7 @@ export function movePiece(
   piece.position = { row: to.row, col: to.col };
 
   // Check for promotion
-  if (shouldPromote(piece, to)) {
+  if (shouldPromote(piece, to, board.length)) {
     piece.type = 'king';
   }
 
@@ -150,20 +155,17 @@ export function movePiece(
 /**
  * Checks if a piece should be promoted to king
  */
-export function shouldPromote(piece: Piece, position: Position): boolean {
+export function shouldPromote(
+  piece: Piece,
+  position: Position,
+  size: number = BOARD_SIZE
+): boolean {
   if (piece.type === 'king') {
     return false;
   }
 
-  // Human promotes at row 0 (top), Agatha promotes at row 7 (bottom)
-  if (piece.player === 'human' && position.row === 0) {
-    return true;
-  }
-  if (piece.player === 'agatha' && position.row === BOARD_SIZE - 1) {
-    return true;
-  }
-
-  return false;
+  // Black promotes at row 0 (top), White promotes at the bottom row
+  return piece.player === 'black' ? position.row === 0 : position.row === size - 1;
 }
 
 /**
@@ -175,8 +177,8 @@ export function getPlayerPieces(
 ): Piece[] {
   const pieces: Piece[] = [];
 
-  for (let row = 0; row < BOARD_SIZE; row++) {
-    for (let col = 0; col < BOARD_SIZE; col++) {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
       const piece = board[row][col];
       if (piece && piece.player === player) {
         pieces.push(piece);
@@ -211,67 +213,168 @@ export function countKings(
  * Gets the opponent player
  */
 export function getOpponent(player: Player): Player {
-  return player === 'human' ? 'agatha' : 'human';
+  return player === 'black' ? 'white' : 'black';
+}
+
+/**
+ * Gets the side that moves first in a new game (Black in American checkers,
+ * White in International)
+ */
+export function getFirstPlayer(rules: RuleSet = AMERICAN_RULES): Player {
+  return rules.firstPlayer;
 }
 
 /**
  * Gets the forward direction for a player
- * Human moves up (negative row), Agatha moves down (positive row)
+ * Black moves up (negative row), White moves down (positive row)
  */
 export function getForwardDirection(player: Player): number {
-  return player === 'human' ? -1 : 1;
+  return player === 'black' ? -1 : 1;
 }
 
 /**
  * Converts board position to algebraic notation (e.g., "e3")
  */
-export function positionToNotation(pos: Position): string {
-  const col = String.fromCharCode(97 + pos.col); // 'a' to 'h'
-  const row = BOARD_SIZE - pos.row; // 1 to 8 (bottom to top)
+export function positionToNotation(pos: Position, size: number = BOARD_SIZE): string {
+  const col = String.fromCharCode(97 + pos.col); // 'a' to 'h' ('j' on 10x10)
+  const row = size - pos.row; // 1 to 8 (bottom to top)
   return `${col}${row}`;
 }
 
 /**
  * Converts algebraic notation to board position
  */
-export function notationToPosition(notation: string): Position | null {
-  if (notation.length !== 2) {
+export function notationToPosition(notation: string, size: number = BOARD_SIZE): Position | null {
+  if (!/^[a-z]\d{1,2}$/.test(notation)) {
     return null;
   }
 
   const col = notation.charCodeAt(0) - 97; // 'a' = 0
-  const row = BOARD_SIZE - parseInt(notation[1], 10);
+  const row = size - parseInt(notation.slice(1), 10);
 
   const pos = { row, col };
-  return isValidPosition(pos) ? pos : null;
+  return isValidPosition(pos, size) ? pos : null;
+}
+
+/**
+ * Number of playable squares on a board (32 on 8x8, 50 on 10x10)
+ */
+export function getSquareCount(size: number = BOARD_SIZE): number {
+  return (size * size) / 2;
+}
+
+/**
+ * Turns a position half a turn around the board
+ */
+function rotatePosition(pos: Position, size: number): Position {
+  return { row: size - 1 - pos.row, col: size - 1 - pos.col };
+}
+
+/**
+ * Converts a board position to standard numeric square notation (1-32, or 1-50 on 10x10)
+ * Squares are numbered from the origin side's back row, so by default Black's
+ * men start on 1-12 and White's on 21-32 (1-20 and 31-50 on 10x10)
+ */
+export function positionToSquare(
+  pos: Position,
+  size: number = BOARD_SIZE,
+  origin: Player = 'black'
+): number | null {
+  if (!isValidPosition(pos, size) || !isPlayableSquare(pos.row, pos.col)) {
+    return null;
+  }
+
+  const { row, col } = origin === 'black' ? pos : rotatePosition(pos, size);
+  const rank = size - 1 - row;
+  const file = size - 1 - col;
+  return rank * (size / 2) + Math.floor(file / 2) + 1;
+}
+
+/**
+ * Converts a numeric square back to a board position
+ */
+export function squareToPosition(
+  square: number,
+  size: number = BOARD_SIZE,
+  origin: Player = 'black'
+): Position | null {
+  if (!Number.isInteger(square) || square < 1 || square > getSquareCount(size)) {
+    return null;
+  }
+
+  const index = square - 1;
+  const rank = Math.floor(index / (size / 2));
+  const file = 2 * (index % (size / 2)) + (rank % 2 === 0 ? 1 : 0);
+  const pos = { row: size - 1 - rank, col: size - 1 - file };
+  return origin === 'black' ? pos : rotatePosition(pos, size);
 }
 
 /**
  * Formats a move for display in history
+ * Captures list every landing square and note how many kings were taken
  */
 export function formatMove(
   from: Position,
   to: Position,
-  captured: boolean
+  captured: boolean,
+  landings: Position[] = [to],
+  capturedTypes: PieceType[] = [],
+  size: number = BOARD_SIZE
 ): string {
-  const fromNotation = positionToNotation(from);
-  const toNotation = positionToNotation(to);
-  const separator = captured ? ' x ' : ' -> ';
-  return `${fromNotation}${separator}${toNotation}`;
+  const notation = (pos: Position) => positionToNotation(pos, size);
+  if (!captured) {
+    return `${notation(from)} -> ${notation(to)}`;
+  }
+
+  const route = [from, ...landings].map(notation).join(' x ');
+  const kings = capturedTypes.filter(type => type === 'king').length;
+  if (kings === 0) {
+    return route;
+  }
+  return `${route} (${kings} ${kings === 1 ? 'king' : 'kings'})`;
+}
+
+/**
+ * Builds a compact key identifying a position and the side to move
+ * Used for repetition detection
+ */
+export function getPositionKey(
+  board: (Piece | null)[][],
+  sideToMove: Player
+): string {
+  let key = sideToMove === 'black' ? 'b:' : 'w:';
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
+      const piece = board[row][col];
+      if (!piece) {
+        key += '.';
+      } else if (piece.player === 'black') {
+        key += piece.type === 'king' ? 'R' : 'r';
+      } else {
+        key += piece.type === 'king' ? 'W' : 'w';
+      }
+    }
+  }
+
+  return key;
 }
 
 /**
  * Creates a string representation of the board (for debugging)
  */
 export function boardToString(board: (Piece | null)[][]): string {
-  let result = '  a b c d e f g h\n';
-
-  for (let row = 0; row < BOARD_SIZE; row++) {
-    result += `${BOARD_SIZE - row} `;
-    for (let col = 0; col < BOARD_SIZE; col++) {
+  const size = board.length;
+  const files = Array.from({ length: size }, (_, col) => String.fromCharCode(97 + col)).join(' ');
+  const rank = (row: number) => String(size - row).padStart(2);
+  let result = `   ${files}\n`;
+
+  for (let row = 0; row < size; row++) {
+    result += `${rank(row)} `;
+    for (let col = 0; col < size; col++) {
       const piece = board[row][col];
       if (piece) {
-        if (piece.player === 'human') {
+        if (piece.player === 'black') {
           result += piece.type === 'king' ? 'R ' : 'r ';
         } else {
           result += piece.type === 'king' ? 'W ' : 'w ';
@@ -282,27 +385,29 @@ export function boardToString(board: (Piece | null)[][]): string {
         result += '  ';
       }
     }
-    result += `${BOARD_SIZE - row}\n`;
+    result += `${rank(row)}\n`;
   }
 
-  result += '  a b c d e f g h';
+  result += `   ${files}`;
   return result;
 }
 
 /**
  * Validates board integrity
+ * The board must be one of the supported sizes (8x8 or 10x10)
  */
 export function validateBoard(board: (Piece | null)[][]): boolean {
-  if (board.length !== BOARD_SIZE) {
+  const size = board.length;
+  if (size !== STANDARD_BOARD.size && size !== INTERNATIONAL_BOARD.size) {
     return false;
   }
 
-  for (let row = 0; row < BOARD_SIZE; row++) {
-    if (board[row].length !== BOARD_SIZE) {
+  for (let row = 0; row < size; row++) {
+    if (board[row].length !== size) {
       return false;
     }
 
-    for (let col = 0; col < BOARD_SIZE; col++) {
+    for (let col = 0; col < size; col++) {
       const piece = board[row][col];
 
       // Non-playable squares must be empty
@@ -0,0 +1,175 @@
+/**
+ * FEN Position Setup
+ * Parses and serializes checkers FEN strings (e.g. "W:W21,22,K30:B1,2,K9")
+ */
+
+import { Piece, Player, PieceType, BOARD_SIZE } from '../types.js';
+import {
+  getSquareCount,
+  positionToSquare,
+  squareToPosition,
+  shouldPromote,
+  validateBoard,
+} from './board.js';
+
+/**
+ * A position to start a game from
+ */
+export interface SetupPosition {
+  readonly board: (Piece | null)[][];
+  readonly sideToMove: Player;
+}
+
+/**
+ * Error raised for malformed FEN strings
+ */
+export class FenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FenError';
+  }
+}
+
+/** FEN of the standard starting position (Black to move) */
+export const INITIAL_FEN =
+  'B:W21,22,23,24,25,26,27,28,29,30,31,32:B1,2,3,4,5,6,7,8,9,10,11,12';
+
+/**
+ * Maps a FEN color letter to a player
+ */
+function colorToPlayer(color: string): Player | null {
+  switch (color.toUpperCase()) {
+    case 'B':
+      return 'black';
+    case 'W':
+      return 'white';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Maps a player to its FEN color letter
+ */
+function playerToColor(player: Player): string {
+  return player === 'black' ? 'B' : 'W';
+}
+
+/**
+ * Creates an empty board
+ */
+function createEmptyBoard(size: number): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < size; row++) {
+    board[row] = new Array(size).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Expands a square list entry ("K9", "21" or a range "1-12")
+ */
+function parseSquareEntry(entry: string, size: number): { squares: number[]; type: PieceType } {
+  const isKing = /^K/i.test(entry);
+  const body = isKing ? entry.slice(1) : entry;
+  const range = body.match(/^(\d+)-(\d+)$/);
+
+  let squares: number[];
+  if (range) {
+    const start = Number(range[1]);
+    const end = Number(range[2]);
+    if (start > end) {
+      throw new FenError(`Invalid square range "${entry}"`);
+    }
+    squares = Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  } else if (/^\d+$/.test(body)) {
+    squares = [Number(body)];
+  } else {
+    throw new FenError(`Invalid square "${entry}"`);
+  }
+
+  for (const square of squares) {
+    if (square < 1 || square > getSquareCount(size)) {
+      throw new FenError(`Square ${square} is off the board`);
+    }
+  }
+
+  return { squares, type: isKing ? 'king' : 'man' };
+}
+
+/**
+ * Parses a FEN string into a board and side to move
+ * Squares are numbered for a board of the given size (1-32 on 8x8, 1-50 on 10x10)
+ * from the origin side's back row
+ */
+export function parseFen(fen: string, size: number = BOARD_SIZE, origin: Player = 'black'): SetupPosition {
+  const fields = fen.trim().replace(/\.$/, '').split(':');
+  const sideToMove = colorToPlayer(fields[0]);
+
+  if (fields[0].length !== 1 || !sideToMove) {
+    throw new FenError(`Invalid side to move "${fields[0]}"`);
+  }
+
+  const board = createEmptyBoard(size);
+
+  for (const field of fields.slice(1)) {
+    const player = colorToPlayer(field.charAt(0));
+    if (!player) {
+      throw new FenError(`Invalid piece list "${field}"`);
+    }
+
+    const entries = field.slice(1).split(',').filter(entry => entry.trim().length > 0);
+    for (const entry of entries) {
+      const { squares, type } = parseSquareEntry(entry.trim(), size);
+
+      for (const square of squares) {
+        const position = squareToPosition(square, size, origin)!;
+        if (board[position.row][position.col]) {
+          throw new FenError(`Square ${square} is occupied twice`);
+        }
+
+        const piece: Piece = { player, type, position };
+        if (shouldPromote(piece, position, size)) {
+          throw new FenError(`A man on square ${square} would already be a king`);
+        }
+        board[position.row][position.col] = piece;
+      }
+    }
+  }
+
+  if (!validateBoard(board)) {
+    throw new FenError('Position is not a valid board');
+  }
+
+  return { board, sideToMove };
+}
+
+/**
+ * Serializes a board and side to move as a FEN string
+ * Squares are numbered from the origin side's back row
+ */
+export function boardToFen(board: (Piece | null)[][], sideToMove: Player, origin: Player = 'black'): string {
+  const lists: Record<Player, { square: number; piece: Piece }[]> = {
+    black: [],
+    white: [],
+  };
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
+      const piece = board[row][col];
+      const square = positionToSquare({ row, col }, board.length, origin);
+      if (piece && square !== null) {
+        lists[piece.player].push({ square, piece });
+      }
+    }
+  }
+
+  const formatList = (player: Player): string =>
+    playerToColor(player) +
+    lists[player]
+      .sort((a, b) => a.square - b.square)
+      .map(({ square, piece }) => (piece.type === 'king' ? `K${square}` : `${square}`))
+      .join(',');
+
+  return `${playerToColor(sideToMove)}:${formatList('white')}:${formatList('black')}`;
+}
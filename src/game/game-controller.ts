@@ -6,12 +6,17 @@
 import {
   GameState,
   GameStatus,
+  GameResult,
+  GameOverReason,
   Player,
   Piece,
   Move,
   MoveRecord,
+  MoveAnnotation,
   Position,
-  INITIAL_PIECE_COUNT,
+  MOVE_QUALITY_GLYPHS,
+  NO_PROGRESS_MOVE_LIMIT,
+  REPETITION_LIMIT,
   positionsEqual,
 } from '../types.js';
 import {
@@ -20,15 +25,20 @@ import {
   getPieceAt,
   countPieces,
   getOpponent,
+  getFirstPlayer,
   formatMove,
+  getPositionKey,
 } from './board.js';
 import {
   getAllValidMoves,
   getValidMovesForPiece,
   executeMove,
   hasValidMoves,
+  isSameMove,
   isCapture,
 } from './rules.js';
+import { SetupPosition } from './fen.js';
+import { RuleSet, AMERICAN_RULES } from './variants.js';
 
 /**
  * Callback types for game events
@@ -38,37 +48,85 @@ export type GameEventCallback = {
   onCapture: (positions: Position[]) => void;
   onPromotion: (piece: Piece) => void;
   onTurnChange: (player: Player) => void;
-  onGameOver: (status: GameStatus) => void;
+  onGameOver: (result: GameResult) => void;
   onStateChange: (state: GameState) => void;
+  onHistoryChange: (canUndo: boolean, canRedo: boolean) => void;
 };
 
+/**
+ * Full snapshot of the game state at a point in the timeline
+ */
+interface GameSnapshot {
+  readonly board: (Piece | null)[][];
+  readonly currentPlayer: Player;
+  readonly status: GameStatus;
+  readonly moveHistory: MoveRecord[];
+  readonly blackPieceCount: number;
+  readonly whitePieceCount: number;
+  readonly result: GameResult | null;
+  readonly positionKeys: string[];
+  readonly noProgressPlies: number;
+}
+
 /**
  * Game Controller class
  */
 export class GameController {
   private _state: GameState;
   private _callbacks: Partial<GameEventCallback> = {};
-
-  constructor() {
+  private _timeline: GameSnapshot[] = [];
+  private _timelineIndex: number = 0;
+  private _result: GameResult | null = null;
+  private _startPosition: SetupPosition | null;
+  private _rules: RuleSet;
+
+  // Draw tracking: positions since the last irreversible move
+  private _positionKeys: string[] = [];
+  private _noProgressPlies: number = 0;
+
+  constructor(startPosition: SetupPosition | null = null, rules: RuleSet = AMERICAN_RULES) {
+    this._startPosition = startPosition;
+    this._rules = rules;
     this._state = this._createInitialState();
+    this._resetDrawTracking();
+    this._checkStartPosition();
+    this._resetTimeline();
   }
 
   /**
    * Creates the initial game state
+   * Uses the custom start position if one was set up; otherwise the rules say who moves first
    */
   private _createInitialState(): GameState {
+    const board = this._startPosition
+      ? cloneBoard(this._startPosition.board)
+      : createInitialBoard(this._rules.geometry);
+
     return {
-      board: createInitialBoard(),
-      currentPlayer: 'human',
+      board,
+      currentPlayer: this._startPosition?.sideToMove ?? getFirstPlayer(this._rules),
       status: 'playing',
       selectedPiece: null,
       validMoves: [],
       moveHistory: [],
-      humanPieceCount: INITIAL_PIECE_COUNT,
-      agathaPieceCount: INITIAL_PIECE_COUNT,
+      blackPieceCount: countPieces(board, 'black'),
+      whitePieceCount: countPieces(board, 'white'),
     };
   }
 
+  /**
+   * Ends the game immediately if the side to move starts without moves
+   */
+  private _checkStartPosition(): void {
+    const player = this._state.currentPlayer;
+    if (!hasValidMoves(this._state.board, player, this._rules)) {
+      this._endGame(
+        player === 'black' ? 'white_wins' : 'black_wins',
+        countPieces(this._state.board, player) === 0 ? 'no_pieces' : 'no_moves'
+      );
+    }
+  }
+
   /**
    * Gets the current game state (read-only)
    */
@@ -97,6 +155,27 @@ export class GameController {
     return this._state.status;
   }
 
+  /**
+   * Gets the custom start position (null for the standard opening)
+   */
+  get startPosition(): SetupPosition | null {
+    return this._startPosition;
+  }
+
+  /**
+   * Gets the rules the game is played under
+   */
+  get rules(): RuleSet {
+    return this._rules;
+  }
+
+  /**
+   * Gets how the game ended (null while still playing)
+   */
+  get result(): GameResult | null {
+    return this._result;
+  }
+
   /**
    * Checks if the game is over
    */
@@ -125,6 +204,20 @@ export class GameController {
     return this._state.moveHistory;
   }
 
+  /**
+   * Checks if there is a move to undo
+   */
+  get canUndo(): boolean {
+    return this._timelineIndex > 0;
+  }
+
+  /**
+   * Checks if there is an undone move to redo
+   */
+  get canRedo(): boolean {
+    return this._timelineIndex < this._timeline.length - 1;
+  }
+
   /**
    * Registers event callbacks
    */
@@ -150,10 +243,150 @@ export class GameController {
   }
 
   /**
-   * Resets the game to initial state
+   * Resets the game to the standard starting position
+   * Passing a rule set starts the new game under those rules instead
    */
-  reset(): void {
+  reset(rules: RuleSet = this._rules): void {
+    this._rules = rules;
+    this._restart(null);
+  }
+
+  /**
+   * Starts a new game from a custom position with either side to move
+   * Passing a rule set starts the new game under those rules instead
+   */
+  startFromPosition(position: SetupPosition, rules: RuleSet = this._rules): void {
+    this._rules = rules;
+    this._restart(position);
+  }
+
+  /**
+   * Restarts the game from the given start position
+   */
+  private _restart(startPosition: SetupPosition | null): void {
+    this._startPosition = startPosition;
     this._state = this._createInitialState();
+    this._result = null;
+    this._resetDrawTracking();
+    this._checkStartPosition();
+    this._resetTimeline();
+    this._emit('onHistoryChange', this.canUndo, this.canRedo);
+    this._emit('onStateChange', this._state);
+  }
+
+  /**
+   * Steps back through the timeline
+   * If untilPlayer is given, keeps stepping back until it is that player's
+   * turn (e.g. to take back both the person's move and Agatha's reply)
+   * Returns true if the state changed
+   */
+  undo(untilPlayer?: Player): boolean {
+    if (!this.canUndo) {
+      return false;
+    }
+
+    let index = this._timelineIndex - 1;
+    if (untilPlayer) {
+      while (index > 0 && this._timeline[index].currentPlayer !== untilPlayer) {
+        index--;
+      }
+    }
+
+    this._goToSnapshot(index);
+    return true;
+  }
+
+  /**
+   * Steps forward through previously undone moves
+   * If untilPlayer is given, keeps stepping forward until it is that
+   * player's turn again or the game is over
+   * Returns true if the state changed
+   */
+  redo(untilPlayer?: Player): boolean {
+    if (!this.canRedo) {
+      return false;
+    }
+
+    let index = this._timelineIndex + 1;
+    if (untilPlayer) {
+      while (
+        index < this._timeline.length - 1 &&
+        this._timeline[index].status === 'playing' &&
+        this._timeline[index].currentPlayer !== untilPlayer
+      ) {
+        index++;
+      }
+    }
+
+    this._goToSnapshot(index);
+    return true;
+  }
+
+  /**
+   * Captures a full snapshot of the current state
+   */
+  private _takeSnapshot(): GameSnapshot {
+    return {
+      board: cloneBoard(this._state.board),
+      currentPlayer: this._state.currentPlayer,
+      status: this._state.status,
+      moveHistory: [...this._state.moveHistory],
+      blackPieceCount: this._state.blackPieceCount,
+      whitePieceCount: this._state.whitePieceCount,
+      result: this._result,
+      positionKeys: [...this._positionKeys],
+      noProgressPlies: this._noProgressPlies,
+    };
+  }
+
+  /**
+   * Starts draw tracking from the current position
+   */
+  private _resetDrawTracking(): void {
+    this._positionKeys = [
+      getPositionKey(this._state.board, this._state.currentPlayer),
+    ];
+    this._noProgressPlies = 0;
+  }
+
+  /**
+   * Starts a fresh timeline from the current state
+   */
+  private _resetTimeline(): void {
+    this._timeline = [this._takeSnapshot()];
+    this._timelineIndex = 0;
+  }
+
+  /**
+   * Appends the current state to the timeline, discarding any redo states
+   */
+  private _pushSnapshot(): void {
+    this._timeline.length = this._timelineIndex + 1;
+    this._timeline.push(this._takeSnapshot());
+    this._timelineIndex = this._timeline.length - 1;
+  }
+
+  /**
+   * Restores the state stored at a timeline index
+   */
+  private _goToSnapshot(index: number): void {
+    const snapshot = this._timeline[index];
+    this._timelineIndex = index;
+    this._state = {
+      board: cloneBoard(snapshot.board),
+      currentPlayer: snapshot.currentPlayer,
+      status: snapshot.status,
+      selectedPiece: null,
+      validMoves: [],
+      moveHistory: [...snapshot.moveHistory],
+      blackPieceCount: snapshot.blackPieceCount,
+      whitePieceCount: snapshot.whitePieceCount,
+    };
+    this._result = snapshot.result;
+    this._positionKeys = [...snapshot.positionKeys];
+    this._noProgressPlies = snapshot.noProgressPlies;
+
+    this._emit('onHistoryChange', this.canUndo, this.canRedo);
     this._emit('onStateChange', this._state);
   }
 
@@ -170,13 +403,15 @@ export class GameController {
 
     // Can only select own pieces
     if (!piece || piece.player !== this._state.currentPlayer) {
-      // If clicking on a valid move destination, try to move there
+      // If clicking on a valid move destination, try to move there; when
+      // several routes lead there the caller has to pick one to play
       if (this._state.selectedPiece) {
-        const targetMove = this._state.validMoves.find(m =>
-          positionsEqual(m.to, position)
-        );
-        if (targetMove) {
-          return this.makeMove(targetMove);
+        const targetMoves = this.getMovesToDestination(position);
+        if (targetMoves.length === 1) {
+          return this.makeMove(targetMoves[0]);
+        }
+        if (targetMoves.length > 1) {
+          return false;
         }
       }
       this._clearSelection();
@@ -184,7 +419,7 @@ export class GameController {
     }
 
     // Select the piece and calculate valid moves
-    const validMoves = getValidMovesForPiece(this._state.board, piece);
+    const validMoves = getValidMovesForPiece(this._state.board, piece, this._rules);
 
     // If no valid moves for this piece, don't select it
     if (validMoves.length === 0) {
@@ -210,38 +445,41 @@ export class GameController {
 
   /**
    * Makes a move
+   * The legal move taking the same route is played, so the given move's
+   * captures and landings must all match it
    * Returns true if the move was successful
    */
-  makeMove(move: Move): boolean {
+  makeMove(requested: Move): boolean {
     if (this.isGameOver) {
       return false;
     }
 
-    const piece = getPieceAt(this._state.board, move.from);
+    const piece = getPieceAt(this._state.board, requested.from);
     if (!piece || piece.player !== this._state.currentPlayer) {
       return false;
     }
 
-    // Validate the move is in the list of valid moves
-    const isValid = this._state.validMoves.some(
-      m => positionsEqual(m.from, move.from) && positionsEqual(m.to, move.to)
-    );
-
-    if (!isValid) {
-      // Recalculate valid moves and check again
-      const allMoves = getValidMovesForPiece(this._state.board, piece);
-      const foundMove = allMoves.find(
-        m => positionsEqual(m.from, move.from) && positionsEqual(m.to, move.to)
-      );
-      if (!foundMove) {
-        return false;
-      }
+    const move = getValidMovesForPiece(this._state.board, piece, this._rules).find(m => isSameMove(m, requested));
+    if (!move) {
+      return false;
     }
 
     // Execute the move
     const captured = move.captures.length > 0;
+    const wasMan = piece.type === 'man';
     executeMove(this._state.board, move);
 
+    // Captures and man moves can never be undone, so earlier positions
+    // cannot repeat and the no-progress count starts over
+    const nextPlayer = getOpponent(this._state.currentPlayer);
+    if (captured || wasMan) {
+      this._positionKeys = [];
+      this._noProgressPlies = 0;
+    } else {
+      this._noProgressPlies++;
+    }
+    this._positionKeys.push(getPositionKey(this._state.board, nextPlayer));
+
     // Emit capture event
     if (captured) {
       this._emit('onCapture', move.captures);
@@ -262,6 +500,9 @@ export class GameController {
       from: move.from,
       to: move.to,
       captured,
+      captures: [...move.captures],
+      landings: [...move.landings],
+      capturedTypes: [...move.capturedTypes],
       promoted: move.isPromotion,
     };
     this._state.moveHistory.push(moveRecord);
@@ -270,20 +511,26 @@ export class GameController {
     this._emit('onMove', move, this._state.currentPlayer);
 
     // Update piece counts
-    this._state.humanPieceCount = countPieces(this._state.board, 'human');
-    this._state.agathaPieceCount = countPieces(this._state.board, 'agatha');
+    this._state.blackPieceCount = countPieces(this._state.board, 'black');
+    this._state.whitePieceCount = countPieces(this._state.board, 'white');
 
     // Clear selection
     this._state.selectedPiece = null;
     this._state.validMoves = [];
 
-    // Check for game over
+    // Check for game over, otherwise switch turns
     const gameOver = this._checkGameOver();
-    if (gameOver) {
-      this._emit('onGameOver', this._state.status);
+    if (!gameOver) {
+      this._state.currentPlayer = nextPlayer;
+    }
+
+    // Record the new state before listeners can react to it
+    this._pushSnapshot();
+    this._emit('onHistoryChange', this.canUndo, this.canRedo);
+
+    if (gameOver && this._result) {
+      this._emit('onGameOver', this._result);
     } else {
-      // Switch turns
-      this._state.currentPlayer = getOpponent(this._state.currentPlayer);
       this._emit('onTurnChange', this._state.currentPlayer);
     }
 
@@ -292,38 +539,79 @@ export class GameController {
     return true;
   }
 
+  /**
+   * Attaches a judgement to a recorded move
+   * The record is replaced throughout the timeline so the annotation survives
+   * undo and redo; returns false if the move is no longer part of the game
+   */
+  annotateMove(record: MoveRecord, annotation: MoveAnnotation): boolean {
+    const annotated: MoveRecord = { ...record, annotation };
+    let found = false;
+
+    for (const history of [this._state.moveHistory, ...this._timeline.map(s => s.moveHistory)]) {
+      const index = history.indexOf(record);
+      if (index !== -1) {
+        history[index] = annotated;
+        found = true;
+      }
+    }
+
+    return found;
+  }
+
   /**
    * Checks for game over conditions
    * Returns true if game is over
    */
   private _checkGameOver(): boolean {
     // Check if either player has no pieces
-    if (this._state.humanPieceCount === 0) {
-      this._state.status = 'agatha_wins';
-      return true;
+    if (this._state.blackPieceCount === 0) {
+      return this._endGame('white_wins', 'no_pieces');
     }
-    if (this._state.agathaPieceCount === 0) {
-      this._state.status = 'human_wins';
-      return true;
+    if (this._state.whitePieceCount === 0) {
+      return this._endGame('black_wins', 'no_pieces');
     }
 
     // Check if next player has no valid moves
     const nextPlayer = getOpponent(this._state.currentPlayer);
-    if (!hasValidMoves(this._state.board, nextPlayer)) {
+    if (!hasValidMoves(this._state.board, nextPlayer, this._rules)) {
       // Player with no moves loses
-      this._state.status =
-        nextPlayer === 'human' ? 'agatha_wins' : 'human_wins';
-      return true;
+      return this._endGame(
+        nextPlayer === 'black' ? 'white_wins' : 'black_wins',
+        'no_moves'
+      );
+    }
+
+    // Check for threefold repetition of the current position
+    const currentKey = this._positionKeys[this._positionKeys.length - 1];
+    const occurrences = this._positionKeys.filter(key => key === currentKey).length;
+    if (occurrences >= REPETITION_LIMIT) {
+      return this._endGame('draw', 'threefold_repetition');
+    }
+
+    // Check for too many moves without a capture or man move
+    if (this._noProgressPlies >= NO_PROGRESS_MOVE_LIMIT * 2) {
+      return this._endGame('draw', 'no_progress');
     }
 
     return false;
   }
 
+  /**
+   * Ends the game with the given outcome
+   * Always returns true so callers can return it directly
+   */
+  private _endGame(status: GameStatus, reason: GameOverReason): boolean {
+    this._state.status = status;
+    this._result = { status, reason };
+    return true;
+  }
+
   /**
    * Gets all valid moves for the current player
    */
   getAllCurrentPlayerMoves(): Move[] {
-    return getAllValidMoves(this._state.board, this._state.currentPlayer);
+    return getAllValidMoves(this._state.board, this._state.currentPlayer, this._rules);
   }
 
   /**
@@ -356,10 +644,20 @@ export class GameController {
   }
 
   /**
-   * Gets the move to a specific destination for the selected piece
+   * Gets every route the selected piece can take to a destination
+   * Captures may reach the same square along different routes
+   */
+  getMovesToDestination(position: Position): Move[] {
+    return this._state.validMoves.filter(m => positionsEqual(m.to, position));
+  }
+
+  /**
+   * Gets the move to a specific destination for the selected piece, or null
+   * if there is none or several routes lead there
    */
   getMoveToDestination(position: Position): Move | null {
-    return this._state.validMoves.find(m => positionsEqual(m.to, position)) || null;
+    const moves = this.getMovesToDestination(position);
+    return moves.length === 1 ? moves[0] : null;
   }
 
   /**
@@ -370,26 +668,44 @@ export class GameController {
   }
 
   /**
-   * Formats the move history for display
+   * Formats the move history for display, naming each side as given
+   * Judged moves end with their quality glyph (e.g. "??" for a blunder)
    */
-  getFormattedHistory(): string[] {
+  getFormattedHistory(
+    sideNames: Readonly<Record<Player, string>> = { black: 'You', white: 'Agatha' }
+  ): string[] {
     return this._state.moveHistory.map(record => {
-      const playerLabel = record.player === 'human' ? 'You' : 'Agatha';
-      const moveStr = formatMove(record.from, record.to, record.captured);
-      return `${record.moveNumber}. ${playerLabel}: ${moveStr}`;
+      const playerLabel = sideNames[record.player];
+      const moveStr = formatMove(
+        record.from,
+        record.to,
+        record.captured,
+        record.landings,
+        record.capturedTypes,
+        this._state.board.length
+      );
+      const glyph = record.annotation ? MOVE_QUALITY_GLYPHS[record.annotation.quality] : '';
+      return `${record.moveNumber}. ${playerLabel}: ${moveStr}${glyph && ` ${glyph}`}`;
     });
   }
 
   /**
-   * Gets the winner message
+   * Gets the winner message, addressed to the person playing the given side
    */
-  getWinnerMessage(): string {
+  getWinnerMessage(personSide: Player = 'black'): string {
     switch (this._state.status) {
-      case 'human_wins':
-        return 'You defeated Agatha!';
-      case 'agatha_wins':
-        return 'Agatha foresaw your defeat.';
+      case 'black_wins':
+      case 'white_wins':
+        return this._state.status === `${personSide}_wins`
+          ? 'You defeated Agatha!'
+          : 'Agatha foresaw your defeat.';
       case 'draw':
+        if (this._result?.reason === 'threefold_repetition') {
+          return 'The same future repeats itself. A draw.';
+        }
+        if (this._result?.reason === 'no_progress') {
+          return `${NO_PROGRESS_MOVE_LIMIT} moves without progress. The future remains uncertain...`;
+        }
         return 'The future remains uncertain...';
       default:
         return '';
@@ -400,6 +716,9 @@ export class GameController {
 /**
  * Creates a new game controller instance
  */
-export function createGameController(): GameController {
-  return new GameController();
+export function createGameController(
+  startPosition: SetupPosition | null = null,
+  rules: RuleSet = AMERICAN_RULES
+): GameController {
+  return new GameController(startPosition, rules);
 }
@@ -0,0 +1,101 @@
+/**
+ * Game Modes
+ * Who sits at each side of the board: a person or Agatha's engine
+ */
+
+import { Player, PieceColor } from '../types.js';
+
+/** Identifier of a game mode */
+export type GameMode = 'human-vs-agatha' | 'human-vs-human' | 'agatha-vs-agatha';
+
+/**
+ * Settings for a game mode
+ * Sides are always named by color; a mode only decides who moves each one.
+ */
+export interface GameModeSettings {
+  readonly mode: GameMode;
+  readonly name: string;
+  readonly description: string;
+  /** Sides whose moves the engine searches and plays */
+  readonly engineSides: readonly Player[];
+  /** How each side is named in the status bar and game over messages */
+  readonly sideNames: Readonly<Record<Player, string>>;
+}
+
+/** Mode used until the player picks one */
+export const DEFAULT_GAME_MODE: GameMode = 'human-vs-agatha';
+
+/** Color the person plays against Agatha until they pick one */
+export const DEFAULT_PLAYER_COLOR: PieceColor = 'black';
+
+/** Settings for every mode */
+export const GAME_MODES: Record<GameMode, GameModeSettings> = {
+  'human-vs-agatha': {
+    mode: 'human-vs-agatha',
+    name: 'Human vs Agatha',
+    description: 'You play Black against Agatha',
+    engineSides: ['white'],
+    sideNames: { black: 'You', white: 'Agatha' },
+  },
+  'human-vs-human': {
+    mode: 'human-vs-human',
+    name: 'Human vs Human',
+    description: 'Two players share the board while Agatha comments on the game',
+    engineSides: [],
+    sideNames: { black: 'Black', white: 'White' },
+  },
+  'agatha-vs-agatha': {
+    mode: 'agatha-vs-agatha',
+    name: 'Agatha vs Agatha',
+    description: 'Agatha plays both sides while you watch',
+    engineSides: ['black', 'white'],
+    sideNames: { black: 'Black', white: 'White' },
+  },
+};
+
+/**
+ * Human vs Agatha with the person playing White
+ */
+const HUMAN_AS_WHITE: GameModeSettings = {
+  mode: 'human-vs-agatha',
+  name: 'Human vs Agatha',
+  description: 'You play White against Agatha',
+  engineSides: ['black'],
+  sideNames: { black: 'Agatha', white: 'You' },
+};
+
+/**
+ * Checks whether a string names a game mode (e.g. a saved setting)
+ */
+export function isGameMode(value: string | null): value is GameMode {
+  return value !== null && Object.prototype.hasOwnProperty.call(GAME_MODES, value);
+}
+
+/**
+ * Checks whether a string names a piece color (e.g. a saved setting)
+ */
+export function isPieceColor(value: string | null): value is PieceColor {
+  return value === 'black' || value === 'white';
+}
+
+/**
+ * Gets the settings for a mode
+ * Against Agatha the person plays the given color; the other modes ignore it
+ */
+export function getGameMode(
+  mode: GameMode,
+  playerColor: PieceColor = DEFAULT_PLAYER_COLOR
+): GameModeSettings {
+  return mode === 'human-vs-agatha' && playerColor === 'white' ? HUMAN_AS_WHITE : GAME_MODES[mode];
+}
+
+/**
+ * Checks whether the engine moves a side in a mode
+ */
+export function isEngineSide(
+  mode: GameMode,
+  player: Player,
+  playerColor: PieceColor = DEFAULT_PLAYER_COLOR
+): boolean {
+  return getGameMode(mode, playerColor).engineSides.includes(player);
+}
@@ -0,0 +1,333 @@
+/**
+ * PDN (Portable Draughts Notation)
+ * Import and export of games in numeric square notation
+ */
+
+import { Piece, Player, Move, MoveRecord, Position, GameStatus, positionsEqual } from '../types.js';
+import {
+  createInitialBoard,
+  cloneBoard,
+  getOpponent,
+  positionToSquare,
+  squareToPosition,
+} from './board.js';
+import { getAllValidMoves, executeMove } from './rules.js';
+import { GameController } from './game-controller.js';
+import { SetupPosition, parseFen, boardToFen, FenError } from './fen.js';
+import { RuleSet, AMERICAN_RULES, getRuleSetForGameType } from './variants.js';
+
+/**
+ * Game result token
+ * The first score belongs to the side the rules let move first (Black in
+ * American checkers, White in International)
+ */
+export type PdnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+/**
+ * A parsed PDN game
+ */
+export interface PdnGame {
+  readonly tags: Record<string, string>;
+  readonly startPosition: SetupPosition | null;
+  /** Rules of the GameType tag (American when there is none) */
+  readonly rules: RuleSet;
+  readonly moves: Move[];
+  readonly result: PdnResult;
+}
+
+/**
+ * Error raised for malformed PDN or illegal moves
+ */
+export class PdnError extends Error {
+  constructor(message: string, readonly moveNumber: number | null = null) {
+    super(moveNumber !== null ? `Move ${moveNumber}: ${message}` : message);
+    this.name = 'PdnError';
+  }
+}
+
+/** Tags written first, in this order */
+const STANDARD_TAGS = ['Event', 'Date', 'Black', 'White', 'Result'];
+
+/** Maximum movetext line length when exporting */
+const LINE_LENGTH = 80;
+
+/**
+ * Maps a game status to a PDN result token, scored for the rules' first mover first
+ */
+function statusToResult(status: GameStatus, firstPlayer: Player): PdnResult {
+  switch (status) {
+    case 'black_wins':
+    case 'white_wins':
+      return status === `${firstPlayer}_wins` ? '1-0' : '0-1';
+    case 'draw':
+      return '1/2-1/2';
+    default:
+      return '*';
+  }
+}
+
+/**
+ * Formats a date as a PDN date (YYYY.MM.DD)
+ */
+function formatPdnDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+/**
+ * Formats a single recorded move in numeric notation
+ * Multi-jumps list every landing square (e.g. "22x15x8")
+ */
+export function formatPdnMove(record: MoveRecord, rules: RuleSet = AMERICAN_RULES): string {
+  const square = (pos: Position) => positionToSquare(pos, rules.geometry.size, rules.numberingOrigin);
+  if (!record.captured) {
+    return `${square(record.from)}-${square(record.to)}`;
+  }
+
+  return [record.from, ...record.landings].map(square).join('x');
+}
+
+/**
+ * Serializes move records as PDN
+ * @param firstPlayer Side that made the first move (a set-up position may
+ *   have the other side start)
+ */
+export function movesToPdn(
+  records: MoveRecord[],
+  tags: Record<string, string> = {},
+  result: PdnResult = '*',
+  rules: RuleSet = AMERICAN_RULES,
+  firstPlayer: Player = rules.firstPlayer
+): string {
+  const allTags: Record<string, string> = {
+    Event: 'Precog Checkers',
+    Date: formatPdnDate(new Date()),
+    Black: 'Human',
+    White: 'Agatha',
+    GameType: String(rules.pdnGameType),
+    ...tags,
+    Result: result,
+  };
+
+  const tagNames = [
+    ...STANDARD_TAGS,
+    ...Object.keys(allTags).filter(name => !STANDARD_TAGS.includes(name)),
+  ];
+  const header = tagNames
+    .map(name => `[${name} "${allTags[name].replace(/"/g, '\\"')}"]`)
+    .join('\n');
+
+  // Each numbered move starts with the rules' first mover; when the other
+  // side makes the first move the opening number is written as "1..."
+  const tokens: string[] = [];
+  const offset = firstPlayer === rules.firstPlayer ? 0 : 1;
+  records.forEach((record, i) => {
+    const ply = i + offset;
+    if (i === 0 && offset === 1) {
+      tokens.push('1...');
+    } else if (ply % 2 === 0) {
+      tokens.push(`${ply / 2 + 1}.`);
+    }
+    tokens.push(formatPdnMove(record, rules));
+  });
+  tokens.push(result);
+
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return `${header}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Serializes a game controller's history as PDN
+ * The GameType tag names the rules the game was played under
+ */
+export function exportPdn(
+  game: GameController,
+  tags: Record<string, string> = {}
+): string {
+  const { rules, startPosition: start } = game;
+  const setupTags: Record<string, string> = start
+    ? { SetUp: '1', FEN: boardToFen(start.board, start.sideToMove, rules.numberingOrigin) }
+    : {};
+
+  return movesToPdn(
+    game.moveHistory,
+    { ...setupTags, ...tags },
+    statusToResult(game.status, rules.firstPlayer),
+    rules,
+    start?.sideToMove ?? rules.firstPlayer
+  );
+}
+
+/**
+ * Normalizes the result token variants used by different tools
+ */
+function parseResultToken(token: string): PdnResult | null {
+  switch (token) {
+    case '1-0':
+    case '2-0':
+      return '1-0';
+    case '0-1':
+    case '0-2':
+      return '0-1';
+    case '1/2-1/2':
+    case '1-1':
+      return '1/2-1/2';
+    case '*':
+      return '*';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Removes comments {..}, variations (..) and line comments from movetext
+ */
+function stripMovetextComments(movetext: string): string {
+  let result = '';
+  let braceDepth = 0;
+  let parenDepth = 0;
+
+  for (const char of movetext) {
+    if (char === '{') {
+      braceDepth++;
+    } else if (char === '}') {
+      braceDepth = Math.max(0, braceDepth - 1);
+    } else if (braceDepth === 0 && char === '(') {
+      parenDepth++;
+    } else if (braceDepth === 0 && char === ')') {
+      parenDepth = Math.max(0, parenDepth - 1);
+    } else if (braceDepth === 0 && parenDepth === 0) {
+      result += char;
+    }
+  }
+
+  return result.replace(/;[^\n]*/g, '');
+}
+
+/**
+ * Finds the legal move matching a PDN move token
+ */
+function resolveMove(
+  board: (Piece | null)[][],
+  player: Player,
+  token: string,
+  moveNumber: number,
+  rules: RuleSet
+): Move {
+  const isCaptureToken = token.includes('x');
+  const squares = token.split(/[-x]/).map(Number);
+  const path = squares.map(square => squareToPosition(square, board.length, rules.numberingOrigin));
+
+  if (path.some(pos => pos === null)) {
+    throw new PdnError(`invalid square in "${token}"`, moveNumber);
+  }
+  const positions = path as Position[];
+  const from = positions[0];
+  const to = positions[positions.length - 1];
+
+  const candidates = getAllValidMoves(board, player, rules).filter(move => {
+    if (!positionsEqual(move.from, from) || !positionsEqual(move.to, to)) {
+      return false;
+    }
+    if (isCaptureToken !== move.captures.length > 0) {
+      return false;
+    }
+    if (positions.length <= 2) {
+      return true;
+    }
+
+    // Explicit intermediate squares must match the jump route
+    return (
+      move.landings.length === positions.length - 1 &&
+      move.landings.every((pos, i) => positionsEqual(pos, positions[i + 1]))
+    );
+  });
+
+  if (candidates.length === 0) {
+    throw new PdnError(`illegal move "${token}" for ${player === 'black' ? 'Black' : 'White'}`, moveNumber);
+  }
+  if (candidates.length > 1) {
+    throw new PdnError(`ambiguous move "${token}", list every landing square`, moveNumber);
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Parses PDN text into tags and a replayable list of moves
+ * Every move is validated against the rules while replaying
+ */
+export function parsePdn(pdn: string): PdnGame {
+  const tags: Record<string, string> = {};
+  const tagPattern = /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(pdn)) !== null) {
+    tags[match[1]] = match[2].replace(/\\"/g, '"');
+  }
+
+  const rules = tags.GameType ? getRuleSetForGameType(tags.GameType) : AMERICAN_RULES;
+  if (!rules) {
+    throw new PdnError(`unsupported game type "${tags.GameType}"`);
+  }
+
+  let startPosition: SetupPosition | null = null;
+  if (tags.FEN) {
+    try {
+      startPosition = parseFen(tags.FEN, rules.geometry.size, rules.numberingOrigin);
+    } catch (error) {
+      if (error instanceof FenError) {
+        throw new PdnError(`invalid FEN tag: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  const movetext = stripMovetextComments(pdn.replace(tagPattern, ' '));
+  const tokens = movetext.split(/\s+/).filter(token => token.length > 0);
+
+  const board = startPosition ? cloneBoard(startPosition.board) : createInitialBoard(rules.geometry);
+  const firstPlayer: Player = startPosition?.sideToMove ?? rules.firstPlayer;
+  let player = firstPlayer;
+  const moves: Move[] = [];
+  let result: PdnResult = parseResultToken(tags.Result ?? '') ?? '*';
+
+  for (const rawToken of tokens) {
+    const resultToken = parseResultToken(rawToken);
+    if (resultToken) {
+      result = resultToken;
+      break;
+    }
+
+    // Move numbers may be glued to the move (e.g. "1.11-15")
+    const token = rawToken.replace(/^\d+\.+/, '').replace(/[!?]+$/, '');
+    if (token.length === 0) {
+      continue;
+    }
+
+    const ply = moves.length + (firstPlayer === rules.firstPlayer ? 0 : 1);
+    const moveNumber = Math.floor(ply / 2) + 1;
+    if (!/^\d+([-x]\d+)+$/.test(token)) {
+      throw new PdnError(`unrecognized token "${rawToken}"`, moveNumber);
+    }
+
+    const move = resolveMove(board, player, token, moveNumber, rules);
+    executeMove(board, move);
+    moves.push(move);
+    player = getOpponent(player);
+  }
+
+  return { tags, startPosition, rules, moves, result };
+}
@@ -0,0 +1,87 @@
+/**
+ * Perft - Move Generator Verification
+ * Counts the positions reached after a number of plies, to compare the move
+ * generator against published counts
+ */
+
+import { Piece, Player, Move } from '../types.js';
+import { cloneBoard, getOpponent, positionToSquare } from './board.js';
+import { getAllValidMoves, executeMove } from './rules.js';
+import { RuleSet, AMERICAN_RULES } from './variants.js';
+
+/**
+ * Leaf count below one root move
+ */
+export interface PerftDivideEntry {
+  readonly move: Move;
+  /** Numeric notation of the move (e.g. "11-15", "22x15x8") */
+  readonly notation: string;
+  readonly nodes: number;
+}
+
+/**
+ * Formats a move in numeric notation, listing every landing square of a capture
+ */
+function formatPerftMove(move: Move, size: number): string {
+  const separator = move.captures.length > 0 ? 'x' : '-';
+  return [move.from, ...move.landings].map(pos => positionToSquare(pos, size)).join(separator);
+}
+
+/**
+ * Counts the leaf positions reached by playing every legal move sequence of
+ * the given depth (a side left without moves ends its line early, adding nothing)
+ */
+export function perft(
+  board: (Piece | null)[][],
+  player: Player,
+  depth: number,
+  rules: RuleSet = AMERICAN_RULES
+): number {
+  if (depth <= 0) {
+    return 1;
+  }
+
+  const moves = getAllValidMoves(board, player, rules);
+
+  // Every move at the last ply is a leaf
+  if (depth === 1) {
+    return moves.length;
+  }
+
+  let nodes = 0;
+  for (const move of moves) {
+    const next = cloneBoard(board);
+    executeMove(next, move);
+    nodes += perft(next, getOpponent(player), depth - 1, rules);
+  }
+  return nodes;
+}
+
+/**
+ * Splits a perft count by root move
+ * Comparing two generators' divides shows which move's subtree disagrees
+ */
+export function divide(
+  board: (Piece | null)[][],
+  player: Player,
+  depth: number,
+  rules: RuleSet = AMERICAN_RULES
+): PerftDivideEntry[] {
+  return getAllValidMoves(board, player, rules).map(move => {
+    const next = cloneBoard(board);
+    executeMove(next, move);
+    return {
+      move,
+      notation: formatPerftMove(move, board.length),
+      nodes: perft(next, getOpponent(player), depth - 1, rules),
+    };
+  });
+}
+
+/**
+ * Formats a divide as one "move: nodes" line per root move, then the total
+ */
+export function formatDivide(entries: PerftDivideEntry[]): string {
+  const total = entries.reduce((sum, entry) => sum + entry.nodes, 0);
+  return [...entries.map(entry => `${entry.notation}: ${entry.nodes}`), `Total: ${total}`].join('\n');
+}
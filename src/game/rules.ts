@@ -1,6 +1,7 @@
 /**
- * Game Rules - American Checkers
- * Move validation, captures, and multi-jump logic
+ * Game Rules
+ * Move validation, captures, and multi-jump logic under a rule set
+ * (American checkers unless another variant is passed)
  */
 
 import {
@@ -8,7 +9,6 @@ import {
   Player,
   Position,
   Move,
-  BOARD_SIZE,
   isValidPosition,
   isPlayableSquare,
   positionsEqual,
@@ -22,6 +22,7 @@ import {
   removePieceAt,
   shouldPromote,
 } from './board.js';
+import { RuleSet, AMERICAN_RULES } from './variants.js';
 
 /**
  * Direction vectors for diagonal movement
@@ -51,29 +52,58 @@ function getValidDirections(piece: Piece): Direction[] {
   return ALL_DIRECTIONS.filter(dir => dir.rowDelta === forward);
 }
 
+/**
+ * Gets the directions a piece may capture in
+ * Men capture forward only, unless the rules let them capture backward too
+ */
+function getCaptureDirections(piece: Piece, rules: RuleSet): Direction[] {
+  return rules.menCaptureBackward ? ALL_DIRECTIONS : getValidDirections(piece);
+}
+
+/**
+ * Checks if a piece moves any distance along a diagonal (a flying king)
+ */
+function isFlying(piece: Piece, rules: RuleSet): boolean {
+  return piece.type === 'king' && rules.flyingKings;
+}
+
+/**
+ * Gets the square one diagonal step away
+ */
+function step(pos: Position, dir: Direction): Position {
+  return { row: pos.row + dir.rowDelta, col: pos.col + dir.colDelta };
+}
+
 /**
  * Gets all simple (non-capture) moves for a piece
  */
 function getSimpleMoves(
   board: (Piece | null)[][],
-  piece: Piece
+  piece: Piece,
+  rules: RuleSet
 ): Move[] {
   const moves: Move[] = [];
   const directions = getValidDirections(piece);
 
   for (const dir of directions) {
-    const to: Position = {
-      row: piece.position.row + dir.rowDelta,
-      col: piece.position.col + dir.colDelta,
-    };
-
-    if (isValidPosition(to) && getPieceAt(board, to) === null) {
+    // Flying kings keep going until something blocks them
+    for (
+      let to = step(piece.position, dir);
+      isValidPosition(to, board.length) && getPieceAt(board, to) === null;
+      to = step(to, dir)
+    ) {
       moves.push({
         from: piece.position,
         to,
         captures: [],
-        isPromotion: shouldPromote(piece, to),
+        landings: [to],
+        capturedTypes: [],
+        isPromotion: shouldPromote(piece, to, board.length),
       });
+
+      if (!isFlying(piece, rules)) {
+        break;
+      }
     }
   }
 
@@ -82,11 +112,14 @@ function getSimpleMoves(
 
 /**
  * Gets all capture moves for a piece (single jump)
- * Men can only capture FORWARD, kings can capture in all directions
+ * Pieces already jumped earlier in the capture stay on the board until it
+ * ends, so they can be neither jumped again nor passed over
  */
 function getSingleCaptures(
   board: (Piece | null)[][],
-  piece: Piece
+  piece: Piece,
+  rules: RuleSet,
+  alreadyCaptured: Position[]
 ): Move[] {
   const moves: Move[] = [];
   const opponent = getOpponent(piece.player);
@@ -101,125 +134,120 @@ function getSingleCaptures(
     return moves;
   }
 
-  // Get valid directions for this piece
-  // Men can only capture forward, kings can capture in all directions
-  const validDirections = getValidDirections(piece);
-
-  for (const dir of validDirections) {
-    const jumpedPos: Position = {
-      row: piece.position.row + dir.rowDelta,
-      col: piece.position.col + dir.colDelta,
-    };
-
-    const landingPos: Position = {
-      row: piece.position.row + 2 * dir.rowDelta,
-      col: piece.position.col + 2 * dir.colDelta,
-    };
+  for (const dir of getCaptureDirections(piece, rules)) {
+    // A flying king may cross empty squares to reach the piece it jumps
+    let jumpedPos = step(piece.position, dir);
+    while (isFlying(piece, rules) && isValidPosition(jumpedPos, board.length) && getPieceAt(board, jumpedPos) === null) {
+      jumpedPos = step(jumpedPos, dir);
+    }
 
-    if (!isValidPosition(jumpedPos) || !isValidPosition(landingPos)) {
+    if (!isValidPosition(jumpedPos, board.length)) {
       continue;
     }
 
+    // Must jump over an opponent piece not captured yet
     const jumpedPiece = getPieceAt(board, jumpedPos);
-    const landingSquare = getPieceAt(board, landingPos);
-
-    // Must jump over opponent piece and land on empty square
     if (
-      jumpedPiece &&
-      jumpedPiece.player === opponent &&
-      landingSquare === null
+      !jumpedPiece ||
+      jumpedPiece.player !== opponent ||
+      alreadyCaptured.some(pos => positionsEqual(pos, jumpedPos))
+    ) {
+      continue;
+    }
+
+    if (piece.type === 'man' && jumpedPiece.type === 'king' && !rules.menCaptureKings) {
+      continue;
+    }
+
+    // Land on the empty square behind it, or any empty square beyond for a flying king
+    for (
+      let landingPos = step(jumpedPos, dir);
+      isValidPosition(landingPos, board.length) && getPieceAt(board, landingPos) === null;
+      landingPos = step(landingPos, dir)
     ) {
       moves.push({
         from: piece.position,
         to: landingPos,
         captures: [jumpedPos],
-        isPromotion: shouldPromote(piece, landingPos),
+        landings: [landingPos],
+        capturedTypes: [jumpedPiece.type],
+        isPromotion: shouldPromote(piece, landingPos, board.length),
       });
+
+      if (!isFlying(piece, rules)) {
+        break;
+      }
     }
   }
 
   return moves;
 }
 
+/**
+ * Extends a capture sequence with one more jump
+ */
+function extendCapture(sequence: Move, jump: Move): Move {
+  return {
+    from: sequence.from,
+    to: jump.to,
+    captures: [...sequence.captures, ...jump.captures],
+    landings: [...sequence.landings, ...jump.landings],
+    capturedTypes: [...sequence.capturedTypes, ...jump.capturedTypes],
+    isPromotion: sequence.isPromotion || jump.isPromotion,
+  };
+}
+
 /**
  * Recursively finds all multi-jump sequences for a piece
+ * A flying king must land where it can go on capturing when any square
+ * behind the jumped piece allows it
  */
 function findMultiJumps(
   board: (Piece | null)[][],
   piece: Piece,
-  currentCaptures: Position[],
-  startPosition: Position
+  sequence: Move,
+  rules: RuleSet
 ): Move[] {
-  const moves: Move[] = [];
+  const routes: { jumped: Position; moves: Move[]; goesOn: boolean }[] = [];
 
   // Get captures from current position
-  const singleCaptures = getSingleCaptures(board, piece);
+  const singleCaptures = getSingleCaptures(board, piece, rules, sequence.captures);
 
-  if (singleCaptures.length === 0) {
-    // No more captures available - this is the end of the sequence
-    if (currentCaptures.length > 0) {
-      moves.push({
-        from: startPosition,
-        to: piece.position,
-        captures: [...currentCaptures],
-        isPromotion: shouldPromote(piece, piece.position),
-      });
+  // Continue each capture chain
+  for (const capture of singleCaptures) {
+    // Simulate the jump, leaving the captured piece in place until the end
+    const newBoard = cloneBoard(board);
+    const movedPiece = movePiece(newBoard, piece.position, capture.to);
+
+    if (!movedPiece) {
+      continue;
     }
-  } else {
-    // Continue each capture chain
-    for (const capture of singleCaptures) {
-      // Check if we've already captured this piece
-      if (
-        currentCaptures.some(pos => positionsEqual(pos, capture.captures[0]))
-      ) {
-        continue;
-      }
 
-      // Simulate the capture
-      const newBoard = cloneBoard(board);
-      const movedPiece = movePiece(newBoard, piece.position, capture.to);
-      removePieceAt(newBoard, capture.captures[0]);
-
-      if (movedPiece) {
-        // Check for promotion - in American checkers, piece is promoted
-        // immediately and stops jumping (unless king can continue)
-        const wasPromoted =
-          movedPiece.type === 'king' && piece.type === 'man';
-
-        if (wasPromoted) {
-          // Promoted during jump - must stop
-          moves.push({
-            from: startPosition,
-            to: capture.to,
-            captures: [...currentCaptures, capture.captures[0]],
-            isPromotion: true,
-          });
-        } else {
-          // Continue looking for more jumps
-          const continuations = findMultiJumps(
-            newBoard,
-            movedPiece,
-            [...currentCaptures, capture.captures[0]],
-            startPosition
-          );
-
-          if (continuations.length > 0) {
-            moves.push(...continuations);
-          } else {
-            // No more jumps possible
-            moves.push({
-              from: startPosition,
-              to: capture.to,
-              captures: [...currentCaptures, capture.captures[0]],
-              isPromotion: capture.isPromotion,
-            });
-          }
-        }
-      }
+    const extended = extendCapture(sequence, capture);
+    let continuation = extended;
+
+    // A man reaching the far row is crowned at once only where the rules say
+    // so; otherwise it keeps capturing as a man and is crowned if it stops there
+    // (American men cannot capture backward, so they always stop)
+    const reachedFarRow = movedPiece.type === 'king' && piece.type === 'man';
+    if (reachedFarRow && !rules.promoteMidCapture) {
+      movedPiece.type = 'man';
+      continuation = { ...extended, isPromotion: false };
     }
+
+    // Continue looking for more jumps
+    const continuations = findMultiJumps(newBoard, movedPiece, continuation, rules);
+
+    const goesOn = continuations.length > 0;
+
+    // With no more jumps possible the sequence ends here
+    routes.push({ jumped: capture.captures[0], moves: goesOn ? continuations : [extended], goesOn });
   }
 
-  return moves;
+  // Stopping behind a piece is only allowed when no landing there goes on
+  return routes
+    .filter(route => route.goesOn || !routes.some(other => other.goesOn && positionsEqual(other.jumped, route.jumped)))
+    .flatMap(route => route.moves);
 }
 
 /**
@@ -227,93 +255,71 @@ function findMultiJumps(
  */
 function getCapturesForPiece(
   board: (Piece | null)[][],
-  piece: Piece
+  piece: Piece,
+  rules: RuleSet
 ): Move[] {
-  const singleCaptures = getSingleCaptures(board, piece);
-
-  if (singleCaptures.length === 0) {
-    return [];
-  }
-
-  const allCaptures: Move[] = [];
-
-  for (const capture of singleCaptures) {
-    // Simulate the capture and look for continuations
-    const newBoard = cloneBoard(board);
-    const movedPiece = movePiece(newBoard, piece.position, capture.to);
-    removePieceAt(newBoard, capture.captures[0]);
-
-    if (movedPiece) {
-      const wasPromoted = movedPiece.type === 'king' && piece.type === 'man';
-
-      if (wasPromoted) {
-        // Promoted during jump - must stop
-        allCaptures.push({
-          from: piece.position,
-          to: capture.to,
-          captures: [capture.captures[0]],
-          isPromotion: true,
-        });
-      } else {
-        // Look for multi-jumps
-        const continuations = findMultiJumps(
-          newBoard,
-          movedPiece,
-          [capture.captures[0]],
-          piece.position
-        );
-
-        if (continuations.length > 0) {
-          allCaptures.push(...continuations);
-        } else {
-          allCaptures.push(capture);
-        }
-      }
-    }
-  }
-
-  return allCaptures;
+  return findMultiJumps(
+    board,
+    piece,
+    {
+      from: piece.position,
+      to: piece.position,
+      captures: [],
+      landings: [],
+      capturedTypes: [],
+      isPromotion: false,
+    },
+    rules
+  );
 }
 
 /**
  * Gets all valid moves for a specific piece
- * In American checkers, if any capture is available, player MUST capture
+ * If any capture is available, the player MUST capture
  */
 export function getValidMovesForPiece(
   board: (Piece | null)[][],
-  piece: Piece
+  piece: Piece,
+  rules: RuleSet = AMERICAN_RULES
 ): Move[] {
   // First check if ANY piece has a capture available
-  const allCaptures = getAllCapturesForPlayer(board, piece.player);
+  const allCaptures = getAllCapturesForPlayer(board, piece.player, rules);
 
   if (allCaptures.length > 0) {
     // Mandatory capture - only return captures for this piece
-    return getCapturesForPiece(board, piece);
+    return allCaptures.filter(move => positionsEqual(move.from, piece.position));
   }
 
   // No captures available - return simple moves
-  return getSimpleMoves(board, piece);
+  return getSimpleMoves(board, piece, rules);
 }
 
 /**
  * Gets all capture moves for all pieces of a player
+ * Under maximum capture rules only the captures taking the most pieces count
  */
 function getAllCapturesForPlayer(
   board: (Piece | null)[][],
-  player: Player
+  player: Player,
+  rules: RuleSet
 ): Move[] {
   const captures: Move[] = [];
 
-  for (let row = 0; row < BOARD_SIZE; row++) {
-    for (let col = 0; col < BOARD_SIZE; col++) {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
       const piece = board[row][col];
       if (piece && piece.player === player) {
-        captures.push(...getCapturesForPiece(board, piece));
+        captures.push(...getCapturesForPiece(board, piece, rules));
       }
     }
   }
 
-  return captures;
+  if (!rules.maximumCapture) {
+    return captures;
+  }
+
+  const most = Math.max(0, ...captures.map(move => move.captures.length));
+  return captures.filter(move => move.captures.length === most);
 }
 
 /**
@@ -321,10 +327,11 @@ function getAllCapturesForPlayer(
  */
 export function getAllValidMoves(
   board: (Piece | null)[][],
-  player: Player
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
 ): Move[] {
   // First check for mandatory captures
-  const captures = getAllCapturesForPlayer(board, player);
+  const captures = getAllCapturesForPlayer(board, player, rules);
 
   if (captures.length > 0) {
     return captures;
@@ -333,11 +340,11 @@ export function getAllValidMoves(
   // No captures - get all simple moves
   const moves: Move[] = [];
 
-  for (let row = 0; row < BOARD_SIZE; row++) {
-    for (let col = 0; col < BOARD_SIZE; col++) {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
       const piece = board[row][col];
       if (piece && piece.player === player) {
-        moves.push(...getSimpleMoves(board, piece));
+        moves.push(...getSimpleMoves(board, piece, rules));
       }
     }
   }
@@ -346,46 +353,51 @@ export function getAllValidMoves(
 }
 
 /**
- * Checks if a specific move is valid
+ * Checks whether two moves take the same route, landing on the same squares
+ * and capturing the same pieces
+ */
+export function isSameMove(a: Move, b: Move): boolean {
+  const samePositions = (x: Position[], y: Position[]) =>
+    x.length === y.length && x.every((pos, i) => positionsEqual(pos, y[i]));
+  const landings = (move: Move) => (move.landings.length > 0 ? move.landings : [move.to]);
+
+  return (
+    positionsEqual(a.from, b.from) &&
+    positionsEqual(a.to, b.to) &&
+    samePositions(landings(a), landings(b)) &&
+    samePositions(a.captures, b.captures)
+  );
+}
+
+/**
+ * Checks if a specific move is valid, along its whole route
  */
 export function isValidMove(
   board: (Piece | null)[][],
   piece: Piece,
-  move: Move
+  move: Move,
+  rules: RuleSet = AMERICAN_RULES
 ): boolean {
-  const validMoves = getValidMovesForPiece(board, piece);
-  return validMoves.some(
-    m =>
-      positionsEqual(m.from, move.from) &&
-      positionsEqual(m.to, move.to)
-  );
+  return getValidMovesForPiece(board, piece, rules).some(m => isSameMove(m, move));
 }
 
 /**
  * Validates that a move is geometrically legal (diagonal movement)
+ * Every leg, from the start through each landing square, must run along a diagonal
  */
 function isGeometricallyValid(move: Move): boolean {
-  const rowDiff = Math.abs(move.to.row - move.from.row);
-  const colDiff = Math.abs(move.to.col - move.from.col);
-  
-  // For a simple move: 1 diagonal step
-  // For a capture: 2 diagonal steps per capture
-  // The total displacement should equal captures * 2 (for captures) or 1 (simple move)
-  
-  if (move.captures.length === 0) {
-    // Simple move: must be exactly 1 diagonal
-    return rowDiff === 1 && colDiff === 1;
+  const path = [move.from, ...(move.landings.length > 0 ? move.landings : [move.to])];
+
+  // A simple move is a single leg
+  if (move.captures.length === 0 && path.length !== 2) {
+    return false;
   }
-  
-  // For multi-jumps, we need to verify each jump is diagonal
-  // The final position should be reachable via the captures
-  // Each capture represents a diagonal jump of 2
-  // But they could be in different directions, so we can't just check total distance
-  
-  // Instead, verify row and col diffs are equal (diagonal) and reasonable
-  // Maximum possible distance is 2 * number of captures
-  const maxDist = 2 * move.captures.length;
-  return rowDiff <= maxDist && colDiff <= maxDist && rowDiff % 2 === 0 && colDiff % 2 === 0;
+
+  return path.slice(1).every((to, i) => {
+    const rowDiff = Math.abs(to.row - path[i].row);
+    const colDiff = Math.abs(to.col - path[i].col);
+    return rowDiff === colDiff && (rowDiff > 0 || move.captures.length > 0);
+  });
 }
 
 /**
@@ -419,8 +431,11 @@ export function executeMove(
     removePieceAt(board, capturePos);
   }
 
-  // Move the piece
-  movePiece(board, move.from, move.to);
+  // Move the piece (a man crowned mid-capture may stop off the far row)
+  const moved = movePiece(board, move.from, move.to);
+  if (moved && move.isPromotion) {
+    moved.type = 'king';
+  }
 
   return true;
 }
@@ -430,9 +445,10 @@ export function executeMove(
  */
 export function hasCaptures(
   board: (Piece | null)[][],
-  player: Player
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
 ): boolean {
-  return getAllCapturesForPlayer(board, player).length > 0;
+  return getAllCapturesForPlayer(board, player, rules).length > 0;
 }
 
 /**
@@ -440,9 +456,10 @@ export function hasCaptures(
  */
 export function hasValidMoves(
   board: (Piece | null)[][],
-  player: Player
+  player: Player,
+  rules: RuleSet = AMERICAN_RULES
 ): boolean {
-  return getAllValidMoves(board, player).length > 0;
+  return getAllValidMoves(board, player, rules).length > 0;
 }
 
 /**
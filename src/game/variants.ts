@@ -0,0 +1,173 @@
+/**
+ * Rule Variants
+ * The rule sets a game can be played under, and the rules that set them apart
+ */
+
+import { Player, BoardGeometry, STANDARD_BOARD, INTERNATIONAL_BOARD } from '../types.js';
+
+/** Identifier of a rule set */
+export type RuleVariant = 'american' | 'international' | 'russian' | 'brazilian' | 'italian' | 'pool';
+
+/**
+ * A rule set
+ * Every variant keeps mandatory capturing; the flags say how it differs from
+ * American checkers, where every flag but menCaptureKings is off.
+ */
+export interface RuleSet {
+  readonly variant: RuleVariant;
+  readonly name: string;
+  readonly description: string;
+  /** Number identifying the variant in a PDN GameType tag */
+  readonly pdnGameType: number;
+  /** Board the variant is played on */
+  readonly geometry: BoardGeometry;
+  /** Side that moves first in a new game */
+  readonly firstPlayer: Player;
+  /**
+   * Side whose back row holds square 1 in numeric notation (Black's men
+   * start on 1-12 in American checkers, White's on 1-12 in Russian)
+   */
+  readonly numberingOrigin: Player;
+  /** Kings move and capture any distance along a diagonal */
+  readonly flyingKings: boolean;
+  /** Men capture backwards as well as forwards (they still move only forwards) */
+  readonly menCaptureBackward: boolean;
+  /** A capture must take as many pieces as possible */
+  readonly maximumCapture: boolean;
+  /**
+   * A man reaching the far row mid-capture is crowned at once and goes on
+   * capturing as a king. Otherwise it goes on as a man and is only crowned if
+   * the capture ends there.
+   */
+  readonly promoteMidCapture: boolean;
+  /** Men may capture kings (Italian men may not) */
+  readonly menCaptureKings: boolean;
+}
+
+/** Variant used when none is chosen */
+export const DEFAULT_VARIANT: RuleVariant = 'american';
+
+export const AMERICAN_RULES: RuleSet = {
+  variant: 'american',
+  name: 'American',
+  description: 'Kings move one square, men capture forwards, any capture may be chosen.',
+  pdnGameType: 21,
+  geometry: STANDARD_BOARD,
+  firstPlayer: 'black',
+  numberingOrigin: 'black',
+  flyingKings: false,
+  menCaptureBackward: false,
+  maximumCapture: false,
+  promoteMidCapture: false,
+  menCaptureKings: true,
+};
+
+export const INTERNATIONAL_RULES: RuleSet = {
+  variant: 'international',
+  name: 'International',
+  description: 'Played on a 10x10 board with 20 men each. Flying kings, men capture backwards, the largest capture is mandatory.',
+  pdnGameType: 20,
+  geometry: INTERNATIONAL_BOARD,
+  firstPlayer: 'white',
+  numberingOrigin: 'black',
+  flyingKings: true,
+  menCaptureBackward: true,
+  maximumCapture: true,
+  promoteMidCapture: false,
+  menCaptureKings: true,
+};
+
+export const RUSSIAN_RULES: RuleSet = {
+  variant: 'russian',
+  name: 'Russian',
+  description: 'Flying kings, men capture backwards and are crowned mid-capture, any capture may be chosen.',
+  pdnGameType: 25,
+  geometry: STANDARD_BOARD,
+  firstPlayer: 'white',
+  numberingOrigin: 'white',
+  flyingKings: true,
+  menCaptureBackward: true,
+  maximumCapture: false,
+  promoteMidCapture: true,
+  menCaptureKings: true,
+};
+
+export const BRAZILIAN_RULES: RuleSet = {
+  variant: 'brazilian',
+  name: 'Brazilian',
+  description: 'International rules on the 8x8 board.',
+  pdnGameType: 26,
+  geometry: STANDARD_BOARD,
+  firstPlayer: 'white',
+  numberingOrigin: 'white',
+  flyingKings: true,
+  menCaptureBackward: true,
+  maximumCapture: true,
+  promoteMidCapture: false,
+  menCaptureKings: true,
+};
+
+export const ITALIAN_RULES: RuleSet = {
+  variant: 'italian',
+  name: 'Italian',
+  description: 'Kings move one square, men cannot capture kings, the largest capture is mandatory.',
+  pdnGameType: 22,
+  geometry: STANDARD_BOARD,
+  firstPlayer: 'white',
+  numberingOrigin: 'black',
+  flyingKings: false,
+  menCaptureBackward: false,
+  maximumCapture: true,
+  promoteMidCapture: false,
+  menCaptureKings: false,
+};
+
+export const POOL_RULES: RuleSet = {
+  variant: 'pool',
+  name: 'Pool',
+  description: 'Flying kings, men capture backwards, any capture may be chosen.',
+  pdnGameType: 23,
+  geometry: STANDARD_BOARD,
+  firstPlayer: 'black',
+  numberingOrigin: 'black',
+  flyingKings: true,
+  menCaptureBackward: true,
+  maximumCapture: false,
+  promoteMidCapture: false,
+  menCaptureKings: true,
+};
+
+/**
+ * Every rule set, in the order they are offered
+ */
+export const RULE_SETS: Record<RuleVariant, RuleSet> = {
+  american: AMERICAN_RULES,
+  international: INTERNATIONAL_RULES,
+  russian: RUSSIAN_RULES,
+  brazilian: BRAZILIAN_RULES,
+  italian: ITALIAN_RULES,
+  pool: POOL_RULES,
+};
+
+/**
+ * Checks whether a string names a rule variant (e.g. a saved setting)
+ */
+export function isRuleVariant(value: string | null): value is RuleVariant {
+  return value !== null && Object.prototype.hasOwnProperty.call(RULE_SETS, value);
+}
+
+/**
+ * Gets the rule set of a PDN GameType tag (e.g. "25" or "21,W,8,8,A0,0"),
+ * or null for a game type not supported
+ */
+export function getRuleSetForGameType(gameType: string): RuleSet | null {
+  const type = parseInt(gameType, 10);
+  return Object.values(RULE_SETS).find(rules => rules.pdnGameType === type) ?? null;
+}
+
+/**
+ * Gets the rule set of a variant
+ */
+export function getRuleSet(variant: RuleVariant): RuleSet {
+  return RULE_SETS[variant];
+}
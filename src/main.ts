@@ -8,19 +8,72 @@ import {
   Move,
   Piece,
   Player,
-  GameStatus,
-  GhostPiece,
+  PieceColor,
+  GameResult,
+  SearchDepthInfo,
+  MOVE_QUALITY_GLYPHS,
   ANIMATION_DURATION,
-  AI_SEARCH_DEPTH,
+  DEFAULT_THINK_TIME_MS,
+  DEFAULT_WEIGHTS,
+  positionsEqual,
 } from './types.js';
 import { GameController } from './game/game-controller.js';
-import { getPieceAt, formatMove } from './game/board.js';
+import {
+  getPieceAt,
+  formatMove,
+  getOpponent,
+  getPositionKey,
+  createInitialBoard,
+} from './game/board.js';
 import { Renderer } from './ui/renderer.js';
-import { getBestMove, getPredictedResponse, getNodesEvaluated } from './ai/minimax.js';
-import { getDetailedEvaluation } from './ai/evaluation.js';
-import { getAllValidMoves } from './game/rules.js';
+import { AgathaEngine, EngineCancelledError, EngineSearchResult } from './ai/engine-client.js';
+import {
+  DifficultyLevel,
+  DIFFICULTIES,
+  DEFAULT_DIFFICULTY,
+  isDifficultyLevel,
+} from './ai/difficulty.js';
+import { evaluateBoard, getDetailedEvaluation, getWinProbability } from './ai/evaluation.js';
+import { DEFAULT_TABLEBASE_PATH } from './ai/tablebase.js';
+import { PredictionCache, DEEP_VISION_PLIES, lineToGhosts } from './ai/precog.js';
+import {
+  GameAnalysis,
+  DEFAULT_ANALYSIS_OPTIONS,
+  recordToMove,
+  replayGame,
+} from './ai/game-analysis.js';
+import { getAllValidMoves, simulateMove, isSameMove } from './game/rules.js';
+import {
+  RuleVariant,
+  RULE_SETS,
+  DEFAULT_VARIANT,
+  isRuleVariant,
+  getRuleSet,
+} from './game/variants.js';
+import {
+  GameMode,
+  GameModeSettings,
+  GAME_MODES,
+  DEFAULT_GAME_MODE,
+  DEFAULT_PLAYER_COLOR,
+  isGameMode,
+  isPieceColor,
+  getGameMode,
+  isEngineSide,
+} from './game/game-mode.js';
 import { SoundManager } from './ui/sound.js';
-import { generateAgathaThought, generateAgathaReply, buildGameContext, ConversationMessage, AIMetrics } from './ui/agatha-thoughts.js';
+import { exportPdn, parsePdn } from './game/pdn.js';
+import { SetupPosition } from './game/fen.js';
+import { BoardEditor } from './ui/board-editor.js';
+import { drawEvaluationGraph, drawEvaluationSparkline, getGraphPly } from './ui/analysis-graph.js';
+import {
+  generateAgathaThought,
+  generateAgathaReply,
+  buildGameContext,
+  formatPrincipalVariation,
+  ConversationMessage,
+  AIMetrics,
+} from './ui/agatha-thoughts.js';
 
 /**
  * Main application class
@@ -29,24 +82,71 @@ class PrecogCheckers {
   private _game: GameController;
   private _renderer: Renderer;
   private _sound: SoundManager;
+  private _engine: AgathaEngine;
   private _canvas: HTMLCanvasElement;
   private _isAIThinking: boolean = false;
   private _isAnimating: boolean = false;
+  private _isReplaying: boolean = false;
+
+  // Bumped by every new game, so turns still running from the last one stop
+  private _gameGeneration: number = 0;
 
   // DOM elements
   private _statusMessage: HTMLElement;
   private _moveHistory: HTMLElement;
-  private _humanPieces: HTMLElement;
-  private _agathaPieces: HTMLElement;
+  private _blackPieces: HTMLElement;
+  private _whitePieces: HTMLElement;
+  private _scorePanel: HTMLElement;
+  private _blackLabel: HTMLElement;
+  private _whiteLabel: HTMLElement;
   private _newGameBtn: HTMLElement;
   private _modalNewGameBtn: HTMLElement;
+  private _modalPlayerColorSelect: HTMLSelectElement;
   private _soundToggle: HTMLElement;
   private _modal: HTMLElement;
   private _modalTitle: HTMLElement;
   private _modalMessage: HTMLElement;
   private _agathaThoughts: HTMLElement;
+  private _agathaSearch: HTMLElement;
   private _humanResponseInput: HTMLTextAreaElement;
   private _sendResponseBtn: HTMLElement;
+  private _savePdnBtn: HTMLElement;
+  private _loadPdnBtn: HTMLElement;
+  private _loadPdnInput: HTMLInputElement;
+  private _analyzeBtn: HTMLButtonElement;
+  private _modalAnalyzeBtn: HTMLElement;
+  private _routeModal: HTMLElement;
+  private _routeOptions: HTMLElement;
+
+  // Post-game analysis elements
+  private _analysisPanel: HTMLElement;
+  private _analysisSummary: HTMLElement;
+  private _analysisGraph: HTMLCanvasElement;
+  private _analysisHighlights: HTMLElement;
+  private _analysisMoves: HTMLElement;
+
+  // Live evaluation elements
+  private _advantageBar: HTMLElement;
+  private _advantageFill: HTMLElement;
+  private _evaluationSparkline: HTMLCanvasElement;
+
+  // Board setup elements
+  private _setupBtn: HTMLElement;
+  private _setupPanel: HTMLElement;
+  private _setupSideSelect: HTMLSelectElement;
+  private _setupPlayerColorRow: HTMLElement;
+  private _setupPlayerColorSelect: HTMLSelectElement;
+  private _setupFenInput: HTMLInputElement;
+  private _setupError: HTMLElement;
+
+  // Self-play controls
+  private _selfPlayPanel: HTMLElement;
+  private _selfPlayPauseBtn: HTMLElement;
+  private _selfPlayStepBtn: HTMLButtonElement;
+  private _selfPlaySpeedSelect: HTMLSelectElement;
+
+  // Position being edited while in setup mode (null when playing)
+  private _editor: BoardEditor | null = null;
   
   // Settings modal elements
   private _settingsBtn: HTMLElement;
@@ -57,9 +157,71 @@ class PrecogCheckers {
   private _toggleKeyVisibility: HTMLElement;
   private _clearKeyBtn: HTMLElement;
   private _saveSettingsBtn: HTMLElement;
+  private _thinkTimeSelect: HTMLSelectElement;
+  private _difficultySelect: HTMLSelectElement;
+  private _difficultyDescription: HTMLElement;
+  private _blackDifficultySelect: HTMLSelectElement;
+  private _variantSelect: HTMLSelectElement;
+  private _variantDescription: HTMLElement;
+  private _gameModeSelect: HTMLSelectElement;
+  private _gameModeDescription: HTMLElement;
+  private _flipBoardInput: HTMLInputElement;
+  private _playerColorSelect: HTMLSelectElement;
+  private _deepVisionInput: HTMLInputElement;
+  private _analysisDepthSelect: HTMLSelectElement;
 
   // API key for LLM (optional) - stored in sessionStorage
   private _apiKey: string | null = null;
+
+  // Time Agatha spends per move - stored in localStorage
+  private _thinkTimeMs: number = DEFAULT_THINK_TIME_MS;
+
+  // How strongly Agatha plays - stored in localStorage
+  private _difficulty: DifficultyLevel = DEFAULT_DIFFICULTY;
+
+  // How strongly Agatha plays Black against herself - stored in localStorage
+  private _blackDifficulty: DifficultyLevel = DEFAULT_DIFFICULTY;
+
+  // Rules new games are played under - stored in localStorage
+  private _variant: RuleVariant = DEFAULT_VARIANT;
+
+  // Who moves each side - stored in localStorage
+  private _gameMode: GameMode = DEFAULT_GAME_MODE;
+
+  // Color the person plays against Agatha - stored in localStorage
+  private _playerColor: PieceColor = DEFAULT_PLAYER_COLOR;
+
+  // Whether hovering a destination shows Agatha's predicted line - stored in localStorage
+  private _deepVision: boolean = false;
+
+  // Valid move whose destination is under the pointer, previewed by precog
+  private _hoveredMove: Move | null = null;
+
+  // Precog predictions of the current position, kept while hovering back and forth
+  private _predictions: PredictionCache = new PredictionCache();
+
+  // Search depth after each move when analyzing a game - stored in localStorage
+  private _analysisDepth: number = DEFAULT_ANALYSIS_OPTIONS.depth;
+
+  // Report on the finished game, and every position of it for jumping around
+  private _analysis: GameAnalysis | null = null;
+  private _analysisPositions: (Piece | null)[][][] = [];
+
+  // White's winning chances in every position of the game, start position first,
+  // drawn as the sparkline: one entry is added per move, undone moves are dropped
+  private _winChances: number[] = [];
+
+  // Move whose position the board shows while reviewing the analysis (null shows the game)
+  private _reviewPly: number | null = null;
+
+  // Whether hot-seat games turn the board toward the side to move - stored in localStorage
+  private _flipEachTurn: boolean = false;
+
+  // Pause before each self-play move - stored in localStorage
+  private _selfPlayDelayMs: number = 1000;
+
+  // Whether self-play waits for Step or Resume before each move
+  private _selfPlayPaused: boolean = false;
   
   // Track last human move for context
   private _lastHumanMove: Move | null = null;
@@ -81,21 +243,62 @@ class PrecogCheckers {
     this._game = new GameController();
     this._renderer = new Renderer(this._canvas);
     this._sound = new SoundManager();
+    this._engine = new AgathaEngine();
+    this._loadTablebase();
 
     // Get DOM elements
     this._statusMessage = document.getElementById('status-message')!;
     this._moveHistory = document.getElementById('move-history')!;
-    this._humanPieces = document.getElementById('human-pieces')!;
-    this._agathaPieces = document.getElementById('agatha-pieces')!;
+    this._blackPieces = document.getElementById('black-pieces')!;
+    this._whitePieces = document.getElementById('white-pieces')!;
+    this._scorePanel = document.getElementById('score-panel')!;
+    this._blackLabel = document.getElementById('black-label')!;
+    this._whiteLabel = document.getElementById('white-label')!;
     this._newGameBtn = document.getElementById('new-game-btn')!;
     this._modalNewGameBtn = document.getElementById('modal-new-game')!;
+    this._modalPlayerColorSelect = document.getElementById('modal-player-color') as HTMLSelectElement;
     this._soundToggle = document.getElementById('sound-toggle')!;
     this._modal = document.getElementById('game-over-modal')!;
     this._modalTitle = document.getElementById('modal-title')!;
     this._modalMessage = document.getElementById('modal-message')!;
     this._agathaThoughts = document.getElementById('agatha-thoughts')!;
+    this._agathaSearch = document.getElementById('agatha-search')!;
     this._humanResponseInput = document.getElementById('human-response') as HTMLTextAreaElement;
     this._sendResponseBtn = document.getElementById('send-response')!;
+    this._savePdnBtn = document.getElementById('save-pdn-btn')!;
+    this._loadPdnBtn = document.getElementById('load-pdn-btn')!;
+    this._loadPdnInput = document.getElementById('load-pdn-input') as HTMLInputElement;
+    this._analyzeBtn = document.getElementById('analyze-btn') as HTMLButtonElement;
+    this._modalAnalyzeBtn = document.getElementById('modal-analyze')!;
+    this._routeModal = document.getElementById('route-modal')!;
+    this._routeOptions = document.getElementById('route-options')!;
+
+    // Post-game analysis elements
+    this._analysisPanel = document.getElementById('analysis-panel')!;
+    this._analysisSummary = document.getElementById('analysis-summary')!;
+    this._analysisGraph = document.getElementById('analysis-graph') as HTMLCanvasElement;
+    this._analysisHighlights = document.getElementById('analysis-highlights')!;
+    this._analysisMoves = document.getElementById('analysis-moves')!;
+
+    // Live evaluation elements
+    this._advantageBar = document.getElementById('advantage-bar')!;
+    this._advantageFill = document.getElementById('advantage-fill')!;
+    this._evaluationSparkline = document.getElementById('evaluation-sparkline') as HTMLCanvasElement;
+
+    // Self-play controls
+    this._selfPlayPanel = document.getElementById('selfplay-panel')!;
+    this._selfPlayPauseBtn = document.getElementById('selfplay-pause')!;
+    this._selfPlayStepBtn = document.getElementById('selfplay-step') as HTMLButtonElement;
+    this._selfPlaySpeedSelect = document.getElementById('selfplay-speed') as HTMLSelectElement;
+
+    // Board setup elements
+    this._setupBtn = document.getElementById('setup-btn')!;
+    this._setupPanel = document.getElementById('setup-panel')!;
+    this._setupSideSelect = document.getElementById('setup-side') as HTMLSelectElement;
+    this._setupPlayerColorRow = document.getElementById('setup-player-color-row')!;
+    this._setupPlayerColorSelect = document.getElementById('setup-player-color') as HTMLSelectElement;
+    this._setupFenInput = document.getElementById('setup-fen') as HTMLInputElement;
+    this._setupError = document.getElementById('setup-error')!;
     
     // Settings modal elements
     this._settingsBtn = document.getElementById('settings-btn')!;
@@ -106,11 +309,70 @@ class PrecogCheckers {
     this._toggleKeyVisibility = document.getElementById('toggle-key-visibility')!;
     this._clearKeyBtn = document.getElementById('clear-key-btn')!;
     this._saveSettingsBtn = document.getElementById('save-settings-btn')!;
+    this._thinkTimeSelect = document.getElementById('think-time-select') as HTMLSelectElement;
+    this._difficultySelect = document.getElementById('difficulty-select') as HTMLSelectElement;
+    this._difficultyDescription = document.getElementById('difficulty-description')!;
+    this._blackDifficultySelect = document.getElementById('black-difficulty-select') as HTMLSelectElement;
+    this._variantSelect = document.getElementById('variant-select') as HTMLSelectElement;
+    this._variantDescription = document.getElementById('variant-description')!;
+    this._gameModeSelect = document.getElementById('game-mode-select') as HTMLSelectElement;
+    this._gameModeDescription = document.getElementById('game-mode-description')!;
+    this._flipBoardInput = document.getElementById('flip-board-input') as HTMLInputElement;
+    this._playerColorSelect = document.getElementById('player-color-select') as HTMLSelectElement;
+    this._deepVisionInput = document.getElementById('deep-vision-input') as HTMLInputElement;
+    this._analysisDepthSelect = document.getElementById('analysis-depth-select') as HTMLSelectElement;
 
     // Check for API key in sessionStorage (more secure than localStorage)
     this._apiKey = sessionStorage.getItem('anthropic_api_key');
     this._updateApiKeyStatus();
 
+    const savedThinkTime = Number(localStorage.getItem('agatha_think_time'));
+    if (savedThinkTime > 0) {
+      this._thinkTimeMs = savedThinkTime;
+    }
+
+    const savedDifficulty = localStorage.getItem('agatha_difficulty');
+    if (isDifficultyLevel(savedDifficulty)) {
+      this._difficulty = savedDifficulty;
+    }
+    const savedBlackDifficulty = localStorage.getItem('agatha_black_difficulty');
+    if (isDifficultyLevel(savedBlackDifficulty)) {
+      this._blackDifficulty = savedBlackDifficulty;
+    }
+    this._populateDifficultyOptions();
+
+    const savedVariant = localStorage.getItem('agatha_variant');
+    if (isRuleVariant(savedVariant)) {
+      this._variant = savedVariant;
+      this._game.reset(getRuleSet(savedVariant));
+      this._engine.variant = savedVariant;
+    }
+    this._populateVariantOptions();
+
+    const savedGameMode = localStorage.getItem('agatha_game_mode');
+    if (isGameMode(savedGameMode)) {
+      this._gameMode = savedGameMode;
+    }
+    const savedPlayerColor = localStorage.getItem('agatha_player_color');
+    if (isPieceColor(savedPlayerColor)) {
+      this._playerColor = savedPlayerColor;
+    }
+    this._flipEachTurn = localStorage.getItem('agatha_flip_board') === 'true';
+    this._populateGameModeOptions();
+    this._deepVision = localStorage.getItem('agatha_deep_vision') === 'true';
+
+    const savedAnalysisDepth = Number(localStorage.getItem('agatha_analysis_depth'));
+    if (savedAnalysisDepth > 0) {
+      this._analysisDepth = savedAnalysisDepth;
+    }
+
+    // Fast self-play is stored as a zero delay
+    const savedSelfPlayDelay = localStorage.getItem('agatha_self_play_speed');
+    if (savedSelfPlayDelay !== null && Number(savedSelfPlayDelay) >= 0) {
+      this._selfPlayDelayMs = Number(savedSelfPlayDelay);
+    }
+    this._selfPlaySpeedSelect.value = String(this._selfPlayDelayMs);
+
     // Setup event listeners
     this._setupEventListeners();
 
@@ -118,7 +380,29 @@ class PrecogCheckers {
     this._setupGameCallbacks();
 
     // Initial render
+    this._syncWinChances();
+    this._updateSideLabels();
     this._updateDisplay();
+    this._displayAgathaThought(this._getGreeting());
+    this._startEngineTurnIfDue();
+  }
+
+  /**
+   * Loads the endgame tablebase if one was generated (npm run tablebase)
+   * Without it Agatha searches endgames like any other position
+   */
+  private async _loadTablebase(): Promise<void> {
+    try {
+      const response = await fetch(DEFAULT_TABLEBASE_PATH);
+      if (!response.ok) {
+        console.info('No endgame tablebase found, Agatha will search endgames');
+        return;
+      }
+      const positions = await this._engine.loadTablebase(await response.arrayBuffer());
+      console.log(`Loaded endgame tablebase (${positions} positions)`);
+    } catch (error) {
+      console.warn('Could not load the endgame tablebase', error);
+    }
   }
 
   /**
@@ -128,13 +412,15 @@ class PrecogCheckers {
     // Canvas click/touch
     this._canvas.addEventListener('click', this._handleCanvasClick.bind(this));
     this._canvas.addEventListener('touchend', this._handleTouchEnd.bind(this));
+    this._canvas.addEventListener('mousemove', this._handleCanvasHover.bind(this));
+    this._canvas.addEventListener('mouseleave', () => this._setHoveredMove(null));
 
     // Buttons
     this._newGameBtn.addEventListener('click', this._handleNewGame.bind(this));
-    this._modalNewGameBtn.addEventListener(
-      'click',
-      this._handleNewGame.bind(this)
-    );
+    this._modalNewGameBtn.addEventListener('click', () => {
+      this._choosePlayerColor(this._modalPlayerColorSelect.value);
+      this._handleNewGame();
+    });
     this._soundToggle.addEventListener(
       'click',
       this._handleSoundToggle.bind(this)
@@ -155,10 +441,63 @@ class PrecogCheckers {
       }
     });
 
+    // PDN save/load
+    this._savePdnBtn.addEventListener('click', this._handleSavePdn.bind(this));
+    this._loadPdnBtn.addEventListener('click', () => this._loadPdnInput.click());
+    this._loadPdnInput.addEventListener('change', this._handleLoadPdn.bind(this));
+    document.getElementById('route-cancel')!.addEventListener('click', () => (this._routeModal.hidden = true));
+
+    // Post-game analysis
+    this._analyzeBtn.addEventListener('click', this._analyzeGame.bind(this));
+    this._modalAnalyzeBtn.addEventListener('click', this._analyzeGame.bind(this));
+    document.getElementById('analysis-close')!.addEventListener('click', this._closeAnalysis.bind(this));
+    this._analysisGraph.addEventListener('click', event => {
+      if (this._analysis) {
+        this._reviewMove(getGraphPly(this._analysisGraph, this._analysis, event.clientX));
+      }
+    });
+    for (const list of [this._analysisMoves, this._analysisHighlights]) {
+      list.addEventListener('click', event => {
+        const entry = (event.target as HTMLElement).closest<HTMLElement>('[data-ply]');
+        if (entry) {
+          this._reviewMove(Number(entry.dataset.ply));
+        }
+      });
+    }
+
+    // Self-play controls
+    this._selfPlayPauseBtn.addEventListener('click', this._toggleSelfPlayPause.bind(this));
+    this._selfPlayStepBtn.addEventListener('click', this._stepSelfPlay.bind(this));
+    this._selfPlaySpeedSelect.addEventListener('change', () => {
+      const delay = Number(this._selfPlaySpeedSelect.value);
+      if (delay >= 0) {
+        this._selfPlayDelayMs = delay;
+        localStorage.setItem('agatha_self_play_speed', String(delay));
+      }
+    });
+
+    // Board setup
+    this._setupBtn.addEventListener('click', this._enterSetupMode.bind(this));
+    this._setupSideSelect.addEventListener('change', () => {
+      if (this._editor) {
+        this._editor.sideToMove = this._setupSideSelect.value === 'white' ? 'white' : 'black';
+        this._updateSetupPanel();
+      }
+    });
+    document.getElementById('setup-apply-fen')!.addEventListener('click', this._applySetupFen.bind(this));
+    document.getElementById('setup-clear')!.addEventListener('click', () => this._editSetup(editor => editor.clear()));
+    document.getElementById('setup-standard')!.addEventListener('click', () => this._editSetup(editor => editor.loadStandard()));
+    document.getElementById('setup-cancel')!.addEventListener('click', this._exitSetupMode.bind(this));
+    document.getElementById('setup-start')!.addEventListener('click', this._startFromSetup.bind(this));
+
     // Settings modal
     this._settingsBtn.addEventListener('click', this._openSettings.bind(this));
     this._settingsBackdrop.addEventListener('click', this._closeSettings.bind(this));
     this._saveSettingsBtn.addEventListener('click', this._saveSettings.bind(this));
+    this._difficultySelect.addEventListener('change', this._updateDifficultyDescription.bind(this));
+    this._variantSelect.addEventListener('change', this._updateVariantDescription.bind(this));
+    this._gameModeSelect.addEventListener('change', this._updateGameModeDescription.bind(this));
+    this._playerColorSelect.addEventListener('change', this._updateGameModeDescription.bind(this));
     this._clearKeyBtn.addEventListener('click', this._clearApiKey.bind(this));
     this._toggleKeyVisibility.addEventListener('click', this._toggleKeyVisibilityHandler.bind(this));
   }
@@ -168,26 +507,39 @@ class PrecogCheckers {
    */
   private _setupGameCallbacks(): void {
     this._game.on('onMove', (move: Move, player: Player) => {
-      this._sound.play('move');
+      if (!this._isReplaying) {
+        this._sound.play('move');
+      }
+      // Evaluate the new position once, unless the cache waits for a resync
+      if (this._winChances.length === this._game.moveHistory.length) {
+        this._winChances.push(this._getWinChance(this._game.board));
+      }
     });
 
     this._game.on('onCapture', (positions: Position[]) => {
-      this._sound.play('capture');
+      if (!this._isReplaying) {
+        this._sound.play('capture');
+      }
     });
 
     this._game.on('onPromotion', (piece: Piece) => {
-      this._sound.play('promotion');
+      if (!this._isReplaying) {
+        this._sound.play('promotion');
+      }
     });
 
     this._game.on('onTurnChange', (player: Player) => {
       this._updateStatus();
-      if (player === 'agatha' && !this._game.isGameOver) {
-        this._doAITurn();
+      // A turn that follows an engine turn is started when that turn finishes
+      if (!this._isAIThinking && !this._isReplaying) {
+        this._startEngineTurnIfDue();
       }
     });
 
-    this._game.on('onGameOver', (status: GameStatus) => {
-      this._handleGameOver(status);
+    this._game.on('onGameOver', (result: GameResult) => {
+      if (!this._isReplaying) {
+        this._handleGameOver(result);
+      }
     });
 
     this._game.on('onStateChange', () => {
@@ -199,11 +551,19 @@ class PrecogCheckers {
    * Handles canvas click events
    */
   private _handleCanvasClick(event: MouseEvent): void {
+    if (this._editor) {
+      const pos = this._renderer.getPositionFromCoords(event.clientX, event.clientY);
+      if (pos) {
+        this._editSetup(editor => editor.cycleSquare(pos));
+      }
+      return;
+    }
+
     if (this._isAIThinking || this._isAnimating || this._game.isGameOver) {
       return;
     }
 
-    if (this._game.currentPlayer !== 'human') {
+    if (this._isEngineSide(this._game.currentPlayer)) {
       return;
     }
 
@@ -223,11 +583,20 @@ class PrecogCheckers {
   private _handleTouchEnd(event: TouchEvent): void {
     event.preventDefault();
 
+    if (this._editor) {
+      const touch = event.changedTouches[0];
+      const pos = this._renderer.getPositionFromCoords(touch.clientX, touch.clientY);
+      if (pos) {
+        this._editSetup(editor => editor.cycleSquare(pos));
+      }
+      return;
+    }
+
     if (this._isAIThinking || this._isAnimating || this._game.isGameOver) {
       return;
     }
 
-    if (this._game.currentPlayer !== 'human') {
+    if (this._isEngineSide(this._game.currentPlayer)) {
       return;
     }
 
@@ -235,175 +604,374 @@ class PrecogCheckers {
     const pos = this._renderer.getPositionFromCoords(touch.clientX, touch.clientY);
 
     if (pos) {
+      const previewed = this._hoveredMove;
       this._handleBoardClick(pos);
+      this._previewTouchSelection(pos, previewed);
+    }
+  }
+
+  /**
+   * Previews a move of the piece a touch selected, as touch has no hover
+   * Tapping the selected piece again previews its next move
+   */
+  private _previewTouchSelection(pos: Position, previewed: Move | null): void {
+    const selected = this._game.selectedPiece;
+    const moves = this._game.validMoves;
+    if (!selected || !positionsEqual(selected.position, pos) || moves.length === 0) {
+      return;
+    }
+
+    const index = previewed ? moves.findIndex(move => isSameMove(move, previewed)) : -1;
+    this._setHoveredMove(moves[(index + 1) % moves.length]);
+  }
+
+  /**
+   * Tracks the valid move whose destination is under the pointer
+   */
+  private _handleCanvasHover(event: MouseEvent): void {
+    if (this._editor || !this._game.selectedPiece || this._isAnimating) {
+      return;
+    }
+
+    const pos = this._renderer.getPositionFromCoords(event.clientX, event.clientY);
+    this._setHoveredMove(pos ? this._game.getMoveToDestination(pos) : null);
+  }
+
+  /**
+   * Changes the hovered move, updating the precog preview if it changed
+   */
+  private _setHoveredMove(move: Move | null): void {
+    if (move === this._hoveredMove) {
+      return;
     }
+    this._hoveredMove = move;
+    this._updatePrecogPreview();
   }
 
   /**
-   * Handles board position clicks
+   * Removes the precog preview and forgets the hovered move
+   */
+  private _clearPrecog(): void {
+    this._hoveredMove = null;
+    this._engine.dropWaitingPrediction();
+    this._renderer.clearGhostPieces();
+    this._renderer.setPrecogHint(null);
+  }
+
+  /**
+   * Handles board position clicks for the side to move
    */
   private _handleBoardClick(pos: Position): void {
     const piece = getPieceAt(this._game.board, pos);
 
-    // If clicking on a valid move destination
+    // If clicking on a valid move destination, asking which route to take
+    // when more than one capture ends there
     if (this._game.selectedPiece) {
-      const move = this._game.getMoveToDestination(pos);
-      if (move) {
-        this._executeHumanMove(move);
+      const moves = this._game.getMovesToDestination(pos);
+      if (moves.length > 1) {
+        this._chooseRoute(moves);
+        return;
+      }
+      if (moves.length === 1) {
+        this._executeHumanMove(moves[0]);
         return;
       }
     }
 
     // Try to select a piece
-    if (piece && piece.player === 'human') {
+    if (piece && piece.player === this._game.currentPlayer) {
       const selected = this._game.selectPiece(pos);
       if (selected) {
         this._sound.play('select');
-        this._updatePrecogPreview();
+        // The pointer picks the move to foresee once it reaches a destination
+        this._clearPrecog();
       }
     } else {
       // Clear selection
       this._game.selectPiece({ row: -1, col: -1 });
-      this._renderer.clearGhostPieces();
+      this._clearPrecog();
     }
 
     this._updateDisplay();
   }
 
   /**
-   * Builds the path through a multi-jump move
+   * Asks which of several captures ending on the same square to play
    */
-  private _buildJumpPath(move: Move): Position[] {
-    const path: Position[] = [move.from];
-    
-    if (move.captures.length > 0) {
-      let currentPos = move.from;
-      for (const capturePos of move.captures) {
-        // The landing position is on the opposite side of the captured piece
-        const landingRow = capturePos.row + (capturePos.row - currentPos.row);
-        const landingCol = capturePos.col + (capturePos.col - currentPos.col);
-        const landing = { row: landingRow, col: landingCol };
-        path.push(landing);
-        currentPos = landing;
-      }
-    } else {
-      path.push(move.to);
-    }
-    
-    return path;
+  private _chooseRoute(moves: Move[]): void {
+    const size = this._game.board.length;
+    this._routeOptions.replaceChildren(
+      ...moves.map(move => {
+        const button = document.createElement('button');
+        button.className = 'btn';
+        button.textContent = formatMove(move.from, move.to, true, move.landings, move.capturedTypes, size);
+        button.addEventListener('click', () => {
+          this._routeModal.hidden = true;
+          // The game may have moved on while the choice was open
+          if (this._game.validMoves.some(m => isSameMove(m, move))) {
+            this._executeHumanMove(move);
+          }
+        });
+        return button;
+      })
+    );
+    this._routeModal.hidden = false;
   }
 
   /**
-   * Executes a human move with animation
+   * Executes a move made by a person with animation
+   * In hot-seat games Agatha comments once White has answered Black
    */
   private async _executeHumanMove(move: Move): Promise<void> {
-    this._isAnimating = true;
-    this._renderer.clearGhostPieces();
-    
-    // Track for Agatha's commentary
-    this._lastHumanMove = move;
-
     const piece = getPieceAt(this._game.board, move.from);
     if (!piece) return;
 
-    // Build path for multi-jump or single move
-    const path = this._buildJumpPath(move);
+    this._isAnimating = true;
+    this._clearPrecog();
 
-    // Animate through the path
-    if (path.length > 2) {
-      // Multi-jump: animate through each hop
-      await this._renderer.animateMultiJump(piece, path, ANIMATION_DURATION.MOVE);
-    } else {
-      // Single move or single capture
-      await this._renderer.animateMove(
-        piece,
-        move.from,
-        move.to,
-        ANIMATION_DURATION.MOVE
-      );
+    // Track for Agatha's commentary
+    const agathaSide = this._getAgathaSide();
+    if (piece.player !== agathaSide) {
+      this._lastHumanMove = move;
     }
 
-    // Execute the actual move
+    // Animate through every landing square of the move
+    await this._renderer.animateMoveSequence(piece, move, ANIMATION_DURATION.MOVE);
+
+    // Execute the actual move, then have it judged
+    const boardBefore = this._game.getBoardCopy();
     this._game.makeMove(move);
+    this._annotateMove(boardBefore, move);
 
     this._isAnimating = false;
     this._updateDisplay();
+
+    if (piece.player === agathaSide) {
+      const generation = this._gameGeneration;
+      const thought = await this._generateThoughts(move, null);
+      if (generation === this._gameGeneration) {
+        this._displayAgathaThought(thought);
+      }
+    }
   }
 
   /**
-   * Updates the precog prediction preview
+   * Shows the precog preview for the hovered move: a ghost and an arrow for
+   * the predicted reply with the move's score, or with deep vision the whole
+   * foreseen line
+   * Predictions are cached per move; those arriving after the pointer moved
+   * on are stored but not shown
    */
-  private _updatePrecogPreview(): void {
-    if (!this._game.selectedPiece || this._game.validMoves.length === 0) {
-      this._renderer.clearGhostPieces();
+  private async _updatePrecogPreview(): Promise<void> {
+    const move = this._hoveredMove;
+    if (!move) {
+      this._clearPrecog();
+      this._renderer.render();
       return;
     }
 
-    // Get predicted responses for valid moves
-    const ghosts: GhostPiece[] = [];
-
-    // For each valid move, show where Agatha would respond
-    for (const move of this._game.validMoves) {
-      const predictedResponse = getPredictedResponse(this._game.board, move);
-
-      if (predictedResponse) {
-        // Show ghost of where Agatha's piece would go
-        const piece = getPieceAt(this._game.board, predictedResponse.from);
-        if (piece) {
-          ghosts.push({
-            position: predictedResponse.to,
-            player: 'agatha',
-            type: piece.type,
-            opacity: 0.4,
-          });
+    const board = this._game.board;
+    const positionKey = getPositionKey(board, this._game.currentPlayer);
+    const plies = this._deepVision ? DEEP_VISION_PLIES : 2;
+
+    let prediction = this._predictions.get(positionKey, move, plies);
+    if (!prediction) {
+      try {
+        prediction = await this._engine.predictLine(board, move, plies, this._difficulty);
+      } catch (error) {
+        if (!(error instanceof EngineCancelledError)) {
+          console.error('Precog preview failed:', error);
         }
+        return;
+      }
+      this._predictions.set(positionKey, move, plies, prediction);
+
+      if (this._hoveredMove !== move || this._isAnimating) {
+        return;
       }
     }
 
+    const [, reply = null] = prediction.line;
+    const ghosts = this._deepVision
+      ? lineToGhosts(board, prediction.line)
+      : reply
+        ? lineToGhosts(simulateMove(board, move), [reply], false)
+        : [];
     this._renderer.setGhostPieces(ghosts);
+    this._renderer.setPrecogHint({ target: move.to, score: prediction.score, reply });
     this._renderer.render();
   }
 
   /**
-   * Executes AI turn
+   * Gets the settings for the current mode and the person's chosen color
+   */
+  private _getModeSettings(): GameModeSettings {
+    return getGameMode(this._gameMode, this._playerColor);
+  }
+
+  /**
+   * Checks whether the engine moves a side in the current game
+   */
+  private _isEngineSide(player: Player): boolean {
+    return isEngineSide(this._gameMode, player, this._playerColor);
+  }
+
+  /**
+   * Gets the side Agatha comments on as her own: the one she plays against a
+   * person, otherwise White
+   */
+  private _getAgathaSide(): Player {
+    return this._gameMode === 'human-vs-agatha' ? getOpponent(this._playerColor) : 'white';
+  }
+
+  /**
+   * Starts the engine's turn if it moves the side to play
+   * Paused self-play waits for Step or Resume instead
+   */
+  private _startEngineTurnIfDue(): void {
+    if (this._isSelfPlayPaused()) {
+      this._updateStatus();
+      return;
+    }
+    if (!this._game.isGameOver && this._isEngineSide(this._game.currentPlayer)) {
+      this._doAITurn();
+    }
+  }
+
+  /**
+   * Checks if Agatha is playing herself with the moves paused
+   */
+  private _isSelfPlayPaused(): boolean {
+    return this._gameMode === 'agatha-vs-agatha' && this._selfPlayPaused;
+  }
+
+  /**
+   * Pauses self-play after the move being searched, or resumes it
+   */
+  private _toggleSelfPlayPause(): void {
+    this._selfPlayPaused = !this._selfPlayPaused;
+    this._updateSelfPlayControls();
+    this._updateStatus();
+
+    if (!this._selfPlayPaused && !this._isAIThinking && !this._isAnimating) {
+      this._startEngineTurnIfDue();
+    }
+  }
+
+  /**
+   * Plays one self-play move while paused
+   */
+  private _stepSelfPlay(): void {
+    if (!this._isSelfPlayPaused() || this._isAIThinking || this._isAnimating || this._game.isGameOver) {
+      return;
+    }
+    this._doAITurn();
+    this._updateSelfPlayControls();
+  }
+
+  /**
+   * Shows the self-play controls in Agatha vs Agatha games and syncs their state
+   */
+  private _updateSelfPlayControls(): void {
+    this._selfPlayPanel.hidden = this._gameMode !== 'agatha-vs-agatha';
+    this._selfPlayPauseBtn.textContent = this._selfPlayPaused ? 'Resume' : 'Pause';
+    this._selfPlayStepBtn.disabled =
+      !this._selfPlayPaused || this._isAIThinking || this._game.isGameOver;
+  }
+
+  /**
+   * Executes AI turn for the side to move
+   * Only Agatha's own side gets her commentary (White when she plays herself);
+   * when she also plays the other side, the next turn starts once this one has finished
    */
   private async _doAITurn(): Promise<void> {
+    const player = this._game.currentPlayer;
+    const generation = this._gameGeneration;
+    const { sideNames } = this._getModeSettings();
+    const thinker = this._gameMode === 'agatha-vs-agatha' ? `Agatha (${sideNames[player]})` : 'Agatha';
+
+    // Agatha plays Black at its own difficulty when she plays herself
+    const difficulty =
+      this._gameMode === 'agatha-vs-agatha' && player === 'black' ? this._blackDifficulty : this._difficulty;
+    const agathaSide = this._getAgathaSide();
+
+    // Engine scores favor White; Agatha reads them for the side she is moving
+    const sign = player === 'white' ? 1 : -1;
+
     this._isAIThinking = true;
-    this._updateStatus('Agatha is foreseeing...');
+    this._updateStatus(`${thinker} is foreseeing...`);
 
-    // Small delay to show thinking state
-    await this._delay(500);
+    // Small delay to show thinking state; running self-play waits at its chosen speed
+    const selfPlaying = this._gameMode === 'agatha-vs-agatha' && !this._selfPlayPaused;
+    await this._delay(selfPlaying ? this._selfPlayDelayMs : 500);
+
+    // A new game during the delay takes over
+    if (!this._isAIThinking || generation !== this._gameGeneration) {
+      return;
+    }
 
     // Count available moves before getting best move
-    const availableMoves = getAllValidMoves(this._game.board, 'agatha').length;
+    const availableMoves = getAllValidMoves(this._game.board, player, this._game.rules).length;
 
-    // Get AI move
-    const move = getBestMove(this._game.board);
+    // Get AI move from the engine worker, showing each completed depth
+    let search: EngineSearchResult;
+    try {
+      const iterations: SearchDepthInfo[] = [];
+      this._showSearchInfo(iterations);
+      search = await this._engine.search(
+        this._game.board,
+        this._thinkTimeMs,
+        difficulty,
+        info => {
+          iterations.push({ ...info, score: info.score * sign });
+          this._showSearchInfo(iterations);
+          this._updateStatus(
+            `${thinker} is foreseeing... depth ${info.depth} ` +
+              `(${info.nodesEvaluated.toLocaleString()} futures)`
+          );
+        },
+        player
+      );
+    } catch (error) {
+      // A new game cancels the search; the new game owns the state now
+      if (!(error instanceof EngineCancelledError)) {
+        console.error('Agatha search failed:', error);
+        this._isAIThinking = false;
+      }
+      return;
+    }
+    const move = search.move;
+    if (search.metrics.bookMove) {
+      this._showBookMove(search.metrics.bookMove);
+    }
     
     // Get detailed position evaluation
-    const detailedEval = getDetailedEvaluation(this._game.board);
-    
+    const detailedEval = getDetailedEvaluation(this._game.board, DEFAULT_WEIGHTS, this._game.rules);
+    const blackPieces = { men: detailedEval.blackMen, kings: detailedEval.blackKings };
+    const whitePieces = { men: detailedEval.whiteMen, kings: detailedEval.whiteKings };
+    const [ownPieces, otherPieces] = player === 'white' ? [whitePieces, blackPieces] : [blackPieces, whitePieces];
+
     // Capture AI metrics right after the search completes
     const aiMetrics: AIMetrics = {
-      positionsEvaluated: getNodesEvaluated(),
-      searchDepth: AI_SEARCH_DEPTH,
-      moveScore: detailedEval.totalScore,
+      positionsEvaluated: search.metrics.nodesEvaluated,
+      transpositionHitRate: search.metrics.transpositionHitRate,
+      searchDepth: search.metrics.depth,
+      moveScore: search.metrics.score * sign,
+      thinkTimeMs: this._thinkTimeMs,
+      elapsedMs: search.metrics.elapsedMs,
+      principalVariation: search.metrics.pv,
+      searchIterations: search.metrics.iterations.map(info => ({ ...info, score: info.score * sign })),
+      difficulty: search.metrics.difficulty,
+      randomPick: search.metrics.randomPick,
+      bookMove: search.metrics.bookMove,
       availableMoves: availableMoves,
-      humanPieces: {
-        men: detailedEval.humanMen,
-        kings: detailedEval.humanKings,
-        total: detailedEval.humanMen + detailedEval.humanKings,
-      },
-      agathaPieces: {
-        men: detailedEval.agathaMen,
-        kings: detailedEval.agathaKings,
-        total: detailedEval.agathaMen + detailedEval.agathaKings,
-      },
+      humanPieces: { ...otherPieces, total: otherPieces.men + otherPieces.kings },
+      agathaPieces: { ...ownPieces, total: ownPieces.men + ownPieces.kings },
       positionEval: {
-        totalScore: detailedEval.totalScore,
-        materialScore: detailedEval.materialScore,
-        positionalScore: detailedEval.positionalScore,
-        mobilityScore: detailedEval.mobilityScore,
+        totalScore: detailedEval.totalScore * sign,
+        materialScore: detailedEval.materialScore * sign,
+        positionalScore: detailedEval.positionalScore * sign,
+        mobilityScore: detailedEval.mobilityScore * sign,
       },
     };
 
@@ -423,28 +991,25 @@ class PrecogCheckers {
     this._renderer.startContinuousGlow(piece);
 
     // Start generating thoughts in parallel (don't await yet)
-    const thoughtsPromise = this._generateThoughts(move, aiMetrics);
+    let thoughtsPromise: Promise<string> | null = null;
+    if (player === agathaSide) {
+      thoughtsPromise = this._generateThoughts(move, aiMetrics);
+    } else {
+      this._lastHumanMove = move;
+    }
 
     // Wait a moment to show the glow before moving
     await this._delay(ANIMATION_DURATION.GLOW);
+    if (generation !== this._gameGeneration) {
+      return;
+    }
 
     this._isAnimating = true;
 
-    // Build path for multi-jump or single move
-    const path = this._buildJumpPath(move);
-
-    // Animate through the path
-    if (path.length > 2) {
-      // Multi-jump: animate through each hop
-      await this._renderer.animateMultiJump(piece, path, ANIMATION_DURATION.MOVE);
-    } else {
-      // Single move or single capture
-      await this._renderer.animateMove(
-        piece,
-        move.from,
-        move.to,
-        ANIMATION_DURATION.MOVE
-      );
+    // Animate through every landing square of the move
+    await this._renderer.animateMoveSequence(piece, move, ANIMATION_DURATION.MOVE);
+    if (generation !== this._gameGeneration) {
+      return;
     }
 
     // Execute the move
@@ -454,31 +1019,69 @@ class PrecogCheckers {
     this._updateDisplay();
 
     // Wait for thoughts to complete, then display and stop glowing
-    const thought = await thoughtsPromise;
-    this._displayAgathaThought(thought);
+    if (thoughtsPromise) {
+      const thought = await thoughtsPromise;
+      if (generation !== this._gameGeneration) {
+        return;
+      }
+      this._displayAgathaThought(thought);
+    }
     this._renderer.stopGlow();
     
     this._isAIThinking = false;
+    this._updateSelfPlayControls();
+    this._startEngineTurnIfDue();
+  }
+
+  /**
+   * Judges the move just played by a person and marks it in the move history
+   * The engine answers requests in order, so the judgement arrives before a
+   * reply searched after it and Agatha can comment on it
+   */
+  private async _annotateMove(board: (Piece | null)[][], move: Move): Promise<void> {
+    const record = this._game.moveHistory[this._game.moveHistory.length - 1];
+
+    try {
+      const annotation = await this._engine.annotateMove(board, move);
+      if (this._game.annotateMove(record, annotation)) {
+        this._updateMoveHistory();
+      }
+    } catch (error) {
+      if (!(error instanceof EngineCancelledError)) {
+        console.error('Move annotation failed:', error);
+      }
+    }
   }
 
   /**
    * Generates Agatha's thoughts (returns the thought string)
+   * Unless she is playing a person, she comments as a spectator
    */
-  private async _generateThoughts(agathaMove: Move, aiMetrics: AIMetrics): Promise<string> {
+  private async _generateThoughts(agathaMove: Move, aiMetrics: AIMetrics | null): Promise<string> {
     // Show thinking indicator
     this._setAgathaThinking(true);
 
     const moveNumber = Math.floor(this._game.moveHistory.length / 2);
+    const agathaSide = this._getAgathaSide();
+    const lastHumanRecord = [...this._game.moveHistory].reverse().find(record => record.player !== agathaSide);
     const context = buildGameContext(
       this._game.board,
       this._lastHumanMove,
       agathaMove,
       moveNumber,
-      aiMetrics
+      aiMetrics,
+      this._gameMode !== 'human-vs-agatha',
+      agathaSide,
+      lastHumanRecord?.annotation ?? null
     );
 
     try {
-      const thought = await generateAgathaThought(context, this._apiKey, this._conversationHistory);
+      const thought = await generateAgathaThought(
+        context,
+        this._apiKey,
+        this._conversationHistory,
+        this._difficulty
+      );
       
       // Add to conversation history
       this._conversationHistory.push({
@@ -520,6 +1123,33 @@ class PrecogCheckers {
     this._lastAgathaThought = thought;
   }
 
+  /**
+   * Shows one line per completed search depth under Agatha's thought
+   */
+  private _showSearchInfo(iterations: SearchDepthInfo[]): void {
+    this._agathaSearch.replaceChildren(
+      ...iterations.map(info => {
+        const line = document.createElement('div');
+        line.className = 'thoughts-panel__search-line';
+        const score = info.score > 0 ? `+${info.score}` : `${info.score}`;
+        line.textContent =
+          `d${info.depth}  ${score}  ${formatPrincipalVariation(info.pv, this._game.board.length)}  ` +
+          `${info.nodesEvaluated.toLocaleString()} nodes  ${(info.elapsedMs / 1000).toFixed(2)}s`;
+        return line;
+      })
+    );
+  }
+
+  /**
+   * Shows that Agatha's move came from the opening book instead of a search
+   */
+  private _showBookMove(opening: string): void {
+    const line = document.createElement('div');
+    line.className = 'thoughts-panel__search-line';
+    line.textContent = `book  ${opening}`;
+    this._agathaSearch.replaceChildren(line);
+  }
+
   /**
    * Handles human response to Agatha
    */
@@ -541,7 +1171,12 @@ class PrecogCheckers {
 
     // Generate Agatha's response to the human's message
     try {
-      const response = await generateAgathaReply(message, this._apiKey, this._conversationHistory);
+      const response = await generateAgathaReply(
+        message,
+        this._apiKey,
+        this._conversationHistory,
+        this._difficulty
+      );
       
       // Add Agatha's response to conversation history
       this._conversationHistory.push({
@@ -558,40 +1193,400 @@ class PrecogCheckers {
 
   /**
    * Handles game over
+   * Victory and defeat are only announced to a person playing Agatha
    */
-  private _handleGameOver(status: GameStatus): void {
-    const message = this._game.getWinnerMessage();
+  private _handleGameOver(result: GameResult): void {
+    const { status } = result;
+    const message = this._getResultMessage();
+    const { sideNames } = this._getModeSettings();
 
-    if (status === 'human_wins') {
+    if (status === 'draw') {
+      this._modalTitle.textContent = 'Draw';
+    } else if (this._gameMode !== 'human-vs-agatha') {
+      this._modalTitle.textContent = `${sideNames[status === 'black_wins' ? 'black' : 'white']} wins`;
+      this._sound.play('win');
+    } else if (status === `${this._playerColor}_wins`) {
       this._modalTitle.textContent = 'Victory!';
       this._sound.play('win');
-    } else if (status === 'agatha_wins') {
+    } else {
       this._modalTitle.textContent = 'Defeat';
       this._sound.play('lose');
-    } else {
-      this._modalTitle.textContent = 'Draw';
     }
 
     this._modalMessage.textContent = message;
+    this._modalPlayerColorSelect.value = this._playerColor;
+    this._modalPlayerColorSelect.hidden = this._gameMode !== 'human-vs-agatha';
     this._modal.hidden = false;
   }
 
+  /**
+   * Describes the finished game for the current mode
+   */
+  private _getResultMessage(): string {
+    const { status } = this._game.state;
+    if (this._gameMode === 'human-vs-agatha' || status === 'draw') {
+      return this._game.getWinnerMessage(this._playerColor);
+    }
+
+    const winner = this._getModeSettings().sideNames[status === 'black_wins' ? 'black' : 'white'];
+    return `${winner} takes the game. Agatha saw it coming.`;
+  }
+
+  /**
+   * Has Agatha replay the finished game and shows her report
+   */
+  private async _analyzeGame(): Promise<void> {
+    if (!this._game.isGameOver || !this._analysisPanel.hidden) {
+      return;
+    }
+
+    const board = this._getStartBoard();
+    const moves = this._game.moveHistory.map(recordToMove);
+
+    this._modal.hidden = true;
+    this._analysisPanel.hidden = false;
+    this._analysisSummary.textContent = 'Agatha is replaying the game...';
+    this._analysisHighlights.replaceChildren();
+    this._analysisMoves.replaceChildren();
+
+    let analysis: GameAnalysis;
+    try {
+      analysis = await this._engine.analyzeGame(board, moves, this._analysisDepth);
+    } catch (error) {
+      if (!(error instanceof EngineCancelledError)) {
+        console.error('Game analysis failed:', error);
+        this._analysisSummary.textContent = 'The visions of this game are clouded.';
+      }
+      return;
+    }
+
+    // Closing the panel, a new game or undo abandons the report
+    if (this._analysisPanel.hidden) {
+      return;
+    }
+
+    this._analysis = analysis;
+    this._analysisPositions = replayGame(board, moves);
+    this._showAnalysis();
+  }
+
+  /**
+   * Fills the analysis panel: accuracy, turning points, missed wins and every move
+   */
+  private _showAnalysis(): void {
+    const analysis = this._analysis;
+    if (!analysis) {
+      return;
+    }
+
+    const { sideNames } = this._getModeSettings();
+    const size = this._game.board.length;
+    const describe = (ply: number): string => {
+      const { player, move, annotation } = analysis.plies[ply];
+      const glyph = MOVE_QUALITY_GLYPHS[annotation.quality];
+      const { moveNumber } = this._game.moveHistory[ply];
+      return `${moveNumber}. ${sideNames[player]}: ${formatPrincipalVariation([move], size)}${glyph && ` ${glyph}`}`;
+    };
+    const alternative = (ply: number): string => {
+      const { annotation } = analysis.plies[ply];
+      return annotation.bestMove
+        ? ` (-${annotation.loss}, best ${formatPrincipalVariation([annotation.bestMove], size)})`
+        : '';
+    };
+
+    this._analysisSummary.textContent =
+      `Accuracy: ${sideNames.black} ${analysis.accuracy.black}%, ` +
+      `${sideNames.white} ${analysis.accuracy.white}%`;
+
+    const highlights = [
+      ...analysis.turningPoints.map(
+        ply =>
+          `<button class="analysis-move analysis-move--turning-point" data-ply="${ply}">` +
+          `Turning point: ${describe(ply)}${alternative(ply)}</button>`
+      ),
+      ...analysis.missedWins.map(
+        ply =>
+          `<button class="analysis-move analysis-move--missed-win" data-ply="${ply}">` +
+          `Missed win: ${describe(ply)}${alternative(ply)}</button>`
+      ),
+    ];
+    this._analysisHighlights.innerHTML =
+      highlights.join('') || '<p class="analysis-move">No turning points. The game never swung.</p>';
+
+    this._analysisMoves.innerHTML = analysis.plies
+      .map(({ ply }) => {
+        const active = ply === this._reviewPly ? ' analysis-move--active' : '';
+        return `<button class="analysis-move${active}" data-ply="${ply}">${describe(ply)}${alternative(ply)}</button>`;
+      })
+      .join('');
+
+    drawEvaluationGraph(this._analysisGraph, analysis, this._reviewPly);
+  }
+
+  /**
+   * Jumps the board to the position after an analyzed move
+   */
+  private _reviewMove(ply: number | null): void {
+    if (!this._analysis || ply === null) {
+      return;
+    }
+
+    this._reviewPly = ply;
+    this._renderer.clearMoveTraces();
+    this._renderer.addMoveTrace(this._analysis.plies[ply].move);
+
+    for (const entry of this._analysisMoves.querySelectorAll<HTMLElement>('[data-ply]')) {
+      entry.classList.toggle('analysis-move--active', Number(entry.dataset.ply) === ply);
+    }
+    drawEvaluationGraph(this._analysisGraph, this._analysis, ply);
+    this._updateDisplay();
+  }
+
+  /**
+   * Hides the analysis panel, returning the board to the game if it was reviewing
+   */
+  private _closeAnalysis(): void {
+    const reviewing = this._reviewPly !== null;
+
+    this._analysisPanel.hidden = true;
+    this._analysis = null;
+    this._analysisPositions = [];
+    this._reviewPly = null;
+
+    if (reviewing) {
+      this._renderer.clearMoveTraces();
+      this._updateDisplay();
+    }
+  }
+
+  /**
+   * Gets Agatha's opening line for a new game in the current mode
+   */
+  private _getGreeting(): string {
+    const firstPlayer = this._game.rules.firstPlayer;
+    switch (this._gameMode) {
+      case 'human-vs-human':
+        return `Two of you, and I see both your futures. ${firstPlayer === 'black' ? 'Black' : 'White'} moves first.`;
+      case 'agatha-vs-agatha':
+        return 'I will play both sides. Watch closely... I already know who wins.';
+      default:
+        return this._playerColor !== firstPlayer
+          ? 'I see all possible futures... I will open. Watch closely, human.'
+          : 'I see all possible futures... Make your move, human.';
+    }
+  }
+
+  /**
+   * Takes the side a person picked to play against Agatha
+   * @returns Whether the side changed
+   */
+  private _choosePlayerColor(color: string): boolean {
+    if (!isPieceColor(color) || color === this._playerColor) {
+      return false;
+    }
+
+    this._playerColor = color;
+    localStorage.setItem('agatha_player_color', color);
+    return true;
+  }
+
   /**
    * Handles new game button
    */
   private _handleNewGame(): void {
+    this._resetGame();
+    this._startEngineTurnIfDue();
+  }
+
+  /**
+   * Resets the game and the UI without starting anyone's turn
+   */
+  private _resetGame(): void {
+    this._gameGeneration++;
+    this._engine.cancel();
+    this._exitSetupMode();
     this._modal.hidden = true;
-    this._game.reset();
+    this._routeModal.hidden = true;
+    this._closeAnalysis();
+    this._game.reset(getRuleSet(this._variant));
+    this._winChances = [];
+    this._syncWinChances();
+    this._engine.variant = this._variant;
     this._renderer.clearMoveTraces();
-    this._renderer.clearGhostPieces();
+    this._clearPrecog();
+    this._renderer.stopGlow();
     this._isAIThinking = false;
     this._isAnimating = false;
     this._lastHumanMove = null;
     this._conversationHistory = []; // Reset conversation history
-    this._displayAgathaThought("I see all possible futures... Make your move, human.");
+    this._showSearchInfo([]);
+    this._displayAgathaThought(this._getGreeting());
+    this._updateSideLabels();
     this._updateDisplay();
   }
 
+  /**
+   * Names the sides in the score panel for the current mode
+   */
+  private _updateSideLabels(): void {
+    const { sideNames } = this._getModeSettings();
+    this._blackLabel.textContent = sideNames.black.toUpperCase();
+    this._whiteLabel.textContent = sideNames.white.toUpperCase();
+  }
+
+  /**
+   * Enters setup mode, starting from the current position
+   */
+  private _enterSetupMode(): void {
+    if (this._isAIThinking || this._isAnimating || this._editor) {
+      return;
+    }
+
+    this._game.selectPiece({ row: -1, col: -1 });
+    this._clearPrecog();
+    this._closeAnalysis();
+    this._renderer.clearMoveTraces();
+    this._editor = new BoardEditor(this._game.board, this._game.currentPlayer, this._game.rules);
+    this._setupPanel.hidden = false;
+    this._setupError.textContent = '';
+    this._setupPlayerColorSelect.value = this._playerColor;
+    this._setupPlayerColorRow.hidden = this._gameMode !== 'human-vs-agatha';
+    this._updateSetupPanel();
+    this._updateDisplay();
+  }
+
+  /**
+   * Leaves setup mode without changing the game
+   */
+  private _exitSetupMode(): void {
+    if (!this._editor) {
+      return;
+    }
+
+    this._editor = null;
+    this._setupPanel.hidden = true;
+    this._updateDisplay();
+  }
+
+  /**
+   * Applies an edit to the setup position and refreshes the view
+   */
+  private _editSetup(edit: (editor: BoardEditor) => void): void {
+    if (!this._editor) {
+      return;
+    }
+
+    edit(this._editor);
+    this._setupError.textContent = '';
+    this._updateSetupPanel();
+    this._updateDisplay();
+  }
+
+  /**
+   * Loads the FEN typed into the setup panel
+   */
+  private _applySetupFen(): void {
+    try {
+      this._editSetup(editor => editor.loadFen(this._setupFenInput.value));
+    } catch (error) {
+      this._setupError.textContent = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Syncs the setup panel controls with the edited position
+   */
+  private _updateSetupPanel(): void {
+    if (!this._editor) {
+      return;
+    }
+
+    this._setupSideSelect.value = this._editor.sideToMove;
+    this._setupFenInput.value = this._editor.toFen();
+  }
+
+  /**
+   * Starts a new game from the edited position
+   */
+  private _startFromSetup(): void {
+    if (!this._editor) {
+      return;
+    }
+
+    let position: SetupPosition;
+    try {
+      position = this._editor.toSetupPosition();
+    } catch (error) {
+      this._setupError.textContent = error instanceof Error ? error.message : String(error);
+      return;
+    }
+
+    this._choosePlayerColor(this._setupPlayerColorSelect.value);
+    this._resetGame();
+    this._game.startFromPosition(position);
+    this._winChances = [];
+    this._displayAgathaThought('A future of your own design... I have already seen how it ends.');
+    this._afterTimelineJump();
+  }
+
+  /**
+   * Downloads the current game as a PDN file
+   */
+  private _handleSavePdn(): void {
+    // Name the players of each color as the current mode seats them
+    const { sideNames } = this._getModeSettings();
+    const pdn = exportPdn(this._game, { Black: sideNames.black, White: sideNames.white });
+    const blob = new Blob([pdn], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `precog-checkers-${new Date().toISOString().slice(0, 10)}.pdn`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Loads a PDN file and replays its moves
+   */
+  private async _handleLoadPdn(): Promise<void> {
+    const file = this._loadPdnInput.files?.[0];
+    this._loadPdnInput.value = '';
+    if (!file || this._isAIThinking || this._isAnimating) {
+      return;
+    }
+
+    try {
+      const { startPosition, rules, moves } = parsePdn(await file.text());
+
+      this._resetGame();
+      if (startPosition) {
+        this._game.startFromPosition(startPosition, rules);
+      } else {
+        this._game.reset(rules);
+      }
+      this._winChances = [];
+      this._engine.variant = rules.variant;
+      this._isReplaying = true;
+      for (const move of moves) {
+        this._game.makeMove(move);
+      }
+    } catch (error) {
+      console.error('Error loading PDN:', error);
+      const reason = error instanceof Error ? error.message : String(error);
+      this._displayAgathaThought(`That record shows a future that cannot exist. ${reason}`);
+      return;
+    } finally {
+      this._isReplaying = false;
+      // A record that failed partway keeps the moves replayed so far
+      this._syncWinChances();
+    }
+
+    this._displayAgathaThought('I remember this game... every move of it.');
+    this._afterTimelineJump();
+  }
+
   /**
    * Handles sound toggle
    */
@@ -623,6 +1618,10 @@ class PrecogCheckers {
    */
   private _handleResize(): void {
     this._renderer.resize();
+    drawEvaluationSparkline(this._evaluationSparkline, this._winChances);
+    if (this._analysis) {
+      drawEvaluationGraph(this._analysisGraph, this._analysis, this._reviewPly);
+    }
   }
 
   /**
@@ -631,12 +1630,76 @@ class PrecogCheckers {
   private _handleKeyDown(event: KeyboardEvent): void {
     if (event.key === 'Escape') {
       // Clear selection
+      this._routeModal.hidden = true;
       this._game.selectPiece({ row: -1, col: -1 });
-      this._renderer.clearGhostPieces();
+      this._clearPrecog();
       this._updateDisplay();
     } else if (event.key === 'n' && (event.ctrlKey || event.metaKey)) {
       event.preventDefault();
       this._handleNewGame();
+    } else if (event.key.toLowerCase() === 'z' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      if (event.shiftKey) {
+        this._handleRedo();
+      } else {
+        this._handleUndo();
+      }
+    } else if (event.key.toLowerCase() === 'y' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      this._handleRedo();
+    }
+  }
+
+  /**
+   * Takes back the last human move together with Agatha's reply
+   * In hot-seat games a single move is taken back
+   */
+  private _handleUndo(): void {
+    if (this._isAIThinking || this._isAnimating || this._editor || !this._game.canUndo) {
+      return;
+    }
+
+    this._game.undo(this._getTimelineStop());
+    this._afterTimelineJump();
+  }
+
+  /**
+   * Replays a previously undone human move and Agatha's reply
+   * In hot-seat games a single move is replayed
+   */
+  private _handleRedo(): void {
+    if (this._isAIThinking || this._isAnimating || this._editor || !this._game.canRedo) {
+      return;
+    }
+
+    this._game.redo(this._getTimelineStop());
+    this._afterTimelineJump();
+  }
+
+  /**
+   * Gets the side whose turn undo and redo stop at, or undefined to step one move
+   */
+  private _getTimelineStop(): Player | undefined {
+    return this._gameMode === 'human-vs-agatha' ? this._playerColor : undefined;
+  }
+
+  /**
+   * Syncs the UI after jumping through the game timeline
+   */
+  private _afterTimelineJump(): void {
+    this._syncWinChances();
+    this._modal.hidden = true;
+    this._routeModal.hidden = true;
+    this._closeAnalysis();
+    this._clearPrecog();
+    this._renderer.clearMoveTraces();
+    this._lastHumanMove = null;
+    this._updateDisplay();
+
+    if (this._game.result) {
+      this._handleGameOver(this._game.result);
+    } else {
+      this._startEngineTurnIfDue();
     }
   }
 
@@ -644,8 +1707,26 @@ class PrecogCheckers {
    * Updates the display
    */
   private _updateDisplay(): void {
-    // Update renderer
-    this._renderer.setBoard(this._game.board);
+    // In setup mode the board shows the position being edited
+    if (this._editor) {
+      this._renderer.setBoard(this._editor.board);
+      this._renderer.setFlipped(false);
+      this._renderer.setSelection(null, []);
+      this._renderer.render();
+      this._updateStatus('Setting up the board...');
+      return;
+    }
+
+    // Update renderer, turning the board toward a person playing White, or
+    // toward White on its turn in hot-seat games if asked
+    const flipped =
+      (this._gameMode === 'human-vs-agatha' && this._playerColor === 'white') ||
+      (this._gameMode === 'human-vs-human' && this._flipEachTurn && this._game.currentPlayer === 'white');
+    // While reviewing an analysis the board shows the position after the chosen move
+    const board = this._reviewPly === null ? this._game.board : this._analysisPositions[this._reviewPly + 1];
+    this._renderer.setBoard(board);
+    this._renderer.setFlipped(flipped);
+    this._scorePanel.classList.toggle('score-panel--flipped', flipped);
     this._renderer.setSelection(
       this._game.selectedPiece,
       this._game.validMoves
@@ -655,38 +1736,108 @@ class PrecogCheckers {
     // Update piece counts
     this._updatePieceCounts();
 
+    // Update the advantage bar and sparkline
+    this._updateAdvantage(board, flipped);
+
     // Update move history
     this._updateMoveHistory();
 
     // Update status
     this._updateStatus();
+    this._updateSelfPlayControls();
+    this._analyzeBtn.disabled = !this._game.isGameOver;
   }
 
   /**
    * Updates piece count display
    */
   private _updatePieceCounts(): void {
-    const humanNum = this._humanPieces.querySelector('.piece-number');
-    const agathaNum = this._agathaPieces.querySelector('.piece-number');
+    const blackNum = this._blackPieces.querySelector('.piece-number');
+    const whiteNum = this._whitePieces.querySelector('.piece-number');
 
-    if (humanNum) {
-      humanNum.textContent = this._game.state.humanPieceCount.toString();
+    if (blackNum) {
+      blackNum.textContent = this._game.state.blackPieceCount.toString();
     }
-    if (agathaNum) {
-      agathaNum.textContent = this._game.state.agathaPieceCount.toString();
+    if (whiteNum) {
+      whiteNum.textContent = this._game.state.whitePieceCount.toString();
     }
   }
 
+  /**
+   * Shows how the shown position stands on the advantage bar, with the score
+   * breakdown on hover, and redraws the sparkline of the game so far
+   */
+  private _updateAdvantage(board: (Piece | null)[][], flipped: boolean): void {
+    const rules = this._game.rules;
+    const detail = getDetailedEvaluation(board, DEFAULT_WEIGHTS, rules);
+    const chance = Math.round(getWinProbability(detail.totalScore) * 100);
+    const { sideNames } = this._getModeSettings();
+    const signed = (score: number): string => {
+      const rounded = Math.round(score);
+      return rounded > 0 ? `+${rounded}` : `${rounded}`;
+    };
+    const breakdown =
+      `${sideNames.white} ${chance}% - ${sideNames.black} ${100 - chance}%\n` +
+      `Material: ${signed(detail.materialScore)}\n` +
+      `Position: ${signed(detail.positionalScore)}\n` +
+      `Mobility: ${signed(detail.mobilityScore)}\n` +
+      `(plus favors ${sideNames.white})`;
+
+    // White's share of the bar sits on White's side of the board
+    this._advantageFill.style.height = `${chance}%`;
+    this._advantageBar.classList.toggle('advantage-bar--flipped', flipped);
+    this._advantageBar.title = breakdown;
+    this._evaluationSparkline.title = breakdown;
+
+    drawEvaluationSparkline(this._evaluationSparkline, this._winChances);
+  }
+
+  /**
+   * Brings the cached winning chances in line with the game after a jump
+   * through its timeline: undone moves are dropped, and redone or loaded
+   * moves are replayed and evaluated
+   */
+  private _syncWinChances(): void {
+    const moves = this._game.moveHistory.map(recordToMove);
+    if (this._winChances.length > moves.length) {
+      this._winChances.length = moves.length + 1;
+      return;
+    }
+
+    const positions = replayGame(this._getStartBoard(), moves);
+    for (const position of positions.slice(this._winChances.length)) {
+      this._winChances.push(this._getWinChance(position));
+    }
+  }
+
+  /**
+   * Gets White's winning chances in a position by its static evaluation
+   */
+  private _getWinChance(board: (Piece | null)[][]): number {
+    return getWinProbability(evaluateBoard(board, DEFAULT_WEIGHTS, this._game.rules));
+  }
+
+  /**
+   * Gets the position the current game started from
+   */
+  private _getStartBoard(): (Piece | null)[][] {
+    return this._game.startPosition?.board ?? createInitialBoard(this._game.rules.geometry);
+  }
+
   /**
    * Updates move history display
    */
   private _updateMoveHistory(): void {
-    const history = this._game.getFormattedHistory();
+    const history = this._game.getFormattedHistory(this._getModeSettings().sideNames);
     this._moveHistory.innerHTML = history
       .map((move, i) => {
-        const isHuman = this._game.moveHistory[i]?.player === 'human';
-        const className = isHuman ? 'move-entry--human' : 'move-entry--agatha';
-        return `<div class="move-entry ${className}">${move}</div>`;
+        const record = this._game.moveHistory[i];
+        const className = record?.player === 'black' ? 'move-entry--black' : 'move-entry--white';
+        // Judged moves explain their glyph on hover
+        const title = record?.annotation
+          ? ` title="${record.annotation.quality}, ${record.annotation.loss} centipieces lost"`
+          : '';
+        return `<div class="move-entry ${className}"${title}>${move}</div>`;
       })
       .join('');
 
@@ -705,13 +1856,20 @@ class PrecogCheckers {
     }
 
     if (this._game.isGameOver) {
-      this._statusMessage.textContent = this._game.getWinnerMessage();
+      this._statusMessage.textContent = this._getResultMessage();
       this._statusMessage.className = 'status-bar__message';
       return;
     }
 
-    if (this._game.currentPlayer === 'human') {
-      this._statusMessage.textContent = 'Your turn';
+    const player = this._game.currentPlayer;
+    if (!this._isEngineSide(player)) {
+      this._statusMessage.textContent =
+        this._gameMode === 'human-vs-agatha'
+          ? 'Your turn'
+          : `${this._getModeSettings().sideNames[player]} to move`;
+      this._statusMessage.className = 'status-bar__message';
+    } else if (this._isSelfPlayPaused() && !this._isAIThinking) {
+      this._statusMessage.textContent = `Paused - ${this._getModeSettings().sideNames[player]} to move`;
       this._statusMessage.className = 'status-bar__message';
     } else {
       this._statusMessage.textContent = 'Agatha is watching...';
@@ -728,9 +1886,100 @@ class PrecogCheckers {
     if (this._apiKey) {
       this._apiKeyInput.value = this._apiKey;
     }
+    this._thinkTimeSelect.value = String(this._thinkTimeMs);
+    this._analysisDepthSelect.value = String(this._analysisDepth);
+    this._difficultySelect.value = this._difficulty;
+    this._updateDifficultyDescription();
+    this._blackDifficultySelect.value = this._blackDifficulty;
+    this._variantSelect.value = this._variant;
+    this._updateVariantDescription();
+    this._gameModeSelect.value = this._gameMode;
+    this._playerColorSelect.value = this._playerColor;
+    this._updateGameModeDescription();
+    this._flipBoardInput.checked = this._flipEachTurn;
+    this._deepVisionInput.checked = this._deepVision;
     this._updateApiKeyStatus();
   }
 
+  /**
+   * Fills the difficulty selects (Agatha's and Black's in self-play) with every level
+   */
+  private _populateDifficultyOptions(): void {
+    for (const select of [this._difficultySelect, this._blackDifficultySelect]) {
+      select.replaceChildren(
+        ...Object.values(DIFFICULTIES).map(difficulty => {
+          const option = document.createElement('option');
+          option.value = difficulty.level;
+          option.textContent = difficulty.name;
+          return option;
+        })
+      );
+    }
+    this._difficultySelect.value = this._difficulty;
+    this._blackDifficultySelect.value = this._blackDifficulty;
+  }
+
+  /**
+   * Describes the level currently chosen in the settings modal
+   */
+  private _updateDifficultyDescription(): void {
+    const level = this._difficultySelect.value;
+    this._difficultyDescription.textContent = isDifficultyLevel(level)
+      ? DIFFICULTIES[level].description
+      : '';
+  }
+
+  /**
+   * Fills the variant select with every rule set
+   */
+  private _populateVariantOptions(): void {
+    this._variantSelect.replaceChildren(
+      ...Object.values(RULE_SETS).map(rules => {
+        const option = document.createElement('option');
+        option.value = rules.variant;
+        option.textContent = rules.name;
+        return option;
+      })
+    );
+    this._variantSelect.value = this._variant;
+  }
+
+  /**
+   * Describes the variant currently chosen in the settings modal
+   */
+  private _updateVariantDescription(): void {
+    const variant = this._variantSelect.value;
+    this._variantDescription.textContent = isRuleVariant(variant)
+      ? RULE_SETS[variant].description
+      : '';
+  }
+
+  /**
+   * Fills the game mode select with every mode
+   */
+  private _populateGameModeOptions(): void {
+    this._gameModeSelect.replaceChildren(
+      ...Object.values(GAME_MODES).map(settings => {
+        const option = document.createElement('option');
+        option.value = settings.mode;
+        option.textContent = settings.name;
+        return option;
+      })
+    );
+    this._gameModeSelect.value = this._gameMode;
+  }
+
+  /**
+   * Describes the game mode currently chosen in the settings modal
+   */
+  private _updateGameModeDescription(): void {
+    const mode = this._gameModeSelect.value;
+    const color = this._playerColorSelect.value;
+    this._gameModeDescription.textContent = isGameMode(mode)
+      ? getGameMode(mode, isPieceColor(color) ? color : DEFAULT_PLAYER_COLOR).description
+      : '';
+  }
+
   /**
    * Closes the settings modal
    */
@@ -754,9 +2003,65 @@ class PrecogCheckers {
       sessionStorage.setItem('anthropic_api_key', key);
       this._apiKey = key;
     }
+
+    const difficulty = this._difficultySelect.value;
+    if (isDifficultyLevel(difficulty)) {
+      this._difficulty = difficulty;
+      localStorage.setItem('agatha_difficulty', difficulty);
+    }
+
+    const blackDifficulty = this._blackDifficultySelect.value;
+    if (isDifficultyLevel(blackDifficulty)) {
+      this._blackDifficulty = blackDifficulty;
+      localStorage.setItem('agatha_black_difficulty', blackDifficulty);
+    }
+
+    const thinkTime = Number(this._thinkTimeSelect.value);
+    if (thinkTime > 0) {
+      this._thinkTimeMs = thinkTime;
+      localStorage.setItem('agatha_think_time', String(thinkTime));
+    }
+
+    const analysisDepth = Number(this._analysisDepthSelect.value);
+    if (analysisDepth > 0) {
+      this._analysisDepth = analysisDepth;
+      localStorage.setItem('agatha_analysis_depth', String(analysisDepth));
+    }
+
+    // Rules cannot change mid-game, so a new variant starts a new game
+    const variant = this._variantSelect.value;
+    const variantChanged = isRuleVariant(variant) && variant !== this._variant;
+    if (variantChanged) {
+      this._variant = variant;
+      localStorage.setItem('agatha_variant', variant);
+    }
+
+    // So does a new game mode
+    const gameMode = this._gameModeSelect.value;
+    const gameModeChanged = isGameMode(gameMode) && gameMode !== this._gameMode;
+    if (gameModeChanged) {
+      this._gameMode = gameMode;
+      localStorage.setItem('agatha_game_mode', gameMode);
+    }
+
+    // Changing sides only starts a new game when playing Agatha
+    const playerColorChanged = this._choosePlayerColor(this._playerColorSelect.value);
+
+    this._flipEachTurn = this._flipBoardInput.checked;
+    localStorage.setItem('agatha_flip_board', String(this._flipEachTurn));
+
+    this._deepVision = this._deepVisionInput.checked;
+    localStorage.setItem('agatha_deep_vision', String(this._deepVision));
+    this._setHoveredMove(null);
     
     this._updateApiKeyStatus();
     this._closeSettings();
+
+    if (variantChanged || gameModeChanged || (playerColorChanged && this._gameMode === 'human-vs-agatha')) {
+      this._handleNewGame();
+    } else {
+      this._updateDisplay();
+    }
   }
 
   /**
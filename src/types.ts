@@ -7,8 +7,15 @@
 // Game Core Types
 // ============================================
 
-/** The two players in the game */
-export type Player = 'human' | 'agatha';
+/**
+ * The two sides of the game, named by the color of their pieces
+ * Black moves up the board and White down; the rules decide who moves first and
+ * the game mode whether a person or Agatha moves each side.
+ */
+export type Player = 'black' | 'white';
+
+/** Color of a side's pieces, e.g. the one a person picks to play */
+export type PieceColor = Player;
 
 /** Type of checker piece */
 export type PieceType = 'man' | 'king';
@@ -19,6 +26,14 @@ export interface Position {
   readonly col: number;
 }
 
+/** Board dimensions and starting setup */
+export interface BoardGeometry {
+  /** Squares along each side */
+  readonly size: number;
+  /** Rows of men each player starts with */
+  readonly startingRows: number;
+}
+
 /** A checker piece */
 export interface Piece {
   readonly player: Player;
@@ -31,6 +46,10 @@ export interface Move {
   readonly from: Position;
   readonly to: Position;
   readonly captures: Position[];
+  /** Every square the piece lands on, in order (the last one is `to`) */
+  readonly landings: Position[];
+  /** Type of each captured piece, in the same order as `captures` */
+  readonly capturedTypes: PieceType[];
   readonly isPromotion: boolean;
 }
 
@@ -43,10 +62,23 @@ export interface MoveSequence {
 /** Current state of the game */
 export type GameStatus = 
   | 'playing'
-  | 'human_wins'
-  | 'agatha_wins'
+  | 'black_wins'
+  | 'white_wins'
   | 'draw';
 
+/** Why the game ended */
+export type GameOverReason =
+  | 'no_pieces'
+  | 'no_moves'
+  | 'threefold_repetition'
+  | 'no_progress';
+
+/** Outcome reported when the game ends */
+export interface GameResult {
+  readonly status: GameStatus;
+  readonly reason: GameOverReason;
+}
+
 /** Complete game state */
 export interface GameState {
   readonly board: (Piece | null)[][];
@@ -55,8 +87,8 @@ export interface GameState {
   selectedPiece: Piece | null;
   validMoves: Move[];
   moveHistory: MoveRecord[];
-  humanPieceCount: number;
-  agathaPieceCount: number;
+  blackPieceCount: number;
+  whitePieceCount: number;
 }
 
 /** Record of a move for history */
@@ -66,7 +98,24 @@ export interface MoveRecord {
   readonly from: Position;
   readonly to: Position;
   readonly captured: boolean;
+  readonly captures: Position[];
+  readonly landings: Position[];
+  readonly capturedTypes: PieceType[];
   readonly promoted: boolean;
+  /** How good the move was, once it has been judged (moves by people only) */
+  readonly annotation?: MoveAnnotation;
+}
+
+/** How a played move compares with the best move of its position */
+export type MoveQuality = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+/** Judgement of a played move */
+export interface MoveAnnotation {
+  readonly quality: MoveQuality;
+  /** Score given up against the best move, in centipieces (a man is worth 100) */
+  readonly loss: number;
+  /** The best move of the position (null when the played move was best) */
+  readonly bestMove: Move | null;
 }
 
 // ============================================
@@ -89,11 +138,14 @@ export interface EvaluationWeights {
   readonly mobilityBonus: number;
 }
 
-/** Precog prediction for ghost overlay */
-export interface PrecogPrediction {
-  readonly humanMove: Move;
-  readonly agathaResponse: Move | null;
+/** Result of one completed iterative deepening iteration */
+export interface SearchDepthInfo {
+  readonly depth: number;
   readonly score: number;
+  readonly bestMove: Move | null;
+  readonly pv: Move[];
+  readonly nodesEvaluated: number;
+  readonly elapsedMs: number;
 }
 
 // ============================================
@@ -108,8 +160,8 @@ export interface ThemeColors {
   readonly accentPrimary: string;
   readonly accentSecondary: string;
   readonly accentGold: string;
-  readonly pieceHuman: string;
-  readonly pieceAgatha: string;
+  readonly pieceBlack: string;
+  readonly pieceWhite: string;
   readonly textPrimary: string;
   readonly textSecondary: string;
 }
@@ -140,6 +192,20 @@ export interface GhostPiece {
   readonly player: Player;
   readonly type: PieceType;
   readonly opacity: number;
+  /** Ply of a predicted line the ghost belongs to, shown as a number */
+  readonly step?: number;
+  /** True when the piece is captured on that ply instead of moving there */
+  readonly vanishing?: boolean;
+}
+
+/** Precog overlay for a hovered move: the predicted reply and the move's score */
+export interface PrecogHint {
+  /** Destination of the hovered move, where its score is shown */
+  readonly target: Position;
+  /** Score of the hovered move for the side making it */
+  readonly score: number;
+  /** Predicted reply, drawn as an arrow along its path */
+  readonly reply: Move | null;
 }
 
 /** Click/touch event data */
@@ -173,15 +239,51 @@ export interface SoundConfig {
 // Constants
 // ============================================
 
-/** Board dimensions */
+/** Board dimensions (standard board) */
 export const BOARD_SIZE = 8;
 
-/** Initial piece count per player */
+/** Initial piece count per player (standard board) */
 export const INITIAL_PIECE_COUNT = 12;
 
+/** Largest board the game supports */
+export const MAX_BOARD_SIZE = 10;
+
+/** The standard 8x8 checkers board with 12 men each */
+export const STANDARD_BOARD: BoardGeometry = {
+  size: BOARD_SIZE,
+  startingRows: 3,
+};
+
+/** The 10x10 International draughts board with 20 men each */
+export const INTERNATIONAL_BOARD: BoardGeometry = {
+  size: 10,
+  startingRows: 4,
+};
+
+/** Moves per side without a capture or man move before a draw is declared */
+export const NO_PROGRESS_MOVE_LIMIT = 40;
+
+/** Number of times a position must occur for a repetition draw */
+export const REPETITION_LIMIT = 3;
+
 /** Minimax search depth (hard difficulty) */
 export const AI_SEARCH_DEPTH = 8;
 
+/** Deepest iteration a timed search will attempt */
+export const MAX_SEARCH_DEPTH = 32;
+
+/** Default time Agatha spends on a move (milliseconds) */
+export const DEFAULT_THINK_TIME_MS = 2000;
+
+/** Glyphs marking move quality in the move history (good moves are left unmarked) */
+export const MOVE_QUALITY_GLYPHS: Record<MoveQuality, string> = {
+  best: '!',
+  good: '',
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+};
+
 /** Animation durations in milliseconds */
 export const ANIMATION_DURATION = {
   MOVE: 300,
@@ -208,8 +310,8 @@ export const THEME_COLORS: ThemeColors = {
   accentPrimary: '#00d4ff',
   accentSecondary: '#ff6b35',
   accentGold: '#ffd700',
-  pieceHuman: '#ff3a3a',
-  pieceAgatha: '#e0e8ff',
+  pieceBlack: '#ff3a3a',
+  pieceWhite: '#e0e8ff',
   textPrimary: '#e0e8ff',
   textSecondary: '#7a8ba8',
 } as const;
@@ -243,12 +345,17 @@ export function positionsEqual(a: Position, b: Position): boolean {
 }
 
 /** Check if a position is within board bounds */
-export function isValidPosition(pos: Position): boolean {
-  return pos.row >= 0 && pos.row < BOARD_SIZE && 
-         pos.col >= 0 && pos.col < BOARD_SIZE;
+export function isValidPosition(pos: Position, size: number = BOARD_SIZE): boolean {
+  return pos.row >= 0 && pos.row < size && 
+         pos.col >= 0 && pos.col < size;
 }
 
 /** Check if a position is a playable dark square */
 export function isPlayableSquare(row: number, col: number): boolean {
   return (row + col) % 2 === 1;
 }
+
+/** Number of men each player starts with on a board */
+export function getInitialPieceCount(geometry: BoardGeometry): number {
+  return (geometry.size / 2) * geometry.startingRows;
+}
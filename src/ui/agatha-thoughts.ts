@@ -3,8 +3,18 @@
  * Generates strategic observations and trash talk
  */
 
-import { Piece, Player, Move, Position, BOARD_SIZE } from '../types.js';
+import {
+  Piece,
+  Player,
+  Move,
+  MoveAnnotation,
+  Position,
+  SearchDepthInfo,
+  BOARD_SIZE,
+  MAX_SEARCH_DEPTH,
+} from '../types.js';
 import { positionToNotation, countPieces } from '../game/board.js';
+import { DifficultyLevel, DEFAULT_DIFFICULTY, getDifficulty } from '../ai/difficulty.js';
 
 /**
  * Piece counts for each player
@@ -30,14 +40,34 @@ export interface PositionEvaluation {
  */
 export interface AIMetrics {
   positionsEvaluated: number;
+  transpositionHitRate: number;
   searchDepth: number;
   moveScore: number;
+  thinkTimeMs: number;         // Time budget for the move
+  elapsedMs: number;           // Time actually spent searching
+  principalVariation: Move[];  // Expected line of play, starting with Agatha's move
+  searchIterations: SearchDepthInfo[];
+  difficulty: DifficultyLevel;
+  randomPick: boolean;         // True when the difficulty made Agatha stray from her best move
+  bookMove: string | null;     // Opening the move came from, when played from the opening book
   availableMoves: number;
   humanPieces: PieceCounts;
   agathaPieces: PieceCounts;
   positionEval: PositionEvaluation;
 }
 
+/**
+ * Formats a line of play compactly (e.g. "c3-d4 f6xh4xf2")
+ */
+export function formatPrincipalVariation(pv: Move[], size: number = BOARD_SIZE): string {
+  return pv
+    .map(move => {
+      const separator = move.captures.length > 0 ? 'x' : '-';
+      return [move.from, ...move.landings].map(pos => positionToNotation(pos, size)).join(separator);
+    })
+    .join(' ');
+}
+
 /**
  * Game context for generating commentary
  */
@@ -53,6 +83,9 @@ export interface GameContext {
   agathaKings: number;
   isEndgame: boolean;
   aiMetrics: AIMetrics | null;
+  boardSize: number;           // Squares per side, for square names
+  spectating: boolean;         // True when Agatha comments on a game instead of playing a person
+  humanMoveQuality: MoveAnnotation | null;  // Judgement of the human move, once made
 }
 
 /** Message in conversation history */
@@ -67,7 +100,8 @@ export interface ConversationMessage {
 export async function generateAgathaThought(
   context: GameContext,
   apiKey: string | null,
-  conversationHistory: ConversationMessage[] = []
+  conversationHistory: ConversationMessage[] = [],
+  difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
 ): Promise<string> {
   // If no API key, use local fallback
   if (!apiKey) {
@@ -75,7 +109,7 @@ export async function generateAgathaThought(
   }
 
   try {
-    const systemPrompt = buildSystemPrompt();
+    const systemPrompt = buildSystemPrompt(difficulty);
     const userMessage = buildGameStateMessage(context);
     
     // Build messages array with conversation history
@@ -120,7 +154,8 @@ export async function generateAgathaThought(
 export async function generateAgathaReply(
   humanMessage: string,
   apiKey: string | null,
-  conversationHistory: ConversationMessage[] = []
+  conversationHistory: ConversationMessage[] = [],
+  difficulty: DifficultyLevel = DEFAULT_DIFFICULTY
 ): Promise<string> {
   if (!apiKey) {
     // Local fallback responses
@@ -138,7 +173,7 @@ export async function generateAgathaReply(
   }
 
   try {
-    const systemPrompt = buildSystemPrompt();
+    const systemPrompt = buildSystemPrompt(difficulty);
     
     // Build messages with history plus new human message
     const messages: ConversationMessage[] = [
@@ -175,8 +210,15 @@ export async function generateAgathaReply(
 
 /**
  * Builds the system prompt for Agatha
+ * The search depth she claims is the one of the difficulty she plays at
  */
-function buildSystemPrompt(): string {
+export function buildSystemPrompt(difficulty: DifficultyLevel = DEFAULT_DIFFICULTY): string {
+  const { name, maxDepth } = getDifficulty(difficulty);
+  const depth =
+    maxDepth >= MAX_SEARCH_DEPTH
+      ? `as many moves ahead as your think time allows (at most ${maxDepth})`
+      : `${maxDepth} moves ahead (${maxDepth / 2} complete turns for each player)`;
+
   return `You are Agatha, a precognitive AI from Minority Report playing checkers against a human. You can see the future and are supremely confident.
 
 Your personality:
@@ -188,7 +230,7 @@ Your personality:
 
 Technical knowledge (use when asked about your abilities):
 - You use the Minimax algorithm with alpha-beta pruning to search game trees
-- Your search depth is 8 moves ahead (4 complete turns for each player)
+- You are playing at the ${name} level: your search depth is ${depth}
 - You evaluate thousands of board positions per move using alpha-beta pruning to skip inferior branches
 - You prioritize captures and promotions when ordering moves to improve search efficiency
 - Your evaluation function considers: piece count, king count, board control, piece advancement
@@ -215,16 +257,20 @@ function buildGameStateMessage(context: GameContext): string {
     agathaKings,
     isEndgame,
     aiMetrics,
+    boardSize,
+    spectating,
+    humanMoveQuality,
   } = context;
 
-  const humanMoveFrom = lastHumanMove ? positionToNotation(lastHumanMove.from) : '';
-  const humanMoveTo = lastHumanMove ? positionToNotation(lastHumanMove.to) : '';
+  const humanMoveFrom = lastHumanMove ? positionToNotation(lastHumanMove.from, boardSize) : '';
+  const humanMoveTo = lastHumanMove ? positionToNotation(lastHumanMove.to, boardSize) : '';
   const humanCaptured = lastHumanMove && lastHumanMove.captures.length > 0;
   const humanCaptureCount = lastHumanMove ? lastHumanMove.captures.length : 0;
 
-  const agathaMoveFrom = agathaMove ? positionToNotation(agathaMove.from) : '';
-  const agathaMoveTo = agathaMove ? positionToNotation(agathaMove.to) : '';
+  const agathaMoveFrom = agathaMove ? positionToNotation(agathaMove.from, boardSize) : '';
+  const agathaMoveTo = agathaMove ? positionToNotation(agathaMove.to, boardSize) : '';
   const agathaCaptureCount = agathaMove ? agathaMove.captures.length : 0;
+  const quality = humanMoveQuality ? describeMoveQuality(humanMoveQuality, boardSize) : '';
 
   // Build AI metrics section if available
   let metricsSection = '';
@@ -243,17 +289,49 @@ function buildGameStateMessage(context: GameContext): string {
 
 [SEARCH METRICS]
 - Positions evaluated: ${aiMetrics.positionsEvaluated.toLocaleString()}
+- Transposition table hits: ${Math.round(aiMetrics.transpositionHitRate * 100)}% (positions recognized from other move orders)
 - Search depth: ${aiMetrics.searchDepth} moves ahead (${aiMetrics.searchDepth / 2} turns each player)
+- Difficulty: ${getDifficulty(aiMetrics.difficulty).name}${aiMetrics.randomPick ? ' (this move was a deliberate deviation from the best line)' : ''}
+${aiMetrics.bookMove ? `- Book move: ${aiMetrics.bookMove} (a known opening line, played from memory without searching)
+` : ''}- Think time: ${(aiMetrics.elapsedMs / 1000).toFixed(1)}s of a ${(aiMetrics.thinkTimeMs / 1000).toFixed(1)}s budget
+- Expected line: ${formatPrincipalVariation(aiMetrics.principalVariation, boardSize) || 'none'}
 - Moves considered: ${aiMetrics.availableMoves}`;
   }
 
+  // Watching a game, Agatha calls the sides by their colors
+  if (spectating) {
+    return `[GAME UPDATE - Move #${moveNumber}]
+Black moved: ${humanMoveFrom} to ${humanMoveTo}${humanCaptured ? ` (captured ${humanCaptureCount})` : ''}${quality && ` - ${quality}`}
+White replied: ${agathaMoveFrom} to ${agathaMoveTo}${agathaCaptureCount > 0 ? ` (capturing ${agathaCaptureCount})` : ''}
+Score: White ${agathaPieces} (${agathaKings} kings) - Black ${humanPieces} (${humanKings} kings)
+${isEndgame ? 'ENDGAME - few pieces remain' : ''}${metricsSection}
+
+You are not playing this game; you are watching it as a commentator. Comment on these moves in 1-2 sentences. Reference the specific squares.`;
+  }
+
   return `[GAME UPDATE - Move #${moveNumber}]
-Human moved: ${humanMoveFrom} to ${humanMoveTo}${humanCaptured ? ` (captured ${humanCaptureCount})` : ''}
+Human moved: ${humanMoveFrom} to ${humanMoveTo}${humanCaptured ? ` (captured ${humanCaptureCount})` : ''}${quality && ` - ${quality}`}
 Your response: ${agathaMoveFrom} to ${agathaMoveTo}${agathaCaptureCount > 0 ? ` (capturing ${agathaCaptureCount})` : ''}
 Score: You ${agathaPieces} (${agathaKings} kings) - Human ${humanPieces} (${humanKings} kings)
 ${isEndgame ? 'ENDGAME - few pieces remain' : ''}${metricsSection}
 
-Comment on this move in 1-2 sentences. Reference the specific squares.`;
+Comment on this move in 1-2 sentences. Reference the specific squares.${
+    humanMoveQuality?.quality === 'blunder' || humanMoveQuality?.quality === 'mistake'
+      ? ' Gloat about the human\'s error and the better move they missed.'
+      : ''
+  }`;
+}
+
+/**
+ * Describes a judged move for the prompt (e.g. "a blunder, 230 centipieces worse than c3-d4")
+ */
+function describeMoveQuality(annotation: MoveAnnotation, size: number): string {
+  if (annotation.quality === 'best') {
+    return 'the best move';
+  }
+  const article = annotation.quality === 'inaccuracy' ? 'an' : 'a';
+  const best = annotation.bestMove ? ` than ${formatPrincipalVariation([annotation.bestMove], size)}` : '';
+  return `${article} ${annotation.quality}, ${annotation.loss} centipieces worse${best}`;
 }
 
 /**
@@ -269,14 +347,51 @@ function generateLocalThought(context: GameContext): string {
     isMultiCapture,
     moveNumber,
     isEndgame,
+    boardSize,
+    spectating,
+    humanMoveQuality,
   } = context;
 
-  const humanFrom = lastHumanMove ? positionToNotation(lastHumanMove.from) : '?';
-  const humanTo = lastHumanMove ? positionToNotation(lastHumanMove.to) : '?';
-  const agathaFrom = agathaMove ? positionToNotation(agathaMove.from) : '?';
-  const agathaTo = agathaMove ? positionToNotation(agathaMove.to) : '?';
+  const humanFrom = lastHumanMove ? positionToNotation(lastHumanMove.from, boardSize) : '?';
+  const humanTo = lastHumanMove ? positionToNotation(lastHumanMove.to, boardSize) : '?';
+  const agathaFrom = agathaMove ? positionToNotation(agathaMove.from, boardSize) : '?';
+  const agathaTo = agathaMove ? positionToNotation(agathaMove.to, boardSize) : '?';
   const agathaCaptureCount = agathaMove ? agathaMove.captures.length : 0;
 
+  // Openings from the book get their own commentary
+  const opening = context.aiMetrics?.bookMove;
+  if (opening) {
+    const bookThoughts = [
+      `The ${opening} — a classic future. ${agathaFrom} to ${agathaTo}, as it has been played a thousand times.`,
+      `${humanFrom} to ${humanTo} leads into the ${opening}. I have seen every ending of this story.`,
+      `The ${opening}. Masters walked this path long before you, and I remember where each of them fell.`,
+    ];
+    return bookThoughts[Math.floor(Math.random() * bookThoughts.length)];
+  }
+
+  if (spectating) {
+    return generateSpectatorThought(context);
+  }
+
+  // Blunders and mistakes are too good not to mention
+  if (humanMoveQuality?.quality === 'blunder' || humanMoveQuality?.quality === 'mistake') {
+    const better = humanMoveQuality.bestMove
+      ? formatPrincipalVariation([humanMoveQuality.bestMove], boardSize)
+      : 'almost anything else';
+    const errorThoughts =
+      humanMoveQuality.quality === 'blunder'
+        ? [
+            `${humanFrom} to ${humanTo}?? In every future I saw, you played ${better}. Except this one.`,
+            `A blunder. ${better} was right there, and you chose ${humanTo}. My ${agathaFrom} to ${agathaTo} thanks you.`,
+            `${humanTo}... I had to look twice. Even my weakest visions found ${better}.`,
+          ]
+        : [
+            `${humanTo}? A mistake. ${better} would have delayed the inevitable a little longer.`,
+            `You missed ${better}. My ${agathaFrom} to ${agathaTo} will make you regret ${humanTo}.`,
+          ];
+    return errorThoughts[Math.floor(Math.random() * errorThoughts.length)];
+  }
+
   const thoughts: string[] = [];
 
   // Capture-related thoughts with specific moves
@@ -330,26 +445,82 @@ function generateLocalThought(context: GameContext): string {
   return thoughts[Math.floor(Math.random() * thoughts.length)];
 }
 
+/**
+ * Local fallback commentary on a game Agatha watches instead of playing
+ */
+function generateSpectatorThought(context: GameContext): string {
+  const {
+    humanPieces,
+    agathaPieces,
+    lastHumanMove,
+    agathaMove,
+    isCapture,
+    isEndgame,
+    boardSize,
+    humanMoveQuality,
+  } = context;
+
+  const blackTo = lastHumanMove ? positionToNotation(lastHumanMove.to, boardSize) : '?';
+  const whiteFrom = agathaMove ? positionToNotation(agathaMove.from, boardSize) : '?';
+  const whiteTo = agathaMove ? positionToNotation(agathaMove.to, boardSize) : '?';
+  const whiteCaptureCount = agathaMove ? agathaMove.captures.length : 0;
+
+  const thoughts: string[] = [
+    `Black to ${blackTo}, White answers ${whiteFrom} to ${whiteTo}. Neither of you sees what I see.`,
+    `${whiteFrom} to ${whiteTo}. One of you just stepped closer to defeat, and only I know which.`,
+    `Two players, one board, and a future only I can read. ${whiteTo} matters more than you think.`,
+  ];
+
+  if (isCapture) {
+    thoughts.push(
+      `White takes ${whiteCaptureCount} from ${whiteFrom}. Black should have foreseen it before moving to ${blackTo}.`,
+      `The capture on ${whiteTo} was written the moment Black chose ${blackTo}.`,
+    );
+  }
+
+  if (humanMoveQuality?.quality === 'blunder') {
+    thoughts.push(`${blackTo}? Black has blundered, and the timeline bends toward White.`);
+  }
+
+  if (agathaPieces > humanPieces + 2) {
+    thoughts.push(`White leads ${agathaPieces} to ${humanPieces}. Black's future grows narrow.`);
+  } else if (humanPieces > agathaPieces + 2) {
+    thoughts.push(`Black leads ${humanPieces} to ${agathaPieces}. White's visions must be clouded.`);
+  }
+
+  if (isEndgame) {
+    thoughts.push(`Few pieces remain. Every square is a fork in the timeline now, ${whiteTo} most of all.`);
+  }
+
+  return thoughts[Math.floor(Math.random() * thoughts.length)];
+}
+
 /**
  * Builds context from game state
+ * When spectating, the human and Agatha fields describe Black and White
+ * @param agathaSide Side Agatha plays ('black' when she has Black against a person)
+ * @param humanMoveQuality Judgement of the human move, if it has been judged
  */
 export function buildGameContext(
   board: (Piece | null)[][],
   lastHumanMove: Move | null,
   agathaMove: Move | null,
   moveNumber: number,
-  aiMetrics: AIMetrics | null = null
+  aiMetrics: AIMetrics | null = null,
+  spectating: boolean = false,
+  agathaSide: Player = 'white',
+  humanMoveQuality: MoveAnnotation | null = null
 ): GameContext {
   let humanPieces = 0;
   let agathaPieces = 0;
   let humanKings = 0;
   let agathaKings = 0;
 
-  for (let row = 0; row < BOARD_SIZE; row++) {
-    for (let col = 0; col < BOARD_SIZE; col++) {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
       const piece = board[row]?.[col];
       if (piece) {
-        if (piece.player === 'human') {
+        if (piece.player !== agathaSide) {
           humanPieces++;
           if (piece.type === 'king') humanKings++;
         } else {
@@ -376,5 +547,8 @@ export function buildGameContext(
     agathaKings,
     isEndgame,
     aiMetrics,
+    boardSize: board.length,
+    spectating,
+    humanMoveQuality,
   };
 }
@@ -0,0 +1,160 @@
+/**
+ * Evaluation Graphs
+ * Draws how the evaluation of a game moved: the graph of an analyzed game and
+ * the live sparkline of winning chances
+ */
+
+import { THEME_COLORS } from '../types.js';
+import { GameAnalysis } from '../ai/game-analysis.js';
+
+/** Evaluation drawn at the top and bottom edges; bigger advantages are cut off */
+const GRAPH_SCORE_LIMIT = 600;
+
+/** Radius of the markers on turning points and missed wins */
+const MARKER_RADIUS = 3.5;
+
+/** Radius of the dot on the current position of the sparkline */
+const SPARKLINE_DOT_RADIUS = 2.5;
+
+/**
+ * Draws the evaluation after every move: White's advantage up, Black's down
+ * Turning points are marked orange, missed wins gold, and the selected move
+ * gets a vertical line
+ */
+export function drawEvaluationGraph(
+  canvas: HTMLCanvasElement,
+  analysis: GameAnalysis,
+  selectedPly: number | null = null
+): void {
+  const ctx = prepareCanvas(canvas);
+  if (!ctx) {
+    return;
+  }
+
+  const { width, height } = canvas.getBoundingClientRect();
+  const mid = height / 2;
+  const count = analysis.plies.length;
+  const pointX = (ply: number) => ((ply + 0.5) / Math.max(count, 1)) * width;
+  const pointY = (score: number) =>
+    mid - (Math.max(-GRAPH_SCORE_LIMIT, Math.min(GRAPH_SCORE_LIMIT, score)) / GRAPH_SCORE_LIMIT) * (mid - 2);
+
+  if (count === 0) {
+    return;
+  }
+
+  // Selected move
+  if (selectedPly !== null) {
+    ctx.strokeStyle = THEME_COLORS.accentGold;
+    ctx.beginPath();
+    ctx.moveTo(pointX(selectedPly), 0);
+    ctx.lineTo(pointX(selectedPly), height);
+    ctx.stroke();
+  }
+
+  // Area between the evaluation and the even line
+  ctx.beginPath();
+  ctx.moveTo(pointX(0), mid);
+  for (const entry of analysis.plies) {
+    ctx.lineTo(pointX(entry.ply), pointY(entry.evaluation));
+  }
+  ctx.lineTo(pointX(count - 1), mid);
+  ctx.closePath();
+  ctx.fillStyle = 'rgba(0, 212, 255, 0.15)';
+  ctx.fill();
+
+  ctx.beginPath();
+  for (const entry of analysis.plies) {
+    ctx.lineTo(pointX(entry.ply), pointY(entry.evaluation));
+  }
+  ctx.strokeStyle = THEME_COLORS.accentPrimary;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  const marks: [number[], string][] = [
+    [analysis.turningPoints, THEME_COLORS.accentSecondary],
+    [analysis.missedWins, THEME_COLORS.accentGold],
+  ];
+  for (const [plies, color] of marks) {
+    ctx.fillStyle = color;
+    for (const ply of plies) {
+      ctx.beginPath();
+      ctx.arc(pointX(ply), pointY(analysis.plies[ply].evaluation), MARKER_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+}
+
+/**
+ * Draws White's winning chances after every position of the game, from the
+ * start position on: White ahead above the middle, Black ahead below
+ */
+export function drawEvaluationSparkline(canvas: HTMLCanvasElement, probabilities: number[]): void {
+  const ctx = prepareCanvas(canvas);
+  if (!ctx || probabilities.length === 0) {
+    return;
+  }
+
+  const { width, height } = canvas.getBoundingClientRect();
+  const pointX = (index: number) =>
+    probabilities.length === 1 ? width / 2 : (index / (probabilities.length - 1)) * width;
+  const pointY = (probability: number) => 1 + (1 - probability) * (height - 2);
+
+  ctx.beginPath();
+  probabilities.forEach((probability, index) => ctx.lineTo(pointX(index), pointY(probability)));
+  ctx.strokeStyle = THEME_COLORS.accentPrimary;
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+
+  // Current position
+  const last = probabilities.length - 1;
+  ctx.fillStyle = THEME_COLORS.accentPrimary;
+  ctx.beginPath();
+  ctx.arc(pointX(last), pointY(probabilities[last]), SPARKLINE_DOT_RADIUS, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+/**
+ * Gets the move under a screen x coordinate of the graph, or null when the game has no moves
+ */
+export function getGraphPly(canvas: HTMLCanvasElement, analysis: GameAnalysis, screenX: number): number | null {
+  const count = analysis.plies.length;
+  if (count === 0) {
+    return null;
+  }
+
+  const rect = canvas.getBoundingClientRect();
+  const ply = Math.floor(((screenX - rect.left) / rect.width) * count);
+  return Math.max(0, Math.min(count - 1, ply));
+}
+
+/**
+ * Sizes a canvas for high DPI displays and clears it to the panel background
+ * with a dashed line through the middle for an even position
+ */
+function prepareCanvas(canvas: HTMLCanvasElement): CanvasRenderingContext2D | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return null;
+  }
+
+  const dpr = window.devicePixelRatio || 1;
+  const rect = canvas.getBoundingClientRect();
+  canvas.width = rect.width * dpr;
+  canvas.height = rect.height * dpr;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  const { width, height } = rect;
+  ctx.fillStyle = THEME_COLORS.bgSecondary;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = THEME_COLORS.textSecondary;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(0, height / 2);
+  ctx.lineTo(width, height / 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  return ctx;
+}
@@ -0,0 +1,136 @@
+/**
+ * Board Editor
+ * Editable position used by the setup mode before starting a game
+ */
+
+import { Piece, Player, PieceType, Position, isPlayableSquare } from '../types.js';
+import { createInitialBoard, cloneBoard, countPieces, shouldPromote } from '../game/board.js';
+import { SetupPosition, parseFen, boardToFen } from '../game/fen.js';
+import { RuleSet, AMERICAN_RULES } from '../game/variants.js';
+
+/**
+ * Order in which clicking a square cycles its contents
+ */
+const PIECE_CYCLE: ({ player: Player; type: PieceType } | null)[] = [
+  null,
+  { player: 'black', type: 'man' },
+  { player: 'black', type: 'king' },
+  { player: 'white', type: 'man' },
+  { player: 'white', type: 'king' },
+];
+
+/**
+ * Board Editor class
+ */
+export class BoardEditor {
+  private _board: (Piece | null)[][];
+  private _sideToMove: Player;
+  private _rules: RuleSet;
+
+  constructor(
+    board: (Piece | null)[][] = createInitialBoard(),
+    sideToMove: Player = 'black',
+    rules: RuleSet = AMERICAN_RULES
+  ) {
+    this._board = cloneBoard(board);
+    this._sideToMove = sideToMove;
+    this._rules = rules;
+  }
+
+  /**
+   * Gets the board being edited
+   */
+  get board(): (Piece | null)[][] {
+    return this._board;
+  }
+
+  /**
+   * Gets the side that will move first
+   */
+  get sideToMove(): Player {
+    return this._sideToMove;
+  }
+
+  /**
+   * Sets the side that will move first
+   */
+  set sideToMove(player: Player) {
+    this._sideToMove = player;
+  }
+
+  /**
+   * Cycles a square through empty, human man/king and Agatha man/king
+   * Men are skipped on the row where they would already be kings
+   */
+  cycleSquare(position: Position): void {
+    if (!isPlayableSquare(position.row, position.col)) {
+      return;
+    }
+
+    const current = this._board[position.row][position.col];
+    let index = PIECE_CYCLE.findIndex(entry =>
+      entry === null
+        ? current === null
+        : current !== null && entry.player === current.player && entry.type === current.type
+    );
+
+    for (let step = 0; step < PIECE_CYCLE.length; step++) {
+      index = (index + 1) % PIECE_CYCLE.length;
+      const entry = PIECE_CYCLE[index];
+
+      if (entry === null) {
+        this._board[position.row][position.col] = null;
+        return;
+      }
+
+      const piece: Piece = { player: entry.player, type: entry.type, position };
+      if (!shouldPromote(piece, position, this._rules.geometry.size)) {
+        this._board[position.row][position.col] = piece;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Removes every piece
+   */
+  clear(): void {
+    this._board = this._board.map(row => row.map(() => null));
+  }
+
+  /**
+   * Restores the standard starting position
+   */
+  loadStandard(): void {
+    this._board = createInitialBoard(this._rules.geometry);
+    this._sideToMove = this._rules.firstPlayer;
+  }
+
+  /**
+   * Loads a FEN string (throws FenError if it is malformed)
+   */
+  loadFen(fen: string): void {
+    const position = parseFen(fen, this._rules.geometry.size, this._rules.numberingOrigin);
+    this._board = position.board;
+    this._sideToMove = position.sideToMove;
+  }
+
+  /**
+   * Serializes the edited position as FEN
+   */
+  toFen(): string {
+    return boardToFen(this._board, this._sideToMove, this._rules.numberingOrigin);
+  }
+
+  /**
+   * Gets the edited position to start a game from
+   * Throws if either side has no pieces
+   */
+  toSetupPosition(): SetupPosition {
+    if (countPieces(this._board, 'black') === 0 || countPieces(this._board, 'white') === 0) {
+      throw new Error('Both sides need at least one piece');
+    }
+
+    return { board: cloneBoard(this._board), sideToMove: this._sideToMove };
+  }
+}
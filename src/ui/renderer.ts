@@ -8,6 +8,7 @@ import {
   Position,
   Move,
   GhostPiece,
+  PrecogHint,
   RenderConfig,
   BOARD_SIZE,
   THEME_COLORS,
@@ -17,9 +18,10 @@ import {
 
 /**
  * Default render configuration
+ * Cells are sized so the given number of squares fills each side of the canvas
  */
-function createDefaultConfig(canvasSize: number): RenderConfig {
-  const cellSize = canvasSize / BOARD_SIZE;
+function createDefaultConfig(canvasSize: number, dimension: number = BOARD_SIZE): RenderConfig {
+  const cellSize = canvasSize / dimension;
   return {
     cellSize,
     boardSize: canvasSize,
@@ -39,9 +41,12 @@ export class Renderer {
 
   // State for rendering
   private _board: (Piece | null)[][] = [];
+  private _dimension: number = BOARD_SIZE;
+  private _flipped: boolean = false;
   private _selectedPiece: Piece | null = null;
   private _validMoves: Move[] = [];
   private _ghostPieces: GhostPiece[] = [];
+  private _precogHint: PrecogHint | null = null;
   private _glowingPiece: Piece | null = null;
   private _glowStartTime: number = 0;
   private _moveTraces: { path: Position[] }[] = [];
@@ -83,7 +88,7 @@ export class Renderer {
     this._ctx.scale(dpr, dpr);
 
     // Update config with logical size
-    this._config = createDefaultConfig(rect.width);
+    this._config = createDefaultConfig(rect.width, this._dimension);
   }
 
   /**
@@ -96,9 +101,28 @@ export class Renderer {
 
   /**
    * Updates the board state
+   * Cells are resized when the board has a different number of squares per side
    */
   setBoard(board: (Piece | null)[][]): void {
     this._board = board;
+    if (board.length > 0 && board.length !== this._dimension) {
+      this._dimension = board.length;
+      this._config = createDefaultConfig(this._config.boardSize, this._dimension);
+    }
+  }
+
+  /**
+   * Turns the board around so the top side (Agatha's) is drawn at the bottom
+   */
+  setFlipped(flipped: boolean): void {
+    this._flipped = flipped;
+  }
+
+  /**
+   * Checks if the board is drawn turned around
+   */
+  get isFlipped(): boolean {
+    return this._flipped;
   }
 
   /**
@@ -123,32 +147,19 @@ export class Renderer {
     this._ghostPieces = [];
   }
 
+  /**
+   * Sets the reply arrow and score shown for a hovered move (null hides them)
+   */
+  setPrecogHint(hint: PrecogHint | null): void {
+    this._precogHint = hint;
+  }
+
   /**
    * Adds a move trace with full path (for multi-jumps)
-   * @param from Starting position
-   * @param to Ending position  
-   * @param captures Array of captured piece positions (used to reconstruct path)
-   */
-  addMoveTrace(from: Position, to: Position, captures: Position[] = []): void {
-    // Reconstruct the full path through captures
-    // Each capture position is the midpoint of a jump, so the landing is 
-    // on the opposite side of the captured piece from the jumping piece
-    const path: Position[] = [from];
-    
-    if (captures.length > 0) {
-      let currentPos = from;
-      for (const capturePos of captures) {
-        // The landing position is on the opposite side of the capture
-        const landingRow = capturePos.row + (capturePos.row - currentPos.row);
-        const landingCol = capturePos.col + (capturePos.col - currentPos.col);
-        path.push({ row: landingRow, col: landingCol });
-        currentPos = { row: landingRow, col: landingCol };
-      }
-    } else {
-      path.push(to);
-    }
-    
-    this._moveTraces.push({ path });
+   * @param move The move whose landing squares make up the trace
+   */
+  addMoveTrace(move: Move): void {
+    this._moveTraces.push({ path: [move.from, ...move.landings] });
     // Keep only last 10 traces
     if (this._moveTraces.length > 10) {
       this._moveTraces.shift();
@@ -268,6 +279,20 @@ export class Renderer {
     }
   }
 
+  /**
+   * Animates a piece along a move, hopping through every landing square
+   * @param piece The piece to animate
+   * @param move The move to play out
+   * @param durationPerHop Duration for each hop in milliseconds
+   */
+  async animateMoveSequence(
+    piece: Piece,
+    move: Move,
+    durationPerHop: number = 250
+  ): Promise<void> {
+    await this.animateMultiJump(piece, [move.from, ...move.landings], durationPerHop);
+  }
+
   /**
    * Starts the animation loop
    */
@@ -328,6 +353,12 @@ export class Renderer {
     // Draw pieces
     this._drawPieces();
 
+    // Mark predicted captures and number the steps of a predicted line
+    this._drawGhostMarkers();
+
+    // Draw the hovered move's reply arrow and score
+    this._drawPrecogHint();
+
     // Draw selection highlight
     this._drawSelectionHighlight();
   }
@@ -338,10 +369,9 @@ export class Renderer {
   private _drawBoard(): void {
     const { cellSize, colors } = this._config;
 
-    for (let row = 0; row < BOARD_SIZE; row++) {
-      for (let col = 0; col < BOARD_SIZE; col++) {
-        const x = col * cellSize;
-        const y = row * cellSize;
+    for (let row = 0; row < this._dimension; row++) {
+      for (let col = 0; col < this._dimension; col++) {
+        const { x, y } = this._cellOrigin(row, col);
 
         if (isPlayableSquare(row, col)) {
           // Dark square (playable)
@@ -365,8 +395,6 @@ export class Renderer {
    * Draws move traces (history lines)
    */
   private _drawMoveTraces(): void {
-    const { cellSize } = this._config;
-
     this._ctx.lineWidth = 2;
     this._ctx.setLineDash([5, 5]);
 
@@ -379,14 +407,12 @@ export class Renderer {
       if (trace.path.length < 2) continue;
 
       this._ctx.beginPath();
-      const startX = trace.path[0].col * cellSize + cellSize / 2;
-      const startY = trace.path[0].row * cellSize + cellSize / 2;
-      this._ctx.moveTo(startX, startY);
+      const start = this._cellCenter(trace.path[0]);
+      this._ctx.moveTo(start.x, start.y);
 
       // Draw through all path points (handles multi-jumps)
       for (let j = 1; j < trace.path.length; j++) {
-        const x = trace.path[j].col * cellSize + cellSize / 2;
-        const y = trace.path[j].row * cellSize + cellSize / 2;
+        const { x, y } = this._cellCenter(trace.path[j]);
         this._ctx.lineTo(x, y);
       }
       
@@ -403,8 +429,7 @@ export class Renderer {
     const { cellSize, colors } = this._config;
 
     for (const move of this._validMoves) {
-      const x = move.to.col * cellSize + cellSize / 2;
-      const y = move.to.row * cellSize + cellSize / 2;
+      const { x, y } = this._cellCenter(move.to);
 
       // Draw pulsing dot for valid moves
       const time = performance.now() / 1000;
@@ -424,8 +449,7 @@ export class Renderer {
 
       // Draw capture indicator on captured pieces
       for (const capturePos of move.captures) {
-        const cx = capturePos.col * cellSize + cellSize / 2;
-        const cy = capturePos.row * cellSize + cellSize / 2;
+        const { x: cx, y: cy } = this._cellCenter(capturePos);
 
         this._ctx.strokeStyle = `rgba(255, 107, 53, ${pulse})`;
         this._ctx.lineWidth = 3;
@@ -440,14 +464,16 @@ export class Renderer {
    * Draws ghost pieces for precog predictions
    */
   private _drawGhostPieces(): void {
-    const { cellSize, pieceRadius, colors } = this._config;
+    const { pieceRadius, colors } = this._config;
 
     for (const ghost of this._ghostPieces) {
-      const x = ghost.position.col * cellSize + cellSize / 2;
-      const y = ghost.position.row * cellSize + cellSize / 2;
+      // Captured pieces are still on the board; they get a marker instead
+      if (ghost.vanishing) continue;
+
+      const { x, y } = this._cellCenter(ghost.position);
 
       const color =
-        ghost.player === 'human' ? colors.pieceHuman : colors.pieceAgatha;
+        ghost.player === 'black' ? colors.pieceBlack : colors.pieceWhite;
 
       // Ghost piece (semi-transparent)
       this._ctx.globalAlpha = ghost.opacity;
@@ -476,13 +502,106 @@ export class Renderer {
   }
 
   /**
-   * Draws all pieces on the board
+   * Draws the markers of a predicted line over the pieces: a cross on each
+   * piece it captures and the ply number of each step
    */
-  private _drawPieces(): void {
+  private _drawGhostMarkers(): void {
     const { cellSize, pieceRadius, colors } = this._config;
 
-    for (let row = 0; row < BOARD_SIZE; row++) {
-      for (let col = 0; col < BOARD_SIZE; col++) {
+    for (const ghost of this._ghostPieces) {
+      const { x, y } = this._cellCenter(ghost.position);
+
+      if (ghost.vanishing) {
+        const arm = pieceRadius * 0.6;
+        this._ctx.globalAlpha = Math.min(1, ghost.opacity * 1.5);
+        this._ctx.strokeStyle = colors.accentSecondary;
+        this._ctx.lineWidth = 3;
+        this._ctx.beginPath();
+        this._ctx.moveTo(x - arm, y - arm);
+        this._ctx.lineTo(x + arm, y + arm);
+        this._ctx.moveTo(x + arm, y - arm);
+        this._ctx.lineTo(x - arm, y + arm);
+        this._ctx.stroke();
+      }
+
+      if (ghost.step !== undefined) {
+        // Numbered in the square's corner so the piece stays visible
+        const nx = x + cellSize * 0.3;
+        const ny = y - cellSize * 0.3;
+        this._ctx.globalAlpha = Math.min(1, ghost.opacity + 0.3);
+        this._ctx.fillStyle = colors.bgPrimary;
+        this._ctx.beginPath();
+        this._ctx.arc(nx, ny, cellSize * 0.12, 0, Math.PI * 2);
+        this._ctx.fill();
+        this._ctx.fillStyle = ghost.vanishing ? colors.accentSecondary : colors.accentPrimary;
+        this._ctx.font = `bold ${Math.round(cellSize * 0.16)}px sans-serif`;
+        this._ctx.textAlign = 'center';
+        this._ctx.textBaseline = 'middle';
+        this._ctx.fillText(String(ghost.step), nx, ny);
+      }
+    }
+
+    this._ctx.globalAlpha = 1;
+  }
+
+  /**
+   * Draws the predicted reply to the hovered move as an arrow along its path,
+   * and the hovered move's score in the corner of its destination
+   */
+  private _drawPrecogHint(): void {
+    const hint = this._precogHint;
+    if (!hint) return;
+
+    const { cellSize, colors } = this._config;
+
+    if (hint.reply) {
+      const path = [hint.reply.from, ...hint.reply.landings].map(pos => this._cellCenter(pos));
+      const end = path[path.length - 1];
+      const before = path[path.length - 2];
+      const angle = Math.atan2(end.y - before.y, end.x - before.x);
+      const head = cellSize * 0.2;
+
+      this._ctx.globalAlpha = 0.8;
+      this._ctx.strokeStyle = colors.accentSecondary;
+      this._ctx.fillStyle = colors.accentSecondary;
+      this._ctx.lineWidth = 3;
+      this._ctx.beginPath();
+      this._ctx.moveTo(path[0].x, path[0].y);
+      for (const { x, y } of path.slice(1)) {
+        this._ctx.lineTo(x, y);
+      }
+      this._ctx.stroke();
+
+      this._ctx.beginPath();
+      this._ctx.moveTo(end.x, end.y);
+      this._ctx.lineTo(end.x - head * Math.cos(angle - Math.PI / 6), end.y - head * Math.sin(angle - Math.PI / 6));
+      this._ctx.lineTo(end.x - head * Math.cos(angle + Math.PI / 6), end.y - head * Math.sin(angle + Math.PI / 6));
+      this._ctx.closePath();
+      this._ctx.fill();
+    }
+
+    // Score badge in the destination's top-left corner
+    const { x, y } = this._cellCenter(hint.target);
+    const bx = x - cellSize * 0.3;
+    const by = y - cellSize * 0.3;
+    this._ctx.globalAlpha = 0.9;
+    this._ctx.fillStyle = colors.bgPrimary;
+    this._ctx.fillRect(bx - cellSize * 0.18, by - cellSize * 0.1, cellSize * 0.36, cellSize * 0.2);
+    this._ctx.fillStyle = hint.score >= 0 ? colors.accentPrimary : colors.accentSecondary;
+    this._ctx.font = `bold ${Math.round(cellSize * 0.15)}px sans-serif`;
+    this._ctx.textAlign = 'center';
+    this._ctx.textBaseline = 'middle';
+    this._ctx.fillText(hint.score > 0 ? `+${hint.score}` : `${hint.score}`, bx, by);
+
+    this._ctx.globalAlpha = 1;
+  }
+
+  /**
+   * Draws all pieces on the board
+   */
+  private _drawPieces(): void {
+    for (let row = 0; row < this._dimension; row++) {
+      for (let col = 0; col < this._dimension; col++) {
         const piece = this._board[row]?.[col];
         if (!piece) continue;
 
@@ -494,8 +613,7 @@ export class Renderer {
           continue;
         }
 
-        const x = col * cellSize + cellSize / 2;
-        const y = row * cellSize + cellSize / 2;
+        const { x, y } = this._cellCenter({ row, col });
 
         this._drawPiece(piece, x, y);
       }
@@ -503,15 +621,11 @@ export class Renderer {
 
     // Draw animating piece
     if (this._animatingPiece && this._animationFrom && this._animationTo) {
-      const fromX =
-        this._animationFrom.col * cellSize + cellSize / 2;
-      const fromY =
-        this._animationFrom.row * cellSize + cellSize / 2;
-      const toX = this._animationTo.col * cellSize + cellSize / 2;
-      const toY = this._animationTo.row * cellSize + cellSize / 2;
+      const from = this._cellCenter(this._animationFrom);
+      const to = this._cellCenter(this._animationTo);
 
-      const x = fromX + (toX - fromX) * this._animationProgress;
-      const y = fromY + (toY - fromY) * this._animationProgress;
+      const x = from.x + (to.x - from.x) * this._animationProgress;
+      const y = from.y + (to.y - from.y) * this._animationProgress;
 
       this._drawPiece(this._animatingPiece, x, y);
     }
@@ -524,7 +638,7 @@ export class Renderer {
     const { pieceRadius, colors } = this._config;
 
     const color =
-      piece.player === 'human' ? colors.pieceHuman : colors.pieceAgatha;
+      piece.player === 'black' ? colors.pieceBlack : colors.pieceWhite;
 
     // Check if this piece is glowing
     const isGlowing =
@@ -644,8 +758,7 @@ export class Renderer {
     const { cellSize, colors } = this._config;
     const { row, col } = this._selectedPiece.position;
 
-    const x = col * cellSize;
-    const y = row * cellSize;
+    const { x, y } = this._cellOrigin(row, col);
 
     // Pulsing selection border
     const time = performance.now() / 1000;
@@ -667,11 +780,32 @@ export class Renderer {
     const col = Math.floor(x / this._config.cellSize);
     const row = Math.floor(y / this._config.cellSize);
 
-    if (row < 0 || row >= BOARD_SIZE || col < 0 || col >= BOARD_SIZE) {
+    if (row < 0 || row >= this._dimension || col < 0 || col >= this._dimension) {
       return null;
     }
 
-    return { row, col };
+    return this._flipped
+      ? { row: this._dimension - 1 - row, col: this._dimension - 1 - col }
+      : { row, col };
+  }
+
+  /**
+   * Gets the top-left canvas corner of a square, honoring the flip
+   */
+  private _cellOrigin(row: number, col: number): { x: number; y: number } {
+    const { cellSize } = this._config;
+    const drawRow = this._flipped ? this._dimension - 1 - row : row;
+    const drawCol = this._flipped ? this._dimension - 1 - col : col;
+    return { x: drawCol * cellSize, y: drawRow * cellSize };
+  }
+
+  /**
+   * Gets the canvas center of a square, honoring the flip
+   */
+  private _cellCenter(pos: Position): { x: number; y: number } {
+    const { cellSize } = this._config;
+    const origin = this._cellOrigin(pos.row, pos.col);
+    return { x: origin.x + cellSize / 2, y: origin.y + cellSize / 2 };
   }
 
   /**
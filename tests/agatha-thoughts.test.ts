@@ -7,11 +7,13 @@ import {
   buildGameContext,
   generateAgathaThought,
   generateAgathaReply,
+  buildSystemPrompt,
+  formatPrincipalVariation,
   AIMetrics,
   GameContext,
 } from '../src/ui/agatha-thoughts';
 import { createInitialBoard } from '../src/game/board';
-import { Move, Piece, BOARD_SIZE } from '../src/types';
+import { Move, MoveAnnotation, Piece, BOARD_SIZE } from '../src/types';
 
 /**
  * Helper to create an empty board
@@ -31,7 +33,7 @@ function placePiece(
   board: (Piece | null)[][],
   row: number,
   col: number,
-  player: 'human' | 'agatha',
+  player: 'black' | 'white',
   type: 'man' | 'king' = 'man'
 ): Piece {
   const piece: Piece = { player, type, position: { row, col } };
@@ -47,12 +49,16 @@ describe('agatha-thoughts.ts', () => {
         from: { row: 5, col: 0 },
         to: { row: 4, col: 1 },
         captures: [],
+        landings: [{ row: 4, col: 1 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       const agathaMove: Move = {
         from: { row: 2, col: 1 },
         to: { row: 3, col: 0 },
         captures: [],
+        landings: [{ row: 3, col: 0 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -74,12 +80,16 @@ describe('agatha-thoughts.ts', () => {
         from: { row: 5, col: 0 },
         to: { row: 4, col: 1 },
         captures: [],
+        landings: [{ row: 4, col: 1 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       const agathaMove: Move = {
         from: { row: 2, col: 3 },
         to: { row: 4, col: 5 },
         captures: [{ row: 3, col: 4 }],
+        landings: [{ row: 4, col: 5 }],
+        capturedTypes: ['man'],
         isPromotion: false,
       };
       
@@ -95,6 +105,8 @@ describe('agatha-thoughts.ts', () => {
         from: { row: 0, col: 1 },
         to: { row: 4, col: 5 },
         captures: [{ row: 1, col: 2 }, { row: 3, col: 4 }],
+        landings: [{ row: 2, col: 3 }, { row: 4, col: 5 }],
+        capturedTypes: ['man', 'man'],
         isPromotion: false,
       };
       
@@ -107,10 +119,10 @@ describe('agatha-thoughts.ts', () => {
     it('should detect endgame', () => {
       const board = createEmptyBoard();
       // Only 4 pieces total
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 5, 2, 'human');
-      placePiece(board, 5, 4, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 5, 4, 'black');
       
       const context = buildGameContext(board, null, null, 20);
       
@@ -119,10 +131,10 @@ describe('agatha-thoughts.ts', () => {
 
     it('should count kings correctly', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha', 'king');
-      placePiece(board, 2, 3, 'agatha', 'man');
-      placePiece(board, 5, 2, 'human', 'king');
-      placePiece(board, 5, 4, 'human', 'king');
+      placePiece(board, 2, 1, 'white', 'king');
+      placePiece(board, 2, 3, 'white', 'man');
+      placePiece(board, 5, 2, 'black', 'king');
+      placePiece(board, 5, 4, 'black', 'king');
       
       const context = buildGameContext(board, null, null, 15);
       
@@ -142,12 +154,50 @@ describe('agatha-thoughts.ts', () => {
       expect(context.isCapture).toBe(false);
     });
 
+    it('should mark spectated games', () => {
+      const board = createInitialBoard();
+
+      expect(buildGameContext(board, null, null, 1).spectating).toBe(false);
+      expect(buildGameContext(board, null, null, 1, null, true).spectating).toBe(true);
+    });
+
+    it('should count Agatha\'s pieces on the side she plays', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 0, 'black');
+      placePiece(board, 5, 2, 'black', 'king');
+      placePiece(board, 2, 1, 'white');
+
+      const context = buildGameContext(board, null, null, 1, null, false, 'black');
+
+      expect(context.agathaPieces).toBe(2);
+      expect(context.agathaKings).toBe(1);
+      expect(context.humanPieces).toBe(1);
+      expect(context.humanKings).toBe(0);
+    });
+
+    it('should carry the judgement of the human move', () => {
+      const annotation: MoveAnnotation = { quality: 'mistake', loss: 80, bestMove: null };
+
+      expect(buildGameContext(createInitialBoard(), null, null, 1).humanMoveQuality).toBeNull();
+      expect(
+        buildGameContext(createInitialBoard(), null, null, 1, null, false, 'white', annotation).humanMoveQuality
+      ).toBe(annotation);
+    });
+
     it('should include AI metrics when provided', () => {
       const board = createInitialBoard();
       const aiMetrics: AIMetrics = {
         positionsEvaluated: 5000,
+        transpositionHitRate: 0.25,
         searchDepth: 8,
         moveScore: 150,
+        thinkTimeMs: 2000,
+        elapsedMs: 1500,
+        principalVariation: [],
+        searchIterations: [],
+        difficulty: 'precog',
+        randomPick: false,
+        bookMove: null,
         availableMoves: 7,
         humanPieces: { men: 12, kings: 0, total: 12 },
         agathaPieces: { men: 12, kings: 0, total: 12 },
@@ -173,12 +223,16 @@ describe('agatha-thoughts.ts', () => {
         from: { row: 5, col: 0 },
         to: { row: 4, col: 1 },
         captures: [],
+        landings: [{ row: 4, col: 1 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       const agathaMove: Move = {
         from: { row: 2, col: 1 },
         to: { row: 3, col: 0 },
         captures: [],
+        landings: [{ row: 3, col: 0 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -190,12 +244,87 @@ describe('agatha-thoughts.ts', () => {
       expect(thought.length).toBeGreaterThan(0);
     });
 
+    it('should name the opening for book moves', async () => {
+      const board = createInitialBoard();
+      const aiMetrics: AIMetrics = {
+        positionsEvaluated: 0,
+        transpositionHitRate: 0,
+        searchDepth: 0,
+        moveScore: 0,
+        thinkTimeMs: 2000,
+        elapsedMs: 0,
+        principalVariation: [],
+        searchIterations: [],
+        difficulty: 'precog',
+        randomPick: false,
+        bookMove: 'Old Fourteenth',
+        availableMoves: 7,
+        humanPieces: { men: 12, kings: 0, total: 12 },
+        agathaPieces: { men: 12, kings: 0, total: 12 },
+        positionEval: { totalScore: 0, materialScore: 0, positionalScore: 0, mobilityScore: 0 },
+      };
+
+      const context = buildGameContext(board, null, null, 2, aiMetrics);
+      const thought = await generateAgathaThought(context, null);
+
+      expect(thought).toContain('Old Fourteenth');
+    });
+
+    it('should gloat about a blunder, naming the better move', async () => {
+      const board = createInitialBoard();
+      const humanMove: Move = {
+        from: { row: 5, col: 2 },
+        to: { row: 4, col: 3 },
+        captures: [],
+        landings: [{ row: 4, col: 3 }],
+        capturedTypes: [],
+        isPromotion: false,
+      };
+      const bestMove: Move = { ...humanMove, to: { row: 4, col: 1 }, landings: [{ row: 4, col: 1 }] };
+      const annotation: MoveAnnotation = { quality: 'blunder', loss: 200, bestMove };
+
+      const context = buildGameContext(board, humanMove, null, 3, null, false, 'white', annotation);
+
+      for (let i = 0; i < 10; i++) {
+        expect(await generateAgathaThought(context, null)).toContain('c3-b4');
+      }
+    });
+
+    it('should comment on both colors when spectating', async () => {
+      const board = createInitialBoard();
+      const blackMove: Move = {
+        from: { row: 5, col: 0 },
+        to: { row: 4, col: 1 },
+        captures: [],
+        landings: [{ row: 4, col: 1 }],
+        capturedTypes: [],
+        isPromotion: false,
+      };
+      const whiteMove: Move = {
+        from: { row: 2, col: 3 },
+        to: { row: 4, col: 5 },
+        captures: [{ row: 3, col: 4 }],
+        landings: [{ row: 4, col: 5 }],
+        capturedTypes: ['man'],
+        isPromotion: false,
+      };
+
+      const context = buildGameContext(board, blackMove, whiteMove, 3, null, true);
+
+      for (let i = 0; i < 10; i++) {
+        const thought = await generateAgathaThought(context, null);
+        expect(thought).not.toMatch(/\bmy\b|\byour\b/i);
+      }
+    });
+
     it('should generate capture-related thought for captures', async () => {
       const board = createInitialBoard();
       const agathaMove: Move = {
         from: { row: 2, col: 3 },
         to: { row: 4, col: 5 },
         captures: [{ row: 3, col: 4 }],
+        landings: [{ row: 4, col: 5 }],
+        capturedTypes: ['man'],
         isPromotion: false,
       };
       
@@ -213,6 +342,8 @@ describe('agatha-thoughts.ts', () => {
         from: { row: 0, col: 1 },
         to: { row: 4, col: 5 },
         captures: [{ row: 1, col: 2 }, { row: 3, col: 4 }],
+        landings: [{ row: 2, col: 3 }, { row: 4, col: 5 }],
+        capturedTypes: ['man', 'man'],
         isPromotion: false,
       };
       
@@ -225,13 +356,15 @@ describe('agatha-thoughts.ts', () => {
 
     it('should handle endgame context', async () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 5, 2, 'black');
       
       const agathaMove: Move = {
         from: { row: 2, col: 1 },
         to: { row: 3, col: 2 },
         captures: [],
+        landings: [{ row: 3, col: 2 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -245,16 +378,18 @@ describe('agatha-thoughts.ts', () => {
     it('should handle advantage/disadvantage contexts', async () => {
       const board = createEmptyBoard();
       // Agatha ahead
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 2, 5, 'agatha');
-      placePiece(board, 2, 7, 'agatha');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 2, 5, 'white');
+      placePiece(board, 2, 7, 'white');
+      placePiece(board, 5, 2, 'black');
       
       const agathaMove: Move = {
         from: { row: 2, col: 1 },
         to: { row: 3, col: 2 },
         captures: [],
+        landings: [{ row: 3, col: 2 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -299,12 +434,60 @@ describe('agatha-thoughts.ts', () => {
     });
   });
 
+  describe('buildSystemPrompt', () => {
+    it('should give the search depth of the difficulty', () => {
+      expect(buildSystemPrompt('novice')).toContain('Novice level: your search depth is 2 moves ahead');
+      expect(buildSystemPrompt('precog')).toContain('8 moves ahead (4 complete turns for each player)');
+    });
+
+    it('should tie the deepest level\'s depth to the think time', () => {
+      expect(buildSystemPrompt('oracle')).toContain('as many moves ahead as your think time allows');
+    });
+  });
+
+  describe('formatPrincipalVariation', () => {
+    it('should join moves with dashes and jumps with x', () => {
+      const pv: Move[] = [
+        {
+          from: { row: 5, col: 2 },
+          to: { row: 4, col: 3 },
+          captures: [],
+          landings: [{ row: 4, col: 3 }],
+          capturedTypes: [],
+          isPromotion: false,
+        },
+        {
+          from: { row: 1, col: 0 },
+          to: { row: 5, col: 4 },
+          captures: [{ row: 2, col: 1 }, { row: 4, col: 3 }],
+          landings: [{ row: 3, col: 2 }, { row: 5, col: 4 }],
+          capturedTypes: ['man', 'man'],
+          isPromotion: false,
+        },
+      ];
+
+      expect(formatPrincipalVariation(pv)).toBe('c3-d4 a7xc5xe3');
+    });
+
+    it('should format an empty line as an empty string', () => {
+      expect(formatPrincipalVariation([])).toBe('');
+    });
+  });
+
   describe('AIMetrics interface', () => {
     it('should have all required fields', () => {
       const metrics: AIMetrics = {
         positionsEvaluated: 7500,
+        transpositionHitRate: 0.25,
         searchDepth: 8,
         moveScore: 125,
+        thinkTimeMs: 2000,
+        elapsedMs: 1500,
+        principalVariation: [],
+        searchIterations: [],
+        difficulty: 'precog',
+        randomPick: false,
+        bookMove: null,
         availableMoves: 5,
         humanPieces: { men: 10, kings: 1, total: 11 },
         agathaPieces: { men: 11, kings: 0, total: 11 },
@@ -331,18 +514,30 @@ describe('agatha-thoughts.ts', () => {
         from: { row: 5, col: 2 },
         to: { row: 4, col: 3 },
         captures: [],
+        landings: [{ row: 4, col: 3 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       const agathaMove: Move = {
         from: { row: 2, col: 1 },
         to: { row: 3, col: 2 },
         captures: [],
+        landings: [{ row: 3, col: 2 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       const aiMetrics: AIMetrics = {
         positionsEvaluated: 6000,
+        transpositionHitRate: 0.25,
         searchDepth: 8,
         moveScore: 50,
+        thinkTimeMs: 2000,
+        elapsedMs: 1500,
+        principalVariation: [],
+        searchIterations: [],
+        difficulty: 'precog',
+        randomPick: false,
+        bookMove: null,
         availableMoves: 7,
         humanPieces: { men: 12, kings: 0, total: 12 },
         agathaPieces: { men: 12, kings: 0, total: 12 },
@@ -384,13 +579,15 @@ describe('agatha-thoughts.ts', () => {
 
     it('should handle promotion moves', () => {
       const board = createEmptyBoard();
-      placePiece(board, 1, 2, 'human');
-      placePiece(board, 2, 1, 'agatha');
+      placePiece(board, 1, 2, 'black');
+      placePiece(board, 2, 1, 'white');
       
       const promotionMove: Move = {
         from: { row: 1, col: 2 },
         to: { row: 0, col: 3 },
         captures: [],
+        landings: [{ row: 0, col: 3 }],
+        capturedTypes: [],
         isPromotion: true,
       };
       
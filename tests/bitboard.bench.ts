@@ -0,0 +1,59 @@
+/**
+ * Benchmark: array board vs bitboard
+ * Each run walks every line to a fixed depth, so runs/sec x nodes per run = nodes/sec
+ */
+
+import { bench, describe } from 'vitest';
+import { Bitboard, fromBoard, generateMoves, makeMove, unmakeMove } from '../src/ai/bitboard';
+import { createInitialBoard, cloneBoard, getOpponent } from '../src/game/board';
+import { getAllValidMoves, executeMove } from '../src/game/rules';
+import { Piece, Player } from '../src/types';
+
+/** Plies walked from the starting position */
+const DEPTH = 5;
+
+/**
+ * Counts the positions reached by walking every line on the array board
+ */
+function countArrayNodes(board: (Piece | null)[][], player: Player, depth: number): number {
+  if (depth === 0) {
+    return 1;
+  }
+
+  let nodes = 1;
+  for (const move of getAllValidMoves(board, player)) {
+    const next = cloneBoard(board);
+    executeMove(next, move);
+    nodes += countArrayNodes(next, getOpponent(player), depth - 1);
+  }
+  return nodes;
+}
+
+/**
+ * Counts the positions reached by walking every line on the bitboard
+ */
+function countBitboardNodes(bitboard: Bitboard, player: Player, depth: number): number {
+  if (depth === 0) {
+    return 1;
+  }
+
+  let nodes = 1;
+  for (const move of generateMoves(bitboard, player)) {
+    const undo = makeMove(bitboard, move);
+    nodes += countBitboardNodes(bitboard, getOpponent(player), depth - 1);
+    unmakeMove(bitboard, undo);
+  }
+  return nodes;
+}
+
+const NODES = countBitboardNodes(fromBoard(createInitialBoard()), 'black', DEPTH);
+
+describe(`walk ${DEPTH} plies from the start (${NODES} nodes per run)`, () => {
+  bench('array board', () => {
+    countArrayNodes(createInitialBoard(), 'black', DEPTH);
+  });
+
+  bench('bitboard', () => {
+    countBitboardNodes(fromBoard(createInitialBoard()), 'black', DEPTH);
+  });
+});
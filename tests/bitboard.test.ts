@@ -0,0 +1,304 @@
+/**
+ * Tests for bitboard.ts - The engine's bitboard position
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  Bitboard,
+  BITBOARD_SQUARES,
+  positionToIndex,
+  indexToPosition,
+  countBits,
+  fromBoard,
+  toBoard,
+  cloneBitboard,
+  getPlayerMask,
+  generateMoves,
+  generateCaptures,
+  hasCapture,
+  makeMove,
+  unmakeMove,
+  toMove,
+  fromMove,
+  isSameBitMove,
+} from '../src/ai/bitboard';
+import { createInitialBoard, getOpponent } from '../src/game/board';
+import { getAllValidMoves, hasCaptures, simulateMove } from '../src/game/rules';
+import { RuleSet, AMERICAN_RULES, RUSSIAN_RULES, RULE_SETS } from '../src/game/variants';
+import { Piece, Player, BOARD_SIZE } from '../src/types';
+
+/**
+ * Helper to create an empty board
+ */
+function createEmptyBoard(): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Helper to place a piece on the board
+ */
+function placePiece(
+  board: (Piece | null)[][],
+  row: number,
+  col: number,
+  player: 'black' | 'white',
+  type: 'man' | 'king' = 'man'
+): Piece {
+  const piece: Piece = { player, type, position: { row, col } };
+  board[row][col] = piece;
+  return piece;
+}
+
+/**
+ * Helper producing a repeatable sequence of numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+/**
+ * Helper playing random games, calling back with every position reached
+ */
+function forEachRandomPosition(
+  games: number,
+  visit: (board: (Piece | null)[][], player: Player) => void,
+  rules: RuleSet = AMERICAN_RULES
+): void {
+  const random = createRandom(42);
+
+  for (let game = 0; game < games; game++) {
+    let board = createInitialBoard();
+    let player: Player = 'black';
+
+    for (let ply = 0; ply < 120; ply++) {
+      visit(board, player);
+      const moves = getAllValidMoves(board, player, rules);
+      if (moves.length === 0) {
+        break;
+      }
+      board = simulateMove(board, moves[Math.floor(random() * moves.length)]);
+      player = getOpponent(player);
+    }
+  }
+}
+
+describe('bitboard.ts', () => {
+  describe('Square Indexes', () => {
+    it('should number the playable squares row by row', () => {
+      expect(positionToIndex({ row: 0, col: 1 })).toBe(0);
+      expect(positionToIndex({ row: 1, col: 0 })).toBe(4);
+      expect(positionToIndex({ row: 7, col: 6 })).toBe(31);
+    });
+
+    it('should reject light and off-board squares', () => {
+      expect(positionToIndex({ row: 0, col: 0 })).toBe(-1);
+      expect(positionToIndex({ row: 8, col: 1 })).toBe(-1);
+    });
+
+    it('should convert every index back to its position', () => {
+      for (let index = 0; index < BITBOARD_SQUARES; index++) {
+        expect(positionToIndex(indexToPosition(index))).toBe(index);
+      }
+    });
+
+    it('should count set bits, including the top bit', () => {
+      expect(countBits(0)).toBe(0);
+      expect(countBits(0b1011)).toBe(3);
+      expect(countBits(0xffffffff)).toBe(32);
+    });
+  });
+
+  describe('fromBoard and toBoard', () => {
+    it('should place the initial men on the first and last three rows', () => {
+      const bitboard = fromBoard(createInitialBoard());
+
+      expect(bitboard).toEqual({ black: 0xfff00000, white: 0x00000fff, kings: 0 });
+    });
+
+    it('should round trip a position with kings', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 0, 1, 'black', 'king');
+      placePiece(board, 7, 6, 'white', 'king');
+      placePiece(board, 3, 4, 'white');
+
+      expect(toBoard(fromBoard(board))).toEqual(board);
+    });
+
+    it('should give each player their own mask', () => {
+      const bitboard = fromBoard(createInitialBoard());
+
+      expect(countBits(getPlayerMask(bitboard, 'black'))).toBe(12);
+      expect(getPlayerMask(bitboard, 'white')).toBe(bitboard.white);
+    });
+  });
+
+  describe('Move Generation', () => {
+    it('should generate the same moves as the array rules', () => {
+      forEachRandomPosition(10, (board, player) => {
+        const bitboard = fromBoard(board);
+        const moves = generateMoves(bitboard, player).map(move => toMove(bitboard, move));
+
+        expect(moves).toEqual(getAllValidMoves(board, player));
+        expect(hasCapture(bitboard, player)).toBe(hasCaptures(board, player));
+      });
+    });
+
+    it.each(Object.values(RULE_SETS))('should generate the same moves as the array rules in $name', rules => {
+      forEachRandomPosition(
+        4,
+        (board, player) => {
+          const bitboard = fromBoard(board);
+          const moves = generateMoves(bitboard, player, rules).map(move => toMove(bitboard, move));
+
+          expect(moves).toEqual(getAllValidMoves(board, player, rules));
+          expect(hasCapture(bitboard, player, rules)).toBe(hasCaptures(board, player, rules));
+        },
+        rules
+      );
+    });
+
+    it('should only generate captures when one is available', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 5, 6, 'black');
+      placePiece(board, 4, 3, 'white');
+
+      const moves = generateMoves(fromBoard(board), 'black');
+
+      expect(moves.length).toBe(1);
+      expect(moves[0].jumped).toEqual([positionToIndex({ row: 4, col: 3 })]);
+    });
+
+    it('should follow multi-jumps to the end', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'white');
+      placePiece(board, 4, 3, 'white');
+
+      const [move] = generateCaptures(fromBoard(board), 'black');
+
+      expect(move.path.map(indexToPosition)).toEqual([
+        { row: 5, col: 2 },
+        { row: 3, col: 4 },
+      ]);
+      expect(countBits(move.captured)).toBe(2);
+    });
+
+    it('should make a flying king land where it can go on capturing', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 7, 0, 'black', 'king');
+      placePiece(board, 5, 2, 'white');
+      placePiece(board, 3, 2, 'white');
+
+      const moves = generateCaptures(fromBoard(board), 'black', RUSSIAN_RULES);
+
+      expect(moves.length).toBe(2);
+      moves.forEach(move => expect(countBits(move.captured)).toBe(2));
+    });
+
+    it('should stop a capture when a man is crowned', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 3, 'black');
+      placePiece(board, 1, 4, 'white');
+      placePiece(board, 1, 6, 'white');
+
+      const moves = generateMoves(fromBoard(board), 'black');
+
+      expect(moves.length).toBe(1);
+      expect(moves[0].isPromotion).toBe(true);
+      expect(moves[0].jumped.length).toBe(1);
+    });
+  });
+
+  describe('makeMove and unmakeMove', () => {
+    it('should match the array board after every move', () => {
+      forEachRandomPosition(5, (board, player) => {
+        const bitboard = fromBoard(board);
+        for (const move of generateMoves(bitboard, player)) {
+          const undo = makeMove(bitboard, move);
+          expect(toBoard(bitboard)).toEqual(simulateMove(board, toMove(undo, move)));
+          unmakeMove(bitboard, undo);
+        }
+        expect(bitboard).toEqual(fromBoard(board));
+      });
+    });
+
+    it.each(Object.values(RULE_SETS))('should match the array board after every move in $name', rules => {
+      forEachRandomPosition(
+        3,
+        (board, player) => {
+          const bitboard = fromBoard(board);
+          for (const move of generateMoves(bitboard, player, rules)) {
+            const undo = makeMove(bitboard, move);
+            expect(toBoard(bitboard)).toEqual(simulateMove(board, toMove(undo, move)));
+            unmakeMove(bitboard, undo);
+          }
+          expect(bitboard).toEqual(fromBoard(board));
+        },
+        rules
+      );
+    });
+
+    it('should crown a man reaching the far row', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 6, 1, 'white');
+      const bitboard = fromBoard(board);
+      const [move] = generateMoves(bitboard, 'white');
+
+      makeMove(bitboard, move);
+
+      expect(move.isPromotion).toBe(true);
+      expect(bitboard.kings).toBe(1 << move.to);
+    });
+
+    it('should keep a king that captures its way back to its own square', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 2, 'black', 'king');
+      placePiece(board, 4, 1, 'white');
+      placePiece(board, 4, 3, 'white');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+      const bitboard: Bitboard = fromBoard(board);
+      const loop = generateMoves(bitboard, 'black').find(move => move.jumped.length === 4)!;
+
+      makeMove(bitboard, loop);
+
+      expect(loop.to).toBe(loop.from);
+      expect(bitboard).toEqual({ black: 1 << loop.from, white: 0, kings: 1 << loop.from });
+    });
+
+    it('should not change a copy', () => {
+      const bitboard = fromBoard(createInitialBoard());
+      const copy = cloneBitboard(bitboard);
+
+      makeMove(bitboard, generateMoves(bitboard, 'black')[0]);
+
+      expect(copy).toEqual(fromBoard(createInitialBoard()));
+    });
+  });
+
+  describe('Move Conversion', () => {
+    it('should convert array moves to the generated bitboard moves', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'white');
+      placePiece(board, 4, 3, 'white', 'king');
+      const bitboard = fromBoard(board);
+      const [move] = generateMoves(bitboard, 'black');
+
+      const converted = toMove(bitboard, move);
+
+      expect(converted.capturedTypes).toEqual(['man', 'king']);
+      expect(fromMove(converted)).toEqual(move);
+      expect(isSameBitMove(fromMove(converted), move)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for board-editor.ts - Setup mode position editing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BoardEditor } from '../src/ui/board-editor';
+import { createInitialBoard, countPieces } from '../src/game/board';
+import { INITIAL_FEN } from '../src/game/fen';
+
+describe('BoardEditor', () => {
+  let editor: BoardEditor;
+
+  beforeEach(() => {
+    editor = new BoardEditor();
+    editor.clear();
+  });
+
+  it('should start from the standard position by default', () => {
+    expect(new BoardEditor().toFen()).toBe(INITIAL_FEN);
+  });
+
+  it('should not share the board it was created from', () => {
+    const board = createInitialBoard();
+    const copy = new BoardEditor(board);
+
+    copy.clear();
+
+    expect(countPieces(board, 'black')).toBe(12);
+  });
+
+  it('should cycle a square through every piece', () => {
+    const pos = { row: 4, col: 1 };
+    const seen: string[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      editor.cycleSquare(pos);
+      const piece = editor.board[4][1];
+      seen.push(piece ? `${piece.player}-${piece.type}` : 'empty');
+    }
+
+    expect(seen).toEqual(['black-man', 'black-king', 'white-man', 'white-king', 'empty']);
+  });
+
+  it('should skip men on their promotion row', () => {
+    // Row 0 is the human promotion row
+    editor.cycleSquare({ row: 0, col: 1 });
+
+    expect(editor.board[0][1]).toMatchObject({ player: 'black', type: 'king' });
+  });
+
+  it('should ignore light squares', () => {
+    editor.cycleSquare({ row: 0, col: 0 });
+
+    expect(editor.board[0][0]).toBeNull();
+  });
+
+  it('should load and serialize FEN', () => {
+    editor.loadFen('W:W21,K30:B1');
+
+    expect(editor.sideToMove).toBe('white');
+    expect(editor.toFen()).toBe('W:W21,K30:B1');
+  });
+
+  it('should restore the standard position', () => {
+    editor.sideToMove = 'white';
+
+    editor.loadStandard();
+
+    expect(editor.toFen()).toBe(INITIAL_FEN);
+  });
+
+  it('should require pieces for both sides to start a game', () => {
+    editor.loadFen('B:W:B1');
+
+    expect(() => editor.toSetupPosition()).toThrow(/Both sides/);
+  });
+
+  it('should produce an independent setup position', () => {
+    editor.loadFen('B:W21:B1');
+
+    const position = editor.toSetupPosition();
+    editor.clear();
+
+    expect(countPieces(position.board, 'black')).toBe(1);
+  });
+});
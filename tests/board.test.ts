@@ -16,13 +16,18 @@ import {
   countKings,
   getOpponent,
   getForwardDirection,
+  getFirstPlayer,
   positionToNotation,
   notationToPosition,
   formatMove,
   boardToString,
   validateBoard,
+  getPositionKey,
+  positionToSquare,
+  squareToPosition,
 } from '../src/game/board';
-import { Piece, BOARD_SIZE, INITIAL_PIECE_COUNT, isPlayableSquare } from '../src/types';
+import { Piece, BOARD_SIZE, INITIAL_PIECE_COUNT, INTERNATIONAL_BOARD, isPlayableSquare } from '../src/types';
+import { INTERNATIONAL_RULES, RUSSIAN_RULES } from '../src/game/variants';
 
 describe('board.ts', () => {
   describe('createInitialBoard', () => {
@@ -36,8 +41,8 @@ describe('board.ts', () => {
 
     it('should place 12 pieces for each player', () => {
       const board = createInitialBoard();
-      expect(countPieces(board, 'human')).toBe(INITIAL_PIECE_COUNT);
-      expect(countPieces(board, 'agatha')).toBe(INITIAL_PIECE_COUNT);
+      expect(countPieces(board, 'black')).toBe(INITIAL_PIECE_COUNT);
+      expect(countPieces(board, 'white')).toBe(INITIAL_PIECE_COUNT);
     });
 
     it('should place Agatha pieces on rows 0-2', () => {
@@ -47,21 +52,21 @@ describe('board.ts', () => {
           const piece = board[row][col];
           if (isPlayableSquare(row, col)) {
             expect(piece).not.toBeNull();
-            expect(piece!.player).toBe('agatha');
+            expect(piece!.player).toBe('white');
             expect(piece!.type).toBe('man');
           }
         }
       }
     });
 
-    it('should place human pieces on rows 5-7', () => {
+    it('should place Black pieces on rows 5-7', () => {
       const board = createInitialBoard();
       for (let row = 5; row < BOARD_SIZE; row++) {
         for (let col = 0; col < BOARD_SIZE; col++) {
           const piece = board[row][col];
           if (isPlayableSquare(row, col)) {
             expect(piece).not.toBeNull();
-            expect(piece!.player).toBe('human');
+            expect(piece!.player).toBe('black');
             expect(piece!.type).toBe('man');
           }
         }
@@ -92,6 +97,22 @@ describe('board.ts', () => {
       const board = createInitialBoard();
       expect(validateBoard(board)).toBe(true);
     });
+
+    it('should create a 10x10 board with 20 pieces each on four rows', () => {
+      const board = createInitialBoard(INTERNATIONAL_BOARD);
+
+      expect(board.length).toBe(10);
+      board.forEach(row => expect(row.length).toBe(10));
+      expect(countPieces(board, 'black')).toBe(20);
+      expect(countPieces(board, 'white')).toBe(20);
+      for (let col = 0; col < 10; col++) {
+        expect(board[3][col]?.player ?? null).toBe(isPlayableSquare(3, col) ? 'white' : null);
+        expect(board[4][col]).toBeNull();
+        expect(board[5][col]).toBeNull();
+        expect(board[6][col]?.player ?? null).toBe(isPlayableSquare(6, col) ? 'black' : null);
+      }
+      expect(validateBoard(board)).toBe(true);
+    });
   });
 
   describe('cloneBoard', () => {
@@ -133,7 +154,7 @@ describe('board.ts', () => {
       const board = createInitialBoard();
       const piece = getPieceAt(board, { row: 0, col: 1 });
       expect(piece).not.toBeNull();
-      expect(piece!.player).toBe('agatha');
+      expect(piece!.player).toBe('white');
     });
 
     it('should return null for empty position', () => {
@@ -155,7 +176,7 @@ describe('board.ts', () => {
     it('should set a piece at a valid position', () => {
       const board = createInitialBoard();
       const piece: Piece = {
-        player: 'human',
+        player: 'black',
         type: 'king',
         position: { row: 3, col: 2 },
       };
@@ -166,7 +187,7 @@ describe('board.ts', () => {
     it('should update piece position when setting', () => {
       const board = createInitialBoard();
       const piece: Piece = {
-        player: 'human',
+        player: 'black',
         type: 'man',
         position: { row: 0, col: 0 },
       };
@@ -186,7 +207,7 @@ describe('board.ts', () => {
       const board = createInitialBoard();
       const removed = removePieceAt(board, { row: 0, col: 1 });
       expect(removed).not.toBeNull();
-      expect(removed!.player).toBe('agatha');
+      expect(removed!.player).toBe('white');
       expect(board[0][1]).toBeNull();
     });
 
@@ -217,12 +238,12 @@ describe('board.ts', () => {
       expect(result).toBeNull();
     });
 
-    it('should promote human piece when reaching row 0', () => {
+    it('should promote Black piece when reaching row 0', () => {
       const board = createInitialBoard();
       // Clear the way and set up a human piece near promotion
       board[1][0] = null;
       const humanPiece: Piece = {
-        player: 'human',
+        player: 'black',
         type: 'man',
         position: { row: 1, col: 2 },
       };
@@ -237,7 +258,7 @@ describe('board.ts', () => {
       // Clear the way and set up an Agatha piece near promotion
       board[6][1] = null;
       const agathaPiece: Piece = {
-        player: 'agatha',
+        player: 'white',
         type: 'man',
         position: { row: 6, col: 3 },
       };
@@ -249,78 +270,103 @@ describe('board.ts', () => {
   });
 
   describe('shouldPromote', () => {
-    it('should return true for human man at row 0', () => {
-      const piece: Piece = { player: 'human', type: 'man', position: { row: 1, col: 0 } };
+    it('should return true for Black man at row 0', () => {
+      const piece: Piece = { player: 'black', type: 'man', position: { row: 1, col: 0 } };
       expect(shouldPromote(piece, { row: 0, col: 1 })).toBe(true);
     });
 
     it('should return true for Agatha man at row 7', () => {
-      const piece: Piece = { player: 'agatha', type: 'man', position: { row: 6, col: 0 } };
+      const piece: Piece = { player: 'white', type: 'man', position: { row: 6, col: 0 } };
       expect(shouldPromote(piece, { row: 7, col: 1 })).toBe(true);
     });
 
-    it('should return false for human man not at row 0', () => {
-      const piece: Piece = { player: 'human', type: 'man', position: { row: 3, col: 0 } };
+    it('should return false for Black man not at row 0', () => {
+      const piece: Piece = { player: 'black', type: 'man', position: { row: 3, col: 0 } };
       expect(shouldPromote(piece, { row: 2, col: 1 })).toBe(false);
     });
 
     it('should return false for kings (already promoted)', () => {
-      const humanKing: Piece = { player: 'human', type: 'king', position: { row: 1, col: 0 } };
-      const agathaKing: Piece = { player: 'agatha', type: 'king', position: { row: 6, col: 0 } };
+      const humanKing: Piece = { player: 'black', type: 'king', position: { row: 1, col: 0 } };
+      const agathaKing: Piece = { player: 'white', type: 'king', position: { row: 6, col: 0 } };
       expect(shouldPromote(humanKing, { row: 0, col: 1 })).toBe(false);
       expect(shouldPromote(agathaKing, { row: 7, col: 1 })).toBe(false);
     });
+
+    it('should promote Agatha men on the last row of a 10x10 board', () => {
+      const piece: Piece = { player: 'white', type: 'man', position: { row: 6, col: 0 } };
+      expect(shouldPromote(piece, { row: 7, col: 1 }, 10)).toBe(false);
+      expect(shouldPromote(piece, { row: 9, col: 1 }, 10)).toBe(true);
+    });
+
+    it('should promote men moving onto the far row of a 10x10 board', () => {
+      const board = createInitialBoard(INTERNATIONAL_BOARD);
+      board[9][0] = null;
+      board[8][1] = { player: 'white', type: 'man', position: { row: 8, col: 1 } };
+
+      expect(movePiece(board, { row: 8, col: 1 }, { row: 9, col: 0 })!.type).toBe('king');
+    });
   });
 
   describe('getPlayerPieces', () => {
     it('should return all pieces for a player', () => {
       const board = createInitialBoard();
-      const humanPieces = getPlayerPieces(board, 'human');
-      const agathaPieces = getPlayerPieces(board, 'agatha');
+      const humanPieces = getPlayerPieces(board, 'black');
+      const agathaPieces = getPlayerPieces(board, 'white');
       
       expect(humanPieces.length).toBe(INITIAL_PIECE_COUNT);
       expect(agathaPieces.length).toBe(INITIAL_PIECE_COUNT);
       
-      humanPieces.forEach(p => expect(p.player).toBe('human'));
-      agathaPieces.forEach(p => expect(p.player).toBe('agatha'));
+      humanPieces.forEach(p => expect(p.player).toBe('black'));
+      agathaPieces.forEach(p => expect(p.player).toBe('white'));
     });
   });
 
   describe('countPieces and countKings', () => {
     it('should count pieces correctly', () => {
       const board = createInitialBoard();
-      expect(countPieces(board, 'human')).toBe(12);
-      expect(countPieces(board, 'agatha')).toBe(12);
+      expect(countPieces(board, 'black')).toBe(12);
+      expect(countPieces(board, 'white')).toBe(12);
     });
 
     it('should count kings correctly', () => {
       const board = createInitialBoard();
-      expect(countKings(board, 'human')).toBe(0);
-      expect(countKings(board, 'agatha')).toBe(0);
+      expect(countKings(board, 'black')).toBe(0);
+      expect(countKings(board, 'white')).toBe(0);
 
       // Add a king
-      board[3][2] = { player: 'human', type: 'king', position: { row: 3, col: 2 } };
-      expect(countKings(board, 'human')).toBe(1);
+      board[3][2] = { player: 'black', type: 'king', position: { row: 3, col: 2 } };
+      expect(countKings(board, 'black')).toBe(1);
     });
   });
 
   describe('getOpponent', () => {
-    it('should return agatha for human', () => {
-      expect(getOpponent('human')).toBe('agatha');
+    it('should return White for Black', () => {
+      expect(getOpponent('black')).toBe('white');
     });
 
-    it('should return human for agatha', () => {
-      expect(getOpponent('agatha')).toBe('human');
+    it('should return Black for White', () => {
+      expect(getOpponent('white')).toBe('black');
     });
   });
 
   describe('getForwardDirection', () => {
-    it('should return -1 for human (moves up)', () => {
-      expect(getForwardDirection('human')).toBe(-1);
+    it('should return -1 for Black (moves up)', () => {
+      expect(getForwardDirection('black')).toBe(-1);
     });
 
-    it('should return 1 for agatha (moves down)', () => {
-      expect(getForwardDirection('agatha')).toBe(1);
+    it('should return 1 for White (moves down)', () => {
+      expect(getForwardDirection('white')).toBe(1);
+    });
+  });
+
+  describe('getFirstPlayer', () => {
+    it('should let Black move first', () => {
+      expect(getFirstPlayer()).toBe('black');
+    });
+
+    it('should let White move first where the rules say so', () => {
+      expect(getFirstPlayer(INTERNATIONAL_RULES)).toBe('white');
+      expect(getFirstPlayer(RUSSIAN_RULES)).toBe('white');
     });
   });
 
@@ -354,6 +400,13 @@ describe('board.ts', () => {
         expect(notationToPosition(notation)).toEqual(pos);
       }
     });
+
+    it('should name the squares of a 10x10 board', () => {
+      expect(positionToNotation({ row: 9, col: 0 }, 10)).toBe('a1');
+      expect(positionToNotation({ row: 0, col: 9 }, 10)).toBe('j10');
+      expect(notationToPosition('j10', 10)).toEqual({ row: 0, col: 9 });
+      expect(notationToPosition('j10')).toBeNull();
+    });
   });
 
   describe('formatMove', () => {
@@ -366,6 +419,28 @@ describe('board.ts', () => {
       const result = formatMove({ row: 5, col: 0 }, { row: 3, col: 2 }, true);
       expect(result).toBe('a3 x c5');
     });
+
+    it('should list every landing square of a multi-jump', () => {
+      const result = formatMove(
+        { row: 7, col: 0 },
+        { row: 3, col: 4 },
+        true,
+        [{ row: 5, col: 2 }, { row: 3, col: 4 }],
+        ['man', 'man']
+      );
+      expect(result).toBe('a1 x c3 x e5');
+    });
+
+    it('should note captured kings', () => {
+      const result = formatMove(
+        { row: 5, col: 0 },
+        { row: 3, col: 2 },
+        true,
+        [{ row: 3, col: 2 }],
+        ['king']
+      );
+      expect(result).toBe('a3 x c5 (1 king)');
+    });
   });
 
   describe('validateBoard', () => {
@@ -382,10 +457,18 @@ describe('board.ts', () => {
       expect(validateBoard(board)).toBe(false);
     });
 
+    it('should accept an empty 10x10 board', () => {
+      const board: (Piece | null)[][] = [];
+      for (let i = 0; i < 10; i++) {
+        board.push(new Array(10).fill(null));
+      }
+      expect(validateBoard(board)).toBe(true);
+    });
+
     it('should return false for piece on non-playable square', () => {
       const board = createInitialBoard();
       // Place piece on light square (non-playable)
-      board[0][0] = { player: 'human', type: 'man', position: { row: 0, col: 0 } };
+      board[0][0] = { player: 'black', type: 'man', position: { row: 0, col: 0 } };
       expect(validateBoard(board)).toBe(false);
     });
   });
@@ -399,5 +482,110 @@ describe('board.ts', () => {
       expect(str).toContain('w'); // Agatha pieces
       expect(str).toContain('r'); // Human pieces
     });
+
+    it('should label every file and rank of a 10x10 board', () => {
+      const lines = boardToString(createInitialBoard(INTERNATIONAL_BOARD)).split('\n');
+
+      expect(lines.length).toBe(12);
+      expect(lines[0]).toContain('a b c d e f g h i j');
+      expect(lines[1].startsWith('10 ')).toBe(true);
+      expect(lines[10].startsWith(' 1 ')).toBe(true);
+    });
+  });
+
+  describe('getPositionKey', () => {
+    it('should return equal keys for equal positions', () => {
+      const a = createInitialBoard();
+      const b = cloneBoard(a);
+
+      expect(getPositionKey(a, 'black')).toBe(getPositionKey(b, 'black'));
+    });
+
+    it('should distinguish the side to move', () => {
+      const board = createInitialBoard();
+
+      expect(getPositionKey(board, 'black')).not.toBe(getPositionKey(board, 'white'));
+    });
+
+    it('should distinguish kings from men', () => {
+      const board = createInitialBoard();
+      const before = getPositionKey(board, 'black');
+      board[0][1]!.type = 'king';
+
+      expect(getPositionKey(board, 'black')).not.toBe(before);
+    });
+  });
+
+  describe('positionToSquare and squareToPosition', () => {
+    it('should number the Black back row 1-4', () => {
+      expect(squareToPosition(1)).toEqual({ row: 7, col: 6 });
+      expect(squareToPosition(4)).toEqual({ row: 7, col: 0 });
+    });
+
+    it('should number Agatha back row 29-32', () => {
+      expect(squareToPosition(29)).toEqual({ row: 0, col: 7 });
+      expect(squareToPosition(32)).toEqual({ row: 0, col: 1 });
+    });
+
+    it('should round-trip all 32 squares', () => {
+      for (let square = 1; square <= 32; square++) {
+        const pos = squareToPosition(square)!;
+        expect(isPlayableSquare(pos.row, pos.col)).toBe(true);
+        expect(positionToSquare(pos)).toBe(square);
+      }
+    });
+
+    it('should place the initial men on their standard squares', () => {
+      const board = createInitialBoard();
+
+      for (let square = 1; square <= 12; square++) {
+        expect(getPieceAt(board, squareToPosition(square)!)!.player).toBe('black');
+      }
+      for (let square = 21; square <= 32; square++) {
+        expect(getPieceAt(board, squareToPosition(square)!)!.player).toBe('white');
+      }
+    });
+
+    it('should reject invalid squares', () => {
+      expect(squareToPosition(0)).toBeNull();
+      expect(squareToPosition(33)).toBeNull();
+      expect(positionToSquare({ row: 0, col: 0 })).toBeNull();
+      expect(positionToSquare({ row: -1, col: 1 })).toBeNull();
+    });
+
+    it('should number the 50 squares of a 10x10 board', () => {
+      expect(squareToPosition(1, 10)).toEqual({ row: 9, col: 8 });
+      expect(squareToPosition(5, 10)).toEqual({ row: 9, col: 0 });
+      expect(squareToPosition(50, 10)).toEqual({ row: 0, col: 1 });
+      expect(squareToPosition(51, 10)).toBeNull();
+
+      for (let square = 1; square <= 50; square++) {
+        const pos = squareToPosition(square, 10)!;
+        expect(isPlayableSquare(pos.row, pos.col)).toBe(true);
+        expect(positionToSquare(pos, 10)).toBe(square);
+      }
+    });
+
+    it('should place the initial 10x10 men on squares 1-20 and 31-50', () => {
+      const board = createInitialBoard(INTERNATIONAL_BOARD);
+
+      for (let square = 1; square <= 20; square++) {
+        expect(getPieceAt(board, squareToPosition(square, 10)!)!.player).toBe('black');
+      }
+      for (let square = 31; square <= 50; square++) {
+        expect(getPieceAt(board, squareToPosition(square, 10)!)!.player).toBe('white');
+      }
+    });
+
+    it('should number from White\'s back row when asked', () => {
+      const board = createInitialBoard();
+
+      expect(squareToPosition(1, 8, 'white')).toEqual({ row: 0, col: 1 });
+      for (let square = 1; square <= 12; square++) {
+        const pos = squareToPosition(square, 8, 'white')!;
+        expect(getPieceAt(board, pos)!.player).toBe('white');
+        expect(positionToSquare(pos, 8, 'white')).toBe(square);
+      }
+    });
   });
 });
@@ -0,0 +1,150 @@
+/**
+ * Tests for difficulty.ts - Agatha's difficulty levels
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DIFFICULTIES,
+  DEFAULT_DIFFICULTY,
+  isDifficultyLevel,
+  getDifficulty,
+  chooseMoveForDifficulty,
+  getTopMoveDepth,
+} from '../src/ai/difficulty';
+import { getBestMove, getBestMoveWithDepth, getTopMoves } from '../src/ai/minimax';
+import { createInitialBoard } from '../src/game/board';
+import { Piece, BOARD_SIZE } from '../src/types';
+
+/**
+ * Helper to create an empty board
+ */
+function createEmptyBoard(): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Helper to place a piece on the board
+ */
+function placePiece(
+  board: (Piece | null)[][],
+  row: number,
+  col: number,
+  player: 'black' | 'white',
+  type: 'man' | 'king' = 'man'
+): Piece {
+  const piece: Piece = { player, type, position: { row, col } };
+  board[row][col] = piece;
+  return piece;
+}
+
+describe('difficulty.ts', () => {
+  describe('DIFFICULTIES', () => {
+    it('should list levels from weakest to strongest', () => {
+      const levels = Object.values(DIFFICULTIES);
+
+      for (let i = 1; i < levels.length; i++) {
+        expect(levels[i].maxDepth).toBeGreaterThan(levels[i - 1].maxDepth);
+        expect(levels[i].randomness).toBeLessThanOrEqual(levels[i - 1].randomness);
+      }
+    });
+
+    it('should key every level by its own name', () => {
+      Object.entries(DIFFICULTIES).forEach(([level, difficulty]) => {
+        expect(difficulty.level).toBe(level);
+        expect(getDifficulty(difficulty.level)).toBe(difficulty);
+      });
+    });
+
+    it('should default to a level that always plays the best move', () => {
+      expect(getDifficulty(DEFAULT_DIFFICULTY).randomness).toBe(0);
+    });
+  });
+
+  describe('isDifficultyLevel', () => {
+    it('should accept known levels', () => {
+      expect(isDifficultyLevel('novice')).toBe(true);
+      expect(isDifficultyLevel('oracle')).toBe(true);
+    });
+
+    it('should reject unknown or missing values', () => {
+      expect(isDifficultyLevel('grandmaster')).toBe(false);
+      expect(isDifficultyLevel('toString')).toBe(false);
+      expect(isDifficultyLevel(null)).toBe(false);
+    });
+  });
+
+  describe('getTopMoveDepth', () => {
+    it('should search the top moves within the level\'s own depth', () => {
+      expect(getTopMoveDepth(getDifficulty('novice'))).toBe(getDifficulty('novice').maxDepth - 1);
+      expect(getTopMoveDepth({ ...getDifficulty('novice'), maxDepth: 1 })).toBe(1);
+    });
+  });
+
+  describe('chooseMoveForDifficulty', () => {
+    it('should keep the best move without randomness', () => {
+      const board = createInitialBoard();
+      const best = getBestMove(board, 2);
+
+      const choice = chooseMoveForDifficulty(board, best, getDifficulty('precog'), () => 0);
+
+      expect(choice).toEqual({ move: best, randomPick: false });
+    });
+
+    it('should keep the best move when the roll is above the randomness', () => {
+      const board = createInitialBoard();
+      const best = getBestMove(board, 2);
+
+      const choice = chooseMoveForDifficulty(board, best, getDifficulty('novice'), () => 0.99);
+
+      expect(choice).toEqual({ move: best, randomPick: false });
+    });
+
+    it('should pick among the top moves when the roll is below the randomness', () => {
+      const board = createInitialBoard();
+      const best = getBestMove(board, 2);
+      const rolls = [0, 0.99];
+
+      const choice = chooseMoveForDifficulty(board, best, getDifficulty('novice'), () => rolls.shift()!);
+
+      const novice = getDifficulty('novice');
+      const top = getTopMoves(board, 'white', novice.topMoveCount, getTopMoveDepth(novice));
+      expect(choice.randomPick).toBe(true);
+      expect(choice.move).toEqual(top[top.length - 1].move);
+    });
+
+    it('should pick among the moves of the side playing the best move', () => {
+      const board = createInitialBoard();
+      const best = getBestMoveWithDepth(board, 2, 'black');
+      const rolls = [0, 0];
+
+      const choice = chooseMoveForDifficulty(board, best, getDifficulty('novice'), () => rolls.shift()!);
+
+      const novice = getDifficulty('novice');
+      const top = getTopMoves(board, 'black', novice.topMoveCount, getTopMoveDepth(novice));
+      expect(choice.randomPick).toBe(true);
+      expect(choice.move).toEqual(top[0].move);
+    });
+
+    it('should keep the only legal move', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 4, 'black');
+      placePiece(board, 7, 0, 'black');
+      const best = getBestMove(board, 2);
+
+      const choice = chooseMoveForDifficulty(board, best, getDifficulty('novice'), () => 0);
+
+      expect(choice).toEqual({ move: best, randomPick: false });
+    });
+
+    it('should pass through a missing move', () => {
+      const choice = chooseMoveForDifficulty(createEmptyBoard(), null, getDifficulty('novice'), () => 0);
+
+      expect(choice).toEqual({ move: null, randomPick: false });
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for engine-client.ts - Worker client and synchronous fallback
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgathaEngine, EngineCancelledError, EngineWorkerLike } from '../src/ai/engine-client';
+import { EngineRequest, EngineResponse } from '../src/ai/engine-protocol';
+import { createInitialBoard } from '../src/game/board';
+import { getAllValidMoves } from '../src/game/rules';
+
+/**
+ * Worker stand-in that records requests and replies on demand
+ */
+class FakeWorker implements EngineWorkerLike {
+  onmessage: ((event: MessageEvent<EngineResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: EngineRequest[] = [];
+  terminated = false;
+
+  postMessage(request: EngineRequest): void {
+    this.requests.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(response: EngineResponse): void {
+    this.onmessage!({ data: response } as MessageEvent<EngineResponse>);
+  }
+
+  fail(): void {
+    this.onerror!({ message: 'could not load' } as ErrorEvent);
+  }
+}
+
+describe('AgathaEngine', () => {
+  describe('synchronous fallback', () => {
+    it('should search on the main thread without workers', async () => {
+      const engine = new AgathaEngine();
+      const board = createInitialBoard();
+      const depths: number[] = [];
+
+      const result = await engine.search(board, Infinity, 'novice', info => depths.push(info.depth));
+
+      expect(engine.usesWorker).toBe(false);
+      expect(getAllValidMoves(board, 'white')).toContainEqual(result.move);
+      expect(depths).toEqual([1, 2]);
+      expect(result.metrics.nodesEvaluated).toBeGreaterThan(0);
+    });
+
+    it('should foresee a line on the main thread', async () => {
+      const engine = new AgathaEngine(() => null);
+      const board = createInitialBoard();
+      const [move] = getAllValidMoves(board, 'black');
+
+      const prediction = await engine.predictLine(board, move, 4);
+
+      expect(prediction.line[0]).toEqual(move);
+      expect(prediction.line.length).toBe(4);
+    });
+
+    it('should judge a move on the main thread', async () => {
+      const engine = new AgathaEngine(() => null);
+      const board = createInitialBoard();
+      const [move] = getAllValidMoves(board, 'black');
+
+      const annotation = await engine.annotateMove(board, move);
+
+      expect(annotation.loss).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should analyze a game on the main thread', async () => {
+      const engine = new AgathaEngine(() => null);
+      const board = createInitialBoard();
+      const [move] = getAllValidMoves(board, 'black');
+
+      const analysis = await engine.analyzeGame(board, [move], 2);
+
+      expect(analysis.plies.length).toBe(1);
+    });
+  });
+
+  describe('worker', () => {
+    let worker: FakeWorker;
+    let workersCreated: number;
+    let engine: AgathaEngine;
+
+    beforeEach(() => {
+      workersCreated = 0;
+      engine = new AgathaEngine(() => {
+        workersCreated++;
+        worker = new FakeWorker();
+        return worker;
+      });
+    });
+
+    it('should send the rule variant with every search and analysis', () => {
+      engine.variant = 'russian';
+
+      engine.search(createInitialBoard(), 1000).catch(() => undefined);
+      engine.analyzeGame(createInitialBoard(), []).catch(() => undefined);
+
+      expect(worker.requests.map(request => 'variant' in request && request.variant)).toEqual([
+        'russian',
+        'russian',
+      ]);
+      engine.cancel();
+    });
+
+    it('should search for the requested side', () => {
+      engine.search(createInitialBoard(), 1000, 'novice', undefined, 'black').catch(() => undefined);
+
+      expect(worker.requests[0]).toMatchObject({ type: 'search', player: 'black' });
+      engine.cancel();
+    });
+
+    it('should send the position and resolve with the result', async () => {
+      const board = createInitialBoard();
+      const progress: number[] = [];
+
+      const pending = engine.search(board, 1500, 'oracle', info => progress.push(info.nodesEvaluated));
+      const request = worker.requests[0];
+      expect(request).toMatchObject({
+        type: 'search',
+        player: 'white',
+        difficulty: 'oracle',
+        variant: 'american',
+        timeMs: 1500,
+        board,
+      });
+
+      const info = { depth: 1, score: 0, bestMove: null, pv: [], nodesEvaluated: 40, elapsedMs: 3 };
+      worker.reply({ type: 'progress', id: request.id, info });
+      worker.reply({
+        type: 'searchResult',
+        id: request.id,
+        move: null,
+        metrics: {
+          depth: 1,
+          score: 0,
+          pv: [],
+          nodesEvaluated: 900,
+          elapsedMs: 5,
+          transpositionHitRate: 0.3,
+          iterations: [info],
+          aborted: false,
+          difficulty: 'oracle',
+          randomPick: false,
+          bookMove: null,
+        },
+      });
+
+      const result = await pending;
+      expect(progress).toEqual([40]);
+      expect(result.metrics.nodesEvaluated).toBe(900);
+    });
+
+    it('should reject pending requests and stop the worker on cancel', async () => {
+      const pending = engine.search(createInitialBoard(), 1000);
+      const cancelledWorker = worker;
+
+      engine.cancel();
+
+      await expect(pending).rejects.toBeInstanceOf(EngineCancelledError);
+      expect(cancelledWorker.terminated).toBe(true);
+    });
+
+    it('should start a fresh worker after cancelling', async () => {
+      engine.search(createInitialBoard(), 1000).catch(() => undefined);
+      engine.cancel();
+
+      engine.search(createInitialBoard(), 1000).catch(() => undefined);
+
+      expect(workersCreated).toBe(2);
+      expect(worker.requests.length).toBe(1);
+    });
+
+    it('should ignore responses to cancelled requests', async () => {
+      const pending = engine.search(createInitialBoard(), 1000);
+      const oldWorker = worker;
+      const id = oldWorker.requests[0].id;
+      engine.cancel();
+      await expect(pending).rejects.toBeInstanceOf(EngineCancelledError);
+
+      expect(() =>
+        oldWorker.reply({ type: 'tablebaseLoaded', id, positions: 0 })
+      ).not.toThrow();
+    });
+
+    it('should reject on engine errors', async () => {
+      const pending = engine.analyzeGame(createInitialBoard(), []);
+
+      worker.reply({ type: 'error', id: worker.requests[0].id, message: 'boom' });
+
+      await expect(pending).rejects.toThrow('boom');
+    });
+
+    it('should send loaded tables to a restarted worker', async () => {
+      const data = new ArrayBuffer(8);
+      const pending = engine.loadTablebase(data);
+      worker.reply({ type: 'tablebaseLoaded', id: worker.requests[0].id, positions: 42 });
+      expect(await pending).toBe(42);
+
+      engine.cancel();
+      engine.search(createInitialBoard(), 1000).catch(() => undefined);
+
+      expect(workersCreated).toBe(2);
+      expect(worker.requests.map(request => request.type)).toEqual(['tablebase', 'search']);
+    });
+
+    it('should hold predictions back while one runs, keeping only the latest', async () => {
+      const board = createInitialBoard();
+      const [first, second, third] = getAllValidMoves(board, 'black');
+
+      const running = engine.predictLine(board, first, 2);
+      const replaced = engine.predictLine(board, second, 2);
+      const latest = engine.predictLine(board, third, 2);
+      engine.search(board, 1000).catch(() => undefined);
+
+      await expect(replaced).rejects.toBeInstanceOf(EngineCancelledError);
+      expect(worker.requests.map(request => request.type)).toEqual(['predictLine', 'search']);
+
+      const prediction = { line: [first], score: 0 };
+      worker.reply({ type: 'predictLineResult', id: worker.requests[0].id, prediction });
+      expect(await running).toEqual(prediction);
+      expect(worker.requests[2]).toMatchObject({ type: 'predictLine', move: third });
+
+      worker.reply({ type: 'predictLineResult', id: worker.requests[2].id, prediction });
+      expect(await latest).toEqual(prediction);
+    });
+
+    it('should drop the waiting prediction on request', async () => {
+      const board = createInitialBoard();
+      const [first, second] = getAllValidMoves(board, 'black');
+
+      engine.predictLine(board, first, 2).catch(() => undefined);
+      const waiting = engine.predictLine(board, second, 2);
+      engine.dropWaitingPrediction();
+
+      await expect(waiting).rejects.toBeInstanceOf(EngineCancelledError);
+      worker.reply({
+        type: 'predictLineResult',
+        id: worker.requests[0].id,
+        prediction: { line: [first], score: 0 },
+      });
+      expect(worker.requests.length).toBe(1);
+    });
+
+    it('should finish pending requests on the main thread if the worker fails', async () => {
+      const board = createInitialBoard();
+      const pending = engine.search(board, Infinity, 'novice');
+
+      worker.fail();
+
+      const result = await pending;
+      expect(getAllValidMoves(board, 'white')).toContainEqual(result.move);
+      expect(engine.usesWorker).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for engine-protocol.ts - Worker request handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { handleEngineRequest, EngineResponse } from '../src/ai/engine-protocol';
+import { createInitialBoard } from '../src/game/board';
+import { getAllValidMoves, simulateMove } from '../src/game/rules';
+import { getOpeningBook } from '../src/ai/opening-book';
+import { getTablebase, setTablebase } from '../src/ai/tablebase';
+import { generateTablebase } from '../src/ai/tablebase-generator';
+import { setRules } from '../src/ai/minimax';
+import { evaluateBoard } from '../src/ai/evaluation';
+import { getDifficulty } from '../src/ai/difficulty';
+import { AMERICAN_RULES } from '../src/game/variants';
+import { Piece, BOARD_SIZE } from '../src/types';
+
+/**
+ * Helper to create an empty board
+ */
+function createEmptyBoard(): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Helper to place a piece on the board
+ */
+function placePiece(
+  board: (Piece | null)[][],
+  row: number,
+  col: number,
+  player: 'black' | 'white',
+  type: 'man' | 'king' = 'man'
+): Piece {
+  const piece: Piece = { player, type, position: { row, col } };
+  board[row][col] = piece;
+  return piece;
+}
+
+/**
+ * Helper collecting every response to a request
+ */
+function collect(request: Parameters<typeof handleEngineRequest>[0]): EngineResponse[] {
+  const responses: EngineResponse[] = [];
+  handleEngineRequest(request, response => responses.push(response));
+  return responses;
+}
+
+describe('engine-protocol.ts', () => {
+  it('should report progress for each depth, then the result', () => {
+    const responses = collect({
+      type: 'search',
+      id: 7,
+      board: createInitialBoard(),
+      player: 'white',
+      timeMs: Infinity,
+      difficulty: 'novice',
+      variant: 'american',
+    });
+
+    expect(responses.map(r => r.type)).toEqual(['progress', 'progress', 'searchResult']);
+    expect(responses.every(r => r.id === 7)).toBe(true);
+
+    const progress = responses.filter(r => r.type === 'progress');
+    expect(progress.map(p => p.type === 'progress' && p.info.depth)).toEqual([1, 2]);
+  });
+
+  it('should return a legal move with search metrics', () => {
+    const board = createInitialBoard();
+
+    const result = collect({
+      type: 'search',
+      id: 1,
+      board,
+      player: 'white',
+      timeMs: Infinity,
+      difficulty: 'adept',
+      variant: 'american',
+    }).pop()!;
+
+    expect(result.type).toBe('searchResult');
+    if (result.type === 'searchResult') {
+      expect(getAllValidMoves(board, 'white')).toContainEqual(result.move);
+      expect(result.metrics.depth).toBe(4);
+      if (!result.metrics.randomPick) {
+        expect(result.metrics.pv[0]).toEqual(result.move);
+      }
+      expect(result.metrics.difficulty).toBe('adept');
+      expect(result.metrics.iterations.length).toBe(4);
+      expect(result.metrics.aborted).toBe(false);
+      expect(result.metrics.nodesEvaluated).toBeGreaterThan(0);
+      expect(result.metrics.transpositionHitRate).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should answer book positions from the opening book', () => {
+    const start = createInitialBoard();
+    const board = simulateMove(start, getOpeningBook().lookup(start, 'black')[0].move);
+
+    const responses = collect({ type: 'search', id: 4, board, player: 'white', timeMs: Infinity, difficulty: 'oracle', variant: 'american' });
+
+    expect(responses.length).toBe(1);
+    const [result] = responses;
+    if (result.type === 'searchResult') {
+      const known = getOpeningBook().lookup(board, 'white');
+      expect(known.map(book => book.move)).toContainEqual(result.move);
+      expect(known.map(book => book.opening)).toContain(result.metrics.bookMove);
+      expect(result.metrics.nodesEvaluated).toBe(0);
+      // The position's static score, from Agatha's perspective like searched scores
+      expect(result.metrics.score).toBe(evaluateBoard(board, getDifficulty('oracle').weights));
+    } else {
+      expect.unreachable('expected a search result');
+    }
+  });
+
+  it('should only answer from the opening book in American games', () => {
+    const start = createInitialBoard();
+    const board = simulateMove(start, getOpeningBook().lookup(start, 'black')[0].move);
+
+    const result = collect({
+      type: 'search',
+      id: 8,
+      board,
+      player: 'white',
+      timeMs: Infinity,
+      difficulty: 'novice',
+      variant: 'italian',
+    }).pop()!;
+
+    expect(result.type === 'searchResult' && result.metrics.bookMove).toBeNull();
+    setRules(AMERICAN_RULES);
+  });
+
+  it('should report searched moves as not from the book', () => {
+    const result = collect({
+      type: 'search',
+      id: 5,
+      board: createInitialBoard(),
+      player: 'white',
+      timeMs: Infinity,
+      difficulty: 'novice',
+      variant: 'american',
+    }).pop()!;
+
+    expect(result.type === 'searchResult' && result.metrics.bookMove).toBeNull();
+  });
+
+  it('should search for Black when asked', () => {
+    const board = createInitialBoard();
+
+    const result = collect({
+      type: 'search',
+      id: 9,
+      board,
+      player: 'black',
+      timeMs: Infinity,
+      difficulty: 'novice',
+      variant: 'american',
+    }).pop()!;
+
+    expect(result.type).toBe('searchResult');
+    if (result.type === 'searchResult') {
+      expect(getAllValidMoves(board, 'black')).toContainEqual(result.move);
+    }
+  });
+
+  it('should foresee the line after a candidate move', () => {
+    const board = createInitialBoard();
+    const [move] = getAllValidMoves(board, 'black');
+
+    const [result] = collect({
+      type: 'predictLine',
+      id: 3,
+      board,
+      move,
+      plies: 3,
+      difficulty: 'adept',
+      variant: 'american',
+    });
+
+    expect(result.type).toBe('predictLineResult');
+    if (result.type === 'predictLineResult') {
+      expect(result.prediction.line.length).toBe(3);
+      expect(result.prediction.line[0]).toEqual(move);
+    }
+  });
+
+  it('should judge a played move', () => {
+    const board = createEmptyBoard();
+    placePiece(board, 5, 0, 'black');
+    placePiece(board, 0, 7, 'white');
+    const [move] = getAllValidMoves(board, 'black');
+
+    const [result] = collect({ type: 'annotate', id: 4, board, move, difficulty: 'adept', variant: 'american' });
+
+    expect(result).toEqual({ type: 'annotateResult', id: 4, annotation: { quality: 'good', loss: 0, bestMove: null } });
+  });
+
+  it('should analyze a game', () => {
+    const board = createInitialBoard();
+    const [first] = getAllValidMoves(board, 'black');
+    const [second] = getAllValidMoves(simulateMove(board, first), 'white');
+
+    const [result] = collect({
+      type: 'analyze',
+      id: 5,
+      board,
+      moves: [first, second],
+      depth: 2,
+      difficulty: 'adept',
+      variant: 'american',
+    });
+
+    expect(result.type).toBe('analysisResult');
+    if (result.type === 'analysisResult') {
+      expect(result.analysis.plies.map(entry => entry.player)).toEqual(['black', 'white']);
+    }
+  });
+
+  it('should search under the requested rule variant', () => {
+    // A lone Black man that only an International man capturing backwards can take
+    const board = createEmptyBoard();
+    placePiece(board, 3, 2, 'white');
+    placePiece(board, 4, 1, 'white');
+    placePiece(board, 2, 1, 'black');
+    placePiece(board, 7, 6, 'black');
+
+    const result = collect({
+      type: 'search',
+      id: 6,
+      board,
+      player: 'white',
+      timeMs: Infinity,
+      difficulty: 'adept',
+      variant: 'international',
+    }).pop()!;
+
+    expect(result.type === 'searchResult' && result.move?.captures).toEqual([{ row: 2, col: 1 }]);
+    setRules(AMERICAN_RULES);
+  });
+
+  it('should load endgame tables', () => {
+    const data = generateTablebase(2).serialize();
+
+    const responses = collect({ type: 'tablebase', id: 4, data });
+
+    expect(responses).toEqual([{ type: 'tablebaseLoaded', id: 4, positions: expect.any(Number) }]);
+    expect(getTablebase()?.maxPieces).toBe(2);
+    setTablebase(null);
+  });
+
+  it('should report tables that cannot be read', () => {
+    const responses = collect({ type: 'tablebase', id: 5, data: new ArrayBuffer(4) });
+
+    expect(responses).toEqual([{ type: 'error', id: 5, message: 'Not an endgame tablebase file' }]);
+  });
+
+  it('should turn exceptions into error responses', () => {
+    const responses = collect({
+      type: 'analyze',
+      id: 3,
+      board: [],
+      moves: [null as never],
+      depth: 2,
+      difficulty: 'precog',
+      variant: 'american',
+    });
+
+    expect(responses).toEqual([{ type: 'error', id: 3, message: expect.any(String) }]);
+  });
+});
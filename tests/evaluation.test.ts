@@ -10,17 +10,21 @@ import {
   isEndGame,
   evaluateKingSafety,
   getDetailedEvaluation,
+  getWinProbability,
+  evaluateBitboard,
+  evaluateBitboardEndGame,
 } from '../src/ai/evaluation';
+import { fromBoard } from '../src/ai/bitboard';
 import { createInitialBoard } from '../src/game/board';
-import { Piece, BOARD_SIZE, DEFAULT_WEIGHTS } from '../src/types';
+import { Piece, BOARD_SIZE, DEFAULT_WEIGHTS, INTERNATIONAL_BOARD } from '../src/types';
 
 /**
  * Helper to create an empty board
  */
-function createEmptyBoard(): (Piece | null)[][] {
+function createEmptyBoard(size: number = BOARD_SIZE): (Piece | null)[][] {
   const board: (Piece | null)[][] = [];
-  for (let row = 0; row < BOARD_SIZE; row++) {
-    board[row] = new Array(BOARD_SIZE).fill(null);
+  for (let row = 0; row < size; row++) {
+    board[row] = new Array(size).fill(null);
   }
   return board;
 }
@@ -32,7 +36,7 @@ function placePiece(
   board: (Piece | null)[][],
   row: number,
   col: number,
-  player: 'human' | 'agatha',
+  player: 'black' | 'white',
   type: 'man' | 'king' = 'man'
 ): Piece {
   const piece: Piece = { player, type, position: { row, col } };
@@ -55,10 +59,10 @@ describe('evaluation.ts', () => {
       const board = createEmptyBoard();
       
       // Give Agatha 3 pieces, human 1 piece
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 2, 5, 'agatha');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 2, 5, 'white');
+      placePiece(board, 5, 2, 'black');
       
       const score = evaluateBoard(board);
       
@@ -66,14 +70,14 @@ describe('evaluation.ts', () => {
       expect(score).toBeGreaterThan(0);
     });
 
-    it('should favor human when they have more pieces', () => {
+    it('should favor Black when it has more pieces', () => {
       const board = createEmptyBoard();
       
       // Give human 3 pieces, Agatha 1 piece
-      placePiece(board, 5, 0, 'human');
-      placePiece(board, 5, 2, 'human');
-      placePiece(board, 5, 4, 'human');
-      placePiece(board, 2, 1, 'agatha');
+      placePiece(board, 5, 0, 'black');
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 2, 1, 'white');
       
       const score = evaluateBoard(board);
       
@@ -86,12 +90,12 @@ describe('evaluation.ts', () => {
       const board2 = createEmptyBoard();
       
       // Board 1: Agatha has 1 king
-      placePiece(board1, 2, 1, 'agatha', 'king');
-      placePiece(board1, 5, 2, 'human');
+      placePiece(board1, 2, 1, 'white', 'king');
+      placePiece(board1, 5, 2, 'black');
       
       // Board 2: Agatha has 1 man
-      placePiece(board2, 2, 1, 'agatha', 'man');
-      placePiece(board2, 5, 2, 'human');
+      placePiece(board2, 2, 1, 'white', 'man');
+      placePiece(board2, 5, 2, 'black');
       
       const scoreWithKing = evaluateBoard(board1);
       const scoreWithMan = evaluateBoard(board2);
@@ -104,12 +108,12 @@ describe('evaluation.ts', () => {
       const boardEdge = createEmptyBoard();
       
       // Center piece (columns 3-4)
-      placePiece(boardCenter, 4, 3, 'agatha');
-      placePiece(boardCenter, 5, 2, 'human');
+      placePiece(boardCenter, 4, 3, 'white');
+      placePiece(boardCenter, 5, 2, 'black');
       
       // Edge piece (column 0)
-      placePiece(boardEdge, 4, 1, 'agatha');
-      placePiece(boardEdge, 5, 2, 'human');
+      placePiece(boardEdge, 4, 1, 'white');
+      placePiece(boardEdge, 5, 2, 'black');
       
       const scoreCenter = evaluateBoard(boardCenter);
       const scoreEdge = evaluateBoard(boardEdge);
@@ -123,12 +127,12 @@ describe('evaluation.ts', () => {
       const boardBack = createEmptyBoard();
       
       // Advanced Agatha piece (closer to promotion)
-      placePiece(boardAdvanced, 5, 2, 'agatha');
-      placePiece(boardAdvanced, 5, 4, 'human');
+      placePiece(boardAdvanced, 5, 2, 'white');
+      placePiece(boardAdvanced, 5, 4, 'black');
       
       // Back Agatha piece
-      placePiece(boardBack, 1, 2, 'agatha');
-      placePiece(boardBack, 5, 4, 'human');
+      placePiece(boardBack, 1, 2, 'white');
+      placePiece(boardBack, 5, 4, 'black');
       
       const scoreAdvanced = evaluateBoard(boardAdvanced);
       const scoreBack = evaluateBoard(boardBack);
@@ -136,32 +140,94 @@ describe('evaluation.ts', () => {
       // Advancement should be rewarded
       expect(scoreAdvanced).toBeGreaterThan(scoreBack);
     });
+
+    it('should balance the 10x10 starting position', () => {
+      expect(evaluateBoard(createInitialBoard(INTERNATIONAL_BOARD))).toBe(0);
+    });
+
+    it('should scale center control and advancement to a 10x10 board', () => {
+      const center = createEmptyBoard(10);
+      placePiece(center, 4, 5, 'white');
+      placePiece(center, 8, 1, 'black');
+      const edge = createEmptyBoard(10);
+      placePiece(edge, 4, 1, 'white');
+      placePiece(edge, 8, 1, 'black');
+
+      // Column 5 is one of the two middle columns of ten
+      expect(evaluateBoard(center)).toBeGreaterThan(evaluateBoard(edge));
+
+      const advanced = createEmptyBoard(10);
+      placePiece(advanced, 0, 5, 'white', 'king');
+      placePiece(advanced, 2, 1, 'black');
+      const back = createEmptyBoard(10);
+      placePiece(back, 0, 5, 'white', 'king');
+      placePiece(back, 8, 1, 'black');
+
+      // The human man two rows from crowning is worth more than one on its second row
+      expect(evaluateBoard(advanced)).toBeLessThan(evaluateBoard(back));
+    });
+  });
+
+  describe('evaluateBitboard', () => {
+    it('should score positions exactly like evaluateBoard', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 0, 1, 'white');
+      placePiece(board, 1, 2, 'white');
+      placePiece(board, 3, 4, 'white', 'king');
+      placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'black');
+      placePiece(board, 4, 7, 'black', 'king');
+      placePiece(board, 0, 7, 'black', 'king');
+      const weights = { ...DEFAULT_WEIGHTS, centerControl: 7, backRowDefense: 4 };
+
+      expect(evaluateBitboard(fromBoard(board))).toBe(evaluateBoard(board));
+      expect(evaluateBitboard(fromBoard(board), weights)).toBe(evaluateBoard(board, weights));
+      expect(evaluateBitboard(fromBoard(createInitialBoard()))).toBe(0);
+    });
+
+    it('should detect the end of the game like evaluateEndGame', () => {
+      const blocked = createEmptyBoard();
+      placePiece(blocked, 7, 0, 'black');
+      placePiece(blocked, 6, 1, 'white');
+      placePiece(blocked, 5, 2, 'white');
+      const noHumans = createEmptyBoard();
+      placePiece(noHumans, 2, 1, 'white');
+
+      for (const board of [createInitialBoard(), blocked, noHumans]) {
+        expect(evaluateBitboardEndGame(fromBoard(board), 'white')).toBe(
+          evaluateEndGame(board, 'white')
+        );
+        expect(evaluateBitboardEndGame(fromBoard(board), 'black')).toBe(
+          evaluateEndGame(board, 'black')
+        );
+      }
+    });
   });
 
   describe('evaluateEndGame', () => {
     it('should return null when game is not over', () => {
       const board = createInitialBoard();
       
-      expect(evaluateEndGame(board, 'human')).toBeNull();
-      expect(evaluateEndGame(board, 'agatha')).toBeNull();
+      expect(evaluateEndGame(board, 'black')).toBeNull();
+      expect(evaluateEndGame(board, 'white')).toBeNull();
     });
 
-    it('should return positive score when Agatha wins (human has no pieces)', () => {
+    it('should return positive score when White wins (Black has no pieces)', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha');
+      placePiece(board, 2, 1, 'white');
       // No human pieces
       
-      const score = evaluateEndGame(board, 'agatha');
+      const score = evaluateEndGame(board, 'white');
       
       expect(score).toBe(100000);
     });
 
-    it('should return negative score when human wins (from Agatha perspective)', () => {
+    it('should return negative score when Black wins (from White\'s perspective)', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 5, 2, 'black');
       // No Agatha pieces
       
-      const score = evaluateEndGame(board, 'agatha');
+      const score = evaluateEndGame(board, 'white');
       
       expect(score).toBe(-100000);
     });
@@ -169,12 +235,12 @@ describe('evaluation.ts', () => {
     it('should detect win when opponent has no valid moves', () => {
       const board = createEmptyBoard();
       // Trap human piece - completely blocked with no jump possible
-      placePiece(board, 7, 0, 'human');
-      placePiece(board, 6, 1, 'agatha'); // Blocks forward move
-      placePiece(board, 5, 2, 'agatha'); // Blocks jump landing
+      placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'white'); // Blocks forward move
+      placePiece(board, 5, 2, 'white'); // Blocks jump landing
       // Human has no moves
       
-      const score = evaluateEndGame(board, 'agatha');
+      const score = evaluateEndGame(board, 'white');
       
       expect(score).toBe(100000);
     });
@@ -183,30 +249,30 @@ describe('evaluation.ts', () => {
   describe('getMaterialAdvantage', () => {
     it('should return 0 for equal material', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 5, 2, 'black');
       
-      expect(getMaterialAdvantage(board, 'agatha')).toBe(0);
-      expect(getMaterialAdvantage(board, 'human')).toBe(0);
+      expect(getMaterialAdvantage(board, 'white')).toBe(0);
+      expect(getMaterialAdvantage(board, 'black')).toBe(0);
     });
 
     it('should return positive when player has more material', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 5, 2, 'black');
       
-      expect(getMaterialAdvantage(board, 'agatha')).toBe(1);
-      expect(getMaterialAdvantage(board, 'human')).toBe(-1);
+      expect(getMaterialAdvantage(board, 'white')).toBe(1);
+      expect(getMaterialAdvantage(board, 'black')).toBe(-1);
     });
 
     it('should weight kings as 1.5', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha', 'king');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 2, 1, 'white', 'king');
+      placePiece(board, 5, 2, 'black');
       
       // King (1.5) vs Man (1) = 0.5 advantage
-      expect(getMaterialAdvantage(board, 'agatha')).toBe(0.5);
+      expect(getMaterialAdvantage(board, 'white')).toBe(0.5);
     });
   });
 
@@ -221,22 +287,22 @@ describe('evaluation.ts', () => {
       const board = createEmptyBoard();
       
       // Place exactly 8 pieces
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 2, 5, 'agatha');
-      placePiece(board, 2, 7, 'agatha');
-      placePiece(board, 5, 0, 'human');
-      placePiece(board, 5, 2, 'human');
-      placePiece(board, 5, 4, 'human');
-      placePiece(board, 5, 6, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 2, 5, 'white');
+      placePiece(board, 2, 7, 'white');
+      placePiece(board, 5, 0, 'black');
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 5, 6, 'black');
       
       expect(isEndGame(board)).toBe(true);
     });
 
     it('should return true when very few pieces remain', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 5, 2, 'black');
       
       expect(isEndGame(board)).toBe(true);
     });
@@ -245,11 +311,11 @@ describe('evaluation.ts', () => {
   describe('evaluateKingSafety', () => {
     it('should return 0 when player has no kings', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha', 'man');
-      placePiece(board, 5, 2, 'human', 'man');
+      placePiece(board, 2, 1, 'white', 'man');
+      placePiece(board, 5, 2, 'black', 'man');
       
-      expect(evaluateKingSafety(board, 'agatha')).toBe(0);
-      expect(evaluateKingSafety(board, 'human')).toBe(0);
+      expect(evaluateKingSafety(board, 'white')).toBe(0);
+      expect(evaluateKingSafety(board, 'black')).toBe(0);
     });
 
     it('should return higher score when king is far from opponents', () => {
@@ -257,15 +323,15 @@ describe('evaluation.ts', () => {
       const boardClose = createEmptyBoard();
       
       // King far from opponent
-      placePiece(boardFar, 0, 1, 'agatha', 'king');
-      placePiece(boardFar, 7, 6, 'human');
+      placePiece(boardFar, 0, 1, 'white', 'king');
+      placePiece(boardFar, 7, 6, 'black');
       
       // King close to opponent
-      placePiece(boardClose, 3, 2, 'agatha', 'king');
-      placePiece(boardClose, 4, 3, 'human');
+      placePiece(boardClose, 3, 2, 'white', 'king');
+      placePiece(boardClose, 4, 3, 'black');
       
-      const safetyFar = evaluateKingSafety(boardFar, 'agatha');
-      const safetyClose = evaluateKingSafety(boardClose, 'agatha');
+      const safetyFar = evaluateKingSafety(boardFar, 'white');
+      const safetyClose = evaluateKingSafety(boardClose, 'white');
       
       expect(safetyFar).toBeGreaterThan(safetyClose);
     });
@@ -280,32 +346,32 @@ describe('evaluation.ts', () => {
       expect(eval_).toHaveProperty('materialScore');
       expect(eval_).toHaveProperty('positionalScore');
       expect(eval_).toHaveProperty('mobilityScore');
-      expect(eval_).toHaveProperty('agathaMen');
-      expect(eval_).toHaveProperty('agathaKings');
-      expect(eval_).toHaveProperty('humanMen');
-      expect(eval_).toHaveProperty('humanKings');
+      expect(eval_).toHaveProperty('whiteMen');
+      expect(eval_).toHaveProperty('whiteKings');
+      expect(eval_).toHaveProperty('blackMen');
+      expect(eval_).toHaveProperty('blackKings');
     });
 
     it('should count pieces correctly', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha', 'man');
-      placePiece(board, 2, 3, 'agatha', 'king');
-      placePiece(board, 5, 2, 'human', 'man');
-      placePiece(board, 5, 4, 'human', 'man');
-      placePiece(board, 5, 6, 'human', 'king');
+      placePiece(board, 2, 1, 'white', 'man');
+      placePiece(board, 2, 3, 'white', 'king');
+      placePiece(board, 5, 2, 'black', 'man');
+      placePiece(board, 5, 4, 'black', 'man');
+      placePiece(board, 5, 6, 'black', 'king');
       
       const eval_ = getDetailedEvaluation(board);
       
-      expect(eval_.agathaMen).toBe(1);
-      expect(eval_.agathaKings).toBe(1);
-      expect(eval_.humanMen).toBe(2);
-      expect(eval_.humanKings).toBe(1);
+      expect(eval_.whiteMen).toBe(1);
+      expect(eval_.whiteKings).toBe(1);
+      expect(eval_.blackMen).toBe(2);
+      expect(eval_.blackKings).toBe(1);
     });
 
     it('should calculate material score based on piece values', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha', 'man');  // 100 points
-      placePiece(board, 5, 2, 'human', 'man');   // 100 points
+      placePiece(board, 2, 1, 'white', 'man');  // 100 points
+      placePiece(board, 5, 2, 'black', 'man');   // 100 points
       
       const eval_ = getDetailedEvaluation(board);
       
@@ -315,8 +381,8 @@ describe('evaluation.ts', () => {
 
     it('should have totalScore equal to sum of components', () => {
       const board = createEmptyBoard();
-      placePiece(board, 4, 3, 'agatha');
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 4, 3, 'white');
+      placePiece(board, 5, 2, 'black');
       
       const eval_ = getDetailedEvaluation(board);
       
@@ -328,9 +394,9 @@ describe('evaluation.ts', () => {
     it('should show mobility advantage', () => {
       const board = createEmptyBoard();
       // Give Agatha more mobility by placing in open area
-      placePiece(board, 3, 4, 'agatha');
+      placePiece(board, 3, 4, 'white');
       // Human piece in corner with limited moves
-      placePiece(board, 7, 0, 'human');
+      placePiece(board, 7, 0, 'black');
       
       const eval_ = getDetailedEvaluation(board);
       
@@ -339,11 +405,29 @@ describe('evaluation.ts', () => {
     });
   });
 
+  describe('getWinProbability', () => {
+    it('should give even chances in an even position', () => {
+      expect(getWinProbability(0)).toBe(0.5);
+    });
+
+    it('should favor the side the score favors, symmetrically', () => {
+      expect(getWinProbability(100)).toBeGreaterThan(0.5);
+      expect(getWinProbability(100) + getWinProbability(-100)).toBeCloseTo(1);
+      expect(getWinProbability(300)).toBeGreaterThan(getWinProbability(100));
+    });
+
+    it('should stay between 0 and 1 for any score', () => {
+      expect(getWinProbability(100000)).toBeLessThanOrEqual(1);
+      expect(getWinProbability(-100000)).toBeGreaterThanOrEqual(0);
+      expect(getWinProbability(-500)).toBeGreaterThan(0);
+    });
+  });
+
   describe('Evaluation Weights', () => {
     it('should use custom weights when provided', () => {
       const board = createEmptyBoard();
-      placePiece(board, 2, 1, 'agatha', 'king');
-      placePiece(board, 5, 2, 'human', 'man');
+      placePiece(board, 2, 1, 'white', 'king');
+      placePiece(board, 5, 2, 'black', 'man');
       
       const defaultScore = evaluateBoard(board);
       
@@ -0,0 +1,109 @@
+/**
+ * Tests for fen.ts - Position setup strings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFen, boardToFen, FenError, INITIAL_FEN } from '../src/game/fen';
+import {
+  createInitialBoard,
+  getPieceAt,
+  squareToPosition,
+  countPieces,
+  validateBoard,
+} from '../src/game/board';
+import { INTERNATIONAL_BOARD } from '../src/types';
+
+describe('fen.ts', () => {
+  describe('parseFen', () => {
+    it('should parse the example position', () => {
+      const { board, sideToMove } = parseFen('W:W21,22,K30:B1,2,K9');
+
+      expect(sideToMove).toBe('white');
+      expect(validateBoard(board)).toBe(true);
+      expect(countPieces(board, 'white')).toBe(3);
+      expect(countPieces(board, 'black')).toBe(3);
+      expect(getPieceAt(board, squareToPosition(30)!)).toMatchObject({ player: 'white', type: 'king' });
+      expect(getPieceAt(board, squareToPosition(9)!)).toMatchObject({ player: 'black', type: 'king' });
+      expect(getPieceAt(board, squareToPosition(1)!)).toMatchObject({ player: 'black', type: 'man' });
+    });
+
+    it('should match the standard starting position', () => {
+      const { board, sideToMove } = parseFen(INITIAL_FEN);
+
+      expect(sideToMove).toBe('black');
+      expect(board).toEqual(createInitialBoard());
+    });
+
+    it('should expand square ranges', () => {
+      const { board } = parseFen('B:W21-32:B1-12');
+
+      expect(board).toEqual(createInitialBoard());
+    });
+
+    it('should tolerate a trailing period and lowercase kings', () => {
+      const { board } = parseFen('B:Wk30:B1.');
+
+      expect(getPieceAt(board, squareToPosition(30)!)!.type).toBe('king');
+    });
+
+    it('should accept an empty piece list', () => {
+      const { board } = parseFen('B:W:B1');
+
+      expect(countPieces(board, 'white')).toBe(0);
+      expect(countPieces(board, 'black')).toBe(1);
+    });
+
+    it('should reject an invalid side to move', () => {
+      expect(() => parseFen('X:W21:B1')).toThrow(FenError);
+    });
+
+    it('should reject squares off the board', () => {
+      expect(() => parseFen('B:W33:B1')).toThrow(/off the board/);
+    });
+
+    it('should reject doubly occupied squares', () => {
+      expect(() => parseFen('B:W21:B21')).toThrow(/occupied twice/);
+    });
+
+    it('should reject men on their promotion row', () => {
+      // Square 1 is on the human back row, Agatha promotes there
+      expect(() => parseFen('B:W1:B9')).toThrow(/already be a king/);
+    });
+
+    it('should number squares 1-50 on a 10x10 board', () => {
+      const { board } = parseFen('W:W31-50:B1-20', 10);
+
+      expect(board.length).toBe(10);
+      expect(board).toEqual(createInitialBoard(INTERNATIONAL_BOARD));
+      expect(() => parseFen('B:W51:B1', 10)).toThrow(/off the board/);
+      expect(() => parseFen('B:W40:B1')).toThrow(/off the board/);
+    });
+
+    it('should reject malformed entries', () => {
+      expect(() => parseFen('B:Wabc:B1')).toThrow(/Invalid square/);
+      expect(() => parseFen('B:X21:B1')).toThrow(/Invalid piece list/);
+    });
+  });
+
+  describe('boardToFen', () => {
+    it('should serialize the starting position', () => {
+      expect(boardToFen(createInitialBoard(), 'black')).toBe(INITIAL_FEN);
+    });
+
+    it('should round-trip kings and side to move', () => {
+      const fen = 'W:W21,22,K30:B1,2,K9';
+
+      const { board, sideToMove } = parseFen(fen);
+
+      expect(boardToFen(board, sideToMove)).toBe(fen);
+    });
+
+    it('should round-trip a 10x10 position', () => {
+      const fen = 'B:W35,K50:B1,K46';
+
+      const { board, sideToMove } = parseFen(fen, 10);
+
+      expect(boardToFen(board, sideToMove)).toBe(fen);
+    });
+  });
+});
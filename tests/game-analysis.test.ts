@@ -0,0 +1,142 @@
+/**
+ * Tests for game-analysis.ts - Post-game reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeGame, replayGame, recordToMove } from '../src/ai/game-analysis';
+import { GameController } from '../src/game/game-controller';
+import { createInitialBoard, cloneBoard } from '../src/game/board';
+import { getAllValidMoves, simulateMove } from '../src/game/rules';
+import { Piece, Move, BOARD_SIZE } from '../src/types';
+
+/**
+ * Helper to create an empty board
+ */
+function createEmptyBoard(): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Helper to place a piece on the board
+ */
+function placePiece(
+  board: (Piece | null)[][],
+  row: number,
+  col: number,
+  player: 'black' | 'white',
+  type: 'man' | 'king' = 'man'
+): Piece {
+  const piece: Piece = { player, type, position: { row, col } };
+  board[row][col] = piece;
+  return piece;
+}
+
+/**
+ * Helper playing the first legal move for each side in turn
+ */
+function playOpening(plies: number): Move[] {
+  const moves: Move[] = [];
+  let board = createInitialBoard();
+  for (let ply = 0; ply < plies; ply++) {
+    const [move] = getAllValidMoves(board, ply % 2 === 0 ? 'black' : 'white');
+    moves.push(move);
+    board = simulateMove(board, move);
+  }
+  return moves;
+}
+
+/**
+ * Helper building a position where Black wins by stepping to (2, 5): White
+ * must take and Black takes White's last man back
+ */
+function createWinningPosition(): (Piece | null)[][] {
+  const board = createEmptyBoard();
+  placePiece(board, 1, 4, 'white');
+  placePiece(board, 3, 6, 'black');
+  placePiece(board, 4, 7, 'black');
+  return board;
+}
+
+describe('game-analysis.ts', () => {
+  describe('recordToMove', () => {
+    it('should rebuild the move a record was made from', () => {
+      const game = new GameController();
+      const [move] = game.getAllCurrentPlayerMoves();
+
+      game.makeMove(move);
+
+      expect(recordToMove(game.moveHistory[0])).toEqual(move);
+    });
+  });
+
+  describe('replayGame', () => {
+    it('should list the start position and the position after each move', () => {
+      const board = createInitialBoard();
+      const original = cloneBoard(board);
+      const moves = playOpening(3);
+
+      const positions = replayGame(board, moves);
+
+      expect(positions.length).toBe(4);
+      expect(positions[0]).toBe(board);
+      expect(positions[3]).toEqual(simulateMove(positions[2], moves[2]));
+      expect(board).toEqual(original);
+    });
+  });
+
+  describe('analyzeGame', () => {
+    it('should grade every move for the side that made it', () => {
+      const moves = playOpening(4);
+
+      const analysis = analyzeGame(createInitialBoard(), moves, { depth: 2 });
+
+      expect(analysis.plies.map(entry => entry.player)).toEqual(['black', 'white', 'black', 'white']);
+      expect(analysis.plies.map(entry => entry.move)).toEqual(moves);
+      for (const side of ['black', 'white'] as const) {
+        expect(analysis.accuracy[side]).toBeGreaterThanOrEqual(0);
+        expect(analysis.accuracy[side]).toBeLessThanOrEqual(100);
+      }
+    });
+
+    it('should report a let-go win as a missed win and a turning point', () => {
+      const board = createWinningPosition();
+      const miss = getAllValidMoves(board, 'black').find(m => m.to.col === 7)!;
+
+      const analysis = analyzeGame(board, [miss]);
+
+      expect(analysis.missedWins).toEqual([0]);
+      expect(analysis.turningPoints).toEqual([0]);
+      expect(analysis.plies[0].annotation.quality).toBe('blunder');
+      expect(analysis.plies[0].annotation.bestMove?.to).toEqual({ row: 2, col: 5 });
+      expect(analysis.accuracy.black).toBe(0);
+    });
+
+    it('should score the evaluation for White', () => {
+      const board = createWinningPosition();
+      const win = getAllValidMoves(board, 'black').find(m => m.to.col === 5)!;
+
+      const analysis = analyzeGame(board, [win]);
+
+      expect(analysis.plies[0].evaluation).toBeLessThan(0);
+      expect(analysis.plies[0].annotation.quality).toBe('best');
+      expect(analysis.missedWins).toEqual([]);
+    });
+
+    it('should leave forced moves out of the accuracy', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 0, 'black');
+      placePiece(board, 0, 7, 'white');
+      const [move] = getAllValidMoves(board, 'black');
+
+      const analysis = analyzeGame(board, [move]);
+
+      expect(analysis.plies[0].forced).toBe(true);
+      expect(analysis.accuracy).toEqual({ black: 100, white: 100 });
+      expect(analysis.turningPoints).toEqual([]);
+    });
+  });
+});
@@ -5,6 +5,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GameController, createGameController } from '../src/game/game-controller';
 import { Move, Piece, INITIAL_PIECE_COUNT } from '../src/types';
+import { parseFen } from '../src/game/fen';
+import { createInitialBoard } from '../src/game/board';
+import { AMERICAN_RULES, INTERNATIONAL_RULES, ITALIAN_RULES } from '../src/game/variants';
 
 describe('GameController', () => {
   let game: GameController;
@@ -15,7 +18,7 @@ describe('GameController', () => {
 
   describe('Initialization', () => {
     it('should create game with initial state', () => {
-      expect(game.currentPlayer).toBe('human');
+      expect(game.currentPlayer).toBe('black');
       expect(game.status).toBe('playing');
       expect(game.isGameOver).toBe(false);
       expect(game.selectedPiece).toBeNull();
@@ -24,8 +27,8 @@ describe('GameController', () => {
     });
 
     it('should have correct initial piece counts', () => {
-      expect(game.state.humanPieceCount).toBe(INITIAL_PIECE_COUNT);
-      expect(game.state.agathaPieceCount).toBe(INITIAL_PIECE_COUNT);
+      expect(game.state.blackPieceCount).toBe(INITIAL_PIECE_COUNT);
+      expect(game.state.whitePieceCount).toBe(INITIAL_PIECE_COUNT);
     });
 
     it('should have valid initial board', () => {
@@ -41,7 +44,7 @@ describe('GameController', () => {
       
       expect(result).toBe(true);
       expect(game.selectedPiece).not.toBeNull();
-      expect(game.selectedPiece!.player).toBe('human');
+      expect(game.selectedPiece!.player).toBe('black');
       expect(game.validMoves.length).toBeGreaterThan(0);
     });
 
@@ -98,9 +101,9 @@ describe('GameController', () => {
       game.selectPiece({ row: 5, col: 0 });
       const move = game.validMoves[0];
       
-      expect(game.currentPlayer).toBe('human');
+      expect(game.currentPlayer).toBe('black');
       game.makeMove(move);
-      expect(game.currentPlayer).toBe('agatha');
+      expect(game.currentPlayer).toBe('white');
     });
 
     it('should record move in history', () => {
@@ -110,7 +113,7 @@ describe('GameController', () => {
       game.makeMove(move);
       
       expect(game.moveHistory.length).toBe(1);
-      expect(game.moveHistory[0].player).toBe('human');
+      expect(game.moveHistory[0].player).toBe('black');
       expect(game.moveHistory[0].from).toEqual(move.from);
       expect(game.moveHistory[0].to).toEqual(move.to);
     });
@@ -127,12 +130,37 @@ describe('GameController', () => {
 
     it('should not allow move when game is over', () => {
       // Manually set game over
-      (game as any)._state.status = 'human_wins';
+      (game as any)._state.status = 'black_wins';
       
       game.selectPiece({ row: 5, col: 0 });
       
       expect(game.isGameOver).toBe(true);
     });
+
+    it('should only play a move whose whole route is legal', () => {
+      // Two captures lead from (6,3) to (2,3), around either side
+      game.startFromPosition(parseFen('B:W10,11,18,19:B7'));
+      const [left, right] = game.getAllCurrentPlayerMoves();
+
+      expect(game.makeMove({ ...left, captures: right.captures })).toBe(false);
+      expect(game.makeMove({ ...left, landings: [left.to] })).toBe(false);
+      expect(game.makeMove({ ...right, capturedTypes: [] })).toBe(true);
+
+      expect(game.moveHistory[0].landings).toEqual(right.landings);
+      expect(game.moveHistory[0].capturedTypes).toEqual(['man', 'man']);
+      expect(game.board[left.captures[0].row][left.captures[0].col]).not.toBeNull();
+    });
+
+    it('should leave the route to a shared destination to the caller', () => {
+      game.startFromPosition(parseFen('B:W10,11,18,19:B7'));
+      game.selectPiece({ row: 6, col: 3 });
+
+      expect(game.getMovesToDestination({ row: 2, col: 3 }).length).toBe(2);
+      expect(game.getMoveToDestination({ row: 2, col: 3 })).toBeNull();
+      expect(game.selectPiece({ row: 2, col: 3 })).toBe(false);
+      expect(game.moveHistory).toEqual([]);
+      expect(game.selectedPiece).not.toBeNull();
+    });
   });
 
   describe('Event Callbacks', () => {
@@ -144,7 +172,7 @@ describe('GameController', () => {
       game.makeMove(game.validMoves[0]);
       
       expect(onMove).toHaveBeenCalledTimes(1);
-      expect(onMove).toHaveBeenCalledWith(expect.any(Object), 'human');
+      expect(onMove).toHaveBeenCalledWith(expect.any(Object), 'black');
     });
 
     it('should call onTurnChange callback', () => {
@@ -154,7 +182,7 @@ describe('GameController', () => {
       game.selectPiece({ row: 5, col: 0 });
       game.makeMove(game.validMoves[0]);
       
-      expect(onTurnChange).toHaveBeenCalledWith('agatha');
+      expect(onTurnChange).toHaveBeenCalledWith('white');
     });
 
     it('should call onStateChange callback', () => {
@@ -176,34 +204,34 @@ describe('GameController', () => {
       // Reset
       game.reset();
       
-      expect(game.currentPlayer).toBe('human');
+      expect(game.currentPlayer).toBe('black');
       expect(game.status).toBe('playing');
       expect(game.moveHistory).toEqual([]);
-      expect(game.state.humanPieceCount).toBe(INITIAL_PIECE_COUNT);
-      expect(game.state.agathaPieceCount).toBe(INITIAL_PIECE_COUNT);
+      expect(game.state.blackPieceCount).toBe(INITIAL_PIECE_COUNT);
+      expect(game.state.whitePieceCount).toBe(INITIAL_PIECE_COUNT);
     });
   });
 
   describe('Game Over Detection', () => {
-    it('should detect when human has no pieces', () => {
+    it('should detect when Black has no pieces', () => {
       // Manually remove all human pieces
       const state = (game as any)._state;
       for (let row = 0; row < 8; row++) {
         for (let col = 0; col < 8; col++) {
           const piece = state.board[row][col];
-          if (piece && piece.player === 'human') {
+          if (piece && piece.player === 'black') {
             state.board[row][col] = null;
           }
         }
       }
-      state.humanPieceCount = 0;
+      state.blackPieceCount = 0;
       
       // Trigger game over check by making an Agatha move (simulate)
-      state.currentPlayer = 'agatha';
+      state.currentPlayer = 'white';
       const result = (game as any)._checkGameOver();
       
       expect(result).toBe(true);
-      expect(game.status).toBe('agatha_wins');
+      expect(game.status).toBe('white_wins');
     });
 
     it('should detect when Agatha has no pieces', () => {
@@ -211,17 +239,116 @@ describe('GameController', () => {
       for (let row = 0; row < 8; row++) {
         for (let col = 0; col < 8; col++) {
           const piece = state.board[row][col];
-          if (piece && piece.player === 'agatha') {
+          if (piece && piece.player === 'white') {
             state.board[row][col] = null;
           }
         }
       }
-      state.agathaPieceCount = 0;
+      state.whitePieceCount = 0;
       
       const result = (game as any)._checkGameOver();
       
       expect(result).toBe(true);
-      expect(game.status).toBe('human_wins');
+      expect(game.status).toBe('black_wins');
+    });
+  });
+
+  describe('Draw Detection', () => {
+    /**
+     * Replaces the board with a lone king for each side
+     */
+    function setupKingsOnly(controller: GameController): void {
+      const state = (controller as any)._state;
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+          state.board[row][col] = null;
+        }
+      }
+      state.board[5][0] = { player: 'black', type: 'king', position: { row: 5, col: 0 } };
+      state.board[0][7] = { player: 'white', type: 'king', position: { row: 0, col: 7 } };
+      state.blackPieceCount = 1;
+      state.whitePieceCount = 1;
+      (controller as any)._resetDrawTracking();
+    }
+
+    function kingMove(fromRow: number, fromCol: number, toRow: number, toCol: number): Move {
+      return {
+        from: { row: fromRow, col: fromCol },
+        to: { row: toRow, col: toCol },
+        captures: [],
+        landings: [{ row: toRow, col: toCol }],
+        capturedTypes: [],
+        isPromotion: false,
+      };
+    }
+
+    const shuffle: Move[] = [
+      kingMove(5, 0, 4, 1),
+      kingMove(0, 7, 1, 6),
+      kingMove(4, 1, 5, 0),
+      kingMove(1, 6, 0, 7),
+    ];
+
+    it('should declare a draw on threefold repetition', () => {
+      setupKingsOnly(game);
+      const onGameOver = vi.fn();
+      game.on('onGameOver', onGameOver);
+
+      // The starting position recurs after every 4 plies
+      for (let ply = 0; ply < 7; ply++) {
+        expect(game.makeMove(shuffle[ply % 4])).toBe(true);
+        expect(game.status).toBe('playing');
+      }
+      game.makeMove(shuffle[3]);
+
+      expect(game.status).toBe('draw');
+      expect(game.result).toEqual({ status: 'draw', reason: 'threefold_repetition' });
+      expect(onGameOver).toHaveBeenCalledWith({ status: 'draw', reason: 'threefold_repetition' });
+      expect(game.getWinnerMessage()).toContain('repeats');
+    });
+
+    it('should declare a draw after 40 moves per side without progress', () => {
+      setupKingsOnly(game);
+      (game as any)._noProgressPlies = 79;
+
+      game.makeMove(shuffle[0]);
+
+      expect(game.status).toBe('draw');
+      expect(game.result?.reason).toBe('no_progress');
+    });
+
+    it('should reset the no-progress count on a man move', () => {
+      (game as any)._noProgressPlies = 79;
+
+      game.selectPiece({ row: 5, col: 0 });
+      game.makeMove(game.validMoves[0]);
+
+      expect(game.status).toBe('playing');
+      expect((game as any)._noProgressPlies).toBe(0);
+    });
+
+    it('should restore draw tracking on undo', () => {
+      setupKingsOnly(game);
+      for (let ply = 0; ply < 8; ply++) {
+        game.makeMove(shuffle[ply % 4]);
+      }
+      expect(game.status).toBe('draw');
+
+      game.undo();
+
+      expect(game.status).toBe('playing');
+      expect(game.result).toBeNull();
+      game.makeMove(shuffle[3]);
+      expect(game.result?.reason).toBe('threefold_repetition');
+    });
+
+    it('should report the reason for wins', () => {
+      const state = (game as any)._state;
+      state.blackPieceCount = 0;
+
+      (game as any)._checkGameOver();
+
+      expect(game.result).toEqual({ status: 'white_wins', reason: 'no_pieces' });
     });
   });
 
@@ -232,7 +359,7 @@ describe('GameController', () => {
       expect(moves.length).toBeGreaterThan(0);
       moves.forEach(move => {
         const piece = game.board[move.from.row][move.from.col];
-        expect(piece?.player).toBe('human');
+        expect(piece?.player).toBe('black');
       });
     });
 
@@ -241,7 +368,7 @@ describe('GameController', () => {
       
       expect(pieces.length).toBeGreaterThan(0);
       pieces.forEach(piece => {
-        expect(piece.player).toBe('human');
+        expect(piece.player).toBe('black');
       });
     });
 
@@ -279,15 +406,298 @@ describe('GameController', () => {
       expect(history[0]).toContain('You');
     });
 
+    it('should record and format the full multi-jump route', () => {
+      game.startFromPosition(parseFen('B:W8,K15:B4'));
+
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+
+      const record = game.moveHistory[0];
+      expect(record.landings).toEqual([{ row: 5, col: 2 }, { row: 3, col: 4 }]);
+      expect(record.capturedTypes).toEqual(['man', 'king']);
+      expect(game.getFormattedHistory()[0]).toBe('1. You: a1 x c3 x e5 (1 king)');
+    });
+
     it('should return winner message', () => {
       expect(game.getWinnerMessage()).toBe('');
       
-      (game as any)._state.status = 'human_wins';
+      (game as any)._state.status = 'black_wins';
       expect(game.getWinnerMessage()).toContain('defeated');
       
-      (game as any)._state.status = 'agatha_wins';
+      (game as any)._state.status = 'white_wins';
       expect(game.getWinnerMessage()).toContain('Agatha');
     });
+
+    it('should address the winner message to a person playing White', () => {
+      (game as any)._state.status = 'white_wins';
+      expect(game.getWinnerMessage('white')).toContain('defeated');
+
+      (game as any)._state.status = 'black_wins';
+      expect(game.getWinnerMessage('white')).toContain('foresaw');
+    });
+
+    it('should name the sides in the move history as given', () => {
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+
+      const history = game.getFormattedHistory({ black: 'Agatha', white: 'You' });
+
+      expect(history[0]).toMatch(/^1\. Agatha: /);
+      expect(history[1]).toMatch(/^1\. You: /);
+    });
+
+    it('should mark judged moves with their quality glyph', () => {
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+
+      expect(game.annotateMove(game.moveHistory[0], { quality: 'blunder', loss: 150, bestMove: null })).toBe(true);
+      game.annotateMove(game.moveHistory[1], { quality: 'good', loss: 10, bestMove: null });
+
+      const history = game.getFormattedHistory();
+      expect(history[0]).toMatch(/ \?\?$/);
+      expect(history[1]).toMatch(/\d$/);
+    });
+
+    it('should keep annotations through undo and redo', () => {
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+      const record = game.moveHistory[0];
+      game.undo();
+
+      game.annotateMove(record, { quality: 'best', loss: 0, bestMove: null });
+      game.redo();
+
+      expect(game.moveHistory[0].annotation?.quality).toBe('best');
+      expect(game.getFormattedHistory()[0]).toMatch(/ !$/);
+    });
+
+    it('should not annotate a move that is no longer part of the game', () => {
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+      const record = game.moveHistory[0];
+      game.reset();
+
+      expect(game.annotateMove(record, { quality: 'best', loss: 0, bestMove: null })).toBe(false);
+    });
+  });
+
+  describe('Custom Start Position', () => {
+    it('should start from a FEN position with Agatha to move', () => {
+      game.startFromPosition(parseFen('W:W21,22,K30:B1,2,K9'));
+
+      expect(game.currentPlayer).toBe('white');
+      expect(game.state.blackPieceCount).toBe(3);
+      expect(game.state.whitePieceCount).toBe(3);
+      expect(game.getAllCurrentPlayerMoves().length).toBeGreaterThan(0);
+    });
+
+    it('should accept a start position in the constructor', () => {
+      const controller = new GameController(parseFen('W:W21:B1'));
+
+      expect(controller.currentPlayer).toBe('white');
+      expect(controller.startPosition).not.toBeNull();
+    });
+
+    it('should not modify the start position while playing', () => {
+      const position = parseFen('B:W21:B1,2');
+      game.startFromPosition(position);
+
+      game.makeMove(game.getAllCurrentPlayerMoves()[0]);
+      game.undo();
+
+      expect(game.board).toEqual(position.board);
+      expect(game.canUndo).toBe(false);
+    });
+
+    it('should end immediately if the side to move cannot play', () => {
+      // Agatha is to move without any pieces left
+      game.startFromPosition(parseFen('W:W:B1'));
+
+      expect(game.isGameOver).toBe(true);
+      expect(game.result).toEqual({ status: 'black_wins', reason: 'no_pieces' });
+    });
+
+    it('should return to the standard opening on reset', () => {
+      game.startFromPosition(parseFen('W:W21:B1'));
+
+      game.reset();
+
+      expect(game.startPosition).toBeNull();
+      expect(game.board).toEqual(createInitialBoard());
+      expect(game.currentPlayer).toBe('black');
+    });
+  });
+
+  describe('Undo/Redo', () => {
+    /**
+     * Plays the first valid move for the current player
+     */
+    function playFirstMove(controller: GameController): Move {
+      const move = controller.getAllCurrentPlayerMoves()[0];
+      controller.makeMove(move);
+      return move;
+    }
+
+    it('should not undo or redo at the start of a game', () => {
+      expect(game.canUndo).toBe(false);
+      expect(game.canRedo).toBe(false);
+      expect(game.undo()).toBe(false);
+      expect(game.redo()).toBe(false);
+    });
+
+    it('should restore board, counts and turn on undo', () => {
+      const initialBoard = game.getBoardCopy();
+      playFirstMove(game);
+
+      expect(game.undo()).toBe(true);
+
+      expect(game.board).toEqual(initialBoard);
+      expect(game.currentPlayer).toBe('black');
+      expect(game.moveHistory).toEqual([]);
+      expect(game.state.blackPieceCount).toBe(INITIAL_PIECE_COUNT);
+      expect(game.canUndo).toBe(false);
+      expect(game.canRedo).toBe(true);
+    });
+
+    it('should reapply the undone move on redo', () => {
+      const move = playFirstMove(game);
+      const afterMove = game.getBoardCopy();
+      game.undo();
+
+      expect(game.redo()).toBe(true);
+
+      expect(game.board).toEqual(afterMove);
+      expect(game.currentPlayer).toBe('white');
+      expect(game.moveHistory.length).toBe(1);
+      expect(game.moveHistory[0].from).toEqual(move.from);
+    });
+
+    it('should roll back the human move and Agatha reply together', () => {
+      const initialBoard = game.getBoardCopy();
+      playFirstMove(game);
+      playFirstMove(game);
+
+      game.undo('black');
+
+      expect(game.board).toEqual(initialBoard);
+      expect(game.currentPlayer).toBe('black');
+      expect(game.moveHistory).toEqual([]);
+
+      game.redo('black');
+
+      expect(game.currentPlayer).toBe('black');
+      expect(game.moveHistory.length).toBe(2);
+    });
+
+    it('should restore game status', () => {
+      playFirstMove(game);
+      (game as any)._state.status = 'black_wins';
+
+      game.undo();
+
+      expect(game.status).toBe('playing');
+      expect(game.isGameOver).toBe(false);
+    });
+
+    it('should not share board objects with the timeline', () => {
+      playFirstMove(game);
+      game.undo();
+      game.board[5][0] = null;
+
+      game.redo();
+      game.undo();
+
+      expect(game.board[5][0]).not.toBeNull();
+    });
+
+    it('should discard redo states after a new move', () => {
+      playFirstMove(game);
+      game.undo();
+      expect(game.canRedo).toBe(true);
+
+      playFirstMove(game);
+
+      expect(game.canRedo).toBe(false);
+    });
+
+    it('should emit onHistoryChange', () => {
+      const onHistoryChange = vi.fn();
+      game.on('onHistoryChange', onHistoryChange);
+
+      playFirstMove(game);
+      expect(onHistoryChange).toHaveBeenLastCalledWith(true, false);
+
+      game.undo();
+      expect(onHistoryChange).toHaveBeenLastCalledWith(false, true);
+
+      game.reset();
+      expect(onHistoryChange).toHaveBeenLastCalledWith(false, false);
+    });
+  });
+
+  describe('Rule Variants', () => {
+    it('should play American rules by default', () => {
+      expect(game.rules).toBe(AMERICAN_RULES);
+    });
+
+    it('should let kings fly under International rules', () => {
+      const position = parseFen('B:W29:BK4');
+      const international = new GameController(position, INTERNATIONAL_RULES);
+      const american = new GameController(position);
+
+      international.selectPiece({ row: 7, col: 0 });
+      american.selectPiece({ row: 7, col: 0 });
+
+      expect(international.validMoves.length).toBe(6);
+      expect(american.validMoves.length).toBe(1);
+    });
+
+    it('should refuse moves the variant does not allow', () => {
+      // Italian men may not capture the king, so the man is free to step aside
+      game.reset(ITALIAN_RULES);
+      game.startFromPosition(parseFen('B:WK15:B11'));
+
+      const moves = game.getAllCurrentPlayerMoves();
+      expect(moves.every(move => move.captures.length === 0)).toBe(true);
+
+      game.startFromPosition(parseFen('B:WK15:B11'), AMERICAN_RULES);
+      expect(game.getAllCurrentPlayerMoves().every(move => move.captures.length === 1)).toBe(true);
+      expect(game.makeMove(moves[0])).toBe(false);
+    });
+
+    it('should keep the rules across resets until others are given', () => {
+      game.reset(INTERNATIONAL_RULES);
+      game.reset();
+      game.startFromPosition(parseFen('B:W21:B1'));
+
+      expect(game.rules).toBe(INTERNATIONAL_RULES);
+
+      game.reset(AMERICAN_RULES);
+      expect(game.rules).toBe(AMERICAN_RULES);
+    });
+
+    it('should set up the 10x10 board for International rules', () => {
+      game.reset(INTERNATIONAL_RULES);
+
+      expect(game.board.length).toBe(10);
+      expect(game.state.blackPieceCount).toBe(20);
+      expect(game.state.whitePieceCount).toBe(20);
+      expect(game.getAllCurrentPlayerMoves().length).toBe(9);
+
+      game.reset(AMERICAN_RULES);
+      expect(game.board.length).toBe(8);
+    });
+
+    it('should name 10x10 squares in the move history', () => {
+      game.reset(INTERNATIONAL_RULES);
+      const move = game.getAllCurrentPlayerMoves().find(m => m.from.row === 3 && m.from.col === 0)!;
+
+      game.makeMove(move);
+
+      expect(game.getFormattedHistory()[0]).toBe('1. Agatha: a7 -> b6');
+    });
+
+    it('should pass the rules through the factory', () => {
+      expect(createGameController(null, ITALIAN_RULES).rules).toBe(ITALIAN_RULES);
+    });
   });
 
   describe('createGameController factory', () => {
@@ -295,7 +705,7 @@ describe('GameController', () => {
       const controller = createGameController();
       
       expect(controller).toBeInstanceOf(GameController);
-      expect(controller.currentPlayer).toBe('human');
+      expect(controller.currentPlayer).toBe('black');
     });
   });
 });
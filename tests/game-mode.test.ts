@@ -0,0 +1,66 @@
+/**
+ * Tests for game-mode.ts - Who moves each side
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GAME_MODES,
+  DEFAULT_GAME_MODE,
+  isGameMode,
+  isPieceColor,
+  getGameMode,
+  isEngineSide,
+} from '../src/game/game-mode';
+
+describe('game-mode.ts', () => {
+  it('should key every mode by its own name', () => {
+    for (const [mode, settings] of Object.entries(GAME_MODES)) {
+      expect(settings.mode).toBe(mode);
+      expect(getGameMode(settings.mode)).toBe(settings);
+    }
+  });
+
+  it('should play against Agatha by default', () => {
+    expect(isEngineSide(DEFAULT_GAME_MODE, 'white')).toBe(true);
+    expect(isEngineSide(DEFAULT_GAME_MODE, 'black')).toBe(false);
+  });
+
+  it('should leave both sides to people in hot-seat games', () => {
+    expect(isEngineSide('human-vs-human', 'black')).toBe(false);
+    expect(isEngineSide('human-vs-human', 'white')).toBe(false);
+  });
+
+  it('should let the engine move both sides when Agatha plays herself', () => {
+    expect(isEngineSide('agatha-vs-agatha', 'black')).toBe(true);
+    expect(isEngineSide('agatha-vs-agatha', 'white')).toBe(true);
+  });
+
+  it('should name the sides by color when no single person plays', () => {
+    expect(getGameMode('human-vs-human').sideNames).toEqual({ black: 'Black', white: 'White' });
+    expect(getGameMode('human-vs-agatha').sideNames.black).toBe('You');
+  });
+
+  it('should hand Black and the first move to Agatha when the person plays White', () => {
+    expect(isEngineSide('human-vs-agatha', 'black', 'white')).toBe(true);
+    expect(isEngineSide('human-vs-agatha', 'white', 'white')).toBe(false);
+    expect(getGameMode('human-vs-agatha', 'white').sideNames).toEqual({ black: 'Agatha', white: 'You' });
+  });
+
+  it('should ignore the person\'s color when nobody plays Agatha', () => {
+    expect(getGameMode('human-vs-human', 'white')).toBe(GAME_MODES['human-vs-human']);
+    expect(isEngineSide('agatha-vs-agatha', 'black', 'white')).toBe(true);
+  });
+
+  it('should recognize saved colors', () => {
+    expect(isPieceColor('white')).toBe(true);
+    expect(isPieceColor('red')).toBe(false);
+    expect(isPieceColor(null)).toBe(false);
+  });
+
+  it('should recognize saved mode names', () => {
+    expect(isGameMode('human-vs-human')).toBe(true);
+    expect(isGameMode('agatha-vs-human')).toBe(false);
+    expect(isGameMode('toString')).toBe(false);
+    expect(isGameMode(null)).toBe(false);
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for minimax.ts - AI decision-making
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
 import {
   getBestMove,
   getBestMoveWithDepth,
@@ -10,9 +10,23 @@ import {
   evaluateMove,
   getTopMoves,
   getNodesEvaluated,
+  getTranspositionStats,
+  clearTranspositionTable,
+  iterativeDeepeningSearch,
+  search,
+  setEvaluationWeights,
+  getEvaluationWeights,
+  setRules,
+  getRules,
 } from '../src/ai/minimax';
+import { getOpeningBook } from '../src/ai/opening-book';
+import { setTablebase } from '../src/ai/tablebase';
+import { generateTablebase } from '../src/ai/tablebase-generator';
+import { fromBoard } from '../src/ai/bitboard';
 import { createInitialBoard } from '../src/game/board';
-import { Piece, Move, BOARD_SIZE, AI_SEARCH_DEPTH } from '../src/types';
+import { getAllValidMoves, simulateMove } from '../src/game/rules';
+import { AMERICAN_RULES, INTERNATIONAL_RULES, RUSSIAN_RULES, POOL_RULES } from '../src/game/variants';
+import { Piece, Move, BOARD_SIZE, AI_SEARCH_DEPTH, DEFAULT_WEIGHTS, INTERNATIONAL_BOARD } from '../src/types';
 
 /**
  * Helper to create an empty board
@@ -32,7 +46,7 @@ function placePiece(
   board: (Piece | null)[][],
   row: number,
   col: number,
-  player: 'human' | 'agatha',
+  player: 'black' | 'white',
   type: 'man' | 'king' = 'man'
 ): Piece {
   const piece: Piece = { player, type, position: { row, col } };
@@ -54,13 +68,13 @@ describe('minimax.ts', () => {
       // Should be Agatha's piece moving
       const piece = board[move!.from.row][move!.from.col];
       expect(piece).not.toBeNull();
-      expect(piece!.player).toBe('agatha');
+      expect(piece!.player).toBe('white');
     });
 
     it('should return null when no moves available', () => {
       const board = createEmptyBoard();
       // Agatha has no pieces
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 5, 2, 'black');
       
       const move = getBestMove(board);
       
@@ -70,8 +84,8 @@ describe('minimax.ts', () => {
     it('should return the only move when only one is available', () => {
       const board = createEmptyBoard();
       // Agatha has one piece in corner with one move
-      placePiece(board, 0, 1, 'agatha');
-      placePiece(board, 7, 0, 'human');
+      placePiece(board, 0, 1, 'white');
+      placePiece(board, 7, 0, 'black');
       
       const move = getBestMove(board);
       
@@ -85,10 +99,10 @@ describe('minimax.ts', () => {
     it('should choose capture when available', () => {
       const board = createEmptyBoard();
       // Set up a capture opportunity
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 3, 4, 'human');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 4, 'black');
       // Another human piece far away
-      placePiece(board, 7, 0, 'human');
+      placePiece(board, 7, 0, 'black');
       
       const move = getBestMove(board);
       
@@ -96,6 +110,18 @@ describe('minimax.ts', () => {
       expect(move!.captures.length).toBeGreaterThan(0);
     });
 
+    it('should search for Black when asked', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 3, 6, 'white'); // Takes a man stepping to (4, 5)
+      placePiece(board, 0, 1, 'white');
+
+      const move = getBestMove(board, 4, 'black');
+
+      expect(getAllValidMoves(board, 'black')).toContainEqual(move);
+      expect(move!.to).toEqual({ row: 4, col: 3 });
+    });
+
     it('should track nodes evaluated', () => {
       const board = createInitialBoard();
       
@@ -106,6 +132,456 @@ describe('minimax.ts', () => {
     });
   });
 
+  describe('Opening Book', () => {
+    it('should play a book move without searching', () => {
+      const start = createInitialBoard();
+      const board = simulateMove(start, getOpeningBook().lookup(start, 'black')[0].move);
+
+      const move = getBestMove(board);
+
+      const known = getOpeningBook().lookup(board, 'white').map(book => book.move);
+      expect(known).toContainEqual(move);
+      expect(getNodesEvaluated()).toBe(0);
+    });
+
+    it('should open from the book for Black', () => {
+      const board = createInitialBoard();
+
+      const move = getBestMove(board, AI_SEARCH_DEPTH, 'black');
+
+      expect(getOpeningBook().lookup(board, 'black').map(book => book.move)).toContainEqual(move);
+    });
+  });
+
+  describe('Endgame Tablebase', () => {
+    const tablebase = generateTablebase(3);
+
+    beforeAll(() => {
+      setTablebase(tablebase);
+      clearTranspositionTable();
+    });
+
+    afterAll(() => {
+      setTablebase(null);
+      clearTranspositionTable();
+    });
+
+    it('should convert two kings against one', () => {
+      let board = createEmptyBoard();
+      placePiece(board, 0, 1, 'white', 'king');
+      placePiece(board, 1, 0, 'white', 'king');
+      placePiece(board, 7, 6, 'black', 'king');
+      const distance = tablebase.probe(fromBoard(board), 'white')!.distance;
+
+      let plies = 0;
+      while (getAllValidMoves(board, 'black').length > 0 && plies <= distance) {
+        board = simulateMove(board, getBestMove(board, 4)!);
+        plies++;
+        const replies = getTopMoves(board, 'black', 1);
+        if (replies.length === 0) {
+          break;
+        }
+        board = simulateMove(board, replies[0].move);
+        plies++;
+      }
+
+      expect(plies).toBeLessThanOrEqual(distance);
+    });
+
+    it('should hold a drawn endgame', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 0, 1, 'white', 'king');
+      placePiece(board, 4, 3, 'black', 'king');
+      expect(tablebase.probe(fromBoard(board), 'white')!.outcome).toBe('draw');
+
+      const move = getBestMove(board, 4)!;
+
+      expect(tablebase.probe(fromBoard(simulateMove(board, move)), 'black')!.outcome).toBe('draw');
+      expect(getNodesEvaluated()).toBe(0);
+    });
+  });
+
+  describe('Transposition Table', () => {
+    beforeEach(() => {
+      clearTranspositionTable();
+    });
+
+    it('should recognize transpositions in the opening', () => {
+      getBestMove(createInitialBoard(), 6);
+
+      const stats = getTranspositionStats();
+      expect(stats.probes).toBeGreaterThan(0);
+      expect(stats.hits).toBeGreaterThan(0);
+      expect(stats.hitRate).toBeGreaterThan(0);
+      expect(stats.hitRate).toBeLessThanOrEqual(1);
+    });
+
+    it('should reuse stored results when searching the same position again', () => {
+      const board = createInitialBoard();
+
+      const first = getBestMove(board, 6);
+      const firstNodes = getNodesEvaluated();
+      const second = getBestMove(board, 6);
+
+      expect(second).toEqual(first);
+      expect(getNodesEvaluated()).toBeLessThan(firstNodes);
+    });
+
+    it('should reset stats when cleared', () => {
+      getBestMove(createInitialBoard(), 4);
+
+      clearTranspositionTable();
+
+      expect(getTranspositionStats().probes).toBe(0);
+    });
+
+    it('should still find the capture with a warm table', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 4, 'black');
+      placePiece(board, 7, 0, 'black');
+
+      getBestMove(board, 6);
+      const move = getBestMove(board, 6);
+
+      expect(move!.captures.length).toBe(1);
+    });
+
+    it('should order each iteration by the previous one in iterative deepening', () => {
+      const result = iterativeDeepeningSearch(createInitialBoard(), 6, 10000);
+
+      expect(result.bestMove).not.toBeNull();
+      expect(getTranspositionStats().hits).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Quiescence Search', () => {
+    beforeEach(() => {
+      clearTranspositionTable();
+    });
+
+    it('should not take a king when the recapture wins two men', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 2, 'black', 'king');
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 6, 5, 'black');
+
+      const move = getBestMove(board, 1);
+
+      // 2,1 x 4,3 lets 5,4 jump back over both men; 2,3 x 4,1 is safe
+      expect(move!.from).toEqual({ row: 2, col: 3 });
+      expect(move!.to).toEqual({ row: 4, col: 1 });
+    });
+
+    it('should not step into a capture at the horizon', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 3, 2, 'white');
+      placePiece(board, 6, 7, 'white');
+      placePiece(board, 7, 6, 'black');
+      placePiece(board, 5, 4, 'black');
+
+      const move = getBestMove(board, 1);
+
+      // 4,3 is the more central square, but 5,4 would jump it
+      expect(move!.to).toEqual({ row: 4, col: 1 });
+    });
+
+    it('should evaluate quiet positions without extending the search', () => {
+      const board = createInitialBoard();
+
+      getBestMove(board, 1);
+
+      expect(getNodesEvaluated()).toBe(getAllValidMoves(board, 'white').length);
+    });
+  });
+
+  describe('Evaluation Weights', () => {
+    beforeEach(() => {
+      setEvaluationWeights(DEFAULT_WEIGHTS);
+      clearTranspositionTable();
+    });
+
+    it('should use the default weights until changed', () => {
+      expect(getEvaluationWeights()).toEqual(DEFAULT_WEIGHTS);
+    });
+
+    it('should score positions with the chosen weights', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 3, 'white', 'king');
+      placePiece(board, 7, 0, 'black');
+      const before = iterativeDeepeningSearch(board, 1, Infinity).score;
+
+      setEvaluationWeights({ ...DEFAULT_WEIGHTS, kingValue: 400 });
+      const after = iterativeDeepeningSearch(board, 1, Infinity).score;
+
+      expect(after).toBeGreaterThan(before);
+      setEvaluationWeights(DEFAULT_WEIGHTS);
+    });
+
+    it('should clear stored results when the weights change', () => {
+      getBestMove(createInitialBoard(), 4);
+
+      setEvaluationWeights({ ...DEFAULT_WEIGHTS, centerControl: 0 });
+      getBestMove(createInitialBoard(), 1);
+
+      expect(getTranspositionStats().hits).toBe(0);
+      setEvaluationWeights(DEFAULT_WEIGHTS);
+    });
+  });
+
+  describe('Rule Variants', () => {
+    beforeEach(() => {
+      setRules(AMERICAN_RULES);
+      clearTranspositionTable();
+    });
+
+    afterAll(() => {
+      setRules(AMERICAN_RULES);
+    });
+
+    it('should search under American rules until changed', () => {
+      expect(getRules()).toBe(AMERICAN_RULES);
+    });
+
+    it('should find captures only the variant allows', () => {
+      // A flying king takes the man from across the board
+      const board = createEmptyBoard();
+      placePiece(board, 0, 1, 'white', 'king');
+      placePiece(board, 4, 5, 'black');
+      placePiece(board, 7, 0, 'black');
+
+      expect(getBestMove(board, 4)!.captures).toEqual([]);
+
+      setRules(INTERNATIONAL_RULES);
+      expect(getBestMove(board, 4)!.captures).toEqual([{ row: 4, col: 5 }]);
+    });
+
+    it('should only use the opening book for American games', () => {
+      const start = createInitialBoard();
+      const board = simulateMove(start, getOpeningBook().lookup(start, 'black')[0].move);
+
+      setRules(RUSSIAN_RULES);
+      getBestMove(board, 2);
+
+      expect(getNodesEvaluated()).toBeGreaterThan(0);
+    });
+
+    it('should only use the endgame tablebase for American games', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 0, 1, 'white', 'king');
+      placePiece(board, 4, 3, 'black', 'king');
+      setTablebase(generateTablebase(2));
+
+      setRules(POOL_RULES);
+      getBestMove(board, 2);
+      setTablebase(null);
+
+      expect(getNodesEvaluated()).toBeGreaterThan(0);
+    });
+
+    it('should clear stored results when the rules change', () => {
+      getBestMove(createInitialBoard(), 4);
+
+      setRules(POOL_RULES);
+      getBestMove(createInitialBoard(), 1);
+
+      expect(getTranspositionStats().hits).toBe(0);
+    });
+
+    it('should search International games on the 10x10 board', () => {
+      setRules(INTERNATIONAL_RULES);
+      const board = createInitialBoard(INTERNATIONAL_BOARD);
+
+      const move = getBestMove(board, 3)!;
+
+      expect(getAllValidMoves(board, 'white', INTERNATIONAL_RULES)).toContainEqual(move);
+    });
+
+    it('should find captures beyond the eighth row of a 10x10 board', () => {
+      setRules(INTERNATIONAL_RULES);
+      const board: (Piece | null)[][] = Array.from({ length: 10 }, () => new Array(10).fill(null));
+      placePiece(board, 0, 1, 'white', 'king');
+      placePiece(board, 6, 7, 'black');
+      placePiece(board, 9, 0, 'black');
+
+      const result = iterativeDeepeningSearch(board, 3, Infinity);
+
+      expect(result.bestMove!.captures).toEqual([{ row: 6, col: 7 }]);
+      expect(result.pv[0]).toEqual(result.bestMove);
+    });
+  });
+
+  describe('iterativeDeepeningSearch', () => {
+    beforeEach(() => {
+      clearTranspositionTable();
+    });
+
+    it('should report every completed depth', () => {
+      const reported: number[] = [];
+
+      const result = iterativeDeepeningSearch(createInitialBoard(), 4, Infinity, info =>
+        reported.push(info.depth)
+      );
+
+      expect(reported).toEqual([1, 2, 3, 4]);
+      expect(result.depth).toBe(4);
+      expect(result.aborted).toBe(false);
+      expect(result.iterations.map(info => info.depth)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should report growing node counts and elapsed time', () => {
+      const { iterations } = iterativeDeepeningSearch(createInitialBoard(), 4, Infinity);
+
+      for (let i = 1; i < iterations.length; i++) {
+        expect(iterations[i].nodesEvaluated).toBeGreaterThan(iterations[i - 1].nodesEvaluated);
+        expect(iterations[i].elapsedMs).toBeGreaterThanOrEqual(iterations[i - 1].elapsedMs);
+      }
+    });
+
+    it('should return a legal principal variation starting with the best move', () => {
+      const board = createInitialBoard();
+
+      const result = iterativeDeepeningSearch(board, 4, Infinity);
+
+      expect(result.pv[0]).toEqual(result.bestMove);
+      expect(result.pv.length).toBeGreaterThan(1);
+      expect(result.pv.length).toBeLessThanOrEqual(4);
+
+      let current = board;
+      let player: 'black' | 'white' = 'white';
+      for (const move of result.pv) {
+        expect(getAllValidMoves(current, player)).toContainEqual(move);
+        current = simulateMove(current, move);
+        player = player === 'white' ? 'black' : 'white';
+      }
+    });
+
+    it('should stop mid-iteration when time runs out', () => {
+      const budget = 100;
+
+      const result = iterativeDeepeningSearch(createInitialBoard(), 30, budget);
+
+      expect(result.aborted).toBe(true);
+      expect(result.depth).toBeLessThan(30);
+      // The clock is checked every few hundred nodes, so overrun stays small
+      expect(result.elapsedMs).toBeLessThan(budget + 400);
+      expect(result.bestMove).toEqual(result.iterations[result.iterations.length - 1].bestMove);
+    });
+
+    it('should always complete the first depth', () => {
+      const result = iterativeDeepeningSearch(createInitialBoard(), 8, 0);
+
+      expect(result.depth).toBe(1);
+      expect(result.bestMove).not.toBeNull();
+    });
+
+    it('should search for Black when asked', () => {
+      const board = createInitialBoard();
+
+      const result = iterativeDeepeningSearch(board, 4, Infinity, undefined, 'black');
+
+      expect(result.pv[0]).toEqual(result.bestMove);
+      let current = board;
+      let player: 'black' | 'white' = 'black';
+      for (const move of result.pv) {
+        expect(getAllValidMoves(current, player)).toContainEqual(move);
+        current = simulateMove(current, move);
+        player = player === 'white' ? 'black' : 'white';
+      }
+    });
+
+    it('should return a forced move without searching', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 4, 'black');
+      placePiece(board, 7, 0, 'black');
+
+      const result = iterativeDeepeningSearch(board, 8, 1000);
+
+      expect(result.depth).toBe(0);
+      expect(result.bestMove!.captures.length).toBe(1);
+      expect(result.nodesEvaluated).toBe(0);
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(() => {
+      clearTranspositionTable();
+    });
+
+    it('should score the position for the side to move', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 5, 6, 'black');
+      placePiece(board, 0, 1, 'white');
+
+      const human = search(board, 'black', { depth: 3 });
+      const agatha = search(board, 'white', { depth: 3 });
+
+      expect(human.score).toBeGreaterThan(0);
+      expect(agatha.score).toBeLessThan(0);
+      expect(iterativeDeepeningSearch(board, 3, Infinity, undefined, 'black').score).toBe(-human.score);
+    });
+
+    it('should search at least one ply when asked for less', () => {
+      const board = createInitialBoard();
+
+      const result = search(board, 'white', { depth: 0 });
+
+      expect(getAllValidMoves(board, 'white')).toContainEqual(result.bestMove);
+      expect(result.stats.depth).toBe(1);
+    });
+
+    it('should return the principal variation and search stats', () => {
+      const result = search(createInitialBoard(), 'white', { depth: 3 });
+
+      expect(result.pv[0]).toEqual(result.bestMove);
+      expect(result.iterations.map(info => info.depth)).toEqual([1, 2, 3]);
+      expect(result.stats.depth).toBe(3);
+      expect(result.stats.aborted).toBe(false);
+      expect(result.stats.nodesEvaluated).toBe(getNodesEvaluated());
+      expect(result.stats.transposition.probes).toBeGreaterThan(0);
+    });
+
+    it('should report iterations scored for the side to move', () => {
+      const scores: number[] = [];
+
+      const result = search(createInitialBoard(), 'black', {
+        depth: 2,
+        onProgress: info => scores.push(info.score),
+      });
+
+      expect(scores).toEqual(result.iterations.map(info => info.score));
+      expect(scores[scores.length - 1]).toBe(result.score);
+    });
+
+    it('should answer from the opening book only when asked', () => {
+      const board = createInitialBoard();
+
+      const booked = search(board, 'black', { useBook: true });
+      const searched = search(board, 'black', { depth: 1 });
+
+      expect(booked.bookOpening).not.toBeNull();
+      expect(booked.stats.depth).toBe(0);
+      expect(searched.bookOpening).toBeNull();
+      expect(searched.stats.depth).toBe(1);
+    });
+
+    it('should find the capture for Black', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 4, 3, 'black');
+      placePiece(board, 3, 4, 'white');
+      placePiece(board, 0, 1, 'white');
+
+      const result = search(board, 'black', { depth: 4 });
+
+      expect(result.bestMove!.captures).toEqual([{ row: 3, col: 4 }]);
+      expect(result.bestMove!.to).toEqual({ row: 2, col: 5 });
+    });
+  });
+
   describe('getBestMoveWithDepth', () => {
     it('should work with lower depth', () => {
       const board = createInitialBoard();
@@ -115,6 +591,18 @@ describe('minimax.ts', () => {
       expect(move).not.toBeNull();
     });
 
+    it('should keep Black from losing a piece', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 3, 2, 'white'); // Takes a man stepping to (4, 3)
+      placePiece(board, 0, 7, 'white');
+
+      const move = getBestMoveWithDepth(board, 4, 'black');
+
+      expect(getAllValidMoves(board, 'black')).toContainEqual(move);
+      expect(move!.to).toEqual({ row: 4, col: 5 });
+    });
+
     it('should evaluate fewer nodes with lower depth', () => {
       const board = createInitialBoard();
       
@@ -129,7 +617,7 @@ describe('minimax.ts', () => {
   });
 
   describe('getPredictedResponse', () => {
-    it('should predict response to human move', () => {
+    it('should predict the response to a Black move', () => {
       const board = createInitialBoard();
       
       // Get a valid human move
@@ -137,6 +625,8 @@ describe('minimax.ts', () => {
         from: { row: 5, col: 0 },
         to: { row: 4, col: 1 },
         captures: [],
+        landings: [{ row: 4, col: 1 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -147,15 +637,26 @@ describe('minimax.ts', () => {
       expect(response!.from).toBeDefined();
     });
 
+    it('should predict the Black response to a White move', () => {
+      const board = createInitialBoard();
+      const agathaMove = getAllValidMoves(board, 'white')[0];
+
+      const response = getPredictedResponse(board, agathaMove);
+
+      expect(getAllValidMoves(simulateMove(board, agathaMove), 'black')).toContainEqual(response);
+    });
+
     it('should return null if no response possible', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 5, 2, 'black');
       // No Agatha pieces to respond
       
       const humanMove: Move = {
         from: { row: 5, col: 2 },
         to: { row: 4, col: 3 },
         captures: [],
+        landings: [{ row: 4, col: 3 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -169,30 +670,65 @@ describe('minimax.ts', () => {
     it('should return positive score for good moves', () => {
       const board = createEmptyBoard();
       // Set up winning position for Agatha
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 3, 4, 'human');
-      placePiece(board, 7, 0, 'human');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 4, 'black');
+      placePiece(board, 7, 0, 'black');
       
       // Capture move
       const captureMove: Move = {
         from: { row: 2, col: 3 },
         to: { row: 4, col: 5 },
         captures: [{ row: 3, col: 4 }],
+        landings: [{ row: 4, col: 5 }],
+        capturedTypes: ['man'],
         isPromotion: false,
       };
       
-      const score = evaluateMove(board, captureMove);
+      const score = evaluateMove(board, captureMove, 'white');
       
       // Capture should be highly valued
       expect(score).toBeDefined();
     });
+
+    it('should score the move for the side making it', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'white');
+      placePiece(board, 0, 7, 'white');
+
+      const captureMove: Move = {
+        from: { row: 5, col: 2 },
+        to: { row: 3, col: 4 },
+        captures: [{ row: 4, col: 3 }],
+        landings: [{ row: 3, col: 4 }],
+        capturedTypes: ['man'],
+        isPromotion: false,
+      };
+
+      expect(evaluateMove(board, captureMove, 'black', 2)).toBeGreaterThan(0);
+
+      // The same capture mirrored for White
+      const mirrored = createEmptyBoard();
+      placePiece(mirrored, 2, 5, 'white');
+      placePiece(mirrored, 3, 4, 'black');
+      placePiece(mirrored, 7, 0, 'black');
+      const mirroredMove: Move = {
+        ...captureMove,
+        from: { row: 2, col: 5 },
+        to: { row: 4, col: 3 },
+        captures: [{ row: 3, col: 4 }],
+        landings: [{ row: 4, col: 3 }],
+      };
+
+      expect(evaluateMove(mirrored, mirroredMove, 'white', 2)).toBeGreaterThan(0);
+    });
   });
 
   describe('getTopMoves', () => {
     it('should return requested number of moves', () => {
       const board = createInitialBoard();
       
-      const topMoves = getTopMoves(board, 'agatha', 3);
+      const topMoves = getTopMoves(board, 'white', 3);
       
       expect(topMoves.length).toBeLessThanOrEqual(3);
       expect(topMoves.length).toBeGreaterThan(0);
@@ -201,7 +737,7 @@ describe('minimax.ts', () => {
     it('should return moves sorted by score (best first)', () => {
       const board = createInitialBoard();
       
-      const topMoves = getTopMoves(board, 'agatha', 5);
+      const topMoves = getTopMoves(board, 'white', 5);
       
       for (let i = 1; i < topMoves.length; i++) {
         expect(topMoves[i - 1].score).toBeGreaterThanOrEqual(topMoves[i].score);
@@ -211,7 +747,7 @@ describe('minimax.ts', () => {
     it('should return moves with scores', () => {
       const board = createInitialBoard();
       
-      const topMoves = getTopMoves(board, 'human', 2);
+      const topMoves = getTopMoves(board, 'black', 2);
       
       topMoves.forEach(item => {
         expect(item.move).toBeDefined();
@@ -222,9 +758,9 @@ describe('minimax.ts', () => {
     it('should return empty array when no moves available', () => {
       const board = createEmptyBoard();
       // Only human pieces
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 5, 2, 'black');
       
-      const topMoves = getTopMoves(board, 'agatha', 3);
+      const topMoves = getTopMoves(board, 'white', 3);
       
       expect(topMoves).toEqual([]);
     });
@@ -234,9 +770,9 @@ describe('minimax.ts', () => {
     it('should prefer captures over simple moves', () => {
       const board = createEmptyBoard();
       // Agatha piece can move or capture
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 3, 4, 'human'); // Can capture
-      placePiece(board, 7, 0, 'human'); // Far away human
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 4, 'black'); // Can capture
+      placePiece(board, 7, 0, 'black'); // Far away human
       
       const move = getBestMove(board);
       
@@ -245,12 +781,12 @@ describe('minimax.ts', () => {
 
     it('should prefer multi-jump over single capture', () => {
       const board = createEmptyBoard();
-      placePiece(board, 0, 3, 'agatha');
+      placePiece(board, 0, 3, 'white');
       // Set up double jump opportunity
-      placePiece(board, 1, 4, 'human');
-      placePiece(board, 3, 6, 'human');
+      placePiece(board, 1, 4, 'black');
+      placePiece(board, 3, 6, 'black');
       // Another human piece to keep game going
-      placePiece(board, 7, 0, 'human');
+      placePiece(board, 7, 0, 'black');
       
       const move = getBestMove(board);
       
@@ -264,10 +800,10 @@ describe('minimax.ts', () => {
     it('should avoid losing pieces when possible', () => {
       const board = createEmptyBoard();
       // Set up where moving to certain square loses the piece
-      placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 4, 3, 'human');
-      placePiece(board, 4, 5, 'human');
-      placePiece(board, 7, 0, 'human');
+      placePiece(board, 2, 3, 'white');
+      placePiece(board, 4, 3, 'black');
+      placePiece(board, 4, 5, 'black');
+      placePiece(board, 7, 0, 'black');
       
       const move = getBestMove(board);
       
@@ -278,8 +814,8 @@ describe('minimax.ts', () => {
     it('should work toward promotion', () => {
       const board = createEmptyBoard();
       // Agatha piece near promotion
-      placePiece(board, 6, 3, 'agatha');
-      placePiece(board, 0, 1, 'human'); // Far away human
+      placePiece(board, 6, 3, 'white');
+      placePiece(board, 0, 1, 'black'); // Far away human
       
       const move = getBestMove(board);
       
@@ -318,8 +854,8 @@ describe('minimax.ts', () => {
   describe('Edge Cases', () => {
     it('should handle endgame with few pieces', () => {
       const board = createEmptyBoard();
-      placePiece(board, 3, 4, 'agatha', 'king');
-      placePiece(board, 5, 2, 'human', 'king');
+      placePiece(board, 3, 4, 'white', 'king');
+      placePiece(board, 5, 2, 'black', 'king');
       
       const move = getBestMove(board);
       
@@ -329,8 +865,8 @@ describe('minimax.ts', () => {
     it('should find winning move in winning position', () => {
       const board = createEmptyBoard();
       // Agatha can capture last human piece
-      placePiece(board, 3, 2, 'agatha');
-      placePiece(board, 4, 3, 'human');
+      placePiece(board, 3, 2, 'white');
+      placePiece(board, 4, 3, 'black');
       
       const move = getBestMove(board);
       
@@ -340,8 +876,8 @@ describe('minimax.ts', () => {
 
     it('should handle king vs man endgame', () => {
       const board = createEmptyBoard();
-      placePiece(board, 4, 3, 'agatha', 'king');
-      placePiece(board, 6, 5, 'human', 'man');
+      placePiece(board, 4, 3, 'white', 'king');
+      placePiece(board, 6, 5, 'black', 'man');
       
       const move = getBestMove(board);
       
@@ -0,0 +1,94 @@
+/**
+ * Tests for opening-book.ts - Agatha's opening book
+ */
+
+import { describe, it, expect } from 'vitest';
+import { OpeningBook, getOpeningBook } from '../src/ai/opening-book';
+import { parsePdn } from '../src/game/pdn';
+import { createInitialBoard } from '../src/game/board';
+import { simulateMove } from '../src/game/rules';
+import { Move, Piece } from '../src/types';
+
+const TWO_LINES = `
+[Opening "Old Fourteenth"]
+[Weight "3"]
+1. 11-15 23-19 2. 8-11 22-17 3. 4-8 *
+
+[Opening "Cross"]
+1. 11-15 23-18 *
+`;
+
+/**
+ * Helper replaying PDN moves from the starting position
+ */
+function play(movetext: string): (Piece | null)[][] {
+  return parsePdn(movetext).moves.reduce(
+    (board: (Piece | null)[][], move: Move) => simulateMove(board, move),
+    createInitialBoard()
+  );
+}
+
+describe('opening-book.ts', () => {
+  describe('OpeningBook', () => {
+    it('should know every position along each line', () => {
+      const book = OpeningBook.fromPdn(TWO_LINES);
+
+      // The two lines share their first position
+      expect(book.size).toBe(5);
+    });
+
+    it('should list each line continuing from a position', () => {
+      const book = OpeningBook.fromPdn(TWO_LINES);
+
+      const moves = book.lookup(play('11-15'), 'white');
+
+      expect(moves.map(m => m.opening)).toEqual(['Old Fourteenth', 'Cross']);
+      expect(moves.map(m => m.weight)).toEqual([3, 1]);
+    });
+
+    it('should separate positions by side to move', () => {
+      const book = OpeningBook.fromPdn(TWO_LINES);
+
+      expect(book.lookup(play('11-15'), 'black')).toEqual([]);
+    });
+
+    it('should return nothing once the game leaves the book', () => {
+      const book = OpeningBook.fromPdn(TWO_LINES);
+
+      expect(book.pick(play('9-14'), 'white')).toBeNull();
+    });
+
+    it('should pick lines in proportion to their weight', () => {
+      const book = OpeningBook.fromPdn(TWO_LINES);
+      const board = play('11-15');
+
+      expect(book.pick(board, 'white', () => 0)!.opening).toBe('Old Fourteenth');
+      expect(book.pick(board, 'white', () => 0.74)!.opening).toBe('Old Fourteenth');
+      expect(book.pick(board, 'white', () => 0.76)!.opening).toBe('Cross');
+    });
+
+    it('should reject illegal lines', () => {
+      expect(() => OpeningBook.fromPdn('[Opening "Broken"]\n1. 11-15 11-15 *')).toThrow();
+    });
+  });
+
+  describe('getOpeningBook', () => {
+    it('should load the bundled openings', () => {
+      const book = getOpeningBook();
+
+      expect(book.size).toBeGreaterThan(20);
+      expect(book.lookup(createInitialBoard(), 'black').length).toBeGreaterThan(0);
+    });
+
+    it('should answer the most common first move with a known reply', () => {
+      const reply = getOpeningBook().pick(play('11-15'), 'white', () => 0);
+
+      expect(reply).not.toBeNull();
+      expect(reply!.opening).toBe('Old Fourteenth');
+    });
+
+    it('should reuse the same book', () => {
+      expect(getOpeningBook()).toBe(getOpeningBook());
+    });
+  });
+});
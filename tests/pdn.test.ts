@@ -0,0 +1,304 @@
+/**
+ * Tests for pdn.ts - Portable Draughts Notation import/export
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  exportPdn,
+  movesToPdn,
+  parsePdn,
+  formatPdnMove,
+  PdnError,
+} from '../src/game/pdn';
+import { GameController } from '../src/game/game-controller';
+import { squareToPosition } from '../src/game/board';
+import { MoveRecord } from '../src/types';
+import { parseFen } from '../src/game/fen';
+import { AMERICAN_RULES, INTERNATIONAL_RULES, BRAZILIAN_RULES, RUSSIAN_RULES } from '../src/game/variants';
+
+/**
+ * Plays a sequence of numeric moves (e.g. "11-15") on a controller
+ */
+function playSquares(game: GameController, moves: string[]): void {
+  for (const text of moves) {
+    const [from, to] = text
+      .split(/[-x]/)
+      .map(square => squareToPosition(Number(square), game.board.length, game.rules.numberingOrigin)!);
+    const move = game
+      .getAllCurrentPlayerMoves()
+      .find(
+        m =>
+          m.from.row === from.row &&
+          m.from.col === from.col &&
+          m.to.row === to.row &&
+          m.to.col === to.col
+      );
+    expect(move, `move ${text}`).toBeDefined();
+    game.makeMove(move!);
+  }
+}
+
+describe('pdn.ts', () => {
+  let game: GameController;
+
+  beforeEach(() => {
+    game = new GameController();
+  });
+
+  describe('formatPdnMove', () => {
+    it('should format simple moves with a dash', () => {
+      const record: MoveRecord = {
+        moveNumber: 1,
+        player: 'black',
+        from: squareToPosition(11)!,
+        to: squareToPosition(15)!,
+        captured: false,
+        captures: [],
+        landings: [squareToPosition(15)!],
+        capturedTypes: [],
+        promoted: false,
+      };
+
+      expect(formatPdnMove(record)).toBe('11-15');
+    });
+
+    it('should list every landing square of a multi-jump', () => {
+      // Agatha king on 8 jumps 11 and 19 landing on 15 then 24
+      const record: MoveRecord = {
+        moveNumber: 1,
+        player: 'white',
+        from: squareToPosition(8)!,
+        to: squareToPosition(24)!,
+        captured: true,
+        captures: [squareToPosition(11)!, squareToPosition(19)!],
+        landings: [squareToPosition(15)!, squareToPosition(24)!],
+        capturedTypes: ['man', 'king'],
+        promoted: false,
+      };
+
+      expect(formatPdnMove(record)).toBe('8x15x24');
+    });
+  });
+
+  describe('exportPdn', () => {
+    it('should include the standard tags', () => {
+      const pdn = exportPdn(game, { Event: 'Test Match' });
+
+      expect(pdn).toContain('[Event "Test Match"]');
+      expect(pdn).toMatch(/\[Date "\d{4}\.\d{2}\.\d{2}"\]/);
+      expect(pdn).toContain('[Black "Human"]');
+      expect(pdn).toContain('[White "Agatha"]');
+      expect(pdn).toContain('[Result "*"]');
+    });
+
+    it('should number moves in Black/White pairs', () => {
+      playSquares(game, ['11-15', '22-18', '15x22']);
+
+      const pdn = exportPdn(game);
+
+      expect(pdn).toContain('1. 11-15 22-18 2. 15x22 *');
+    });
+
+    it('should report the result of a finished game', () => {
+      (game as any)._state.status = 'white_wins';
+
+      expect(exportPdn(game)).toContain('[Result "0-1"]');
+    });
+
+    it('should write the GameType tag of the rules played', () => {
+      expect(exportPdn(new GameController(null, RUSSIAN_RULES))).toContain('[GameType "25"]');
+      expect(exportPdn(game)).toContain('[GameType "21"]');
+    });
+
+    it('should number International moves on the 50 squares of the 10x10 board', () => {
+      const international = new GameController(null, INTERNATIONAL_RULES);
+      playSquares(international, ['32-28', '19-23']);
+
+      const pdn = exportPdn(international);
+
+      expect(pdn).toContain('[GameType "20"]');
+      expect(pdn).toContain('1. 32-28 19-23 *');
+    });
+
+    it('should score the result for the side the rules let move first', () => {
+      const international = new GameController(null, INTERNATIONAL_RULES);
+      (international as any)._state.status = 'white_wins';
+
+      expect(exportPdn(international)).toContain('[Result "1-0"]');
+    });
+
+    it('should number squares from White\'s back row where the rules say so', () => {
+      const russian = new GameController(null, RUSSIAN_RULES);
+      playSquares(russian, ['9-13']);
+
+      expect(russian.moveHistory[0].player).toBe('white');
+      expect(exportPdn(russian)).toContain('1. 9-13 *');
+    });
+
+    it('should wrap long movetext', () => {
+      const records: MoveRecord[] = Array.from({ length: 60 }, (_, i) => ({
+        moveNumber: Math.floor(i / 2) + 1,
+        player: i % 2 === 0 ? 'black' : 'white',
+        from: squareToPosition(11)!,
+        to: squareToPosition(15)!,
+        captured: false,
+        captures: [],
+        landings: [squareToPosition(15)!],
+        capturedTypes: [],
+        promoted: false,
+      }));
+
+      const lines = movesToPdn(records).split('\n');
+
+      lines.forEach(line => expect(line.length).toBeLessThanOrEqual(80));
+    });
+  });
+
+  describe('parsePdn', () => {
+    it('should round-trip an exported game', () => {
+      playSquares(game, ['11-15', '22-18', '15x22', '25x18', '12-16']);
+      const history = game.moveHistory;
+
+      const parsed = parsePdn(exportPdn(game));
+
+      expect(parsed.moves.length).toBe(history.length);
+      parsed.moves.forEach((move, i) => {
+        expect(move.from).toEqual(history[i].from);
+        expect(move.to).toEqual(history[i].to);
+      });
+      expect(parsed.tags.White).toBe('Agatha');
+      expect(parsed.result).toBe('*');
+    });
+
+    it('should produce moves that replay on a controller', () => {
+      const parsed = parsePdn('1. 11-15 23-19 2. 8-11 22-17 *');
+      const replay = new GameController();
+
+      for (const move of parsed.moves) {
+        expect(replay.makeMove(move)).toBe(true);
+      }
+      expect(replay.moveHistory.length).toBe(4);
+    });
+
+    it('should ignore comments, variations and annotations', () => {
+      const parsed = parsePdn(
+        '1. 11-15 {the Old Fourteenth starts here} 23-19 (22-18 15x22) 2. 8-11! 22-17?! 2-0'
+      );
+
+      expect(parsed.moves.length).toBe(4);
+      expect(parsed.result).toBe('1-0');
+    });
+
+    it('should accept move numbers glued to moves', () => {
+      const parsed = parsePdn('1.11-15 23-19 2.8-11');
+
+      expect(parsed.moves.length).toBe(3);
+    });
+
+    it('should parse captures', () => {
+      const parsed = parsePdn('1. 11-15 22-18 2. 15x22');
+
+      expect(parsed.moves[2].captures).toEqual([squareToPosition(18)]);
+    });
+
+    it('should reject a jump route that does not exist', () => {
+      expect(() => parsePdn('1. 11-15 22-18 2. 15x18x22')).toThrow(/illegal move/);
+    });
+
+    it('should reject illegal moves with the move number', () => {
+      expect(() => parsePdn('1. 11-15 22-18 2. 10-14')).toThrow(PdnError);
+      expect(() => parsePdn('1. 11-15 22-18 2. 10-14')).toThrow(/Move 2: illegal move "10-14"/);
+    });
+
+    it('should reject skipping a mandatory capture', () => {
+      expect(() => parsePdn('1. 11-15 22-18 2. 12-16')).toThrow(/illegal move/);
+    });
+
+    it('should reject invalid squares', () => {
+      expect(() => parsePdn('1. 11-45')).toThrow(/invalid square/);
+    });
+
+    it('should reject unrecognized tokens', () => {
+      expect(() => parsePdn('1. c3-d4')).toThrow(/unrecognized token/);
+    });
+
+    it('should start from the FEN tag and export it again', () => {
+      const pdn = '[SetUp "1"]\n[FEN "W:W22,K30:B1,15"]\n\n1... 22-18 2. 15x22 *';
+
+      const parsed = parsePdn(pdn);
+
+      expect(parsed.startPosition?.sideToMove).toBe('white');
+      expect(parsed.moves.length).toBe(2);
+
+      const replay = new GameController(parsed.startPosition);
+      parsed.moves.forEach(move => replay.makeMove(move));
+      const exported = exportPdn(replay);
+      expect(exported).toContain('[FEN "W:W22,K30:B1,15"]');
+      expect(exported).toContain('1... 22-18 2. 15x22');
+    });
+
+    it('should report an invalid FEN tag', () => {
+      expect(() => parsePdn('[FEN "Q:W1:B2"]')).toThrow(/invalid FEN tag/);
+    });
+
+    it('should play by the rules of the GameType tag', () => {
+      // Only a flying king can take the man from the corner
+      const movetext = '[SetUp "1"]\n[FEN "B:W15:BK4"]\n\n1. 4x22 *';
+
+      const parsed = parsePdn(`[GameType "26"]\n${movetext}`);
+
+      expect(parsed.rules).toBe(BRAZILIAN_RULES);
+      expect(parsed.moves[0].captures.length).toBe(1);
+      expect(() => parsePdn(movetext)).toThrow(/illegal move/);
+    });
+
+    it('should replay International games on the 10x10 board', () => {
+      const parsed = parsePdn('[GameType "20"]\n\n1. 32-28 19-23 2. 28x19 *');
+
+      expect(parsed.rules).toBe(INTERNATIONAL_RULES);
+      expect(parsed.moves.length).toBe(3);
+      expect(parsed.moves[2].to).toEqual(squareToPosition(19, 10));
+      expect(() => parsePdn('[GameType "20"]\n\n1. 16-21 *')).toThrow(/illegal move/);
+    });
+
+    it('should round-trip an International game', () => {
+      const lines = [
+        '1. 32-28 19-23 2. 28x19 14x23 3. 37-32 10-14 4. 41-37 5-10 5. 46-41 17-21',
+        '6. 34-29 23x34 7. 40x29 21-26 8. 31-27 11-17 9. 36-31 17-21 10. 44-40 18-23',
+        '11. 29x18 12x23 12. 27-22 21-27 13. 32x21 26x17x28 14. 33x22 13-18 15. 22x13 8x19',
+        '16. 38-33 7-12 *',
+      ];
+      const parsed = parsePdn(`[GameType "20"]\n\n${lines.join('\n')}`);
+
+      const replay = new GameController(null, parsed.rules);
+      parsed.moves.forEach(move => replay.makeMove(move));
+
+      expect(replay.moveHistory[0].player).toBe('white');
+      expect(exportPdn(replay).replace(/\s+/g, ' ')).toContain(lines.join(' '));
+    });
+
+    it('should read International setup positions on the 10x10 board', () => {
+      const parsed = parsePdn('[GameType "20"]\n[SetUp "1"]\n[FEN "B:W45:B1"]\n\n*');
+
+      expect(parsed.startPosition!.board.length).toBe(10);
+      const { row, col } = squareToPosition(45, 10)!;
+      expect(parsed.startPosition!.board[row][col]!.player).toBe('white');
+    });
+
+    it('should read GameType tags with board details', () => {
+      expect(parsePdn('[GameType "21,W,8,8,A0,0"]\n\n1. 11-15 *').rules).toBe(AMERICAN_RULES);
+      expect(parsePdn('1. 11-15 *').rules).toBe(AMERICAN_RULES);
+    });
+
+    it('should reject game types it cannot play', () => {
+      expect(() => parsePdn('[GameType "30"]\n\n*')).toThrow(/unsupported game type "30"/);
+    });
+
+    it('should read tags with escaped quotes', () => {
+      const parsed = parsePdn('[Event "The \\"Precog\\" Open"]\n[Result "1/2-1/2"]\n\n1/2-1/2');
+
+      expect(parsed.tags.Event).toBe('The "Precog" Open');
+      expect(parsed.result).toBe('1/2-1/2');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Tests for perft.ts - Move generator verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { perft, divide, formatDivide } from '../src/game/perft';
+import { createInitialBoard, getOpponent } from '../src/game/board';
+import { Bitboard, fromBoard, generateMoves, makeMove, unmakeMove } from '../src/ai/bitboard';
+import { RuleSet, AMERICAN_RULES, RULE_SETS } from '../src/game/variants';
+import { Piece, Player, BOARD_SIZE } from '../src/types';
+
+/**
+ * Helper to create an empty board
+ */
+function createEmptyBoard(): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Helper to place a piece on the board
+ */
+function placePiece(
+  board: (Piece | null)[][],
+  row: number,
+  col: number,
+  player: 'black' | 'white',
+  type: 'man' | 'king' = 'man'
+): Piece {
+  const piece: Piece = { player, type, position: { row, col } };
+  board[row][col] = piece;
+  return piece;
+}
+
+/**
+ * Helper counting leaves with the engine's bitboard generator, written independently of the rules
+ */
+function bitboardPerft(
+  bitboard: Bitboard,
+  player: Player,
+  depth: number,
+  rules: RuleSet = AMERICAN_RULES
+): number {
+  if (depth <= 0) {
+    return 1;
+  }
+  const moves = generateMoves(bitboard, player, rules);
+  if (depth === 1) {
+    return moves.length;
+  }
+
+  let nodes = 0;
+  for (const move of moves) {
+    const undo = makeMove(bitboard, move);
+    nodes += bitboardPerft(bitboard, getOpponent(player), depth - 1, rules);
+    unmakeMove(bitboard, undo);
+  }
+  return nodes;
+}
+
+/**
+ * Published American checkers perft counts from the starting position
+ */
+const START_POSITION_PERFT = [1, 7, 49, 302, 1469, 7361, 36768, 179740, 845931];
+
+/**
+ * Man with two capture routes through the same square, each ending on the king row two ways
+ */
+function createBranchingJumps(): (Piece | null)[][] {
+  const board = createEmptyBoard();
+  placePiece(board, 6, 3, 'black');
+  placePiece(board, 7, 0, 'black');
+  for (const [row, col] of [[5, 2], [5, 4], [3, 2], [3, 4], [1, 2], [1, 4]]) {
+    placePiece(board, row, col, 'white');
+  }
+  return board;
+}
+
+/**
+ * Man crowned by a capture, with another piece it could jump as a king
+ */
+function createCrowningCapture(): (Piece | null)[][] {
+  const board = createEmptyBoard();
+  placePiece(board, 2, 1, 'black');
+  placePiece(board, 6, 5, 'black');
+  placePiece(board, 1, 2, 'white');
+  placePiece(board, 1, 4, 'white');
+  placePiece(board, 3, 6, 'white', 'king');
+  return board;
+}
+
+/**
+ * King that can jump a ring of men in either direction, landing where it started
+ */
+function createCircularJump(): (Piece | null)[][] {
+  const board = createEmptyBoard();
+  placePiece(board, 6, 3, 'black', 'king');
+  placePiece(board, 7, 6, 'black');
+  for (const [row, col] of [[5, 2], [3, 2], [3, 4], [5, 4]]) {
+    placePiece(board, row, col, 'white');
+  }
+  placePiece(board, 0, 7, 'white', 'king');
+  return board;
+}
+
+/**
+ * Kings and men mixed with one forced capture among many quiet moves
+ */
+function createForcedCapture(): (Piece | null)[][] {
+  const board = createEmptyBoard();
+  placePiece(board, 5, 0, 'black');
+  placePiece(board, 5, 4, 'black', 'king');
+  placePiece(board, 6, 7, 'black');
+  placePiece(board, 4, 1, 'white');
+  placePiece(board, 2, 3, 'white', 'king');
+  placePiece(board, 1, 6, 'white');
+  return board;
+}
+
+describe('perft.ts', () => {
+  describe('perft', () => {
+    it('should count the root position at depth 0', () => {
+      expect(perft(createInitialBoard(), 'black', 0)).toBe(1);
+    });
+
+    it.each(START_POSITION_PERFT.slice(1, 8).map((nodes, i) => ({ depth: i + 1, nodes })))(
+      'should match the published count from the start at depth $depth',
+      ({ depth, nodes }) => {
+        expect(perft(createInitialBoard(), 'black', depth)).toBe(nodes);
+      }
+    );
+
+    it('should match the published count from the start on the bitboard', () => {
+      expect(bitboardPerft(fromBoard(createInitialBoard()), 'black', 8)).toBe(START_POSITION_PERFT[8]);
+    });
+
+    it('should count every route of a branching multi-jump', () => {
+      const board = createBranchingJumps();
+
+      // Two routes to the middle square, then two crowning jumps from it
+      expect(perft(board, 'black', 1)).toBe(4);
+      expect(divide(board, 'black', 1).every(entry => entry.move.captures.length === 3)).toBe(true);
+    });
+
+    it('should stop a capture when the man is crowned', () => {
+      const board = createCrowningCapture();
+
+      const entries = divide(board, 'black', 1);
+
+      expect(entries.length).toBe(1);
+      expect(entries[0].move.captures.length).toBe(1);
+      expect(entries[0].move.isPromotion).toBe(true);
+    });
+
+    it('should count both directions around a ring of men', () => {
+      const board = createCircularJump();
+
+      const entries = divide(board, 'black', 1);
+
+      expect(entries.length).toBe(2);
+      entries.forEach(entry => {
+        expect(entry.move.captures.length).toBe(4);
+        expect(entry.move.to).toEqual(entry.move.from);
+      });
+    });
+
+    it('should only count the forced capture', () => {
+      expect(perft(createForcedCapture(), 'black', 1)).toBe(1);
+    });
+
+    it.each([
+      { name: 'branching multi-jump', create: createBranchingJumps, depth: 5 },
+      { name: 'crowning capture', create: createCrowningCapture, depth: 6 },
+      { name: 'circular king jump', create: createCircularJump, depth: 6 },
+      { name: 'forced capture', create: createForcedCapture, depth: 6 },
+    ])('should agree with the bitboard generator in the $name position', ({ create, depth }) => {
+      const board = create();
+      for (let ply = 1; ply <= depth; ply++) {
+        expect(perft(board, 'black', ply)).toBe(bitboardPerft(fromBoard(board), 'black', ply));
+      }
+    });
+  });
+
+  describe('rule variants', () => {
+    it.each(Object.values(RULE_SETS))('should agree with the bitboard generator under $name rules', rules => {
+      for (const create of [createInitialBoard, createBranchingJumps, createCircularJump, createForcedCapture]) {
+        const board = create();
+        for (let ply = 1; ply <= 5; ply++) {
+          expect(perft(board, 'black', ply, rules)).toBe(bitboardPerft(fromBoard(board), 'black', ply, rules));
+        }
+      }
+    });
+
+    it('should only differ from American once captures are possible', () => {
+      for (const rules of Object.values(RULE_SETS)) {
+        expect(perft(createInitialBoard(), 'black', 3, rules)).toBe(START_POSITION_PERFT[3]);
+      }
+    });
+
+    it('should match the published International counts on the 10x10 board', () => {
+      const board = createInitialBoard(RULE_SETS.international.geometry);
+
+      expect([1, 2, 3, 4].map(depth => perft(board, 'black', depth, RULE_SETS.international))).toEqual([
+        9, 81, 658, 4265,
+      ]);
+    });
+
+    it('should write 10x10 moves on squares 1-50', () => {
+      const notations = divide(createInitialBoard(RULE_SETS.international.geometry), 'black', 1, RULE_SETS.international)
+        .map(entry => entry.notation);
+
+      expect(notations).toContain('16-21');
+      expect(notations).toContain('20-24');
+    });
+
+    it('should count every landing square of a flying king', () => {
+      // The king may land on any square beyond each man, opening more routes around the ring
+      expect(perft(createCircularJump(), 'black', 1, RULE_SETS.pool)).toBeGreaterThan(
+        perft(createCircularJump(), 'black', 1)
+      );
+    });
+  });
+
+  describe('divide', () => {
+    it('should list every root move in numeric notation', () => {
+      const notations = divide(createInitialBoard(), 'black', 1).map(entry => entry.notation);
+
+      expect(notations.sort()).toEqual(['10-14', '10-15', '11-15', '11-16', '12-16', '9-13', '9-14']);
+    });
+
+    it('should split the perft count by root move', () => {
+      const board = createInitialBoard();
+
+      const entries = divide(board, 'black', 4);
+
+      expect(entries.reduce((sum, entry) => sum + entry.nodes, 0)).toBe(START_POSITION_PERFT[4]);
+      entries.forEach(entry => expect(entry.nodes).toBeGreaterThan(0));
+    });
+
+    it('should write captures with every landing square', () => {
+      const notations = divide(createBranchingJumps(), 'black', 1).map(entry => entry.notation);
+
+      notations.forEach(notation => expect(notation).toMatch(/^\d+x\d+x\d+x\d+$/));
+    });
+
+    it('should format one line per move and the total', () => {
+      const text = formatDivide(divide(createInitialBoard(), 'black', 2));
+
+      const lines = text.split('\n');
+      expect(lines.length).toBe(8);
+      expect(lines).toContain('11-15: 7');
+      expect(lines[7]).toBe('Total: 49');
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for precog.ts - Predictions for the ghost overlay
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getPredictedLine,
+  lineToGhosts,
+  PredictionCache,
+  annotateMove,
+  classifyMoveQuality,
+  DEEP_VISION_PLIES,
+} from '../src/ai/precog';
+import { getTopMoves } from '../src/ai/minimax';
+import { createInitialBoard } from '../src/game/board';
+import { getAllValidMoves, simulateMove } from '../src/game/rules';
+import { Piece, Move, BOARD_SIZE } from '../src/types';
+
+/**
+ * Helper to create an empty board
+ */
+function createEmptyBoard(): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Helper to place a piece on the board
+ */
+function placePiece(
+  board: (Piece | null)[][],
+  row: number,
+  col: number,
+  player: 'black' | 'white',
+  type: 'man' | 'king' = 'man'
+): Piece {
+  const piece: Piece = { player, type, position: { row, col } };
+  board[row][col] = piece;
+  return piece;
+}
+
+describe('precog.ts', () => {
+  describe('getPredictedLine', () => {
+    it('should start with the candidate and alternate legal moves', () => {
+      const board = createInitialBoard();
+      const [move] = getAllValidMoves(board, 'black');
+
+      const { line } = getPredictedLine(board, move);
+
+      expect(line.length).toBe(DEEP_VISION_PLIES);
+      expect(line[0]).toEqual(move);
+      let current = board;
+      let player: 'black' | 'white' = 'black';
+      for (const step of line) {
+        expect(getAllValidMoves(current, player)).toContainEqual(step);
+        current = simulateMove(current, step);
+        player = player === 'black' ? 'white' : 'black';
+      }
+    });
+
+    it('should score a move that loses a man as bad for its side', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 5, 6, 'black');
+      placePiece(board, 3, 2, 'white'); // Takes a man stepping to (4, 3)
+      placePiece(board, 0, 7, 'white');
+      const moves = getAllValidMoves(board, 'black');
+      const blunder = moves.find(m => m.to.row === 4 && m.to.col === 3)!;
+      const safe = moves.find(m => m.to.row === 4 && m.to.col === 7)!;
+
+      const blunderLine = getPredictedLine(board, blunder, 2);
+
+      expect(blunderLine.line[1].captures).toEqual([{ row: 4, col: 3 }]);
+      expect(blunderLine.score).toBeLessThan(getPredictedLine(board, safe, 2).score);
+    });
+  });
+
+  describe('lineToGhosts', () => {
+    it('should number each step and fade deeper plies', () => {
+      const board = createInitialBoard();
+      const first = getAllValidMoves(board, 'black')[0];
+      const second = getAllValidMoves(simulateMove(board, first), 'white')[0];
+
+      const ghosts = lineToGhosts(board, [first, second]);
+
+      expect(ghosts.map(ghost => ghost.step)).toEqual([1, 2]);
+      expect(ghosts[0]).toMatchObject({ position: first.to, player: 'black' });
+      expect(ghosts[1]).toMatchObject({ position: second.to, player: 'white' });
+      expect(ghosts[1].opacity).toBeLessThan(ghosts[0].opacity);
+    });
+
+    it('should mark captured pieces as vanishing', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 4, 3, 'black');
+      placePiece(board, 3, 2, 'white', 'king');
+      const capture: Move = getAllValidMoves(board, 'white')[0];
+
+      const ghosts = lineToGhosts(board, [capture]);
+
+      expect(ghosts).toContainEqual(
+        expect.objectContaining({ position: { row: 4, col: 3 }, player: 'black', vanishing: true, step: 1 })
+      );
+      expect(ghosts).toContainEqual(
+        expect.objectContaining({ position: capture.to, player: 'white', type: 'king', step: 1 })
+      );
+    });
+
+    it('should leave the steps unnumbered when asked', () => {
+      const board = createInitialBoard();
+      const [move] = getAllValidMoves(board, 'black');
+
+      const [ghost] = lineToGhosts(board, [move], false);
+
+      expect(ghost.position).toEqual(move.to);
+      expect(ghost.step).toBeUndefined();
+    });
+  });
+
+  describe('classifyMoveQuality', () => {
+    it('should grade moves by the score they give up', () => {
+      expect(classifyMoveQuality(0)).toBe('best');
+      expect(classifyMoveQuality(15)).toBe('good');
+      expect(classifyMoveQuality(40)).toBe('inaccuracy');
+      expect(classifyMoveQuality(80)).toBe('mistake');
+      expect(classifyMoveQuality(100)).toBe('blunder');
+    });
+  });
+
+  describe('annotateMove', () => {
+    it('should call the top scored move best', () => {
+      const board = createInitialBoard();
+      const [best] = getTopMoves(board, 'black', 1);
+
+      expect(annotateMove(board, best.move)).toEqual({ quality: 'best', loss: 0, bestMove: null });
+    });
+
+    it('should call a move that drops a man a blunder and name the better move', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 5, 6, 'black');
+      placePiece(board, 3, 2, 'white'); // Takes a man stepping to (4, 3)
+      placePiece(board, 0, 7, 'white');
+      const blunder = getAllValidMoves(board, 'black').find(m => m.to.row === 4 && m.to.col === 3)!;
+
+      const annotation = annotateMove(board, blunder);
+
+      expect(annotation.quality).toBe('blunder');
+      expect(annotation.loss).toBeGreaterThanOrEqual(100);
+      expect(annotation.bestMove).not.toBeNull();
+      expect(annotation.bestMove!.to).not.toEqual(blunder.to);
+    });
+
+    it('should not judge a forced move', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 0, 'black');
+      placePiece(board, 0, 7, 'white');
+      const [move] = getAllValidMoves(board, 'black');
+
+      expect(annotateMove(board, move)).toEqual({ quality: 'good', loss: 0, bestMove: null });
+    });
+
+    it('should refuse to judge an illegal move', () => {
+      const board = createInitialBoard();
+      const [move] = getAllValidMoves(board, 'black');
+
+      expect(() => annotateMove(board, { ...move, to: { row: 3, col: 0 }, landings: [{ row: 3, col: 0 }] })).toThrow();
+    });
+  });
+
+  describe('PredictionCache', () => {
+    it('should return a stored line only for the same move, depth and position', () => {
+      const board = createInitialBoard();
+      const [move, other] = getAllValidMoves(board, 'black');
+      const prediction = { line: [move], score: 5 };
+      const cache = new PredictionCache();
+
+      cache.set('start', move, 2, prediction);
+
+      expect(cache.get('start', { ...move }, 2)).toBe(prediction);
+      expect(cache.get('start', other, 2)).toBeUndefined();
+      expect(cache.get('start', move, DEEP_VISION_PLIES)).toBeUndefined();
+      expect(cache.get('later', move, 2)).toBeUndefined();
+    });
+
+    it('should forget the lines of a previous position', () => {
+      const board = createInitialBoard();
+      const [move, other] = getAllValidMoves(board, 'black');
+      const cache = new PredictionCache();
+
+      cache.set('start', move, 2, { line: [move], score: 0 });
+      cache.set('start', other, 2, { line: [other], score: 0 });
+      cache.set('later', move, 2, { line: [move], score: 1 });
+
+      expect(cache.size).toBe(1);
+      expect(cache.get('start', other, 2)).toBeUndefined();
+      cache.clear();
+      expect(cache.size).toBe(0);
+    });
+  });
+});
@@ -3,17 +3,18 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
+import * as arrayRules from '../src/game/rules';
+import { getCaptureCount, isCapture, isSameMove } from '../src/game/rules';
 import {
-  getValidMovesForPiece,
-  getAllValidMoves,
-  isValidMove,
-  executeMove,
-  hasCaptures,
-  hasValidMoves,
-  getCaptureCount,
-  isCapture,
-  simulateMove,
-} from '../src/game/rules';
+  fromBoard,
+  toBoard,
+  generateMoves,
+  hasCapture,
+  makeMove,
+  toMove,
+  fromMove,
+  positionToIndex,
+} from '../src/ai/bitboard';
 import {
   createInitialBoard,
   getPieceAt,
@@ -21,8 +22,71 @@ import {
   cloneBoard,
   countPieces,
 } from '../src/game/board';
+import {
+  AMERICAN_RULES,
+  INTERNATIONAL_RULES,
+  RUSSIAN_RULES,
+  BRAZILIAN_RULES,
+  ITALIAN_RULES,
+  POOL_RULES,
+} from '../src/game/variants';
 import { Piece, Move, BOARD_SIZE } from '../src/types';
 
+/**
+ * The rules functions each representation is tested through
+ */
+interface RulesImplementation {
+  name: string;
+  getValidMovesForPiece: typeof arrayRules.getValidMovesForPiece;
+  getAllValidMoves: typeof arrayRules.getAllValidMoves;
+  isValidMove: typeof arrayRules.isValidMove;
+  executeMove: typeof arrayRules.executeMove;
+  hasCaptures: typeof arrayRules.hasCaptures;
+  hasValidMoves: typeof arrayRules.hasValidMoves;
+  simulateMove: typeof arrayRules.simulateMove;
+}
+
+/**
+ * The same rules played on the engine's bitboard, converting at the edges
+ */
+const bitboardRules: RulesImplementation = {
+  name: 'bitboard',
+  getValidMovesForPiece: (board, piece, rules) => {
+    const bitboard = fromBoard(board);
+    const from = positionToIndex(piece.position);
+    return generateMoves(bitboard, piece.player, rules)
+      .filter(move => move.from === from)
+      .map(move => toMove(bitboard, move));
+  },
+  getAllValidMoves: (board, player, rules) => {
+    const bitboard = fromBoard(board);
+    return generateMoves(bitboard, player, rules).map(move => toMove(bitboard, move));
+  },
+  isValidMove: (board, piece, move, rules) =>
+    bitboardRules.getValidMovesForPiece(board, piece, rules).some(m => isSameMove(m, move)),
+  executeMove: (board, move) => {
+    if (!getPieceAt(board, move.from)) {
+      return false;
+    }
+    const bitboard = fromBoard(board);
+    makeMove(bitboard, fromMove(move));
+    toBoard(bitboard).forEach((row, i) => (board[i] = row));
+    return true;
+  },
+  hasCaptures: (board, player, rules) => hasCapture(fromBoard(board), player, rules),
+  hasValidMoves: (board, player, rules) => generateMoves(fromBoard(board), player, rules).length > 0,
+  simulateMove: (board, move) => {
+    const bitboard = fromBoard(board);
+    makeMove(bitboard, fromMove(move));
+    return toBoard(bitboard);
+  },
+};
+
+const implementations: RulesImplementation[] = [
+  { ...arrayRules, name: 'array board' },
+  bitboardRules,
+];
+
 /**
  * Helper to create an empty board
  */
@@ -41,7 +105,7 @@ function placePiece(
   board: (Piece | null)[][],
   row: number,
   col: number,
-  player: 'human' | 'agatha',
+  player: 'black' | 'white',
   type: 'man' | 'king' = 'man'
 ): Piece {
   const piece: Piece = { player, type, position: { row, col } };
@@ -49,11 +113,19 @@ function placePiece(
   return piece;
 }
 
-describe('rules.ts', () => {
+describe.each(implementations)('rules.ts ($name)', ({
+  getValidMovesForPiece,
+  getAllValidMoves,
+  isValidMove,
+  executeMove,
+  hasCaptures,
+  hasValidMoves,
+  simulateMove,
+}) => {
   describe('Simple Moves', () => {
-    it('should allow human man to move diagonally forward (up)', () => {
+    it('should allow Black man to move diagonally forward (up)', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 2, 'human');
+      const piece = placePiece(board, 5, 2, 'black');
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -64,7 +136,7 @@ describe('rules.ts', () => {
 
     it('should allow Agatha man to move diagonally forward (down)', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 2, 3, 'agatha');
+      const piece = placePiece(board, 2, 3, 'white');
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -75,7 +147,7 @@ describe('rules.ts', () => {
 
     it('should not allow man to move backward', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 4, 3, 'human');
+      const piece = placePiece(board, 4, 3, 'black');
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -87,7 +159,7 @@ describe('rules.ts', () => {
 
     it('should allow king to move in all diagonal directions', () => {
       const board = createEmptyBoard();
-      const king = placePiece(board, 4, 3, 'human', 'king');
+      const king = placePiece(board, 4, 3, 'black', 'king');
       
       const moves = getValidMovesForPiece(board, king);
       
@@ -100,8 +172,8 @@ describe('rules.ts', () => {
 
     it('should not allow move to occupied square', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 2, 'human');
-      placePiece(board, 4, 3, 'human'); // Block one diagonal
+      const piece = placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'black'); // Block one diagonal
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -111,7 +183,7 @@ describe('rules.ts', () => {
 
     it('should handle edge positions correctly', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 0, 'human'); // Left edge
+      const piece = placePiece(board, 5, 0, 'black'); // Left edge
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -121,10 +193,10 @@ describe('rules.ts', () => {
   });
 
   describe('Single Captures', () => {
-    it('should allow human to capture Agatha piece forward', () => {
+    it('should allow Black to capture White piece forward', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 2, 'human');
-      placePiece(board, 4, 3, 'agatha'); // Opponent to capture
+      const piece = placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'white'); // Opponent to capture
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -134,10 +206,10 @@ describe('rules.ts', () => {
       expect(moves[0].captures[0]).toEqual({ row: 4, col: 3 });
     });
 
-    it('should allow Agatha to capture human piece forward', () => {
+    it('should allow White to capture Black piece forward', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 2, 3, 'agatha');
-      placePiece(board, 3, 4, 'human'); // Opponent to capture
+      const piece = placePiece(board, 2, 3, 'white');
+      placePiece(board, 3, 4, 'black'); // Opponent to capture
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -148,8 +220,8 @@ describe('rules.ts', () => {
 
     it('should not allow capturing own piece', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 2, 'human');
-      placePiece(board, 4, 3, 'human'); // Same team - can't capture
+      const piece = placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'black'); // Same team - can't capture
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -161,9 +233,9 @@ describe('rules.ts', () => {
 
     it('should not allow capture if landing square is occupied', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 2, 'human');
-      placePiece(board, 4, 3, 'agatha'); // Opponent
-      placePiece(board, 3, 4, 'human');  // Block landing
+      const piece = placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'white'); // Opponent
+      placePiece(board, 3, 4, 'black');  // Block landing
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -174,9 +246,9 @@ describe('rules.ts', () => {
 
     it('should allow king to capture in any direction', () => {
       const board = createEmptyBoard();
-      const king = placePiece(board, 4, 3, 'human', 'king');
-      placePiece(board, 5, 4, 'agatha'); // Below-right
-      placePiece(board, 3, 2, 'agatha'); // Above-left
+      const king = placePiece(board, 4, 3, 'black', 'king');
+      placePiece(board, 5, 4, 'white'); // Below-right
+      placePiece(board, 3, 2, 'white'); // Above-left
       
       const moves = getValidMovesForPiece(board, king);
       
@@ -188,9 +260,9 @@ describe('rules.ts', () => {
   describe('Mandatory Captures', () => {
     it('should force capture when available', () => {
       const board = createEmptyBoard();
-      const piece1 = placePiece(board, 5, 2, 'human');
-      const piece2 = placePiece(board, 5, 6, 'human'); // Another human piece (farther away)
-      placePiece(board, 4, 3, 'agatha'); // Can be captured by piece1
+      const piece1 = placePiece(board, 5, 2, 'black');
+      const piece2 = placePiece(board, 5, 6, 'black'); // Another human piece (farther away)
+      placePiece(board, 4, 3, 'white'); // Can be captured by piece1
       
       // piece1 should only have capture moves
       const moves1 = getValidMovesForPiece(board, piece1);
@@ -205,12 +277,12 @@ describe('rules.ts', () => {
 
     it('should allow any piece to capture when multiple captures available', () => {
       const board = createEmptyBoard();
-      const piece1 = placePiece(board, 5, 2, 'human');
-      const piece2 = placePiece(board, 5, 6, 'human');
-      placePiece(board, 4, 3, 'agatha'); // Can be captured by piece1
-      placePiece(board, 4, 5, 'agatha'); // Can be captured by piece2
+      const piece1 = placePiece(board, 5, 2, 'black');
+      const piece2 = placePiece(board, 5, 6, 'black');
+      placePiece(board, 4, 3, 'white'); // Can be captured by piece1
+      placePiece(board, 4, 5, 'white'); // Can be captured by piece2
       
-      const allMoves = getAllValidMoves(board, 'human');
+      const allMoves = getAllValidMoves(board, 'black');
       
       // Both pieces should be able to capture
       expect(allMoves.length).toBe(2);
@@ -221,9 +293,9 @@ describe('rules.ts', () => {
   describe('Multi-Jump Captures', () => {
     it('should allow double jump', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 7, 0, 'human');
-      placePiece(board, 6, 1, 'agatha'); // First capture
-      placePiece(board, 4, 3, 'agatha'); // Second capture
+      const piece = placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'white'); // First capture
+      placePiece(board, 4, 3, 'white'); // Second capture
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -235,20 +307,49 @@ describe('rules.ts', () => {
 
     it('should allow triple jump', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 7, 0, 'human');
-      placePiece(board, 6, 1, 'agatha'); // First capture
-      placePiece(board, 4, 3, 'agatha'); // Second capture
-      placePiece(board, 2, 5, 'agatha'); // Third capture
+      const piece = placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'white'); // First capture
+      placePiece(board, 4, 3, 'white'); // Second capture
+      placePiece(board, 2, 5, 'white'); // Third capture
       
       const moves = getValidMovesForPiece(board, piece);
       
       expect(moves.some(m => m.captures.length === 3)).toBe(true);
     });
 
+    it('should record every landing square and captured piece type', () => {
+      const board = createEmptyBoard();
+      const piece = placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'white');
+      placePiece(board, 4, 3, 'white', 'king');
+
+      const doubleJump = getValidMovesForPiece(board, piece)[0];
+
+      expect(doubleJump.landings).toEqual([{ row: 5, col: 2 }, { row: 3, col: 4 }]);
+      expect(doubleJump.capturedTypes).toEqual(['man', 'king']);
+    });
+
+    it('should distinguish routes with the same endpoints', () => {
+      // A king can go around the four pieces either way, returning home
+      const board = createEmptyBoard();
+      const piece = placePiece(board, 5, 2, 'black', 'king');
+      placePiece(board, 4, 1, 'white');
+      placePiece(board, 4, 3, 'white');
+      placePiece(board, 2, 1, 'white');
+      placePiece(board, 2, 3, 'white');
+
+      const moves = getValidMovesForPiece(board, piece).filter(m => m.captures.length === 4);
+
+      expect(moves.length).toBe(2);
+      expect(moves[0].to).toEqual(moves[1].to);
+      expect(moves[0].landings).not.toEqual(moves[1].landings);
+      moves.forEach(move => expect(move.landings[3]).toEqual(move.to));
+    });
+
     it('should stop multi-jump when piece is promoted', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 2, 3, 'human');
-      placePiece(board, 1, 4, 'agatha'); // Capture that leads to promotion
+      const piece = placePiece(board, 2, 3, 'black');
+      placePiece(board, 1, 4, 'white'); // Capture that leads to promotion
       // Even if there was another capture available after promotion,
       // the turn should end
       
@@ -259,10 +360,24 @@ describe('rules.ts', () => {
     });
   });
 
+  describe('Simple Move Landings', () => {
+    it('should land a simple move on its destination', () => {
+      const board = createEmptyBoard();
+      const piece = placePiece(board, 5, 2, 'black');
+
+      const moves = getValidMovesForPiece(board, piece);
+
+      moves.forEach(move => {
+        expect(move.landings).toEqual([move.to]);
+        expect(move.capturedTypes).toEqual([]);
+      });
+    });
+  });
+
   describe('Promotion', () => {
-    it('should mark move as promotion when human reaches row 0', () => {
+    it('should mark move as promotion when Black reaches row 0', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 1, 2, 'human');
+      const piece = placePiece(board, 1, 2, 'black');
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -271,7 +386,7 @@ describe('rules.ts', () => {
 
     it('should mark move as promotion when Agatha reaches row 7', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 6, 3, 'agatha');
+      const piece = placePiece(board, 6, 3, 'white');
       
       const moves = getValidMovesForPiece(board, piece);
       
@@ -280,7 +395,7 @@ describe('rules.ts', () => {
 
     it('should not mark king moves as promotion', () => {
       const board = createEmptyBoard();
-      const king = placePiece(board, 1, 2, 'human', 'king');
+      const king = placePiece(board, 1, 2, 'black', 'king');
       
       const moves = getValidMovesForPiece(board, king);
       
@@ -291,12 +406,14 @@ describe('rules.ts', () => {
   describe('executeMove', () => {
     it('should move piece to new position', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 5, 2, 'black');
       
       const move: Move = {
         from: { row: 5, col: 2 },
         to: { row: 4, col: 3 },
         captures: [],
+        landings: [{ row: 4, col: 3 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -305,35 +422,39 @@ describe('rules.ts', () => {
       expect(result).toBe(true);
       expect(board[5][2]).toBeNull();
       expect(board[4][3]).not.toBeNull();
-      expect(board[4][3]!.player).toBe('human');
+      expect(board[4][3]!.player).toBe('black');
     });
 
     it('should remove captured pieces', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
-      placePiece(board, 4, 3, 'agatha');
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'white');
       
       const move: Move = {
         from: { row: 5, col: 2 },
         to: { row: 3, col: 4 },
         captures: [{ row: 4, col: 3 }],
+        landings: [{ row: 3, col: 4 }],
+        capturedTypes: ['man'],
         isPromotion: false,
       };
       
       executeMove(board, move);
       
       expect(board[4][3]).toBeNull(); // Captured piece removed
-      expect(board[3][4]!.player).toBe('human');
+      expect(board[3][4]!.player).toBe('black');
     });
 
     it('should promote piece when isPromotion is true', () => {
       const board = createEmptyBoard();
-      placePiece(board, 1, 2, 'human');
+      placePiece(board, 1, 2, 'black');
       
       const move: Move = {
         from: { row: 1, col: 2 },
         to: { row: 0, col: 3 },
         captures: [],
+        landings: [{ row: 0, col: 3 }],
+        capturedTypes: [],
         isPromotion: true,
       };
       
@@ -349,6 +470,8 @@ describe('rules.ts', () => {
         from: { row: 5, col: 2 },
         to: { row: 4, col: 3 },
         captures: [],
+        landings: [{ row: 4, col: 3 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -361,8 +484,8 @@ describe('rules.ts', () => {
     it('should return all moves for all pieces of a player', () => {
       const board = createInitialBoard();
       
-      const humanMoves = getAllValidMoves(board, 'human');
-      const agathaMoves = getAllValidMoves(board, 'agatha');
+      const humanMoves = getAllValidMoves(board, 'black');
+      const agathaMoves = getAllValidMoves(board, 'white');
       
       // At start, human has 7 possible moves (pieces on row 5)
       expect(humanMoves.length).toBe(7);
@@ -371,11 +494,11 @@ describe('rules.ts', () => {
 
     it('should return only captures when captures are available', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
-      placePiece(board, 5, 4, 'human');
-      placePiece(board, 4, 3, 'agatha');
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 5, 4, 'black');
+      placePiece(board, 4, 3, 'white');
       
-      const moves = getAllValidMoves(board, 'human');
+      const moves = getAllValidMoves(board, 'black');
       
       expect(moves.every(m => m.captures.length > 0)).toBe(true);
     });
@@ -384,12 +507,14 @@ describe('rules.ts', () => {
   describe('isValidMove', () => {
     it('should return true for valid move', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 2, 'human');
+      const piece = placePiece(board, 5, 2, 'black');
       
       const move: Move = {
         from: { row: 5, col: 2 },
         to: { row: 4, col: 3 },
         captures: [],
+        landings: [{ row: 4, col: 3 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -398,68 +523,86 @@ describe('rules.ts', () => {
 
     it('should return false for invalid move', () => {
       const board = createEmptyBoard();
-      const piece = placePiece(board, 5, 2, 'human');
+      const piece = placePiece(board, 5, 2, 'black');
       
       const move: Move = {
         from: { row: 5, col: 2 },
         to: { row: 3, col: 4 }, // Invalid - not adjacent
         captures: [],
+        landings: [{ row: 3, col: 4 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
       expect(isValidMove(board, piece, move)).toBe(false);
     });
+
+    it('should check the whole route, not just where it starts and ends', () => {
+      const board = createEmptyBoard();
+      const piece = placePiece(board, 6, 3, 'black');
+      placePiece(board, 5, 2, 'white');
+      placePiece(board, 5, 4, 'white');
+      placePiece(board, 3, 2, 'white');
+      placePiece(board, 3, 4, 'white');
+      const [left, right] = getValidMovesForPiece(board, piece);
+
+      expect(isValidMove(board, piece, left)).toBe(true);
+      expect(isValidMove(board, piece, { ...left, captures: right.captures })).toBe(false);
+      expect(isValidMove(board, piece, { ...left, landings: right.landings })).toBe(false);
+    });
   });
 
   describe('hasCaptures', () => {
     it('should return true when captures are available', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
-      placePiece(board, 4, 3, 'agatha');
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'white');
       
-      expect(hasCaptures(board, 'human')).toBe(true);
+      expect(hasCaptures(board, 'black')).toBe(true);
     });
 
     it('should return false when no captures are available', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 5, 2, 'black');
       
-      expect(hasCaptures(board, 'human')).toBe(false);
+      expect(hasCaptures(board, 'black')).toBe(false);
     });
   });
 
   describe('hasValidMoves', () => {
     it('should return true when moves are available', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
+      placePiece(board, 5, 2, 'black');
       
-      expect(hasValidMoves(board, 'human')).toBe(true);
+      expect(hasValidMoves(board, 'black')).toBe(true);
     });
 
     it('should return false when no moves are available', () => {
       const board = createEmptyBoard();
       // Place pieces where human is completely blocked
       // Human piece at corner, friendly piece blocking, and at edge
-      placePiece(board, 7, 0, 'human');
-      placePiece(board, 6, 1, 'agatha'); // Opponent blocks but human can't jump (no landing space)
-      placePiece(board, 5, 2, 'agatha'); // Block the jump landing
+      placePiece(board, 7, 0, 'black');
+      placePiece(board, 6, 1, 'white'); // Opponent blocks but human can't jump (no landing space)
+      placePiece(board, 5, 2, 'white'); // Block the jump landing
       
       // Human at 7,0 can't move forward (blocked) and can't jump
       // Let's verify by checking individual piece moves
-      expect(hasValidMoves(board, 'human')).toBe(false);
+      expect(hasValidMoves(board, 'black')).toBe(false);
     });
   });
 
   describe('simulateMove', () => {
     it('should return new board without modifying original', () => {
       const board = createEmptyBoard();
-      placePiece(board, 5, 2, 'human');
-      placePiece(board, 4, 3, 'agatha');
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'white');
       
       const move: Move = {
         from: { row: 5, col: 2 },
         to: { row: 3, col: 4 },
         captures: [{ row: 4, col: 3 }],
+        landings: [{ row: 3, col: 4 }],
+        capturedTypes: ['man'],
         isPromotion: false,
       };
       
@@ -482,6 +625,8 @@ describe('rules.ts', () => {
         from: { row: 5, col: 2 },
         to: { row: 3, col: 4 },
         captures: [{ row: 4, col: 3 }],
+        landings: [{ row: 3, col: 4 }],
+        capturedTypes: ['man'],
         isPromotion: false,
       };
       
@@ -489,6 +634,8 @@ describe('rules.ts', () => {
         from: { row: 5, col: 2 },
         to: { row: 4, col: 3 },
         captures: [],
+        landings: [{ row: 4, col: 3 }],
+        capturedTypes: [],
         isPromotion: false,
       };
       
@@ -501,6 +648,8 @@ describe('rules.ts', () => {
         from: { row: 7, col: 0 },
         to: { row: 3, col: 4 },
         captures: [{ row: 6, col: 1 }, { row: 4, col: 3 }],
+        landings: [{ row: 5, col: 2 }, { row: 3, col: 4 }],
+        capturedTypes: ['man', 'man'],
         isPromotion: false,
       };
       
@@ -508,3 +657,216 @@ describe('rules.ts', () => {
     });
   });
 });
+
+describe.each(implementations)('rule variants ($name)', ({
+  getValidMovesForPiece,
+  getAllValidMoves,
+  hasCaptures,
+  executeMove,
+}) => {
+  describe('Flying Kings', () => {
+    it('should slide a king any distance along a diagonal', () => {
+      const board = createEmptyBoard();
+      const king = placePiece(board, 7, 0, 'black', 'king');
+      placePiece(board, 3, 4, 'white');
+      placePiece(board, 2, 5, 'white');
+
+      const moves = getValidMovesForPiece(board, king, INTERNATIONAL_RULES);
+
+      // Up to the piece blocking the diagonal, nearest square first
+      expect(moves.map(m => m.to)).toEqual([
+        { row: 6, col: 1 },
+        { row: 5, col: 2 },
+        { row: 4, col: 3 },
+      ]);
+      expect(getValidMovesForPiece(board, king, AMERICAN_RULES).length).toBe(1);
+    });
+
+    it('should capture from a distance and land on any square beyond', () => {
+      const board = createEmptyBoard();
+      const king = placePiece(board, 7, 0, 'black', 'king');
+      placePiece(board, 4, 3, 'white');
+
+      const moves = getValidMovesForPiece(board, king, POOL_RULES);
+
+      expect(moves.map(m => m.to)).toEqual([
+        { row: 3, col: 4 },
+        { row: 2, col: 5 },
+        { row: 1, col: 6 },
+        { row: 0, col: 7 },
+      ]);
+      moves.forEach(move => expect(move.captures).toEqual([{ row: 4, col: 3 }]));
+    });
+
+    it('should not jump two pieces in a row or a piece already captured', () => {
+      const board = createEmptyBoard();
+      const king = placePiece(board, 7, 0, 'black', 'king');
+      placePiece(board, 5, 2, 'white');
+      placePiece(board, 4, 3, 'white');
+      placePiece(board, 0, 7, 'white');
+
+      expect(getValidMovesForPiece(board, king, INTERNATIONAL_RULES).every(m => m.captures.length === 0)).toBe(true);
+      expect(hasCaptures(board, 'black', INTERNATIONAL_RULES)).toBe(false);
+    });
+
+    it('should leave jumped pieces on the board until the capture ends', () => {
+      // After taking (5,2) and (3,2) the king could only take (5,2) again to go on
+      const board = createEmptyBoard();
+      const king = placePiece(board, 6, 1, 'black', 'king');
+      placePiece(board, 5, 2, 'white');
+      placePiece(board, 3, 2, 'white');
+      placePiece(board, 0, 7, 'white');
+
+      const moves = getValidMovesForPiece(board, king, RUSSIAN_RULES);
+
+      moves.forEach(move => {
+        expect(move.captures.length).toBeLessThanOrEqual(2);
+        expect(new Set(move.captures.map(c => `${c.row},${c.col}`)).size).toBe(move.captures.length);
+      });
+      expect(moves.some(move => move.captures.length === 2)).toBe(true);
+    });
+
+    it('should make a king land where it can go on capturing', () => {
+      // Only landing on (4,3) lets the king take (3,2) as well
+      const board = createEmptyBoard();
+      const king = placePiece(board, 7, 0, 'black', 'king');
+      placePiece(board, 5, 2, 'white');
+      placePiece(board, 3, 2, 'white');
+
+      for (const rules of [RUSSIAN_RULES, POOL_RULES]) {
+        const moves = getValidMovesForPiece(board, king, rules);
+
+        expect(moves.length).toBe(2);
+        moves.forEach(move => {
+          expect(move.landings[0]).toEqual({ row: 4, col: 3 });
+          expect(move.captures.length).toBe(2);
+        });
+      }
+    });
+  });
+
+  describe('Men Capturing Backwards', () => {
+    it('should let men capture backwards but only move forwards', () => {
+      const board = createEmptyBoard();
+      const man = placePiece(board, 3, 2, 'black');
+      placePiece(board, 4, 3, 'white');
+      placePiece(board, 0, 7, 'white');
+
+      const [capture] = getValidMovesForPiece(board, man, BRAZILIAN_RULES);
+      expect(capture.to).toEqual({ row: 5, col: 4 });
+      expect(getValidMovesForPiece(board, man, AMERICAN_RULES).every(m => m.captures.length === 0)).toBe(true);
+
+      board[4][3] = null;
+      const moves = getValidMovesForPiece(board, man, BRAZILIAN_RULES);
+      expect(moves.every(m => m.to.row === 2)).toBe(true);
+    });
+  });
+
+  describe('Maximum Capture', () => {
+    /**
+     * A single capture with one man and a double capture with another
+     */
+    function createUnequalCaptures(): (Piece | null)[][] {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 0, 'black');
+      placePiece(board, 4, 1, 'white');
+      placePiece(board, 7, 4, 'black');
+      placePiece(board, 6, 5, 'white');
+      placePiece(board, 4, 5, 'white');
+      return board;
+    }
+
+    it('should only allow the capture taking the most pieces', () => {
+      for (const rules of [INTERNATIONAL_RULES, BRAZILIAN_RULES, ITALIAN_RULES]) {
+        const moves = getAllValidMoves(createUnequalCaptures(), 'black', rules);
+
+        expect(moves.length).toBe(1);
+        expect(moves[0].captures.length).toBe(2);
+      }
+    });
+
+    it('should allow any capture otherwise', () => {
+      for (const rules of [AMERICAN_RULES, RUSSIAN_RULES, POOL_RULES]) {
+        const moves = getAllValidMoves(createUnequalCaptures(), 'black', rules);
+
+        expect(moves.map(m => m.captures.length).sort()).toEqual([1, 2]);
+      }
+    });
+  });
+
+  describe('Promotion During a Capture', () => {
+    /**
+     * Man that reaches the far row with a king's capture still to take
+     */
+    function createCrowningCapture(): (Piece | null)[][] {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 1, 'black');
+      placePiece(board, 1, 2, 'white');
+      placePiece(board, 2, 5, 'white');
+      return board;
+    }
+
+    it('should crown a man at once and go on capturing as a king in Russian', () => {
+      const board = createCrowningCapture();
+
+      const moves = getAllValidMoves(board, 'black', RUSSIAN_RULES);
+
+      // Crowned on (0,3), the new king flies over (2,5) to either square beyond
+      expect(moves.map(m => m.to)).toEqual([{ row: 3, col: 6 }, { row: 4, col: 7 }]);
+      moves.forEach(move => {
+        expect(move.landings[0]).toEqual({ row: 0, col: 3 });
+        expect(move.captures).toEqual([{ row: 1, col: 2 }, { row: 2, col: 5 }]);
+        expect(move.isPromotion).toBe(true);
+      });
+
+      executeMove(board, moves[0]);
+      expect(getPieceAt(board, moves[0].to)?.type).toBe('king');
+    });
+
+    it('should end the capture crowned when a man has nothing left to take', () => {
+      const moves = getAllValidMoves(createCrowningCapture(), 'black', INTERNATIONAL_RULES);
+
+      expect(moves.length).toBe(1);
+      expect(moves[0].to).toEqual({ row: 0, col: 3 });
+      expect(moves[0].captures).toEqual([{ row: 1, col: 2 }]);
+      expect(moves[0].isPromotion).toBe(true);
+    });
+
+    it('should not crown a man that passes the far row and captures away from it', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 2, 1, 'black');
+      placePiece(board, 1, 2, 'white');
+      placePiece(board, 1, 4, 'white');
+
+      const [move] = getAllValidMoves(board, 'black', INTERNATIONAL_RULES);
+
+      expect(move.landings).toEqual([{ row: 0, col: 3 }, { row: 2, col: 5 }]);
+      expect(move.isPromotion).toBe(false);
+      executeMove(board, move);
+      expect(getPieceAt(board, { row: 2, col: 5 })?.type).toBe('man');
+    });
+  });
+
+  describe('Men Capturing Kings', () => {
+    it('should not let Italian men capture kings', () => {
+      const board = createEmptyBoard();
+      const man = placePiece(board, 5, 2, 'black');
+      placePiece(board, 4, 3, 'white', 'king');
+      placePiece(board, 0, 7, 'white');
+
+      expect(hasCaptures(board, 'black', ITALIAN_RULES)).toBe(false);
+      expect(getValidMovesForPiece(board, man, ITALIAN_RULES).every(m => m.captures.length === 0)).toBe(true);
+      expect(hasCaptures(board, 'black', AMERICAN_RULES)).toBe(true);
+    });
+
+    it('should still let Italian kings capture kings', () => {
+      const board = createEmptyBoard();
+      const king = placePiece(board, 5, 2, 'black', 'king');
+      placePiece(board, 4, 3, 'white', 'king');
+
+      const [move] = getValidMovesForPiece(board, king, ITALIAN_RULES);
+
+      expect(move.captures).toEqual([{ row: 4, col: 3 }]);
+    });
+  });
+});
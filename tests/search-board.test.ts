@@ -0,0 +1,99 @@
+/**
+ * Tests for search-board.ts - Positions the search plays moves on
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SearchBoard,
+  BitboardSearchBoard,
+  ArraySearchBoard,
+  createSearchBoard,
+} from '../src/ai/search-board';
+import { fromBoard, fromMove } from '../src/ai/bitboard';
+import { createInitialBoard, cloneBoard } from '../src/game/board';
+import { AMERICAN_RULES, INTERNATIONAL_RULES } from '../src/game/variants';
+import { Move, Player, DEFAULT_WEIGHTS, INTERNATIONAL_BOARD } from '../src/types';
+
+/**
+ * Helper playing the first move for each side in turn, returning the moves played
+ */
+function playOpening<M>(board: SearchBoard<M>, plies: number): M[] {
+  const played: M[] = [];
+  let player: Player = 'black';
+  for (let ply = 0; ply < plies; ply++) {
+    const move = board.generateMoves(player)[0];
+    board.makeMove(move);
+    played.push(move);
+    player = player === 'black' ? 'white' : 'black';
+  }
+  return played;
+}
+
+describe('search-board.ts', () => {
+  describe('createSearchBoard', () => {
+    it('should search 8x8 boards on the bitboard', () => {
+      expect(createSearchBoard(createInitialBoard(), AMERICAN_RULES)).toBeInstanceOf(BitboardSearchBoard);
+    });
+
+    it('should search 10x10 boards on the array board', () => {
+      const board = createSearchBoard(createInitialBoard(INTERNATIONAL_BOARD), INTERNATIONAL_RULES);
+
+      expect(board).toBeInstanceOf(ArraySearchBoard);
+      expect(board.size).toBe(10);
+    });
+
+    it('should not change the board it was created from', () => {
+      const board = createInitialBoard(INTERNATIONAL_BOARD);
+      const original = cloneBoard(board);
+
+      playOpening(createSearchBoard(board, INTERNATIONAL_RULES), 2);
+
+      expect(board).toEqual(original);
+    });
+  });
+
+  describe('SearchBoard', () => {
+    it('should see the same position on both boards', () => {
+      const bitboard = new BitboardSearchBoard(fromBoard(createInitialBoard()), AMERICAN_RULES);
+      const array = new ArraySearchBoard(createInitialBoard(), AMERICAN_RULES);
+
+      for (const move of playOpening(array, 5)) {
+        bitboard.makeMove(fromMove(move));
+      }
+
+      const sortMoves = (moves: Move[]) => moves.map(m => JSON.stringify(m)).sort();
+      expect(sortMoves(array.generateMoves('white'))).toEqual(
+        sortMoves(bitboard.generateMoves('white').map(m => bitboard.toMove(m)))
+      );
+      expect(array.hash('white')).toEqual(bitboard.hash('white'));
+      expect(array.evaluate(DEFAULT_WEIGHTS)).toBe(bitboard.evaluate(DEFAULT_WEIGHTS));
+    });
+
+    it('should take back moves in the order they were made', () => {
+      const board = createSearchBoard(createInitialBoard(INTERNATIONAL_BOARD), INTERNATIONAL_RULES);
+      const start = board.hash('black');
+
+      playOpening(board, 3);
+      const afterThree = board.hash('white');
+      board.makeMove(board.generateMoves('white')[0]);
+      board.unmakeMove();
+
+      expect(board.hash('white')).toEqual(afterThree);
+      board.unmakeMove();
+      board.unmakeMove();
+      board.unmakeMove();
+      expect(board.hash('black')).toEqual(start);
+    });
+
+    it('should clone the position without the moves made to reach it', () => {
+      const board = createSearchBoard(createInitialBoard(INTERNATIONAL_BOARD), INTERNATIONAL_RULES);
+      playOpening(board, 2);
+
+      const copy = board.clone();
+      copy.makeMove(copy.generateMoves('black')[0]);
+
+      expect(board.hash('black')).not.toEqual(copy.hash('black'));
+      expect(copy.generateMoves('black').length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for self-play.ts - Agatha playing herself
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  playSelfPlayGame,
+  runSelfPlay,
+  formatSelfPlayReport,
+  SelfPlaySide,
+} from '../src/ai/self-play';
+import { getEvaluationWeights, getRules } from '../src/ai/minimax';
+import { createInitialBoard } from '../src/game/board';
+import { getAllValidMoves } from '../src/game/rules';
+import { AMERICAN_RULES, RUSSIAN_RULES } from '../src/game/variants';
+import { DEFAULT_WEIGHTS } from '../src/types';
+
+/** A quick side for short test games */
+const QUICK_SIDE: SelfPlaySide = { depth: 2, weights: DEFAULT_WEIGHTS };
+
+/** A side that wants to lose its pieces (scores favor Agatha, so Black minimizes them) */
+const GIVEAWAY_SIDE: SelfPlaySide = {
+  depth: 2,
+  weights: { ...DEFAULT_WEIGHTS, pieceValue: -100, kingValue: -150 },
+};
+
+describe('self-play.ts', () => {
+  describe('playSelfPlayGame', () => {
+    it('should play a finished game with the sides taking turns', () => {
+      const game = playSelfPlayGame({ sides: { black: QUICK_SIDE, white: QUICK_SIDE } });
+
+      expect(game.result).not.toBeNull();
+      expect(game.moveHistory.length).toBeGreaterThan(0);
+      game.moveHistory.forEach((record, i) => {
+        expect(record.player).toBe(i % 2 === 0 ? 'black' : 'white');
+      });
+    });
+
+    it('should search each side with its own weights', () => {
+      const game = playSelfPlayGame({ sides: { black: GIVEAWAY_SIDE, white: QUICK_SIDE } });
+
+      expect(game.result.status).toBe('white_wins');
+    });
+
+    it('should open with random moves when asked', () => {
+      const game = playSelfPlayGame({
+        rules: RUSSIAN_RULES,
+        sides: { black: GIVEAWAY_SIDE, white: QUICK_SIDE },
+        randomPlies: 1,
+        random: () => 0,
+      });
+
+      const first = getAllValidMoves(createInitialBoard(), 'white', RUSSIAN_RULES)[0];
+      expect(game.moveHistory[0].from).toEqual(first.from);
+      expect(game.moveHistory[0].to).toEqual(first.to);
+    });
+
+    it('should play without logging every move', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      try {
+        playSelfPlayGame({ sides: { black: QUICK_SIDE, white: QUICK_SIDE } });
+
+        expect(log).not.toHaveBeenCalled();
+      } finally {
+        log.mockRestore();
+      }
+    });
+
+    it('should restore the search weights and rules', () => {
+      playSelfPlayGame({ rules: RUSSIAN_RULES, sides: { black: GIVEAWAY_SIDE, white: QUICK_SIDE } });
+
+      expect(getEvaluationWeights()).toBe(DEFAULT_WEIGHTS);
+      expect(getRules()).toBe(AMERICAN_RULES);
+    });
+  });
+
+  describe('runSelfPlay', () => {
+    it('should count every game once', () => {
+      const played: number[] = [];
+
+      const report = runSelfPlay(2, { sides: { black: GIVEAWAY_SIDE, white: QUICK_SIDE } }, (_, i) =>
+        played.push(i)
+      );
+
+      expect(played).toEqual([0, 1]);
+      expect(report).toEqual({ games: 2, blackWins: 0, whiteWins: 2, draws: 0 });
+    });
+  });
+
+  describe('formatSelfPlayReport', () => {
+    it('should report wins, losses and draws from Black\'s side', () => {
+      expect(formatSelfPlayReport({ games: 10, blackWins: 3, whiteWins: 5, draws: 2 })).toBe(
+        '10 games: Black 3 W / 5 L / 2 D'
+      );
+    });
+  });
+});
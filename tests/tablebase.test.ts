@@ -0,0 +1,260 @@
+/**
+ * Tests for tablebase.ts and tablebase-generator.ts - Endgame tablebase
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  Tablebase,
+  TablebaseResult,
+  getSignatures,
+  getSignature,
+  signatureSize,
+  positionIndex,
+  positionAt,
+  isValidPosition,
+  mirrorBitboard,
+  encodeResult,
+  decodeResult,
+  tablebaseScore,
+  TABLEBASE_WIN_SCORE,
+} from '../src/ai/tablebase';
+import { generateTablebase } from '../src/ai/tablebase-generator';
+import { Bitboard, fromBoard, generateMoves, makeMove, unmakeMove } from '../src/ai/bitboard';
+import { Piece, BOARD_SIZE } from '../src/types';
+
+/**
+ * Helper to create an empty board
+ */
+function createEmptyBoard(): (Piece | null)[][] {
+  const board: (Piece | null)[][] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    board[row] = new Array(BOARD_SIZE).fill(null);
+  }
+  return board;
+}
+
+/**
+ * Helper to place a piece on the board
+ */
+function placePiece(
+  board: (Piece | null)[][],
+  row: number,
+  col: number,
+  player: 'black' | 'white',
+  type: 'man' | 'king' = 'man'
+): Piece {
+  const piece: Piece = { player, type, position: { row, col } };
+  board[row][col] = piece;
+  return piece;
+}
+
+/**
+ * Helper to recompute a Black-to-move result from the stored results of its moves
+ */
+function resolveFromMoves(tablebase: Tablebase, position: Bitboard): TablebaseResult {
+  const moves = generateMoves(position, 'black');
+  if (moves.length === 0) {
+    return { outcome: 'loss', distance: 0 };
+  }
+
+  const children = moves.map(move => {
+    const undo = makeMove(position, move);
+    const child: TablebaseResult =
+      position.white === 0
+        ? { outcome: 'loss', distance: 0 }
+        : tablebase.probe(position, 'white')!;
+    unmakeMove(position, undo);
+    return child;
+  });
+
+  const losses = children.filter(child => child.outcome === 'loss');
+  if (losses.length > 0) {
+    return { outcome: 'win', distance: Math.min(...losses.map(child => child.distance)) + 1 };
+  }
+  if (children.every(child => child.outcome === 'win')) {
+    return { outcome: 'loss', distance: Math.max(...children.map(child => child.distance)) + 1 };
+  }
+  return { outcome: 'draw', distance: 0 };
+}
+
+// Up to three pieces solves in about a second
+const tablebase = generateTablebase(3);
+
+describe('tablebase.ts', () => {
+  describe('position indexing', () => {
+    it('should list every material split with both sides on the board', () => {
+      expect(getSignatures(2).length).toBe(4);
+      expect(getSignatures(3).length).toBe(16);
+      expect(getSignatures(4).length).toBe(41);
+    });
+
+    it('should round-trip indexes and positions', () => {
+      for (const signature of getSignatures(4)) {
+        const size = signatureSize(signature);
+        for (const index of [0, 1, Math.floor(size / 3), Math.floor(size / 2), size - 1]) {
+          const position = positionAt(index, signature);
+          expect(getSignature(position)).toEqual(signature);
+          expect(positionIndex(position, signature)).toBe(index);
+        }
+      }
+    });
+
+    it('should reject men standing on their own promotion row', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 0, 1, 'black');
+      placePiece(board, 4, 3, 'white');
+      expect(isValidPosition(fromBoard(board))).toBe(false);
+
+      board[0][1] = null;
+      placePiece(board, 7, 0, 'white');
+      placePiece(board, 5, 2, 'black');
+      expect(isValidPosition(fromBoard(board))).toBe(false);
+
+      board[7][0] = null;
+      expect(isValidPosition(fromBoard(board))).toBe(true);
+    });
+
+    it('should mirror a position into the same position for the other side', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 2, 'black');
+      placePiece(board, 1, 0, 'white', 'king');
+      const bitboard = fromBoard(board);
+
+      const mirrored = mirrorBitboard(bitboard);
+
+      const expected = createEmptyBoard();
+      placePiece(expected, 2, 5, 'white');
+      placePiece(expected, 6, 7, 'black', 'king');
+      expect(mirrored).toEqual(fromBoard(expected));
+      expect(mirrorBitboard(mirrored)).toEqual(bitboard);
+    });
+  });
+
+  describe('result encoding', () => {
+    it('should round-trip results through one byte', () => {
+      const results: TablebaseResult[] = [
+        { outcome: 'draw', distance: 0 },
+        { outcome: 'win', distance: 1 },
+        { outcome: 'win', distance: 253 },
+        { outcome: 'loss', distance: 0 },
+        { outcome: 'loss', distance: 254 },
+      ];
+
+      for (const result of results) {
+        const value = encodeResult(result);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(255);
+        expect(decodeResult(value)).toEqual(result);
+      }
+    });
+
+    it('should refuse distances too long to store', () => {
+      expect(() => encodeResult({ outcome: 'win', distance: 255 })).toThrow();
+    });
+
+    it('should score quicker wins and slower losses higher', () => {
+      expect(tablebaseScore({ outcome: 'win', distance: 3 })).toBe(TABLEBASE_WIN_SCORE - 3);
+      expect(tablebaseScore({ outcome: 'win', distance: 3 })).toBeGreaterThan(
+        tablebaseScore({ outcome: 'win', distance: 5 })
+      );
+      expect(tablebaseScore({ outcome: 'loss', distance: 6 })).toBeGreaterThan(
+        tablebaseScore({ outcome: 'loss', distance: 2 })
+      );
+      expect(tablebaseScore({ outcome: 'draw', distance: 0 })).toBe(0);
+    });
+  });
+
+  describe('generation', () => {
+    it('should agree with the results of every position\'s moves', () => {
+      for (const signature of getSignatures(3)) {
+        const table = tablebase.getTable(signature)!;
+        for (let index = 0; index < table.length; index++) {
+          const position = positionAt(index, signature);
+          if (isValidPosition(position)) {
+            expect(decodeResult(table[index])).toEqual(resolveFromMoves(tablebase, position));
+          }
+        }
+      }
+    });
+
+    it('should win two kings against one', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 7, 0, 'black', 'king');
+      placePiece(board, 6, 1, 'black', 'king');
+      placePiece(board, 0, 7, 'white', 'king');
+
+      const result = tablebase.probe(fromBoard(board), 'black')!;
+
+      expect(result.outcome).toBe('win');
+      expect(result.distance).toBeGreaterThan(5);
+    });
+
+    it('should see lone kings in the double corners as a draw', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 7, 6, 'black', 'king');
+      placePiece(board, 0, 1, 'white', 'king');
+
+      expect(tablebase.probe(fromBoard(board), 'black')).toEqual({ outcome: 'draw', distance: 0 });
+      expect(tablebase.probe(fromBoard(board), 'white')).toEqual({ outcome: 'draw', distance: 0 });
+    });
+
+    it('should catch a lone king in the single corner', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 7, 0, 'black', 'king');
+      placePiece(board, 0, 7, 'white', 'king');
+
+      expect(tablebase.probe(fromBoard(board), 'black')!.outcome).toBe('win');
+    });
+
+    it('should report a blocked side as lost', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 7, 0, 'white', 'king');
+      placePiece(board, 6, 1, 'black');
+      placePiece(board, 5, 2, 'black');
+
+      expect(tablebase.probe(fromBoard(board), 'white')).toEqual({ outcome: 'loss', distance: 0 });
+    });
+  });
+
+  describe('Tablebase', () => {
+    it('should look up White to move through the mirrored position', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 2, 'black', 'king');
+      placePiece(board, 4, 5, 'black', 'king');
+      placePiece(board, 2, 3, 'white', 'king');
+      const bitboard = fromBoard(board);
+
+      expect(tablebase.probe(bitboard, 'white')).toEqual(
+        tablebase.probe(mirrorBitboard(bitboard), 'black')
+      );
+    });
+
+    it('should not cover positions with too many pieces or a side missing', () => {
+      const board = createEmptyBoard();
+      placePiece(board, 5, 2, 'black', 'king');
+      placePiece(board, 4, 5, 'black', 'king');
+      expect(tablebase.probe(fromBoard(board), 'white')).toBeNull();
+
+      placePiece(board, 2, 3, 'white', 'king');
+      placePiece(board, 1, 0, 'white', 'king');
+      expect(tablebase.probe(fromBoard(board), 'white')).toBeNull();
+    });
+
+    it('should round-trip through the binary format', () => {
+      const loaded = Tablebase.parse(tablebase.serialize());
+
+      expect(loaded.maxPieces).toBe(3);
+      expect(loaded.size).toBe(tablebase.size);
+      for (const signature of getSignatures(3)) {
+        expect(loaded.getTable(signature)).toEqual(tablebase.getTable(signature));
+      }
+    });
+
+    it('should reject data that is not a tablebase', () => {
+      expect(() => Tablebase.parse(new ArrayBuffer(16))).toThrow('Not an endgame tablebase file');
+
+      const truncated = tablebase.serialize().slice(0, 1000);
+      expect(() => Tablebase.parse(truncated)).toThrow('Corrupt endgame tablebase file');
+    });
+  });
+});
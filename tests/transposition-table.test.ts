@@ -0,0 +1,87 @@
+/**
+ * Tests for transposition-table.ts - Search result cache
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TranspositionTable } from '../src/ai/transposition-table';
+import { ZobristHash } from '../src/ai/zobrist';
+import { Move } from '../src/types';
+
+const MOVE: Move = {
+  from: { row: 5, col: 0 },
+  to: { row: 4, col: 1 },
+  captures: [],
+  landings: [{ row: 4, col: 1 }],
+  capturedTypes: [],
+  isPromotion: false,
+};
+
+describe('TranspositionTable', () => {
+  let table: TranspositionTable;
+
+  beforeEach(() => {
+    table = new TranspositionTable(16);
+  });
+
+  it('should require a power of two size', () => {
+    expect(() => new TranspositionTable(100)).toThrow(/power of two/);
+    expect(table.size).toBe(16);
+  });
+
+  it('should return stored entries', () => {
+    const hash: ZobristHash = { low: 3, high: 7 };
+
+    table.store(hash, 4, 120, 'lower', MOVE);
+
+    expect(table.probe(hash)).toMatchObject({ depth: 4, score: 120, bound: 'lower', bestMove: MOVE });
+  });
+
+  it('should not confuse positions sharing a slot', () => {
+    table.store({ low: 3, high: 7 }, 4, 120, 'exact', MOVE);
+
+    expect(table.probe({ low: 3 + 16, high: 7 })).toBeNull();
+    expect(table.probe({ low: 3, high: 8 })).toBeNull();
+  });
+
+  it('should keep deeper entries from the current search on collision', () => {
+    table.store({ low: 3, high: 1 }, 6, 10, 'exact', MOVE);
+    table.store({ low: 3 + 16, high: 2 }, 2, 20, 'exact', null);
+
+    expect(table.probe({ low: 3, high: 1 })?.score).toBe(10);
+  });
+
+  it('should let a new search replace older entries', () => {
+    table.store({ low: 3, high: 1 }, 6, 10, 'exact', MOVE);
+    table.newSearch();
+    table.store({ low: 3 + 16, high: 2 }, 2, 20, 'exact', null);
+
+    expect(table.probe({ low: 3 + 16, high: 2 })?.score).toBe(20);
+  });
+
+  it('should always update the same position', () => {
+    table.store({ low: 5, high: 1 }, 6, 10, 'exact', MOVE);
+    table.store({ low: 5, high: 1 }, 2, 30, 'upper', null);
+
+    expect(table.probe({ low: 5, high: 1 })?.score).toBe(30);
+  });
+
+  it('should track probes, hits and cutoffs', () => {
+    table.store({ low: 1, high: 1 }, 1, 0, 'exact', null);
+    table.probe({ low: 1, high: 1 });
+    table.probe({ low: 2, high: 1 });
+    table.recordCutoff();
+
+    expect(table.getStats()).toEqual({ probes: 2, hits: 1, cutoffs: 1, hitRate: 0.5 });
+
+    table.newSearch();
+    expect(table.getStats().probes).toBe(0);
+  });
+
+  it('should forget everything when cleared', () => {
+    table.store({ low: 1, high: 1 }, 1, 0, 'exact', null);
+
+    table.clear();
+
+    expect(table.probe({ low: 1, high: 1 })).toBeNull();
+  });
+});
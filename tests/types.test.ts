@@ -11,6 +11,9 @@ import {
   isPlayableSquare,
   BOARD_SIZE,
   INITIAL_PIECE_COUNT,
+  STANDARD_BOARD,
+  INTERNATIONAL_BOARD,
+  getInitialPieceCount,
   AI_SEARCH_DEPTH,
   DEFAULT_WEIGHTS,
 } from '../src/types';
@@ -71,6 +74,11 @@ describe('types.ts utility functions', () => {
       expect(isValidPosition({ row: -1, col: -1 })).toBe(false);
       expect(isValidPosition({ row: 10, col: 10 })).toBe(false);
     });
+
+    it('should check positions against the given board size', () => {
+      expect(isValidPosition({ row: 9, col: 8 }, 10)).toBe(true);
+      expect(isValidPosition({ row: 10, col: 0 }, 10)).toBe(false);
+    });
   });
 
   describe('isPlayableSquare', () => {
@@ -114,6 +122,11 @@ describe('types.ts utility functions', () => {
       expect(INITIAL_PIECE_COUNT).toBe(12);
     });
 
+    it('should count the starting pieces of each board', () => {
+      expect(getInitialPieceCount(STANDARD_BOARD)).toBe(INITIAL_PIECE_COUNT);
+      expect(getInitialPieceCount(INTERNATIONAL_BOARD)).toBe(20);
+    });
+
     it('should have AI search depth defined', () => {
       expect(AI_SEARCH_DEPTH).toBe(8);
     });
@@ -0,0 +1,62 @@
+/**
+ * Tests for variants.ts - Rule sets
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RULE_SETS,
+  DEFAULT_VARIANT,
+  AMERICAN_RULES,
+  INTERNATIONAL_RULES,
+  RUSSIAN_RULES,
+  ITALIAN_RULES,
+  isRuleVariant,
+  getRuleSet,
+  getRuleSetForGameType,
+} from '../src/game/variants';
+
+describe('variants.ts', () => {
+  it('should key every rule set by its own variant', () => {
+    for (const [variant, rules] of Object.entries(RULE_SETS)) {
+      expect(rules.variant).toBe(variant);
+      expect(getRuleSet(rules.variant)).toBe(rules);
+    }
+  });
+
+  it('should play American checkers by default', () => {
+    expect(getRuleSet(DEFAULT_VARIANT)).toBe(AMERICAN_RULES);
+  });
+
+  it('should give every rule set its own PDN game type', () => {
+    const gameTypes = Object.values(RULE_SETS).map(rules => rules.pdnGameType);
+
+    expect(new Set(gameTypes).size).toBe(gameTypes.length);
+  });
+
+  it('should play International draughts on the 10x10 board and the rest on 8x8', () => {
+    for (const rules of Object.values(RULE_SETS)) {
+      expect(rules.geometry.size).toBe(rules === INTERNATIONAL_RULES ? 10 : 8);
+    }
+    expect(INTERNATIONAL_RULES.geometry.startingRows).toBe(4);
+  });
+
+  it('should recognize saved variant names', () => {
+    expect(isRuleVariant('russian')).toBe(true);
+    expect(isRuleVariant('turkish')).toBe(false);
+    expect(isRuleVariant('toString')).toBe(false);
+    expect(isRuleVariant(null)).toBe(false);
+  });
+
+  describe('getRuleSetForGameType', () => {
+    it('should find the rule set of a game type', () => {
+      expect(getRuleSetForGameType('21')).toBe(AMERICAN_RULES);
+      expect(getRuleSetForGameType('25')).toBe(RUSSIAN_RULES);
+      expect(getRuleSetForGameType('22,W,8,8,A0,0')).toBe(ITALIAN_RULES);
+    });
+
+    it('should return null for game types without a rule set', () => {
+      expect(getRuleSetForGameType('30')).toBeNull();
+      expect(getRuleSetForGameType('checkers')).toBeNull();
+    });
+  });
+});
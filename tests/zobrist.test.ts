@@ -0,0 +1,89 @@
+/**
+ * Tests for zobrist.ts - Position hashing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeZobristHash, computeBitboardHash, hashesEqual } from '../src/ai/zobrist';
+import { fromBoard } from '../src/ai/bitboard';
+import { createInitialBoard, cloneBoard } from '../src/game/board';
+import { getAllValidMoves, simulateMove } from '../src/game/rules';
+import { Piece, Move, positionsEqual } from '../src/types';
+
+/**
+ * Helper to find a legal move by its endpoints
+ */
+function findMove(board: (Piece | null)[][], player: 'black' | 'white', from: [number, number], to: [number, number]): Move {
+  const move = getAllValidMoves(board, player).find(
+    m =>
+      positionsEqual(m.from, { row: from[0], col: from[1] }) &&
+      positionsEqual(m.to, { row: to[0], col: to[1] })
+  );
+  expect(move).toBeDefined();
+  return move!;
+}
+
+describe('zobrist.ts', () => {
+  it('should hash identical positions identically', () => {
+    const a = computeZobristHash(createInitialBoard(), 'black');
+    const b = computeZobristHash(createInitialBoard(), 'black');
+
+    expect(hashesEqual(a, b)).toBe(true);
+  });
+
+  it('should produce unsigned 32-bit halves', () => {
+    const hash = computeZobristHash(createInitialBoard(), 'white');
+
+    for (const half of [hash.low, hash.high]) {
+      expect(Number.isInteger(half)).toBe(true);
+      expect(half).toBeGreaterThanOrEqual(0);
+      expect(half).toBeLessThan(2 ** 32);
+    }
+  });
+
+  it('should depend on the side to move', () => {
+    const board = createInitialBoard();
+
+    expect(
+      hashesEqual(computeZobristHash(board, 'black'), computeZobristHash(board, 'white'))
+    ).toBe(false);
+  });
+
+  it('should distinguish men from kings', () => {
+    const board = createInitialBoard();
+    const crowned = cloneBoard(board);
+    crowned[5][0]!.type = 'king';
+
+    expect(
+      hashesEqual(computeZobristHash(board, 'black'), computeZobristHash(crowned, 'black'))
+    ).toBe(false);
+  });
+
+  it('should match positions reached by different move orders', () => {
+    let first = createInitialBoard();
+    first = simulateMove(first, findMove(first, 'black', [5, 0], [4, 1]));
+    first = simulateMove(first, findMove(first, 'white', [2, 1], [3, 0]));
+    first = simulateMove(first, findMove(first, 'black', [5, 6], [4, 7]));
+
+    let second = createInitialBoard();
+    second = simulateMove(second, findMove(second, 'black', [5, 6], [4, 7]));
+    second = simulateMove(second, findMove(second, 'white', [2, 1], [3, 0]));
+    second = simulateMove(second, findMove(second, 'black', [5, 0], [4, 1]));
+
+    expect(
+      hashesEqual(computeZobristHash(first, 'white'), computeZobristHash(second, 'white'))
+    ).toBe(true);
+  });
+
+  it('should hash a bitboard like the same array board', () => {
+    let board = createInitialBoard();
+    board = simulateMove(board, findMove(board, 'black', [5, 0], [4, 1]));
+    board[0][1]!.type = 'king';
+
+    expect(computeBitboardHash(fromBoard(board), 'white')).toEqual(
+      computeZobristHash(board, 'white')
+    );
+    expect(computeBitboardHash(fromBoard(board), 'black')).toEqual(
+      computeZobristHash(board, 'black')
+    );
+  });
+});
@@ -5,11 +5,14 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['tests/**/*.test.ts'],
+    benchmark: {
+      include: ['tests/**/*.bench.ts'],
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'html'],
       include: ['src/**/*.ts'],
-      exclude: ['src/main.ts', 'src/ui/renderer.ts', 'src/ui/sound.ts'],
+      exclude: ['src/main.ts', 'src/ui/renderer.ts', 'src/ui/sound.ts', 'src/ai/engine-worker.ts'],
     },
   },
   resolve: {